@@ -0,0 +1,232 @@
+import { existsSync } from "node:fs";
+import { config, envFilePath, startupConfigIssues, formatConfigIssue } from "./config.js";
+import { compileMonitorRules, type MonitorRule } from "./services/monitor-rules.js";
+import { resolveSkillPath } from "./services/claude-cli.js";
+import { inspectMcpServers } from "./services/mcp-config.js";
+
+type Mark = "ok" | "off" | "warn" | "error";
+
+const MARKS: Record<Mark, string> = { ok: "✓", off: "·", warn: "!", error: "✗" };
+
+function line(mark: Mark, text: string): string {
+  return `  ${MARKS[mark]} ${text}`;
+}
+
+function list(values: string[]): string {
+  return values.length > 0 ? values.join(", ") : "(none)";
+}
+
+/** "one:pay-ops-production" → "pay-ops-production" (same prefixes detectAndLoadSkill accepts) */
+function skillName(skill: string): string {
+  return skill.replace(/^(?:one:|skill\s+)/i, "");
+}
+
+/** "process-taxes (5 / 120 min)" for patterns that override the rule threshold */
+function taskPatternList(rule: MonitorRule): string {
+  return list(
+    (rule.taskPatterns ?? []).map((tp) => {
+      if (typeof tp === "string") return tp;
+      const overrides = [
+        tp.count !== undefined || tp.windowMs !== undefined
+          ? `${tp.count ?? rule.threshold?.count} / ${Math.round((tp.windowMs ?? rule.threshold?.windowMs ?? 0) / 60000)} min`
+          : "",
+        tp.weight !== undefined ? `weight ${tp.weight}` : "",
+      ].filter(Boolean);
+      return overrides.length > 0 ? `${tp.pattern} (${overrides.join(", ")})` : tp.pattern;
+    })
+  );
+}
+
+function featureLines(rules: MonitorRule[] | null): string[] {
+  const { channels, budgets, cliPool } = config;
+  const rule = (name: string) => rules?.find((r) => r.name === name);
+  const pagerduty = rule("pagerduty");
+  const delay = rule("airflow-delay");
+  const custom = rules?.filter((r) => r.name !== "pagerduty" && r.name !== "airflow-delay") ?? [];
+
+  const budgetParts = [
+    budgets.userDailyUsd !== null ? `user/day $${budgets.userDailyUsd}` : "",
+    budgets.userMonthlyUsd !== null ? `user/month $${budgets.userMonthlyUsd}` : "",
+    budgets.channelDailyUsd !== null ? `channel/day $${budgets.channelDailyUsd}` : "",
+    budgets.channelMonthlyUsd !== null ? `channel/month $${budgets.channelMonthlyUsd}` : "",
+    ...Object.entries(budgets.workflowDailyUsd).map(([k, v]) => `${k}/day $${v}`),
+    ...Object.entries(budgets.workflowMonthlyUsd).map(([k, v]) => `${k}/month $${v}`),
+  ].filter(Boolean);
+  const poolCaps = Object.entries(cliPool.maxPerWorkflow).map(([k, v]) => `${k} ${v}`);
+
+  return [
+    line("ok", `DM + @mention sessions — model ${config.discussModel}, timeout ${config.discussCliTimeoutMs / 1000}s`),
+    pagerduty
+      ? line("ok", `PagerDuty alert monitor — #${list(pagerduty.channels)}, skill ${pagerduty.skill}, model ${pagerduty.model ?? config.alertModel}`)
+      : line("off", "PagerDuty alert monitor — disabled"),
+    channels.monitor.disabled.length > 0 ? line("off", `  disabled channels: #${list(channels.monitor.disabled)}`) : "",
+    delay
+      ? line(
+          "ok",
+          `Airflow delay monitor — #${list(delay.channels)}, tasks ${taskPatternList(delay)}, ` +
+            `${delay.threshold?.count ?? 1} alerts / ${Math.round((delay.threshold?.windowMs ?? 0) / 60000)} min sliding` +
+            (delay.threshold?.minSpanMs ? `, min span ${Math.round(delay.threshold.minSpanMs / 60000)} min` : "") +
+            (delay.threshold?.rate ? `, rate x${delay.threshold.rate.factor} / ${Math.round(delay.threshold.rate.windowMs / 60000)} min` : "") +
+            `, skill ${delay.skill}`
+        )
+      : line("off", "Airflow delay monitor — disabled (no DELAY_ALERT_TASK_PATTERNS)"),
+    channels.monitorDelay.disabled.length > 0 ? line("off", `  disabled channels: #${list(channels.monitorDelay.disabled)}`) : "",
+    ...custom.map((r) => line("ok", `Monitor rule "${r.name}" — ${r.action}, #${list(r.channels)}, skill ${r.skill}`)),
+    config.pagerdutyApiToken && config.pagerdutyFromEmail
+      ? line(
+          "ok",
+          `PagerDuty API — ${config.pagerdutyApiUrl}, acknowledgement + !pd commands as ${config.pagerdutyFromEmail}` +
+            `${config.pagerdutyPostNotes ? ", report notes" : ""}`
+        )
+      : line("off", "PagerDuty API — not configured"),
+    config.pagerdutyWebhookSecret
+      ? line(
+          "ok",
+          `PagerDuty webhook — POST /webhooks/pagerduty, services ${list(Object.entries(config.pagerdutyWebhookChannels).map(([k, v]) => `${k} → ${v}`))}`
+        )
+      : line("off", "PagerDuty webhook — no PAGERDUTY_WEBHOOK_SECRET"),
+    config.pagerdutyApiToken && config.pagerdutySyncIntervalMs > 0
+      ? line("ok", `PagerDuty incident sync — every ${config.pagerdutySyncIntervalMs / 1000}s`)
+      : line("off", "PagerDuty incident sync — disabled"),
+    config.alertClusterWindowMs > 0
+      ? line(
+          "ok",
+          `Incident clustering — alerts within ${Math.round(config.alertClusterWindowMs / 60000)} min scoring >= ${config.alertClusterThreshold} share one investigation`
+        )
+      : line("off", "Incident clustering — disabled (ALERT_CLUSTER_WINDOW_MS=0)"),
+    config.priorIncidentsCount > 0
+      ? line("ok", `Prior incidents — up to ${config.priorIncidentsCount} similar reports from the last ${config.priorIncidentsMaxAgeDays} days per investigation`)
+      : line("off", "Prior incidents — disabled (PRIOR_INCIDENTS_COUNT=0)"),
+    line("ok", `Postmortems — !postmortem / POST /postmortem, model ${config.postmortemModel}`),
+    config.airflowApiUrl
+      ? line(
+          "ok",
+          `Airflow API — ${config.airflowApiUrl} (${config.airflowApiToken ? "token" : config.airflowUsername ? "basic auth" : "no auth"}), ` +
+            `medians over ${config.airflowHistoryRuns} runs, !airflow commands`
+        )
+      : line("off", "Airflow API — no AIRFLOW_API_URL (delay investigations get no DAG context)"),
+    channels.dailySummary.length > 0
+      ? line(
+          "ok",
+          `Daily summary — ${config.dailySummaryTime} ${config.dailySummaryTimezone || "server time"}, ` +
+            (config.dailySummarySinceLast
+              ? `since last summary (max ${config.dailySummaryMaxLookbackHours}h)`
+              : `last ${config.dailySummaryLookbackHours}h`) +
+            `, model ${config.dailySummaryModel}, #${list(channels.dailySummary.map((c) => c.name))}` +
+            (config.dailySummaryTemplatesDir ? `, templates in ${config.dailySummaryTemplatesDir}` : "") +
+            `, long threads ${config.dailySummaryThreadSummaryModel ? `pre-summarized by ${config.dailySummaryThreadSummaryModel}` : "truncated"}` +
+            ` → ${config.dailySummaryTargets.join(", ")}`
+        )
+      : line("off", "Daily summary — no channels"),
+    config.weeklySummaryDay && channels.dailySummary.length > 0
+      ? line(
+          "ok",
+          `Weekly summary — ${config.weeklySummaryDay} ${config.weeklySummaryTime}, model ${config.weeklySummaryModel} → ` +
+            (config.weeklySummaryTargets.length > 0 ? config.weeklySummaryTargets : config.dailySummaryTargets).join(", ")
+        )
+      : line("off", "Weekly summary — no WEEKLY_SUMMARY_DAY"),
+    line("ok", `Daily restart — ${config.dailyRestartHour}:00`),
+    line(
+      "ok",
+      `Scheduled jobs — !schedule / /jobs, timezone ${config.schedulerTimezone || "server"}, model ${config.schedulerModel}, ` +
+        (config.schedulerCatchUpHours > 0 ? `catch-up within ${config.schedulerCatchUpHours}h` : "no catch-up")
+    ),
+    config.geminiApiKey ? line("ok", "Gemini (\"use gemini\")") : line("off", "Gemini — no GEMINI_API_KEY"),
+    config.dailySummaryPersonalChannels.length > 0
+      ? line("ok", `Personal channel reading (xoxc/xoxd) — #${list(config.dailySummaryPersonalChannels)}; other channels as the bot`)
+      : line("off", "Personal channel reading — channels are read as the bot"),
+    budgetParts.length > 0
+      ? line("ok", `Budgets — ${budgetParts.join(", ")} (warn at ${Math.round(budgets.warnRatio * 100)}%)`)
+      : line("off", "Budgets — unlimited"),
+    line("ok", `CLI pool — ${cliPool.maxConcurrent} concurrent${poolCaps.length > 0 ? ` (${poolCaps.join(", ")})` : ""}`),
+    config.configWatch
+      ? line("ok", "Config hot reload — watching .env and rules file")
+      : line("off", "Config hot reload — file watcher off (POST /config/reload and !reload still work)"),
+  ].filter(Boolean);
+}
+
+/**
+ * Print a full configuration diagnostic (`--check-config`): validation issues,
+ * configured features, skill resolution and MCP servers. Returns the exit code.
+ */
+export function runConfigCheck(): number {
+  const out: string[] = [];
+  let errors = 0;
+  let warnings = 0;
+  // Settings and rule errors stop startup; missing skills only break the workflows using them
+  let blocking = 0;
+
+  out.push("EnzoBot configuration check", "");
+  out.push(`Env file: ${envFilePath}${existsSync(envFilePath) ? "" : " (not found — using process environment only)"}`);
+  out.push(`Repo path: ${config.paymentsRepoPath}`, "");
+
+  out.push("Settings:");
+  if (startupConfigIssues.length === 0) out.push(line("ok", "all settings valid"));
+  for (const issue of startupConfigIssues) {
+    if (issue.level === "error") {
+      errors++;
+      blocking++;
+    } else {
+      warnings++;
+    }
+    out.push(line(issue.level === "error" ? "error" : "warn", formatConfigIssue(issue)));
+  }
+  out.push("");
+
+  let rules: MonitorRule[] | null = null;
+  out.push("Monitor rules:");
+  try {
+    rules = compileMonitorRules(config);
+    out.push(line("ok", rules.length > 0 ? list(rules.map((r) => r.name)) : "no active rules"));
+  } catch (err) {
+    errors++;
+    blocking++;
+    out.push(line("error", (err as Error).message));
+  }
+  out.push("");
+
+  out.push("Features:", ...featureLines(rules), "");
+
+  // Skills used by active rules must resolve; the fallbacks are only needed by manual triggers
+  const ruleSkills = new Set((rules ?? []).map((r) => r.skill));
+  const skills = new Set([...ruleSkills, config.alertSkill, config.delayAlertSkill]);
+  out.push("Skills:");
+  for (const skill of skills) {
+    const resolved = resolveSkillPath(skillName(skill), config.paymentsRepoPath);
+    if (resolved) {
+      out.push(line("ok", `${skill} → ${resolved.skillPath}`));
+    } else if (ruleSkills.has(skill)) {
+      errors++;
+      out.push(line("error", `${skill} — no SKILL.md in project or plugin cache (used by an active rule)`));
+    } else {
+      warnings++;
+      out.push(line("warn", `${skill} — no SKILL.md in project or plugin cache`));
+    }
+  }
+  out.push("");
+
+  const mcp = inspectMcpServers();
+  out.push(`MCP servers (${config.claudeConfigPath}):`);
+  if (mcp.skipped) {
+    warnings++;
+    out.push(line("warn", `${mcp.skipped} — detection skipped`));
+  }
+  for (const server of mcp.servers) {
+    if (server.status === "missing") {
+      warnings++;
+      out.push(line("warn", `${server.name} — not configured for the project`));
+    } else {
+      out.push(line("ok", `${server.name}${server.status === "disabled" ? " — disabled in project, will be force-enabled" : ""}`));
+    }
+  }
+  out.push("");
+
+  const verdict = blocking > 0
+    ? "the bot will refuse to start"
+    : errors > 0
+      ? "the bot will start, but the affected workflows will fail"
+      : "OK to start";
+  out.push(`${errors} error(s), ${warnings} warning(s) — ${verdict}`);
+  process.stdout.write(out.join("\n") + "\n");
+  return errors > 0 ? 1 : 0;
+}
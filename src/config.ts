@@ -1,123 +1,652 @@
-import "dotenv/config";
+import dotenv from "dotenv";
+import { existsSync, readFileSync } from "node:fs";
 import path from "node:path";
 import os from "node:os";
 
-function required(name: string): string {
-  const value = process.env[name];
-  if (!value) {
-    throw new Error(`Missing required env var: ${name}`);
-  }
-  return value;
+type Env = NodeJS.ProcessEnv;
+
+/** The .env file read at startup and on every reload */
+export const envFilePath = path.resolve(process.env.DOTENV_CONFIG_PATH || ".env");
+
+// Variables set by the shell/launcher win over .env, at startup and on reload
+const shellEnvKeys = new Set(Object.keys(process.env));
+const fileEnvKeys = new Set(Object.keys(dotenv.config({ path: envFilePath }).parsed ?? {}));
+for (const key of shellEnvKeys) fileEnvKeys.delete(key);
+
+export interface ConfigIssue {
+  /** "error" blocks startup and rejects reloads; "warning" is reported but accepted */
+  level: "error" | "warning";
+  /** Env var (or comma-joined vars for cross-field checks) the issue is about */
+  key: string;
+  message: string;
 }
 
-function csvList(name: string): string[] {
-  return (process.env[name] || "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
+/** Workflow types accepted as keys in per-workflow maps (mirrors CliWorkflowType) */
+const WORKFLOW_KEYS = ["alert", "delay_alert", "discuss", "dm", "daily_summary", "weekly_summary", "postmortem", "scheduled"];
+
+// Aliases ("sonnet", "opus[1m]") and full IDs ("claude-opus-4-6", "claude-3-5-sonnet-20241022")
+const MODEL_PATTERN =
+  /^(?:(?:default|sonnet|opus|haiku|opusplan)|claude-(?:\d+-(?:\d+-)?)?(?:opus|sonnet|haiku)(?:-\d+(?:-\d+)?)?(?:-\d{8})?)(?:\[1m\])?$/;
+
+// Summary delivery: "dm:owner", "dm:U123", "channel:C123", "digest:C123" (thread under a pinned digest post), "canvas:F123"
+const SUMMARY_TARGET_PATTERN = /^(?:dm:(?:owner|[UW][A-Z0-9]+)|(?:channel|digest):[CG][A-Z0-9]+|canvas:F[A-Z0-9]+)$/;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Whether a model alias or ID is accepted (same check as the *_MODEL settings) */
+export function isValidModel(model: string): boolean {
+  return MODEL_PATTERN.test(model);
+}
+
+interface Range {
+  min?: number;
+  max?: number;
+}
+
+function describeRange({ min, max }: Range): string {
+  if (min !== undefined && max !== undefined) return `${min}-${max}`;
+  if (min !== undefined) return `>= ${min}`;
+  return `<= ${max}`;
+}
+
+function inRange(value: number, range: Range): boolean {
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
 }
 
 /**
- * Parse daily summary channels as "name:ID" pairs.
- * Format: "ai-team-core:C0ABAK2NKQR,general:C012345"
+ * Typed accessors over an environment. Each setting declares its default and valid range;
+ * invalid values are recorded as issues and replaced by the default so every problem
+ * is reported at once instead of failing on the first.
  */
-function namedChannelList(name: string): { name: string; id: string }[] {
-  return (process.env[name] || "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean)
-    .map((entry) => {
-      const [channelName, channelId] = entry.split(":");
-      if (!channelId) {
-        throw new Error(
-          `Invalid DAILY_SUMMARY_CHANNELS format: "${entry}". Expected "name:ID" (e.g. "ai-team-core:C0ABAK2NKQR")`
-        );
+function createEnvReader(env: Env) {
+  const issues: ConfigIssue[] = [];
+  const error = (key: string, message: string): void => void issues.push({ level: "error", key, message });
+  const warn = (key: string, message: string): void => void issues.push({ level: "warning", key, message });
+
+  const raw = (name: string): string | undefined => {
+    const value = env[name]?.trim();
+    return value ? value : undefined;
+  };
+
+  const csv = (name: string): string[] =>
+    (raw(name) || "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+  const numeric = (name: string, fallback: number, range: Range, integer: boolean): number => {
+    const value = raw(name);
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+      error(name, `expected ${integer ? "an integer" : "a number"}, got "${value}"`);
+      return fallback;
+    }
+    if (!inRange(parsed, range)) {
+      error(name, `expected ${describeRange(range)}, got ${parsed}`);
+      return fallback;
+    }
+    return parsed;
+  };
+
+  return {
+    issues,
+    error,
+    warn,
+    raw,
+    csv,
+
+    required(name: string): string {
+      const value = raw(name);
+      if (!value) {
+        error(name, "missing required env var");
+        return "";
+      }
+      return value;
+    },
+
+    string(name: string, fallback: string): string {
+      return raw(name) ?? fallback;
+    },
+
+    int(name: string, fallback: number, range: Range = {}): number {
+      return numeric(name, fallback, range, true);
+    },
+
+    number(name: string, fallback: number, range: Range = {}): number {
+      return numeric(name, fallback, range, false);
+    },
+
+    /** Unset = null (e.g. "no budget") */
+    optionalNumber(name: string, range: Range = {}): number | null {
+      return raw(name) === undefined ? null : numeric(name, 0, range, false);
+    },
+
+    bool(name: string, fallback: boolean): boolean {
+      const value = raw(name)?.toLowerCase();
+      if (value === undefined) return fallback;
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      error(name, `expected true or false, got "${value}"`);
+      return fallback;
+    },
+
+    /** Claude model alias or ID; unknown shapes are usually typos */
+    model(name: string, fallback: string): string {
+      const value = raw(name) ?? fallback;
+      if (!MODEL_PATTERN.test(value)) {
+        warn(name, `"${value}" is not a known Claude model alias or ID (typo?)`);
+      }
+      return value;
+    },
+
+    /**
+     * Parse "key:model" pairs (key split at the last colon), warning on unknown model shapes.
+     * Format: "engineering:opus,general:haiku"
+     */
+    modelMap(name: string): Record<string, string> {
+      const result: Record<string, string> = {};
+      for (const entry of csv(name)) {
+        const split = entry.lastIndexOf(":");
+        const key = entry.slice(0, split).trim();
+        const model = entry.slice(split + 1).trim();
+        if (split < 0 || !key || !model) {
+          error(name, `invalid entry "${entry}". Expected "key:model" (e.g. "engineering:opus")`);
+          continue;
+        }
+        if (!MODEL_PATTERN.test(model)) warn(name, `"${model}" for "${key}" is not a known Claude model alias or ID (typo?)`);
+        result[key] = model;
+      }
+      return result;
+    },
+
+    /**
+     * Parse "key:number" pairs.
+     * Format: "alert:50,discuss:20"
+     */
+    numberMap(name: string, keys: string[], range: Range = {}): Record<string, number> {
+      const result: Record<string, number> = {};
+      for (const entry of csv(name)) {
+        const [key, value] = entry.split(":").map((s) => s?.trim());
+        const parsed = Number(value);
+        if (!key || !value || !Number.isFinite(parsed)) {
+          error(name, `invalid entry "${entry}". Expected "key:number" (e.g. "alert:50")`);
+        } else if (!keys.includes(key)) {
+          error(name, `unknown key "${key}" in "${entry}" (expected one of ${keys.join(", ")})`);
+        } else if (!inRange(parsed, range)) {
+          error(name, `value for "${key}" must be ${describeRange(range)}, got ${parsed}`);
+        } else {
+          result[key] = parsed;
+        }
+      }
+      return result;
+    },
+
+    /** Channel names; a "!" prefix disables a channel without removing it */
+    channelList(name: string): { enabled: string[]; disabled: string[] } {
+      const enabled: string[] = [];
+      const disabled: string[] = [];
+      for (const item of csv(name)) {
+        if (item.startsWith("!")) {
+          disabled.push(item.slice(1));
+        } else {
+          enabled.push(item);
+        }
+      }
+      return { enabled, disabled };
+    },
+
+    /**
+     * Parse "key:channelID" pairs; the key may itself contain colons (split at the last one).
+     * Format: "PXYZ123:C0ABAK2NKQR,Payments API:C012345,*:C0DEF678"
+     */
+    channelMap(name: string): Record<string, string> {
+      const result: Record<string, string> = {};
+      for (const entry of csv(name)) {
+        const split = entry.lastIndexOf(":");
+        const key = entry.slice(0, split).trim();
+        const channelId = entry.slice(split + 1).trim();
+        if (split < 0 || !key || !channelId) {
+          error(name, `invalid entry "${entry}". Expected "key:channelID" (e.g. "PXYZ123:C0ABAK2NKQR")`);
+        } else if (!/^[CG][A-Z0-9]{6,}$/.test(channelId)) {
+          error(name, `"${channelId}" in "${entry}" is not a Slack channel ID (expected C... or G...)`);
+        } else {
+          result[key] = channelId;
+        }
+      }
+      return result;
+    },
+
+    /**
+     * Parse daily summary channels as "name:ID" pairs.
+     * Format: "ai-team-core:C0ABAK2NKQR,general:C012345"
+     */
+    namedChannelList(name: string): { name: string; id: string }[] {
+      const result: { name: string; id: string }[] = [];
+      for (const entry of csv(name)) {
+        const [channelName, channelId] = entry.split(":").map((s) => s?.trim());
+        if (!channelName || !channelId) {
+          error(name, `invalid entry "${entry}". Expected "name:ID" (e.g. "ai-team-core:C0ABAK2NKQR")`);
+        } else if (!/^[CG][A-Z0-9]{6,}$/.test(channelId)) {
+          error(name, `"${channelId}" in "${entry}" is not a Slack channel ID (expected C... or G...)`);
+        } else {
+          result.push({ name: channelName, id: channelId });
+        }
+      }
+      return result;
+    },
+  };
+}
+
+type EnvReader = ReturnType<typeof createEnvReader>;
+
+/** Every setting with its default and valid range */
+function readConfig(r: EnvReader) {
+  return {
+    slackBotToken: r.required("SLACK_BOT_TOKEN"),
+    slackAppToken: r.required("SLACK_APP_TOKEN"),
+    slackSigningSecret: r.required("SLACK_SIGNING_SECRET"),
+    databasePath: r.string("DATABASE_PATH", "./data/bot.db"),
+    port: r.int("PORT", 3000, { min: 1, max: 65535 }),
+    // Bearer token for the HTTP requests that change scheduled jobs (unset = only accepted from localhost)
+    httpApiToken: r.string("HTTP_API_TOKEN", ""),
+    ownerUserId: r.required("OWNER_USER_ID"),
+
+    // Channel configuration
+    channels: {
+      dailySummary: r.namedChannelList("DAILY_SUMMARY_CHANNELS"),
+      monitor: r.channelList("MONITOR_CHANNELS"),
+      monitorDelay: r.channelList("MONITOR_DELAY_CHANNELS"),
+    },
+
+    // Daily summary settings (DAILY_SUMMARY_TIME and message times are in DAILY_SUMMARY_TIMEZONE, "" = the server's)
+    dailySummaryTime: r.string("DAILY_SUMMARY_TIME", "07:00"),
+    dailySummaryTimezone: r.string("DAILY_SUMMARY_TIMEZONE", ""),
+    dailySummaryModel: r.model("DAILY_SUMMARY_MODEL", "sonnet"),
+    // Per-channel model overrides by channel name, e.g. "engineering:opus"
+    dailySummaryModels: r.modelMap("DAILY_SUMMARY_MODELS"),
+    // Summarize everything since the channel's last summary (capped at the max lookback), or a fixed window
+    dailySummarySinceLast: r.bool("DAILY_SUMMARY_SINCE_LAST", true),
+    // Fixed window, and the window of a channel's first summary
+    dailySummaryLookbackHours: r.int("DAILY_SUMMARY_LOOKBACK_HOURS", 24, { min: 1, max: 720 }),
+    dailySummaryMaxLookbackHours: r.int("DAILY_SUMMARY_MAX_LOOKBACK_HOURS", 168, { min: 1, max: 720 }),
+    // Directory of prompt templates: <channel name>.md, else default.md, else the built-in prompt
+    dailySummaryTemplatesDir: r.string("DAILY_SUMMARY_TEMPLATES_DIR", ""),
+    // Threads started up to this long before the window are included when they have replies in it
+    dailySummaryThreadLookbackHours: r.int("DAILY_SUMMARY_THREAD_LOOKBACK_HOURS", 72, { min: 0, max: 720 }),
+    // Rough prompt size budget (~4 characters per token); the oldest messages are dropped beyond it
+    dailySummaryMaxInputTokens: r.int("DAILY_SUMMARY_MAX_INPUT_TOKENS", 100000, { min: 5000 }),
+    // Threads over this size are truncated, or pre-summarized when a thread summary model is set
+    dailySummaryThreadMaxTokens: r.int("DAILY_SUMMARY_THREAD_MAX_TOKENS", 4000, { min: 200 }),
+    dailySummaryThreadSummaryModel: r.string("DAILY_SUMMARY_THREAD_SUMMARY_MODEL", ""),
+    // Channels read with the personal xoxc/xoxd credentials (e.g. private channels the bot isn't in); the rest use the bot token
+    dailySummaryPersonalChannels: r.csv("DAILY_SUMMARY_PERSONAL_CHANNELS"),
+    // Where summaries are delivered (see SUMMARY_TARGET_PATTERN)
+    dailySummaryTargets: r.csv("DAILY_SUMMARY_TARGETS").length > 0 ? r.csv("DAILY_SUMMARY_TARGETS") : ["dm:owner"],
+    // Weekly roll-up of the stored daily summaries on this day ("" = off), at WEEKLY_SUMMARY_TIME in DAILY_SUMMARY_TIMEZONE
+    weeklySummaryDay: r.string("WEEKLY_SUMMARY_DAY", "").toLowerCase(),
+    weeklySummaryTime: r.string("WEEKLY_SUMMARY_TIME", "08:00"),
+    weeklySummaryModel: r.model("WEEKLY_SUMMARY_MODEL", "sonnet"),
+    // Empty = the daily summary's targets
+    weeklySummaryTargets: r.csv("WEEKLY_SUMMARY_TARGETS"),
+
+    // Scheduled jobs: timezone of new jobs (unset = the server's), their default model,
+    // and how far back a run missed during downtime is still caught up on startup (0 = never)
+    schedulerTimezone: r.string("SCHEDULER_TIMEZONE", ""),
+    schedulerModel: r.model("SCHEDULER_MODEL", "sonnet"),
+    schedulerCatchUpHours: r.int("SCHEDULER_CATCH_UP_HOURS", 12, { min: 0, max: 72 }),
+
+    // Agent model for chat responses
+    agentModel: r.model("AGENT_MODEL", "sonnet"),
+
+    // Discuss channel model
+    discussModel: r.model("DISCUSS_MODEL", "claude-sonnet-4-5-20250929"),
+    discussCliTimeoutMs: r.int("DISCUSS_CLI_TIMEOUT_MS", 600000, { min: 10000 }),
+    discussHeartbeatIntervalMs: r.int("DISCUSS_HEARTBEAT_INTERVAL_MS", 30000, { min: 1000 }),
+    // Minimum gap between live progress edits of a placeholder message (chat.update is rate-limited)
+    progressUpdateIntervalMs: r.int("PROGRESS_UPDATE_INTERVAL_MS", 3000, { min: 500 }),
+
+    // PagerDuty
+    pagerdutyApiToken: r.string("PAGERDUTY_API_TOKEN", ""),
+    pagerdutyFromEmail: r.string("PAGERDUTY_FROM_EMAIL", ""),
+    // REST API base URL (override to point at a local stand-in)
+    pagerdutyApiUrl: r.string("PAGERDUTY_API_URL", "https://api.pagerduty.com"),
+    // Poll tracked incidents for resolution made outside Slack (0 = off)
+    pagerdutySyncIntervalMs: r.int("PAGERDUTY_SYNC_INTERVAL_MS", 60000, { min: 0 }),
+    // Post the investigation summary as an incident note
+    pagerdutyPostNotes: r.bool("PAGERDUTY_POST_NOTES", true),
+    // Signing secret of the V3 webhook subscription, comma-separated while rotating (unset = POST /webhooks/pagerduty disabled)
+    pagerdutyWebhookSecret: r.string("PAGERDUTY_WEBHOOK_SECRET", ""),
+    // Service ID or name → channel ID where webhook incidents get their alert thread ("*" = any other service)
+    pagerdutyWebhookChannels: r.channelMap("PAGERDUTY_WEBHOOK_CHANNELS"),
+
+    // Slack workspace domain (for building permalinks)
+    slackWorkspaceDomain: r.string("SLACK_WORKSPACE_DOMAIN", "wego.slack.com"),
+
+    // Daily restart hour (0-23, default: 23)
+    dailyRestartHour: r.int("DAILY_RESTART_HOUR", 23, { min: 0, max: 23 }),
+
+    // Alert workflow
+    alertSkill: r.string("ALERT_SKILL", "one:pay-ops-production"),
+    alertModel: r.model("ALERT_MODEL", "claude-opus-4-6"),
+    // Model of the "Escalate to Opus" review pass on an investigation report
+    escalationModel: r.model("ESCALATION_MODEL", "claude-opus-4-6"),
+    paymentsRepoPath: r.string("PAYMENTS_REPO_PATH", "/Users/neocapitelo/go/src/github.com/payments"),
+    alertFeedbackTimeoutMs: r.int("ALERT_FEEDBACK_TIMEOUT_MS", 300000, { min: 1000 }),
+    // Alerts within this long of a cluster's last alert may join it instead of starting an investigation (0 = off)
+    alertClusterWindowMs: r.int("ALERT_CLUSTER_WINDOW_MS", 900000, { min: 0 }),
+    // Correlation score (service match + text similarity, 0-1) needed to join a cluster
+    alertClusterThreshold: r.number("ALERT_CLUSTER_THRESHOLD", 0.6, { min: 0.05, max: 1 }),
+    // Similar past reports added to new alert/delay investigations as "prior incidents" (0 = off)
+    priorIncidentsCount: r.int("PRIOR_INCIDENTS_COUNT", 3, { min: 0, max: 10 }),
+    priorIncidentsMaxAgeDays: r.int("PRIOR_INCIDENTS_MAX_AGE_DAYS", 180, { min: 1 }),
+    // Model that writes !postmortem documents from the thread, reports, PD timeline and actions log
+    postmortemModel: r.model("POSTMORTEM_MODEL", "sonnet"),
+
+    // Delay alert workflow
+    delayAlertThreshold: r.int("DELAY_ALERT_THRESHOLD", 3, { min: 1 }),
+    delayAlertWindowMs: r.int("DELAY_ALERT_WINDOW_MS", 3600000, { min: 1000 }),
+    delayAlertTaskPatterns: r.csv("DELAY_ALERT_TASK_PATTERNS"),
+    // Ignore bursts: the count trigger waits until alerts span at least this long (0 = off)
+    delayAlertMinSpanMs: r.int("DELAY_ALERT_MIN_SPAN_MS", 0, { min: 0 }),
+    // Also trigger when the last rate window has this many times the alerts of the one before (0 = off)
+    delayAlertRateFactor: r.number("DELAY_ALERT_RATE_FACTOR", 0, { min: 0 }),
+    delayAlertRateWindowMs: r.int("DELAY_ALERT_RATE_WINDOW_MS", 900000, { min: 1000 }),
+    delayAlertSkill: r.string("DELAY_ALERT_SKILL", "one:pay-ops-tax-production"),
+
+    // Airflow stable REST API (e.g. https://airflow.example.com/api/v1; unset = no DAG context or !airflow commands)
+    airflowApiUrl: r.string("AIRFLOW_API_URL", ""),
+    // Bearer token, or basic auth with username/password
+    airflowApiToken: r.string("AIRFLOW_API_TOKEN", ""),
+    airflowUsername: r.string("AIRFLOW_USERNAME", ""),
+    airflowPassword: r.string("AIRFLOW_PASSWORD", ""),
+    // Successful runs used for the per-task duration median (0 = no comparison)
+    airflowHistoryRuns: r.int("AIRFLOW_HISTORY_RUNS", 7, { min: 0, max: 50 }),
+    airflowLogTailLines: r.int("AIRFLOW_LOG_TAIL_LINES", 40, { min: 0, max: 500 }),
+
+    // Optional JSON file with extra/overriding monitor rules (built-in PagerDuty + Airflow rules always load)
+    monitorRulesPath: r.string("MONITOR_RULES_PATH", ""),
+
+    // MCP servers required by alert skills (auto-detected from ~/.claude.json)
+    requiredMcpServers: r.csv("REQUIRED_MCP_SERVERS").length > 0
+      ? r.csv("REQUIRED_MCP_SERVERS")
+      : ["athena", "atlassian", "slack"],
+    claudeConfigPath: r.string("CLAUDE_CONFIG_PATH", path.join(os.homedir(), ".claude.json")),
+
+    // CLI spend budgets in USD (day/month in DAILY_SUMMARY_TIMEZONE, unset = unlimited)
+    budgets: {
+      userDailyUsd: r.optionalNumber("BUDGET_USER_DAILY_USD", { min: 0 }),
+      userMonthlyUsd: r.optionalNumber("BUDGET_USER_MONTHLY_USD", { min: 0 }),
+      channelDailyUsd: r.optionalNumber("BUDGET_CHANNEL_DAILY_USD", { min: 0 }),
+      channelMonthlyUsd: r.optionalNumber("BUDGET_CHANNEL_MONTHLY_USD", { min: 0 }),
+      workflowDailyUsd: r.numberMap("BUDGET_WORKFLOW_DAILY_USD", WORKFLOW_KEYS, { min: 0 }),
+      workflowMonthlyUsd: r.numberMap("BUDGET_WORKFLOW_MONTHLY_USD", WORKFLOW_KEYS, { min: 0 }),
+      warnRatio: r.number("BUDGET_WARN_RATIO", 0.8, { min: 0.01, max: 1 }),
+    },
+
+    // Claude CLI process pool (queued runs start in priority order as slots free up)
+    cliPool: {
+      maxConcurrent: r.int("CLI_MAX_CONCURRENT", 4, { min: 1 }),
+      // Per-workflow caps, e.g. "alert:3,discuss:2" (unset = only the global cap applies)
+      maxPerWorkflow: r.numberMap("CLI_MAX_CONCURRENT_PER_WORKFLOW", WORKFLOW_KEYS, { min: 1 }),
+    },
+
+    // Watch .env and MONITOR_RULES_PATH and reload on change (read at startup only)
+    configWatch: r.bool("CONFIG_WATCH", true),
+
+    // Gemini API
+    geminiApiKey: r.string("GEMINI_API_KEY", ""),
+
+    // Personal Slack credentials (xoxc/xoxd), only for DAILY_SUMMARY_PERSONAL_CHANNELS
+    slackXoxcToken: r.string("SLACK_XOXC_TOKEN", ""),
+    slackXoxdToken: r.string("SLACK_XOXD_TOKEN", ""),
+  };
+}
+
+export type Config = ReturnType<typeof readConfig>;
+
+/** Formats, file existence and settings that only make sense together */
+function checkConfig(cfg: Config, r: EnvReader): void {
+  if (cfg.slackBotToken && !cfg.slackBotToken.startsWith("xoxb-")) {
+    r.warn("SLACK_BOT_TOKEN", "expected a bot token starting with xoxb-");
+  }
+  if (cfg.slackAppToken && !cfg.slackAppToken.startsWith("xapp-")) {
+    r.warn("SLACK_APP_TOKEN", "expected an app-level token starting with xapp-");
+  }
+  if (cfg.ownerUserId && !/^[UW][A-Z0-9]+$/.test(cfg.ownerUserId)) {
+    r.error("OWNER_USER_ID", `"${cfg.ownerUserId}" is not a Slack user ID (expected U... or W...)`);
+  }
+
+  const time = cfg.dailySummaryTime.match(/^(\d{1,2}):(\d{2})$/);
+  if (!time || Number(time[1]) > 23 || Number(time[2]) > 59) {
+    r.error("DAILY_SUMMARY_TIME", `"${cfg.dailySummaryTime}" is not a valid time. Expected "HH:MM" (e.g. "07:00")`);
+  } else if (
+    cfg.channels.dailySummary.length > 0 &&
+    Number(time[1]) === cfg.dailyRestartHour &&
+    (!cfg.dailySummaryTimezone || cfg.dailySummaryTimezone === Intl.DateTimeFormat().resolvedOptions().timeZone)
+  ) {
+    r.warn(
+      "DAILY_SUMMARY_TIME,DAILY_RESTART_HOUR",
+      `summary at ${cfg.dailySummaryTime} runs in the restart hour (${cfg.dailyRestartHour}:00) and may be killed`
+    );
+  }
+
+  for (const [key, timeZone] of [["DAILY_SUMMARY_TIMEZONE", cfg.dailySummaryTimezone], ["SCHEDULER_TIMEZONE", cfg.schedulerTimezone]]) {
+    if (!timeZone) continue;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+    } catch {
+      r.error(key, `"${timeZone}" is not an IANA timezone (e.g. "Asia/Bangkok")`);
+    }
+  }
+  if (cfg.dailySummaryLookbackHours > cfg.dailySummaryMaxLookbackHours) {
+    r.error(
+      "DAILY_SUMMARY_LOOKBACK_HOURS,DAILY_SUMMARY_MAX_LOOKBACK_HOURS",
+      `lookback (${cfg.dailySummaryLookbackHours}h) is longer than the max lookback (${cfg.dailySummaryMaxLookbackHours}h)`
+    );
+  }
+  const summaryChannels = new Set(cfg.channels.dailySummary.map((c) => c.name));
+  for (const name of Object.keys(cfg.dailySummaryModels)) {
+    if (!summaryChannels.has(name)) r.warn("DAILY_SUMMARY_MODELS", `"${name}" is not one of DAILY_SUMMARY_CHANNELS`);
+  }
+  for (const name of cfg.dailySummaryPersonalChannels) {
+    if (!summaryChannels.has(name)) r.warn("DAILY_SUMMARY_PERSONAL_CHANNELS", `"${name}" is not one of DAILY_SUMMARY_CHANNELS`);
+  }
+  if (cfg.dailySummaryThreadSummaryModel && !isValidModel(cfg.dailySummaryThreadSummaryModel)) {
+    r.warn("DAILY_SUMMARY_THREAD_SUMMARY_MODEL", `"${cfg.dailySummaryThreadSummaryModel}" is not a known Claude model alias or ID (typo?)`);
+  }
+  if (cfg.dailySummaryThreadMaxTokens > cfg.dailySummaryMaxInputTokens) {
+    r.error("DAILY_SUMMARY_THREAD_MAX_TOKENS,DAILY_SUMMARY_MAX_INPUT_TOKENS", "a thread's budget must be smaller than the whole summary's");
+  }
+  for (const [key, targets] of [["DAILY_SUMMARY_TARGETS", cfg.dailySummaryTargets], ["WEEKLY_SUMMARY_TARGETS", cfg.weeklySummaryTargets]] as const) {
+    for (const target of targets) {
+      if (!SUMMARY_TARGET_PATTERN.test(target)) {
+        r.error(key, `invalid target "${target}". Expected dm:owner, dm:<U...>, channel:<C...>, digest:<C...> or canvas:<F...>`);
       }
-      return { name: channelName, id: channelId };
-    });
-}
-
-function channelList(name: string): { enabled: string[]; disabled: string[] } {
-  const raw = (process.env[name] || "").split(",").map((s) => s.trim()).filter(Boolean);
-  const enabled: string[] = [];
-  const disabled: string[] = [];
-  for (const item of raw) {
-    if (item.startsWith("!")) {
-      disabled.push(item.slice(1));
-    } else {
-      enabled.push(item);
     }
   }
-  return { enabled, disabled };
-}
-
-export const config = {
-  slackBotToken: required("SLACK_BOT_TOKEN"),
-  slackAppToken: required("SLACK_APP_TOKEN"),
-  slackSigningSecret: required("SLACK_SIGNING_SECRET"),
-  databasePath: process.env.DATABASE_PATH || "./data/bot.db",
-  port: parseInt(process.env.PORT || "3000", 10),
-  ownerUserId: required("OWNER_USER_ID"),
-
-  // Channel configuration
-  channels: {
-    dailySummary: namedChannelList("DAILY_SUMMARY_CHANNELS"),
-    monitor: channelList("MONITOR_CHANNELS"),
-    monitorDelay: channelList("MONITOR_DELAY_CHANNELS"),
-  },
-
-  // Daily summary settings
-  dailySummaryTime: process.env.DAILY_SUMMARY_TIME || "07:00",
-  dailySummaryModel: process.env.DAILY_SUMMARY_MODEL || "sonnet",
-
-  // Agent model for chat responses
-  agentModel: process.env.AGENT_MODEL || "sonnet",
-
-  // Discuss channel model
-  discussModel: process.env.DISCUSS_MODEL || "claude-sonnet-4-5-20250929",
-  discussCliTimeoutMs: parseInt(process.env.DISCUSS_CLI_TIMEOUT_MS || "600000", 10),
-  discussHeartbeatIntervalMs: parseInt(process.env.DISCUSS_HEARTBEAT_INTERVAL_MS || "30000", 10),
-
-  // PagerDuty
-  pagerdutyApiToken: process.env.PAGERDUTY_API_TOKEN || "",
-  pagerdutyFromEmail: process.env.PAGERDUTY_FROM_EMAIL || "",
-
-  // Slack workspace domain (for building permalinks)
-  slackWorkspaceDomain: process.env.SLACK_WORKSPACE_DOMAIN || "wego.slack.com",
-
-  // Daily restart hour (0-23, default: 23)
-  dailyRestartHour: parseInt(process.env.DAILY_RESTART_HOUR || "23", 10),
-
-  // Alert workflow
-  alertSkill: process.env.ALERT_SKILL || "one:pay-ops-production",
-  alertModel: process.env.ALERT_MODEL || "claude-opus-4-6",
-  paymentsRepoPath:
-    process.env.PAYMENTS_REPO_PATH ||
-    "/Users/neocapitelo/go/src/github.com/payments",
-  alertFeedbackTimeoutMs: parseInt(
-    process.env.ALERT_FEEDBACK_TIMEOUT_MS || "300000",
-    10
-  ),
-
-  // Delay alert workflow
-  delayAlertThreshold: parseInt(process.env.DELAY_ALERT_THRESHOLD || "3", 10),
-  delayAlertWindowMs: parseInt(
-    process.env.DELAY_ALERT_WINDOW_MS || "3600000",
-    10
-  ),
-  delayAlertTaskPatterns: csvList("DELAY_ALERT_TASK_PATTERNS"),
-  delayAlertSkill: process.env.DELAY_ALERT_SKILL || "one:pay-ops-tax-production",
-
-  // MCP servers required by alert skills (auto-detected from ~/.claude.json)
-  requiredMcpServers: csvList("REQUIRED_MCP_SERVERS").length > 0
-    ? csvList("REQUIRED_MCP_SERVERS")
-    : ["athena", "atlassian", "slack"],
-  claudeConfigPath: process.env.CLAUDE_CONFIG_PATH || path.join(os.homedir(), ".claude.json"),
-
-  // Gemini API
-  geminiApiKey: process.env.GEMINI_API_KEY || "",
-
-  // Personal Slack credentials (xoxc/xoxd) for direct channel reading
-  slackXoxcToken: process.env.SLACK_XOXC_TOKEN || "",
-  slackXoxdToken: process.env.SLACK_XOXD_TOKEN || "",
-};
+  if (cfg.weeklySummaryDay && !WEEKDAYS.includes(cfg.weeklySummaryDay)) {
+    r.error("WEEKLY_SUMMARY_DAY", `"${cfg.weeklySummaryDay}" is not a weekday. Expected one of ${WEEKDAYS.join(", ")}`);
+  }
+  if (cfg.weeklySummaryDay && !/^([01]?\d|2[0-3]):[0-5]\d$/.test(cfg.weeklySummaryTime)) {
+    r.error("WEEKLY_SUMMARY_TIME", `"${cfg.weeklySummaryTime}" is not a valid time. Expected "HH:MM" (e.g. "08:00")`);
+  }
+  if (cfg.dailySummaryTemplatesDir && !existsSync(cfg.dailySummaryTemplatesDir)) {
+    r.error("DAILY_SUMMARY_TEMPLATES_DIR", `${cfg.dailySummaryTemplatesDir} does not exist`);
+  }
+
+  if (!existsSync(cfg.paymentsRepoPath)) {
+    r.error("PAYMENTS_REPO_PATH", `${cfg.paymentsRepoPath} does not exist (it is the working directory of every CLI run)`);
+  }
+  if (cfg.monitorRulesPath && !existsSync(cfg.monitorRulesPath)) {
+    r.error("MONITOR_RULES_PATH", `${cfg.monitorRulesPath} does not exist`);
+  }
+  if (!existsSync(cfg.claudeConfigPath)) {
+    r.warn("CLAUDE_CONFIG_PATH", `${cfg.claudeConfigPath} not found — MCP server detection will be skipped`);
+  }
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(cfg.slackWorkspaceDomain)) {
+    r.error("SLACK_WORKSPACE_DOMAIN", `"${cfg.slackWorkspaceDomain}" is not a hostname (e.g. "acme.slack.com")`);
+  }
+
+  if (Boolean(cfg.pagerdutyApiToken) !== Boolean(cfg.pagerdutyFromEmail)) {
+    r.warn(
+      "PAGERDUTY_API_TOKEN,PAGERDUTY_FROM_EMAIL",
+      "both are needed to acknowledge incidents — PagerDuty acknowledgement is disabled"
+    );
+  }
+  if (!/^https?:\/\/[^\s/]+/.test(cfg.pagerdutyApiUrl)) {
+    r.error("PAGERDUTY_API_URL", `"${cfg.pagerdutyApiUrl}" is not an http(s) URL`);
+  }
+  const webhookChannels = Object.keys(cfg.pagerdutyWebhookChannels).length > 0;
+  if (cfg.pagerdutyWebhookSecret && !webhookChannels) {
+    r.warn(
+      "PAGERDUTY_WEBHOOK_SECRET,PAGERDUTY_WEBHOOK_CHANNELS",
+      "no service channels mapped — webhook incidents only sync resolutions, no alert threads are started"
+    );
+  }
+  if (webhookChannels && !cfg.pagerdutyWebhookSecret) {
+    r.warn("PAGERDUTY_WEBHOOK_CHANNELS,PAGERDUTY_WEBHOOK_SECRET", "no webhook secret — POST /webhooks/pagerduty is disabled");
+  }
+  if (cfg.pagerdutyFromEmail && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(cfg.pagerdutyFromEmail)) {
+    r.error("PAGERDUTY_FROM_EMAIL", `"${cfg.pagerdutyFromEmail}" is not an email address`);
+  }
+  if (cfg.airflowApiUrl && !/^https?:\/\/[^\s/]+/.test(cfg.airflowApiUrl)) {
+    r.error("AIRFLOW_API_URL", `"${cfg.airflowApiUrl}" is not an http(s) URL`);
+  }
+  if (Boolean(cfg.airflowUsername) !== Boolean(cfg.airflowPassword)) {
+    r.warn("AIRFLOW_USERNAME,AIRFLOW_PASSWORD", "both are needed for basic auth — requests are sent without it");
+  }
+  if (cfg.dailySummaryPersonalChannels.length > 0 && (!cfg.slackXoxcToken || !cfg.slackXoxdToken)) {
+    r.error("DAILY_SUMMARY_PERSONAL_CHANNELS", "needs both SLACK_XOXC_TOKEN and SLACK_XOXD_TOKEN");
+  } else if (Boolean(cfg.slackXoxcToken) !== Boolean(cfg.slackXoxdToken)) {
+    r.warn("SLACK_XOXC_TOKEN,SLACK_XOXD_TOKEN", "both are needed for personal channel reading — it is disabled");
+  }
+
+  if (cfg.delayAlertTaskPatterns.length > 0 && cfg.channels.monitorDelay.enabled.length === 0) {
+    r.warn("DELAY_ALERT_TASK_PATTERNS,MONITOR_DELAY_CHANNELS", "task patterns are set but no delay channels are enabled");
+  }
+  if (cfg.delayAlertRateFactor > 0 && cfg.delayAlertRateFactor <= 1) {
+    r.error("DELAY_ALERT_RATE_FACTOR", `expected 0 (off) or more than 1, got ${cfg.delayAlertRateFactor}`);
+  }
+  if (cfg.delayAlertMinSpanMs >= cfg.delayAlertWindowMs) {
+    r.error("DELAY_ALERT_MIN_SPAN_MS,DELAY_ALERT_WINDOW_MS", "the minimum span must be shorter than the window");
+  }
+  if (cfg.channels.monitorDelay.enabled.length > 0 && cfg.delayAlertTaskPatterns.length === 0) {
+    r.warn("MONITOR_DELAY_CHANNELS,DELAY_ALERT_TASK_PATTERNS", "delay channels are set but no task patterns — delay monitoring is off");
+  }
+
+  const { budgets, cliPool } = cfg;
+  if (budgets.userDailyUsd !== null && budgets.userMonthlyUsd !== null && budgets.userDailyUsd > budgets.userMonthlyUsd) {
+    r.warn("BUDGET_USER_DAILY_USD,BUDGET_USER_MONTHLY_USD", "daily budget exceeds the monthly budget");
+  }
+  if (budgets.channelDailyUsd !== null && budgets.channelMonthlyUsd !== null && budgets.channelDailyUsd > budgets.channelMonthlyUsd) {
+    r.warn("BUDGET_CHANNEL_DAILY_USD,BUDGET_CHANNEL_MONTHLY_USD", "daily budget exceeds the monthly budget");
+  }
+  for (const [workflow, cap] of Object.entries(cliPool.maxPerWorkflow)) {
+    if (cap > cliPool.maxConcurrent) {
+      r.warn(
+        "CLI_MAX_CONCURRENT_PER_WORKFLOW",
+        `${workflow} cap ${cap} exceeds CLI_MAX_CONCURRENT (${cliPool.maxConcurrent}) and has no effect`
+      );
+    }
+  }
+}
+
+export interface ParsedConfig {
+  config: Config;
+  issues: ConfigIssue[];
+}
+
+/** Read every setting and collect all issues without throwing */
+export function parseConfig(env: Env): ParsedConfig {
+  const reader = createEnvReader(env);
+  const parsed = readConfig(reader);
+  checkConfig(parsed, reader);
+  return { config: parsed, issues: reader.issues };
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.key}: ${issue.message}`;
+}
+
+/** Parse and validate; throws one error listing every problem */
+export function buildConfig(env: Env): ParsedConfig {
+  const parsed = parseConfig(env);
+  const errors = parsed.issues.filter((i) => i.level === "error");
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map((i) => `  - ${formatConfigIssue(i)}`).join("\n")}`);
+  }
+  return parsed;
+}
+
+const initial = parseConfig(process.env);
+
+/** Issues found at startup; index.ts refuses to start on errors (see --check-config) */
+export const startupConfigIssues: ConfigIssue[] = initial.issues;
+
+/** Live configuration. Reloads replace its top-level values in place, so always read through `config.x`. */
+export const config: Config = initial.config;
+
+/** Only read at startup (Slack connection, database, HTTP server) — a reload reports these but keeps the old value */
+export const RESTART_ONLY_KEYS: ReadonlyArray<keyof Config> = [
+  "slackBotToken",
+  "slackAppToken",
+  "slackSigningSecret",
+  "databasePath",
+  "port",
+];
+
+export interface ConfigCandidate {
+  config: Config;
+  /** Warnings for the new values (errors reject the candidate) */
+  issues: ConfigIssue[];
+  /** Current .env values not shadowed by the shell environment */
+  fileEnv: Record<string, string>;
+}
+
+export interface ConfigChanges {
+  /** Top-level config keys whose value was swapped */
+  changed: string[];
+  /** Changed keys that only take effect after a restart */
+  restartRequired: string[];
+}
+
+/** Re-read .env and build a validated config from it without applying anything. Throws on invalid values. */
+export function loadConfigCandidate(): ConfigCandidate {
+  const parsed = existsSync(envFilePath) ? dotenv.parse(readFileSync(envFilePath)) : {};
+  const fileEnv: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (!shellEnvKeys.has(key)) fileEnv[key] = value;
+  }
+
+  const env: Env = {};
+  for (const key of shellEnvKeys) env[key] = process.env[key];
+  Object.assign(env, fileEnv);
+  return { ...buildConfig(env), fileEnv };
+}
+
+/** Swap a validated candidate into the live config (and process.env, so new CLI children inherit it) */
+export function applyConfig(candidate: ConfigCandidate): ConfigChanges {
+  for (const key of fileEnvKeys) {
+    if (!(key in candidate.fileEnv)) delete process.env[key];
+  }
+  fileEnvKeys.clear();
+  for (const [key, value] of Object.entries(candidate.fileEnv)) {
+    process.env[key] = value;
+    fileEnvKeys.add(key);
+  }
+
+  const changed: string[] = [];
+  const restartRequired: string[] = [];
+  const live = config as Record<string, unknown>;
+  for (const [key, value] of Object.entries(candidate.config)) {
+    if (JSON.stringify(value) === JSON.stringify(live[key])) continue;
+    if (RESTART_ONLY_KEYS.includes(key as keyof Config)) {
+      restartRequired.push(key);
+      continue;
+    }
+    live[key] = value;
+    changed.push(key);
+  }
+  return { changed, restartRequired };
+}
@@ -0,0 +1,138 @@
+import type { App } from "@slack/bolt";
+import {
+  ALL_PERMISSIONS,
+  buildRoleRow,
+  clearUsergroupCache,
+  getAccessSnapshot,
+  type Permission,
+} from "../services/access-control.js";
+import {
+  deleteAccessMember,
+  deleteAccessRole,
+  getAccessRole,
+  upsertAccessMember,
+  upsertAccessRole,
+  type AccessMemberRow,
+} from "../services/database.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+const USAGE =
+  "*Access commands:*\n" +
+  "• `!access list` — show roles and members\n" +
+  "• `!access grant <@user|@group> <role>` — grant a role to a user or user group\n" +
+  "• `!access revoke <@user|@group>` — remove a user or user group\n" +
+  "• `!access role <name> <perm,perm,...|none>` — create or update a role\n" +
+  "• `!access delete-role <name>` — delete an unused role\n" +
+  `Permissions: ${ALL_PERMISSIONS.map((p) => `\`${p}\``).join(", ")}`;
+
+/** Check whether a (mention-stripped) message is an access command */
+export function isAccessCommand(text: string): boolean {
+  return /^!access\b/i.test(text.trim());
+}
+
+/** Parse a Slack user/usergroup reference into a subject ID and type */
+function parseSubject(token: string): { id: string; type: AccessMemberRow["subject_type"] } | null {
+  const user = token.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/) || token.match(/^([UW][A-Z0-9]{6,})$/);
+  if (user) return { id: user[1], type: "user" };
+  const group = token.match(/^<!subteam\^(S[A-Z0-9]+)(?:\|[^>]*)?>$/) || token.match(/^(S[A-Z0-9]{6,})$/);
+  if (group) return { id: group[1], type: "usergroup" };
+  return null;
+}
+
+function formatSubject(id: string, type: AccessMemberRow["subject_type"]): string {
+  return type === "user" ? `<@${id}>` : `<!subteam^${id}>`;
+}
+
+function formatAccessList(): string {
+  const snapshot = getAccessSnapshot();
+  const lines = [`*Owner:* <@${snapshot.owner}>`, "", "*Roles:*"];
+  for (const role of snapshot.roles) {
+    lines.push(`• \`${role.name}\` — ${role.permissions.length > 0 ? role.permissions.join(", ") : "_no permissions_"}`);
+  }
+  lines.push("", "*Members:*");
+  if (snapshot.members.length === 0) {
+    lines.push("_none_");
+  }
+  for (const m of snapshot.members) {
+    lines.push(`• ${formatSubject(m.subjectId, m.subjectType as AccessMemberRow["subject_type"])} → \`${m.role}\``);
+  }
+  return lines.join("\n");
+}
+
+function runAccessCommand(args: string[], actorId: string): string {
+  const [sub, ...rest] = args;
+
+  switch ((sub || "list").toLowerCase()) {
+    case "list":
+      return formatAccessList();
+
+    case "grant": {
+      const subject = rest[0] ? parseSubject(rest[0]) : null;
+      const roleName = rest[1]?.toLowerCase();
+      if (!subject || !roleName) return "Usage: `!access grant <@user|@group> <role>`";
+      if (!getAccessRole(roleName)) return `Unknown role \`${roleName}\`. Use \`!access list\` to see roles.`;
+      upsertAccessMember(subject.id, subject.type, roleName, actorId);
+      clearUsergroupCache();
+      console.log(`[Access] ${actorId} granted ${roleName} to ${subject.type} ${subject.id}`);
+      return `Granted \`${roleName}\` to ${formatSubject(subject.id, subject.type)}.`;
+    }
+
+    case "revoke": {
+      const subject = rest[0] ? parseSubject(rest[0]) : null;
+      if (!subject) return "Usage: `!access revoke <@user|@group>`";
+      const removed = deleteAccessMember(subject.id);
+      clearUsergroupCache();
+      if (removed) console.log(`[Access] ${actorId} revoked access for ${subject.type} ${subject.id}`);
+      return removed
+        ? `Revoked access for ${formatSubject(subject.id, subject.type)}.`
+        : `${formatSubject(subject.id, subject.type)} has no access entry.`;
+    }
+
+    case "role": {
+      const roleName = rest[0]?.toLowerCase();
+      const permArg = rest.slice(1).join(",");
+      if (!roleName || !permArg) return "Usage: `!access role <name> <perm,perm,...|none>`";
+      const requested = permArg.split(",").map((p) => p.trim().toLowerCase()).filter(Boolean);
+      const perms = requested.filter((p) => p !== "none");
+      const unknown = perms.filter((p) => !ALL_PERMISSIONS.includes(p as Permission));
+      if (unknown.length > 0) return `Unknown permission(s): ${unknown.map((p) => `\`${p}\``).join(", ")}`;
+      upsertAccessRole(buildRoleRow(roleName, perms as Permission[]));
+      console.log(`[Access] ${actorId} set role ${roleName} → [${perms.join(", ")}]`);
+      return `Role \`${roleName}\` now has: ${perms.length > 0 ? perms.join(", ") : "_no permissions_"}.`;
+    }
+
+    case "delete-role": {
+      const roleName = rest[0]?.toLowerCase();
+      if (!roleName) return "Usage: `!access delete-role <name>`";
+      return deleteAccessRole(roleName)
+        ? `Deleted role \`${roleName}\`.`
+        : `Role \`${roleName}\` doesn't exist or is still assigned.`;
+    }
+
+    default:
+      return USAGE;
+  }
+}
+
+/**
+ * Handle an `!access ...` command. Caller must have verified the `manage` permission.
+ */
+export async function handleAccessCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  actorId: string,
+  text: string
+): Promise<void> {
+  const args = text.trim().split(/\s+/).slice(1);
+  const reply = runAccessCommand(args, actorId);
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+    });
+  } catch (err) {
+    console.error("[Access] Failed to post command reply:", err);
+  }
+}
@@ -0,0 +1,179 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { getActiveDelayWorkflow } from "../services/delay-alert-workflow.js";
+import { getWorkflow } from "../services/database.js";
+import { recordIncidentAction } from "../services/incident-actions.js";
+import {
+  isAirflowConfigured,
+  getDagRunSnapshot,
+  listDagRuns,
+  clearTaskInstances,
+  type ClearOptions,
+  type TaskSnapshot,
+} from "../services/airflow.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+/** How long a dry-run preview waits for `!airflow confirm` */
+const CONFIRM_TTL_MS = 2 * 60 * 1000;
+
+interface PendingClear {
+  userId: string;
+  dagId: string;
+  runId: string;
+  taskIds: string[];
+  options: ClearOptions;
+  expiresAt: number;
+}
+
+/** Thread ts → clear/retry waiting for confirmation */
+const pendingClears = new Map<string, PendingClear>();
+
+const HELP =
+  "*Airflow commands* (reply in a delay alert thread):\n" +
+  "• `!airflow status` — state of the DAG run under investigation\n" +
+  "• `!airflow retry <task_id>` — re-run a failed task instance (owner only)\n" +
+  "• `!airflow clear <task_id> [downstream]` — clear a task instance, optionally with its downstream tasks (owner only)\n" +
+  "• `!airflow confirm` / `!airflow cancel` — apply or drop the pending retry/clear";
+
+/** Check whether a (mention-stripped) message is an Airflow command */
+export function isAirflowCommand(text: string): boolean {
+  return /^!airflow\b/i.test(text.trim());
+}
+
+/** DAG (and run, if the workflow already looked it up) investigated in this thread */
+function threadTarget(threadTs: string): { dagId: string; runId: string | null } | null {
+  const workflow = getActiveDelayWorkflow(threadTs);
+  if (workflow) return { dagId: workflow.dagName, runId: workflow.airflowRunId };
+  // Delay alerts converted to discuss sessions keep their dag name
+  const row = getWorkflow(threadTs);
+  return row?.dag_name ? { dagId: row.dag_name, runId: null } : null;
+}
+
+function formatTasks(tasks: TaskSnapshot[]): string {
+  return tasks.map((t) => `\`${t.mapIndex >= 0 ? `${t.taskId}[${t.mapIndex}]` : t.taskId}\` (${t.state}, try ${t.tryNumber})`).join(", ");
+}
+
+async function runStatus(dagId: string, runId: string | null): Promise<string> {
+  const result = await getDagRunSnapshot(dagId, runId ?? undefined);
+  if (!result.success || !result.data) return `:x: Couldn't read DAG ${dagId} from Airflow: ${result.error}`;
+  const { run, failed, running, slow } = result.data;
+  const lines = [`*${dagId}* run \`${run.runId}\` — *${run.state}*`];
+  if (failed.length > 0) lines.push(`• Failed: ${formatTasks(failed)}`);
+  if (running.length > 0) lines.push(`• Running: ${formatTasks(running)}`);
+  if (slow.length > 0) lines.push(`• Finished at 2x+ median: ${formatTasks(slow)}`);
+  if (lines.length === 1) lines.push("No failed, running or unusually slow tasks.");
+  return lines.join("\n");
+}
+
+async function previewClear(
+  threadTs: string,
+  userId: string,
+  dagId: string,
+  runId: string | null,
+  taskId: string,
+  options: Omit<ClearOptions, "dryRun">
+): Promise<string> {
+  const targetRun = runId ?? (await listDagRuns(dagId, 1))[0]?.runId;
+  if (!targetRun) return `:x: No runs found for DAG ${dagId}.`;
+
+  const preview = await clearTaskInstances(dagId, targetRun, [taskId], { ...options, dryRun: true });
+  if (!preview.success || !preview.data) return `:x: Airflow rejected the dry run: ${preview.error}`;
+  if (preview.data.length === 0) {
+    return options.onlyFailed
+      ? `\`${taskId}\` has no failed instance in run \`${targetRun}\` — nothing to retry.`
+      : `Nothing to clear for \`${taskId}\` in run \`${targetRun}\`.`;
+  }
+
+  pendingClears.set(threadTs, {
+    userId,
+    dagId,
+    runId: targetRun,
+    taskIds: [taskId],
+    options: { ...options, dryRun: false },
+    expiresAt: Date.now() + CONFIRM_TTL_MS,
+  });
+  const verb = options.onlyFailed ? "retry" : "clear";
+  return (
+    `This will ${verb} ${preview.data.length} task instance(s) in *${dagId}* run \`${targetRun}\`: ` +
+    `${preview.data.map((t) => `\`${t}\``).join(", ")}\n` +
+    `Reply \`!airflow confirm\` within ${CONFIRM_TTL_MS / 60000} minutes to proceed, or \`!airflow cancel\`.`
+  );
+}
+
+async function confirmClear(threadTs: string, userId: string): Promise<string> {
+  const pending = pendingClears.get(threadTs);
+  if (!pending || pending.expiresAt < Date.now()) {
+    pendingClears.delete(threadTs);
+    return "Nothing to confirm — run `!airflow retry` or `!airflow clear` first.";
+  }
+  if (pending.userId !== userId) return `Only <@${pending.userId}> can confirm this request.`;
+  pendingClears.delete(threadTs);
+
+  const { dagId, runId, taskIds, options } = pending;
+  console.log(`[AirflowCmd] ${userId} confirmed clear of ${taskIds.join(", ")} in ${dagId}/${runId} (only failed: ${options.onlyFailed})`);
+  const result = await clearTaskInstances(dagId, runId, taskIds, options);
+  if (!result.success || !result.data) return `:x: Airflow rejected the request: ${result.error}`;
+  recordIncidentAction(threadTs, options.onlyFailed ? "airflow_retry" : "airflow_clear", {
+    userId,
+    detail: `${dagId}/${runId}: ${result.data.join(", ")}`,
+  });
+  return `:arrows_counterclockwise: Cleared ${result.data.length} task instance(s) in \`${runId}\` — the scheduler will run them again.`;
+}
+
+async function runAirflowCommand(threadTs: string | undefined, userId: string, text: string): Promise<string> {
+  const [, sub = "help", ...rest] = text.trim().split(/\s+/);
+  const command = sub.toLowerCase();
+  if (command === "help") return HELP;
+
+  if (!isAirflowConfigured()) return "Airflow isn't configured (`AIRFLOW_API_URL`).";
+  const target = threadTs ? threadTarget(threadTs) : null;
+  if (!threadTs || !target) return "This thread isn't investigating an Airflow DAG.";
+
+  if (command === "status") return runStatus(target.dagId, target.runId);
+
+  const mutating = ["retry", "clear", "confirm", "cancel"];
+  if (!mutating.includes(command)) return `Unknown command \`!airflow ${sub}\`.\n${HELP}`;
+  if (userId !== config.ownerUserId) return "Only the bot owner can retry or clear Airflow tasks.";
+
+  if (command === "cancel") {
+    return pendingClears.delete(threadTs) ? "Cancelled." : "Nothing pending.";
+  }
+  if (command === "confirm") return confirmClear(threadTs, userId);
+
+  const taskId = rest[0];
+  if (!taskId) return `Usage: \`!airflow ${command} <task_id>${command === "clear" ? " [downstream]" : ""}\``;
+  return previewClear(threadTs, userId, target.dagId, target.runId, taskId, {
+    onlyFailed: command === "retry",
+    includeDownstream: command === "clear" && rest[1]?.toLowerCase() === "downstream",
+  });
+}
+
+/**
+ * Handle a `!airflow ...` command in a delay alert thread. Caller must have verified the
+ * `alert_followup` permission; retry/clear are additionally restricted to the owner.
+ */
+export async function handleAirflowCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string,
+  text: string
+): Promise<void> {
+  let reply: string;
+  try {
+    reply = await runAirflowCommand(threadTs, userId, text);
+  } catch (err) {
+    console.error("[AirflowCmd] Command failed:", err);
+    reply = `:x: Airflow command failed: ${(err as Error).message}`;
+  }
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+    });
+  } catch (err) {
+    console.error("[AirflowCmd] Failed to post command reply:", err);
+  }
+}
@@ -0,0 +1,31 @@
+import { isAccessCommand } from "./access-commands.js";
+import { isReloadCommand } from "./reload-command.js";
+import { isPagerDutyCommand } from "./pagerduty-commands.js";
+import { isAirflowCommand } from "./airflow-commands.js";
+import { isClusterCommand } from "./cluster-commands.js";
+import { isHistoryCommand } from "./history-command.js";
+import { isPostmortemCommand } from "./postmortem-command.js";
+import { isScheduleCommand } from "./schedule-commands.js";
+
+/** Check whether a (mention-stripped) message is a session command: `!exit` or `!compact` */
+export function isSessionCommand(text: string): boolean {
+  return /^!(?:exit|compact)\s*$/i.test(text.trim());
+}
+
+/**
+ * Check whether a (mention-stripped) message is any bot command. Commands are run by the message
+ * handler, never sent to an alert investigation as a follow-up.
+ */
+export function isBotCommand(text: string): boolean {
+  return (
+    isSessionCommand(text) ||
+    isAccessCommand(text) ||
+    isReloadCommand(text) ||
+    isScheduleCommand(text) ||
+    isPagerDutyCommand(text) ||
+    isAirflowCommand(text) ||
+    isClusterCommand(text) ||
+    isHistoryCommand(text) ||
+    isPostmortemCommand(text)
+  );
+}
@@ -0,0 +1,112 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { startAlertWorkflow } from "../services/alert-workflow.js";
+import { getThreadCluster, detachClusterMember, clusterMemberLink } from "../services/incident-clusters.js";
+import { recordIncidentAction } from "../services/incident-actions.js";
+import type { ClusterMemberRow } from "../services/database.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+/** Check whether a (mention-stripped) message is an incident cluster command */
+export function isClusterCommand(text: string): boolean {
+  return /^!(?:cluster|split)\b/i.test(text.trim());
+}
+
+function formatAge(since: number): string {
+  const minutes = Math.round((Date.now() - since) / 60000);
+  return minutes < 60 ? `${minutes}m ago` : `${Math.round(minutes / 60)}h ago`;
+}
+
+function formatMember(member: ClusterMemberRow, isPrimary: boolean): string {
+  const label = member.incident_id ?? "thread";
+  const meta = [
+    isPrimary ? "primary" : `score ${member.score?.toFixed(2) ?? "?"}`,
+    member.service ? `service ${member.service}` : "",
+    `joined ${formatAge(member.joined_at)}`,
+  ].filter(Boolean);
+  return `• <${clusterMemberLink(member.channel_id, member.thread_ts)}|${label}> (${meta.join(", ")})`;
+}
+
+/** Detach a member and start its own investigation (no correlation, even if it's already acknowledged) */
+function splitMember(app: App, member: ClusterMemberRow, userId: string): void {
+  detachClusterMember(member);
+  recordIncidentAction(member.thread_ts, "cluster_split", { incidentId: member.incident_id, userId, detail: `cluster #${member.cluster_id}` });
+  startAlertWorkflow(app, member.channel_id, member.thread_ts, member.alert_text, undefined, {
+    incidentId: member.incident_id,
+    service: member.service,
+    ruleName: member.rule_name ?? undefined,
+    skill: member.skill ?? undefined,
+    model: member.model ?? undefined,
+    split: true,
+  }).catch((err) => console.error(`[ClusterCmd] Investigation for split thread ${member.thread_ts} failed:`, err));
+}
+
+async function runClusterCommand(app: App, threadTs: string | undefined, userId: string, text: string): Promise<string> {
+  const command = text.trim().split(/\s+/)[0].toLowerCase();
+  const thread = threadTs ? getThreadCluster(threadTs) : null;
+  if (!threadTs || !thread) return "This thread isn't part of an incident cluster.";
+  const { cluster, member, members, isPrimary } = thread;
+
+  if (command === "!cluster") {
+    const primaryLink = clusterMemberLink(cluster.channel_id, cluster.primary_thread_ts);
+    return (
+      `*Incident cluster #${cluster.id}* — investigated in <${primaryLink}|the primary thread>, ${members.length} alert(s):\n` +
+      members.map((m) => formatMember(m, m.thread_ts === cluster.primary_thread_ts)).join("\n") +
+      (members.length > 1 ? "\nThe owner can `!split` a member thread (or every member, from the primary thread)." : "")
+    );
+  }
+
+  if (userId !== config.ownerUserId) return "Only the bot owner can split an incident cluster.";
+
+  if (isPrimary) {
+    const related = members.filter((m) => m.thread_ts !== threadTs);
+    if (related.length === 0) return "Nothing to split — no other alerts joined this investigation.";
+    console.log(`[ClusterCmd] ${userId} split all ${related.length} member(s) of cluster #${cluster.id}`);
+    for (const m of related) splitMember(app, m, userId);
+    return `:scissors: Split ${related.length} alert(s) out of this cluster — each gets its own investigation.`;
+  }
+
+  console.log(`[ClusterCmd] ${userId} split thread ${threadTs} from cluster #${cluster.id}`);
+  splitMember(app, member, userId);
+  try {
+    await postMessage({
+      channel: cluster.channel_id,
+      thread_ts: cluster.primary_thread_ts,
+      text: `:scissors: <@${userId}> split <${clusterMemberLink(member.channel_id, member.thread_ts)}|${member.incident_id ?? "an alert"}> out of this cluster; it is investigated separately.`,
+      unfurl_links: false,
+    });
+  } catch (err) {
+    console.error("[ClusterCmd] Failed to notify the primary thread:", err);
+  }
+  return ":scissors: Split from the cluster — starting a separate investigation.";
+}
+
+/**
+ * Handle `!cluster` (show the thread's incident cluster) and `!split` (owner only: investigate
+ * a member separately, or every member when run in the primary thread). Caller must have
+ * verified the `alert_followup` permission.
+ */
+export async function handleClusterCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string,
+  text: string
+): Promise<void> {
+  let reply: string;
+  try {
+    reply = await runClusterCommand(app, threadTs, userId, text);
+  } catch (err) {
+    console.error("[ClusterCmd] Command failed:", err);
+    reply = `:x: Cluster command failed: ${(err as Error).message}`;
+  }
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+    });
+  } catch (err) {
+    console.error("[ClusterCmd] Failed to post command reply:", err);
+  }
+}
@@ -0,0 +1,96 @@
+import type { App } from "@slack/bolt";
+import { searchReportArchive } from "../services/report-archive.js";
+import type { ReportFilter, ReportListRow } from "../services/database.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+const HISTORY_RESULTS = 5;
+
+/** `key:value` filters accepted before or among the search words */
+const FILTER_KEYS: Record<string, keyof ReportFilter> = {
+  type: "workflowType",
+  dag: "dagName",
+  incident: "incidentId",
+  service: "service",
+  skill: "skill",
+};
+
+const USAGE =
+  "Usage: `history <words> [type:alert|delay_alert|discuss] [dag:<dag>] [incident:<id>] [service:<name>] [skill:<skill>] [days:<n>]`";
+
+/** Check whether a (mention-stripped) message is the history command ("history" or "!history") */
+export function isHistoryCommand(text: string): boolean {
+  return /^!?history\b/i.test(text.trim());
+}
+
+function parseHistoryQuery(text: string): { words: string; filter: ReportFilter; filtered: boolean } {
+  const filter: ReportFilter = { status: "ok", limit: HISTORY_RESULTS };
+  const words: string[] = [];
+  let filtered = false;
+  for (const token of text.trim().split(/\s+/).slice(1)) {
+    const m = token.match(/^(\w+):(.+)$/);
+    const key = m ? FILTER_KEYS[m[1].toLowerCase()] : undefined;
+    if (m && key) {
+      (filter as Record<string, unknown>)[key] = m[2];
+      filtered = true;
+    } else if (m && m[1].toLowerCase() === "days" && Number(m[2]) > 0) {
+      filter.sinceDays = Number(m[2]);
+      filtered = true;
+    } else {
+      words.push(token);
+    }
+  }
+  return { words: words.join(" "), filter, filtered };
+}
+
+function formatResult(report: ReportListRow): string {
+  const label = report.permalink ? `<${report.permalink}|${report.title}>` : `${report.title} (report #${report.id})`;
+  const meta = [
+    report.workflow_type === "delay_alert" ? "delay" : report.workflow_type,
+    report.incident_id ? `PD ${report.incident_id}` : "",
+    report.dag_name ? `DAG ${report.dag_name}` : "",
+    report.created_at.slice(0, 10),
+    report.cost_usd ? `$${report.cost_usd.toFixed(2)}` : "",
+  ].filter(Boolean);
+  const snippet = report.snippet ? `\n> ${report.snippet.replace(/\s+/g, " ").replace(/\*\*/g, "*")}` : "";
+  return `• ${label} — ${meta.join(" · ")}${snippet}`;
+}
+
+function runHistoryCommand(text: string): string {
+  const { words, filter, filtered } = parseHistoryQuery(text);
+  if (!words && !filtered) return USAGE;
+
+  const results = searchReportArchive(words, filter);
+  if (results.length === 0) return `No archived reports match${words ? ` "${words}"` : ""}.`;
+  const heading = words ? `*Reports matching "${words}"*` : "*Latest reports*";
+  return `${heading}:\n${results.map(formatResult).join("\n")}`;
+}
+
+/**
+ * Handle `history <query>`: search archived investigation and discuss reports. Caller must
+ * have verified the `alert_followup` permission.
+ */
+export async function handleHistoryCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  text: string
+): Promise<void> {
+  let reply: string;
+  try {
+    reply = runHistoryCommand(text);
+  } catch (err) {
+    console.error("[History] Search failed:", err);
+    reply = `:x: History search failed: ${(err as Error).message}`;
+  }
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+      unfurl_links: false,
+    });
+  } catch (err) {
+    console.error("[History] Failed to post command reply:", err);
+  }
+}
@@ -9,13 +9,28 @@ import {
 } from "../services/discuss-workflow.js";
 import { getActiveWorkflow } from "../services/alert-workflow.js";
 import { getActiveDelayWorkflow, cleanupDelayWorkflow } from "../services/delay-alert-workflow.js";
-import { spawnDiscussCli, detectAndLoadSkill, markdownToSlackMrkdwn } from "../services/claude-cli.js";
+import { spawnDiscussCli, detectAndLoadSkill } from "../services/claude-cli.js";
 import {
   downloadSlackFiles,
   buildFilePromptPrefix,
   type SlackFile,
 } from "../services/slack-files.js";
+import { fetchThreadReplies } from "../services/slack-reader.js";
 import { queryGemini } from "../services/gemini.js";
+import { enforceBudget } from "../services/cost-ledger.js";
+import { createProgressReporter } from "../services/progress-reporter.js";
+import { resolveAccess, buildDeclineMessage, type Permission } from "../services/access-control.js";
+import { isAccessCommand, handleAccessCommand } from "./access-commands.js";
+import { isReloadCommand, handleReloadCommand } from "./reload-command.js";
+import { isPagerDutyCommand, handlePagerDutyCommand } from "./pagerduty-commands.js";
+import { isAirflowCommand, handleAirflowCommand } from "./airflow-commands.js";
+import { isClusterCommand, handleClusterCommand } from "./cluster-commands.js";
+import { isHistoryCommand, handleHistoryCommand } from "./history-command.js";
+import { isPostmortemCommand, handlePostmortemCommand } from "./postmortem-command.js";
+import { isScheduleCommand, handleScheduleCommand } from "./schedule-commands.js";
+import { isBotCommand, isSessionCommand } from "./bot-commands.js";
+import { postMessage, updateMessage } from "../services/slack-gateway.js";
+import { postResponse } from "../services/response-renderer.js";
 
 // Gemini thread history: threadTs → list of Gemini responses
 const geminiThreadHistory = new Map<string, string[]>();
@@ -62,15 +77,16 @@ function buildGeminiContext(threadTs: string): string {
   return "Previous Gemini analysis:\n" + responses.join("\n---\n") + "\n\n";
 }
 
+/** Markdown for the renderer: the answer, then its deduplicated grounding sources */
 function formatGeminiResponse(result: { text: string; sources: { title: string; url: string }[] }, model: string): string {
-  let msg = `*Gemini (${model}):*\n${markdownToSlackMrkdwn(result.text)}`;
+  let msg = `**Gemini (${model}):**\n${result.text}`;
   if (result.sources.length > 0) {
-    msg += "\n\n*Sources:*\n";
+    msg += "\n\n**Sources:**\n";
     const seen = new Set<string>();
     for (const s of result.sources) {
       if (seen.has(s.url)) continue;
       seen.add(s.url);
-      msg += `• <${s.url}|${s.title}>\n`;
+      msg += `- [${s.title}](${s.url})\n`;
     }
   }
   return msg;
@@ -118,19 +134,15 @@ async function fetchThreadContext(
   botUserId: string
 ): Promise<string> {
   try {
-    const res = await app.client.conversations.replies({
-      channel: channelId,
-      ts: threadTs,
-      oldest: lastSeenTs || undefined,
-    });
+    const replies = await fetchThreadReplies(app.client, channelId, threadTs, lastSeenTs || undefined);
 
     const isNewSession = !lastSeenTs;
     const BOT_MSG_LIMIT = 500;
 
-    const filtered = (res.messages || []).filter((m) => {
+    const filtered = replies.filter((m) => {
       // For follow-ups in active sessions: only non-bot messages since lastSeenTs
       if (!isNewSession) {
-        if (m.bot_id || m.user === botUserId) return false;
+        if (m.botId || m.user === botUserId) return false;
         if (m.ts && m.ts <= lastSeenTs!) return false;
         return true;
       }
@@ -140,8 +152,8 @@ async function fetchThreadContext(
 
     const messages: string[] = [];
     for (const m of filtered) {
-      const isBot = !!(m.bot_id || m.user === botUserId);
-      const text = m.text || "";
+      const isBot = !!(m.botId || m.user === botUserId);
+      const text = m.text;
       // Truncate long bot messages to keep prompt reasonable
       const displayText = isBot && text.length > BOT_MSG_LIMIT
         ? text.slice(0, BOT_MSG_LIMIT) + "... [truncated]"
@@ -150,7 +162,7 @@ async function fetchThreadContext(
       let line = `${prefix}: ${displayText}`.trim();
 
       // Include file attachments from thread messages
-      const files = (m as any).files as SlackFile[] | undefined;
+      const files = m.files;
       if (files && files.length > 0) {
         const paths = await downloadSlackFiles(files, config.slackBotToken);
         if (paths.length > 0) {
@@ -178,6 +190,7 @@ async function fetchThreadContext(
 async function handleDm(
   app: App,
   channelId: string,
+  userId: string,
   text: string,
   files?: SlackFile[]
 ): Promise<void> {
@@ -185,9 +198,12 @@ async function handleDm(
   const cleanText = stripMention(text);
   if (!cleanText && !filePrefix) return;
 
+  const ledger = { workflowType: "dm" as const, userId, channelId };
+  if (!(await enforceBudget(app, ledger, channelId))) return;
+
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: channelId,
       text: "Thinking...",
     });
@@ -199,30 +215,21 @@ async function handleDm(
   try {
     const prompt = filePrefix + cleanText;
     const skillContext = detectAndLoadSkill(cleanText, config.paymentsRepoPath) ?? undefined;
+    const progress = createProgressReporter(channelId, thinkingTs, "Thinking...");
     const { done } = spawnDiscussCli(prompt, config.paymentsRepoPath, {
       model: config.discussModel,
       skillContext,
+      ledger: { ...ledger, skill: skillContext?.skillName },
+      onProgress: progress.update,
     });
     const result = await done;
+    await progress.stop();
 
-    const response = markdownToSlackMrkdwn(result.response || "No response from Claude CLI.");
-
-    if (thinkingTs) {
-      await app.client.chat.update({
-        channel: channelId,
-        ts: thinkingTs,
-        text: response,
-      });
-    } else {
-      await app.client.chat.postMessage({
-        channel: channelId,
-        text: response,
-      });
-    }
+    await postResponse({ channel: channelId, replaceTs: thinkingTs }, result.response || "No response from Claude CLI.");
   } catch (err) {
     console.error("[Message] DM CLI error:", err);
     if (thinkingTs) {
-      await app.client.chat.update({
+      await updateMessage({
         channel: channelId,
         ts: thinkingTs,
         text: "Sorry, something went wrong. Please try again.",
@@ -231,11 +238,7 @@ async function handleDm(
   }
 }
 
-export function registerHandlers(
-  app: App,
-  botUserId: string,
-  ownerUserId: string
-): void {
+export function registerHandlers(app: App, botUserId: string): void {
   app.message(async ({ message }) => {
     const raw = message as Record<string, any>;
 
@@ -257,51 +260,145 @@ export function registerHandlers(
     const isDm = msg.channel_type === "im";
     const text: string = msg.text || "";
     const userId: string = msg.user || "";
-    const isOwner = userId === ownerUserId;
     const hasMention = text.includes(`<@${botUserId}>`);
 
-    // Non-owner: only respond if they @mention the bot, with a polite decline
-    if (!isOwner) {
-      if (hasMention) {
-        console.log(`[Message] Non-owner @mention from ${userId} in ${msg.channel} — declining`);
-        const threadTs = (msg.thread_ts || msg.ts) as string;
-        try {
-          await app.client.chat.postMessage({
-            channel: msg.channel,
-            ...(isDm ? {} : { thread_ts: threadTs }),
-            text: `To save Claude tokens, I only reply for <@${ownerUserId}>.`,
-          });
-        } catch (err) {
-          console.error("[Message] Failed to post non-owner decline:", err);
-        }
+    // Channel messages without an @mention are never for us
+    if (!isDm && !hasMention) return;
+
+    const access = await resolveAccess(app, userId);
+    const threadTs = (msg.thread_ts || msg.ts) as string;
+
+    const decline = async (perm: Permission): Promise<void> => {
+      console.log(`[Message] ${userId} lacks "${perm}" permission in ${msg.channel} — declining`);
+      try {
+        await postMessage({
+          channel: msg.channel,
+          ...(isDm ? {} : { thread_ts: threadTs }),
+          text: buildDeclineMessage(perm),
+        });
+      } catch (err) {
+        console.error("[Message] Failed to post decline:", err);
       }
+    };
+
+    // Access management: "!access ..." (only strip the bot mention so user/group mentions survive)
+    const commandText = text.split(`<@${botUserId}>`).join("").trim();
+    if (isAccessCommand(commandText)) {
+      if (!access.permissions.has("manage")) {
+        await decline("manage");
+        return;
+      }
+      await handleAccessCommand(app, msg.channel, isDm ? undefined : threadTs, userId, commandText);
       return;
     }
 
-    // Owner + DM → one-shot Claude CLI
-    if (isDm) {
-      await handleDm(app, msg.channel, text, msg.files as SlackFile[] | undefined);
+    // Config reload: "!reload" (owner only, checked by the handler)
+    if (isReloadCommand(commandText)) {
+      await handleReloadCommand(app, msg.channel, isDm ? undefined : threadTs, userId);
       return;
     }
 
-    // Owner + channel — only respond to @mentions
-    if (!hasMention) return;
+    // Scheduled jobs: "!schedule ..." (anywhere; jobs spend money and post anywhere, so `manage` only)
+    if (isScheduleCommand(commandText)) {
+      if (!access.permissions.has("manage")) {
+        await decline("manage");
+        return;
+      }
+      await handleScheduleCommand(app, msg.channel, isDm ? undefined : threadTs, userId, commandText);
+      return;
+    }
+
+    // PagerDuty incident commands: "!pd ..." in an alert thread (also after it became a discuss session)
+    if (isPagerDutyCommand(commandText)) {
+      if (!access.permissions.has("alert_followup")) {
+        await decline("alert_followup");
+        return;
+      }
+      await handlePagerDutyCommand(app, msg.channel, isDm ? undefined : msg.thread_ts, userId, commandText);
+      return;
+    }
+
+    // Airflow commands: "!airflow ..." in a delay alert thread (retry/clear are owner-only)
+    if (isAirflowCommand(commandText)) {
+      if (!access.permissions.has("alert_followup")) {
+        await decline("alert_followup");
+        return;
+      }
+      await handleAirflowCommand(app, msg.channel, isDm ? undefined : msg.thread_ts, userId, commandText);
+      return;
+    }
+
+    // Incident cluster commands: "!cluster" / "!split" in a clustered alert thread (split is owner-only)
+    if (isClusterCommand(commandText)) {
+      if (!access.permissions.has("alert_followup")) {
+        await decline("alert_followup");
+        return;
+      }
+      await handleClusterCommand(app, msg.channel, isDm ? undefined : msg.thread_ts, userId, commandText);
+      return;
+    }
+
+    // Report archive search: "history <query>" (anywhere, replies in thread)
+    if (isHistoryCommand(commandText)) {
+      if (!access.permissions.has("alert_followup")) {
+        await decline("alert_followup");
+        return;
+      }
+      await handleHistoryCommand(app, msg.channel, isDm ? undefined : threadTs, commandText);
+      return;
+    }
+
+    // Postmortem: "!postmortem" in an alert/delay thread, also after the investigation ended
+    if (isPostmortemCommand(commandText)) {
+      if (!access.permissions.has("alert_followup")) {
+        await decline("alert_followup");
+        return;
+      }
+      await handlePostmortemCommand(app, msg.channel, isDm ? undefined : msg.thread_ts, userId);
+      return;
+    }
+
+    // DM → one-shot Claude CLI
+    if (isDm) {
+      if (!access.permissions.has("dm")) {
+        await decline("dm");
+        return;
+      }
+      await handleDm(app, msg.channel, userId, text, msg.files as SlackFile[] | undefined);
+      return;
+    }
 
-    const threadTs = (msg.thread_ts || msg.ts) as string;
     const cleanText = stripMention(text);
     if (!cleanText) return;
 
-    // Skip if thread has active alert or delay-alert workflow (but allow !exit/!compact through)
+    const cmd = cleanText.toLowerCase();
+
+    // Skip if thread has active alert or delay-alert workflow (but allow !exit/!compact through).
+    // Follow-ups there are handled by the monitors (which skip anything isBotCommand matches); only decline users who couldn't send one.
     const activeAlertOrDelay = getActiveWorkflow(threadTs) || getActiveDelayWorkflow(threadTs);
-    if (activeAlertOrDelay) {
-      const gateCmd = cleanText.trim().toLowerCase();
-      if (gateCmd !== "!exit" && gateCmd !== "!compact") return;
+    if (activeAlertOrDelay && !isBotCommand(cleanText)) {
+      if (!access.permissions.has("alert_followup")) await decline("alert_followup");
+      return;
+    }
+
+    if (isSessionCommand(cleanText)) {
+      if (!access.permissions.has("session_commands")) {
+        await decline("session_commands");
+        return;
+      }
+    } else if (!access.permissions.has("mention")) {
+      await decline("mention");
+      return;
     }
 
     // Gemini routing: "use gemini ..."
     if (detectGeminiRequest(cleanText)) {
+      if (!access.permissions.has("gemini")) {
+        await decline("gemini");
+        return;
+      }
       if (!config.geminiApiKey) {
-        await app.client.chat.postMessage({
+        await postMessage({
           channel: msg.channel,
           thread_ts: threadTs,
           text: "Gemini API key is not configured. Please add `GEMINI_API_KEY` to .env or use Claude instead.",
@@ -315,7 +412,7 @@ export function registerHandlers(
 
       let indicatorTs: string | undefined;
       try {
-        const res = await app.client.chat.postMessage({
+        const res = await postMessage({
           channel: msg.channel,
           thread_ts: threadTs,
           text: `Checking with Gemini (${model})...`,
@@ -330,19 +427,9 @@ export function registerHandlers(
         ? formatGeminiResponse(result, model)
         : "Gemini request failed. Please try again.";
 
-      if (indicatorTs) {
-        await app.client.chat.update({
-          channel: msg.channel,
-          ts: indicatorTs,
-          text: response,
-        }).catch((err: any) => console.error("[Gemini] Failed to update message:", err));
-      } else {
-        await app.client.chat.postMessage({
-          channel: msg.channel,
-          thread_ts: threadTs,
-          text: response,
-        }).catch((err: any) => console.error("[Gemini] Failed to post response:", err));
-      }
+      await postResponse({ channel: msg.channel, threadTs, replaceTs: indicatorTs }, response).catch((err: any) =>
+        console.error("[Gemini] Failed to post response:", err)
+      );
 
       // Store response for later Claude context carry-over
       if (result) {
@@ -365,23 +452,22 @@ export function registerHandlers(
         // Already in a Claude session → send Gemini context as a follow-up reply
         const context = await fetchThreadContext(app, msg.channel, threadTs, activeForResume.lastSeenTs, botUserId);
         const prompt = filePrefix + context + geminiContext + (resumeText || "Continue our task based on the Gemini analysis above.");
-        await handleDiscussReply(app, threadTs, prompt);
+        await handleDiscussReply(app, threadTs, prompt, userId);
       } else {
         // No active session → start a new one with Gemini context
         const context = await fetchThreadContext(app, msg.channel, threadTs, null, botUserId);
         const prompt = filePrefix + context + geminiContext + (resumeText || "Continue our task based on the Gemini analysis above.");
         const skill = detectAndLoadSkill(resumeText || "", config.paymentsRepoPath) ?? undefined;
-        await startDiscussSession(app, msg.channel, threadTs, prompt, skill);
+        await startDiscussSession(app, msg.channel, threadTs, prompt, skill, userId);
       }
       return;
     }
 
     // Handle discuss commands
-    const cmd = cleanText.toLowerCase();
     const activeDiscussion = getActiveDiscussion(threadTs);
 
     if (cmd === "!compact" && activeDiscussion) {
-      await handleDiscussCompact(app, threadTs);
+      await handleDiscussCompact(app, threadTs, userId);
       return;
     }
 
@@ -416,7 +502,7 @@ export function registerHandlers(
       // If cliSessionId exists but lastSeenTs is null (post-restart), skip context entirely —
       // --resume already has full conversation history
       const prompt = filePrefix + context + effectiveText;
-      await handleDiscussReply(app, threadTs, prompt);
+      await handleDiscussReply(app, threadTs, prompt, userId);
       return;
     }
 
@@ -424,6 +510,6 @@ export function registerHandlers(
     const context = await fetchThreadContext(app, msg.channel, threadTs, null, botUserId);
     const prompt = filePrefix + context + effectiveText;
     const skill = detectAndLoadSkill(effectiveText, config.paymentsRepoPath) ?? undefined;
-    await startDiscussSession(app, msg.channel, threadTs, prompt, skill);
+    await startDiscussSession(app, msg.channel, threadTs, prompt, skill, userId);
   });
 }
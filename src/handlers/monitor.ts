@@ -0,0 +1,173 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import {
+  startAlertWorkflow,
+  handleOwnerFeedback,
+  getActiveWorkflow,
+  cleanupWorkflow,
+} from "../services/alert-workflow.js";
+import {
+  startDelayAlertWorkflow,
+  handleDelayOwnerFeedback,
+  getActiveDelayWorkflow,
+  isWorkflowActiveForDag,
+  cleanupDelayWorkflow,
+} from "../services/delay-alert-workflow.js";
+import { recordAlert, pruneAlertWindows } from "../services/alert-windows.js";
+import { getMonitorRules, matchRule, type MonitorRule, type RuleMatch } from "../services/monitor-rules.js";
+import { hasPermission } from "../services/access-control.js";
+import { isBotCommand } from "./bot-commands.js";
+
+/** Map of rule name → monitored channel IDs, populated at startup and on config reload */
+const ruleChannelIds = new Map<string, Set<string>>();
+
+/** Resolve every rule's channel names to IDs via Slack API */
+export async function resolveMonitorChannels(app: App): Promise<void> {
+  for (const name of config.channels.monitor.disabled) {
+    console.log(`Monitor channel #${name} disabled (skipped)`);
+  }
+  for (const name of config.channels.monitorDelay.disabled) {
+    console.log(`Delay monitor channel #${name} disabled (skipped)`);
+  }
+
+  const rules = getMonitorRules();
+  const wanted = new Set(rules.flatMap((r) => r.channels.map((n) => n.toLowerCase())));
+  if (wanted.size === 0) {
+    ruleChannelIds.clear();
+    return;
+  }
+
+  const idsByName = new Map<string, string>();
+  let cursor: string | undefined;
+  do {
+    const res = await app.client.conversations.list({
+      types: "public_channel",
+      limit: 200,
+      cursor,
+    });
+
+    for (const ch of res.channels || []) {
+      if (ch.name && ch.id && wanted.has(ch.name.toLowerCase())) {
+        idsByName.set(ch.name.toLowerCase(), ch.id);
+      }
+    }
+
+    cursor = res.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  // Swap in one step so a reload never leaves rules without channels mid-resolution
+  ruleChannelIds.clear();
+  for (const rule of rules) {
+    const ids = new Set<string>();
+    for (const name of rule.channels) {
+      const id = idsByName.get(name.toLowerCase());
+      if (id) {
+        ids.add(id);
+        console.log(`Monitoring #${name} → ${id} (rule: ${rule.name})`);
+      } else {
+        console.warn(`Warning: monitor channel #${name} not found (rule: ${rule.name})`);
+      }
+    }
+    ruleChannelIds.set(rule.name, ids);
+  }
+}
+
+/** Rules watching this channel, in evaluation order */
+function rulesForChannel(channelId: string): MonitorRule[] {
+  return getMonitorRules().filter((r) => ruleChannelIds.get(r.name)?.has(channelId));
+}
+
+/** Record a match toward its rule threshold. Returns true once the sliding window triggers. */
+function countTowardThreshold(match: RuleMatch): boolean {
+  const decision = recordAlert(match);
+  pruneAlertWindows();
+  console.log(
+    `[Monitor] ${decision.counterKey} ${decision.triggered ? "triggered" : "counted"}` +
+      ` (${decision.detail}${match.weight !== 1 ? `, weight ${match.weight}` : ""})`
+  );
+  return decision.triggered;
+}
+
+/** Start the workflow a matched rule asks for */
+async function runRuleAction(
+  app: App,
+  match: RuleMatch,
+  channelId: string,
+  messageTs: string,
+  text: string,
+  attachments?: Array<Record<string, unknown>>
+): Promise<void> {
+  const { rule, values } = match;
+  const overrides = { ruleName: rule.name, skill: rule.skill, model: rule.model };
+
+  if (rule.action === "alert") {
+    await startAlertWorkflow(app, channelId, messageTs, text, attachments, {
+      ...overrides,
+      // Without an extractor, fall back to parsing PagerDuty incident links
+      incidentId: rule.extract?.incidentId ? values.incidentId ?? null : undefined,
+      service: values.service ?? null,
+    });
+    return;
+  }
+
+  const dagName = values.dag ?? values.task ?? rule.name;
+  // Guard: don't trigger if a workflow is already active for this dag
+  if (isWorkflowActiveForDag(dagName)) {
+    console.log(`[Monitor] Workflow already active for Dag: ${dagName}, skipping`);
+    return;
+  }
+  await startDelayAlertWorkflow(app, channelId, messageTs, text, dagName, overrides);
+}
+
+/** Register the rule-driven monitor as a Slack message handler */
+export function registerMonitor(app: App, botUserId: string): void {
+  app.message(async ({ message }) => {
+    const msg = message as unknown as Record<string, unknown>;
+    const channelId = msg.channel as string;
+
+    const rules = rulesForChannel(channelId);
+    if (rules.length === 0) return;
+
+    const threadTs = msg.thread_ts as string | undefined;
+    const messageTs = msg.ts as string;
+    const text = (msg.text as string) || "";
+
+    // Thread reply from a permitted user on an active workflow → handle feedback or exit
+    if (threadTs) {
+      if (!text.includes(`<@${botUserId}>`)) return;
+      const alertWorkflow = getActiveWorkflow(threadTs);
+      const delayWorkflow = alertWorkflow ? undefined : getActiveDelayWorkflow(threadTs);
+      if (!alertWorkflow && !delayWorkflow) return;
+
+      const userId = (msg.user as string) || "";
+      const cmd = text.replace(/<@[^>]+>/g, "").trim().toLowerCase();
+      if (cmd === "!exit") {
+        // Permission denial for !exit is reported by the message handler (which also runs every other bot command)
+        if (!(await hasPermission(app, userId, "session_commands"))) return;
+        console.log(`[Monitor] ${userId} requested !exit on thread ${threadTs}`);
+        if (alertWorkflow) await cleanupWorkflow(app, alertWorkflow);
+        else await cleanupDelayWorkflow(app, delayWorkflow!);
+      } else if (!isBotCommand(cmd)) {
+        if (!(await hasPermission(app, userId, "alert_followup"))) return;
+        if (alertWorkflow) await handleOwnerFeedback(app, threadTs, text, userId);
+        else await handleDelayOwnerFeedback(app, threadTs, text, userId);
+      }
+      return;
+    }
+
+    // Top-level message → first matching rule wins
+    for (const rule of rules) {
+      const match = matchRule(rule, msg);
+      if (!match) continue;
+
+      const details = Object.entries(match.values).map(([k, v]) => `${k}: ${v}`).join(", ");
+      console.log(`[Monitor] Rule "${rule.name}" matched in ${channelId}${details ? ` (${details})` : ""}`);
+
+      if (rule.threshold && !countTowardThreshold(match)) return;
+
+      const attachments = msg.attachments as Array<Record<string, unknown>> | undefined;
+      await runRuleAction(app, match, channelId, messageTs, text, attachments);
+      return;
+    }
+  });
+}
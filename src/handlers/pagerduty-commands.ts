@@ -0,0 +1,256 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { getThreadIncidentId } from "../services/alert-workflow.js";
+import { handleIncidentResolved } from "../services/incident-sync.js";
+import { recordIncidentAction } from "../services/incident-actions.js";
+import { hasPermission, buildDeclineMessage } from "../services/access-control.js";
+import {
+  getPagerDutyCredentials,
+  getPagerDutyIncident,
+  listPagerDutyLogEntries,
+  acknowledgePagerDutyIncident,
+  addPagerDutyIncidentNote,
+  resolvePagerDutyIncident,
+  escalatePagerDutyIncident,
+  reassignPagerDutyIncident,
+  snoozePagerDutyIncident,
+  setPagerDutyIncidentUrgency,
+  findPagerDutyUserByEmail,
+  type PagerDutyCredentials,
+  type PagerDutyIncident,
+  type PagerDutyResult,
+} from "../services/pagerduty.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+const DEFAULT_TIMELINE_ENTRIES = 10;
+const MAX_TIMELINE_ENTRIES = 50;
+/** Without an explicit level, escalate to the first level after the primary on-call */
+const DEFAULT_ESCALATION_LEVEL = 2;
+/** Subcommands that stop the investigation or change who is paged, and need `incident_manage` on top of `alert_followup` */
+const INCIDENT_CHANGES = new Set(["resolve", "escalate", "reassign", "snooze", "urgency"]);
+
+const HELP =
+  "*PagerDuty commands* (reply in an alert thread):\n" +
+  "• `!pd status` — incident status, urgency and assignees\n" +
+  `• \`!pd timeline [n]\` — last n timeline entries (default ${DEFAULT_TIMELINE_ENTRIES})\n` +
+  "• `!pd note <text>` — add an incident note\n" +
+  "• `!pd ack` — acknowledge the incident\n" +
+  "_Need `incident_manage`:_\n" +
+  "• `!pd resolve [resolution]` — resolve the incident and stop the investigation\n" +
+  `• \`!pd escalate [level]\` — escalate (default level ${DEFAULT_ESCALATION_LEVEL})\n` +
+  "• `!pd reassign <@user|email|PD user ID> ...` — replace the assignees\n" +
+  "• `!pd snooze <30m|2h|1d>` — snooze an acknowledged incident\n" +
+  "• `!pd urgency <high|low>` — change urgency";
+
+/** What a command did: `ok` when it ran (or only read), `denied` without permission, `failed` otherwise */
+export interface PagerDutyCommandOutcome {
+  status: "ok" | "denied" | "failed";
+  reply: string;
+}
+
+const ok = (reply: string): PagerDutyCommandOutcome => ({ status: "ok", reply });
+const failed = (reply: string): PagerDutyCommandOutcome => ({ status: "failed", reply });
+
+/** Check whether a (mention-stripped) message is a PagerDuty command */
+export function isPagerDutyCommand(text: string): boolean {
+  return /^!pd\b/i.test(text.trim());
+}
+
+function formatIncident(incident: PagerDutyIncident): string {
+  const name = `${incident.number !== null ? `#${incident.number} ` : ""}${incident.title}`;
+  const parts = [
+    `*${incident.htmlUrl ? `<${incident.htmlUrl}|${name}>` : name}*`,
+    `status: *${incident.status}*`,
+    incident.urgency ? `urgency: ${incident.urgency}` : "",
+    incident.serviceName ? `service: ${incident.serviceName}` : "",
+    `assigned to: ${incident.assignees.length > 0 ? incident.assignees.join(", ") : "nobody"}`,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/** "30m", "2h", "1d" or bare minutes → seconds */
+function parseDuration(token: string | undefined): number | null {
+  const match = token?.match(/^(\d+)\s*([mhd]?)$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 10);
+  const unit = match[2].toLowerCase() || "m";
+  const seconds = value * (unit === "d" ? 86400 : unit === "h" ? 3600 : 60);
+  return seconds > 0 ? seconds : null;
+}
+
+/** Map Slack mentions, emails and PagerDuty user IDs to PagerDuty user IDs */
+async function resolveAssignees(app: App, tokens: string[], apiToken: string): Promise<PagerDutyResult<string[]>> {
+  const ids: string[] = [];
+  for (const token of tokens) {
+    if (/^P[A-Z0-9]{5,}$/.test(token)) {
+      ids.push(token);
+      continue;
+    }
+
+    let email = token.replace(/^<mailto:([^|>]+)(?:\|[^>]*)?>$/, "$1");
+    const mention = token.match(/^<@([UW][A-Z0-9]+)(?:\|[^>]*)?>$/);
+    if (mention) {
+      try {
+        const info = await app.client.users.info({ user: mention[1] });
+        email = info.user?.profile?.email || "";
+      } catch (err) {
+        console.error(`[PagerDutyCmd] Failed to look up Slack user ${mention[1]}:`, err);
+      }
+      if (!email) return { success: false, error: `couldn't find an email for ${token} (needs users:read.email)` };
+    }
+    if (!email.includes("@")) return { success: false, error: `"${token}" is not a Slack user, email or PagerDuty user ID` };
+
+    const user = await findPagerDutyUserByEmail(email, apiToken);
+    if (!user.success || !user.data) return { success: false, error: user.error };
+    ids.push(user.data);
+  }
+  return { success: true, data: ids };
+}
+
+function outcome(result: PagerDutyResult<PagerDutyIncident>, done: string): PagerDutyCommandOutcome {
+  if (!result.success) return failed(`:x: PagerDuty rejected the request: ${result.error}`);
+  return ok(result.data ? `${done}\n${formatIncident(result.data)}` : done);
+}
+
+async function runPagerDutyCommand(
+  app: App,
+  threadTs: string | undefined,
+  userId: string,
+  text: string
+): Promise<PagerDutyCommandOutcome> {
+  const [, sub = "help", ...rest] = text.trim().split(/\s+/);
+  const command = sub.toLowerCase();
+  if (command === "help") return ok(HELP);
+
+  const incidentId = threadTs ? getThreadIncidentId(threadTs) : null;
+  if (!incidentId) return failed("This thread isn't tracking a PagerDuty incident.");
+  if (!config.pagerdutyApiToken) return failed("The PagerDuty API isn't configured (`PAGERDUTY_API_TOKEN`).");
+  const apiToken = config.pagerdutyApiToken;
+
+  if (command === "status") {
+    const incident = await getPagerDutyIncident(incidentId, apiToken);
+    return incident ? ok(formatIncident(incident)) : failed(`:x: Couldn't fetch incident ${incidentId}.`);
+  }
+
+  if (command === "timeline") {
+    const limit = Math.min(parseInt(rest[0] || "", 10) || DEFAULT_TIMELINE_ENTRIES, MAX_TIMELINE_ENTRIES);
+    const result = await listPagerDutyLogEntries(incidentId, apiToken);
+    if (!result.success || !result.data) return failed(`:x: Couldn't fetch the timeline: ${result.error}`);
+    const entries = result.data.slice(-limit);
+    if (entries.length === 0) return ok(`No timeline entries for ${incidentId}.`);
+    const lines = entries.map((e) => {
+      const when = new Date(e.createdAt).toISOString().slice(5, 16).replace("T", " ");
+      return `• \`${when}\` ${e.summary}`;
+    });
+    return ok(`*Timeline for ${incidentId}* (last ${entries.length}, UTC):\n${lines.join("\n")}`);
+  }
+
+  if (INCIDENT_CHANGES.has(command) && !(await hasPermission(app, userId, "incident_manage"))) {
+    console.log(`[PagerDutyCmd] ${userId} lacks "incident_manage" for "!pd ${command}" — declining`);
+    return { status: "denied", reply: buildDeclineMessage("incident_manage") };
+  }
+
+  const creds: PagerDutyCredentials | null = getPagerDutyCredentials();
+  if (!creds) return failed("Changing incidents needs both `PAGERDUTY_API_TOKEN` and `PAGERDUTY_FROM_EMAIL`.");
+  console.log(`[PagerDutyCmd] ${userId} ran "!pd ${command}" on ${incidentId} (thread ${threadTs})`);
+  /** Log a successful change for the thread's postmortem */
+  const record = (result: { success: boolean }, detail?: string) => {
+    if (result.success) recordIncidentAction(threadTs!, `pd_${command}`, { incidentId, userId, detail });
+  };
+
+  switch (command) {
+    case "note": {
+      const note = rest.join(" ").trim();
+      if (!note) return failed("Usage: `!pd note <text>`");
+      const result = await addPagerDutyIncidentNote(incidentId, creds, `${note}\n\n(from Slack, <@${userId}>)`);
+      record(result, note);
+      return result.success ? ok(`:memo: Note added to ${incidentId}.`) : failed(`:x: PagerDuty rejected the note: ${result.error}`);
+    }
+
+    case "ack": {
+      const result = await acknowledgePagerDutyIncident(incidentId, creds.apiToken, creds.fromEmail);
+      if (!result.success) return failed(`:x: PagerDuty rejected the request: ${result.error}`);
+      recordIncidentAction(threadTs!, "pd_acknowledge", { incidentId, userId });
+      return ok(`:eyes: Acknowledged ${incidentId}.`);
+    }
+
+    case "resolve": {
+      const resolution = rest.join(" ").trim() || undefined;
+      const result = await resolvePagerDutyIncident(incidentId, creds, resolution);
+      if (!result.success) return outcome(result, "");
+      record(result, resolution);
+      await handleIncidentResolved(app, incidentId, { announce: false });
+      return outcome(result, `:white_check_mark: Resolved ${incidentId} — investigation stopped.`);
+    }
+
+    case "escalate": {
+      const level = rest[0] ? parseInt(rest[0], 10) : DEFAULT_ESCALATION_LEVEL;
+      if (!Number.isInteger(level) || level < 1) return failed("Usage: `!pd escalate [level]` (level >= 1)");
+      const result = await escalatePagerDutyIncident(incidentId, creds, level);
+      record(result, `level ${level}`);
+      return outcome(result, `:arrow_up: Escalated ${incidentId} to level ${level}.`);
+    }
+
+    case "reassign": {
+      if (rest.length === 0) return failed("Usage: `!pd reassign <@user|email|PD user ID> ...`");
+      const assignees = await resolveAssignees(app, rest, apiToken);
+      if (!assignees.success || !assignees.data) return failed(`:x: ${assignees.error}`);
+      const result = await reassignPagerDutyIncident(incidentId, creds, assignees.data);
+      record(result, rest.join(" "));
+      return outcome(result, `:busts_in_silhouette: Reassigned ${incidentId}.`);
+    }
+
+    case "snooze": {
+      const seconds = parseDuration(rest[0]);
+      if (!seconds) return failed("Usage: `!pd snooze <30m|2h|1d>`");
+      const result = await snoozePagerDutyIncident(incidentId, creds, seconds);
+      record(result, rest[0]);
+      return outcome(result, `:zzz: Snoozed ${incidentId} for ${rest[0]}.`);
+    }
+
+    case "urgency": {
+      const urgency = rest[0]?.toLowerCase();
+      if (urgency !== "high" && urgency !== "low") return failed("Usage: `!pd urgency <high|low>`");
+      const result = await setPagerDutyIncidentUrgency(incidentId, creds, urgency);
+      record(result, urgency);
+      return outcome(result, `Urgency of ${incidentId} set to ${urgency}.`);
+    }
+
+    default:
+      return failed(`Unknown command \`!pd ${sub}\`.\n${HELP}`);
+  }
+}
+
+/**
+ * Handle a `!pd ...` command in an alert thread. Caller must have verified the `alert_followup` permission.
+ * The reply goes to the thread; with `postFailures: false` only a successful one does, and the caller
+ * reports the returned failure itself.
+ */
+export async function handlePagerDutyCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string,
+  text: string,
+  options: { postFailures?: boolean } = {}
+): Promise<PagerDutyCommandOutcome> {
+  let result: PagerDutyCommandOutcome;
+  try {
+    result = await runPagerDutyCommand(app, threadTs, userId, text);
+  } catch (err) {
+    console.error("[PagerDutyCmd] Command failed:", err);
+    result = failed(`:x: PagerDuty command failed: ${(err as Error).message}`);
+  }
+  if (result.status !== "ok" && options.postFailures === false) return result;
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: result.reply,
+    });
+  } catch (err) {
+    console.error("[PagerDutyCmd] Failed to post command reply:", err);
+  }
+  return result;
+}
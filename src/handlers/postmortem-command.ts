@@ -0,0 +1,31 @@
+import type { App } from "@slack/bolt";
+import { writePostmortem } from "../services/postmortem.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+/** Check whether a (mention-stripped) message is the postmortem command */
+export function isPostmortemCommand(text: string): boolean {
+  return /^!postmortem\b/i.test(text.trim());
+}
+
+/**
+ * Handle `!postmortem` in an alert or delay alert thread, including finished ones: write a
+ * postmortem, upload it to the thread and archive it. Caller must have verified the
+ * `alert_followup` permission.
+ */
+export async function handlePostmortemCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string
+): Promise<void> {
+  if (!threadTs) {
+    try {
+      await postMessage({ channel: channelId, text: "Run `!postmortem` as a reply in an alert thread." });
+    } catch (err) {
+      console.error("[PostmortemCmd] Failed to post command reply:", err);
+    }
+    return;
+  }
+  console.log(`[PostmortemCmd] ${userId} requested a postmortem for thread ${threadTs}`);
+  await writePostmortem(app, channelId, threadTs, userId);
+}
@@ -0,0 +1,58 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { reloadConfig, type ConfigReloadResult } from "../services/config-reload.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+/** Check whether a (mention-stripped) message is the reload command */
+export function isReloadCommand(text: string): boolean {
+  return /^!reload\s*$/i.test(text.trim());
+}
+
+function formatReloadResult(result: ConfigReloadResult): string {
+  const lines = [
+    result.changed.length > 0
+      ? `:white_check_mark: Configuration reloaded — changed: ${result.changed.map((k) => `\`${k}\``).join(", ")}`
+      : ":white_check_mark: Configuration reloaded — no changes",
+    `Monitor rules: ${result.rules.map((r) => `\`${r}\``).join(", ") || "_none_"}`,
+  ];
+  if (result.restartRequired.length > 0) {
+    lines.push(`:warning: Restart required for: ${result.restartRequired.map((k) => `\`${k}\``).join(", ")}`);
+  }
+  for (const warning of result.warnings) {
+    lines.push(`:warning: ${warning}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Handle `!reload`: re-read .env and monitor rules without restarting. Owner only —
+ * the `manage` permission is not enough, since config controls tokens and budgets.
+ */
+export async function handleReloadCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string
+): Promise<void> {
+  let reply: string;
+  if (userId !== config.ownerUserId) {
+    console.log(`[Reload] ${userId} is not the owner — declining`);
+    reply = "Only the bot owner can reload the configuration.";
+  } else {
+    try {
+      reply = formatReloadResult(await reloadConfig(`!reload by ${userId}`));
+    } catch (err) {
+      reply = `:x: Reload rejected, running config unchanged: ${(err as Error).message}`;
+    }
+  }
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+    });
+  } catch (err) {
+    console.error("[Reload] Failed to post command reply:", err);
+  }
+}
@@ -0,0 +1,242 @@
+import type { App, BlockButtonAction } from "@slack/bolt";
+import type { KnownBlock, ModalView } from "@slack/web-api";
+import { config } from "../config.js";
+import { getActiveWorkflow, handleOwnerFeedback, cleanupWorkflow, startAlertWorkflow } from "../services/alert-workflow.js";
+import {
+  getActiveDiscussion,
+  handleDiscussReply,
+  handleDiscussCompact,
+  handleDiscussExit,
+  killDiscussSession,
+} from "../services/discuss-workflow.js";
+import { getThreadCluster } from "../services/incident-clusters.js";
+import { recordIncidentAction } from "../services/incident-actions.js";
+import { getPagerDutyIncidentStatus } from "../services/pagerduty.js";
+import { resolveAccess, buildDeclineMessage, type Permission } from "../services/access-control.js";
+import {
+  REPORT_ACTIONS,
+  REPORT_ACTION_PREFIX,
+  REPORT_FOLLOWUP_VIEW,
+  CONTROLS_TEXT,
+  withActivity,
+  type ReportAction,
+} from "../services/report-controls.js";
+import { callSlack, postMessage, updateMessage } from "../services/slack-gateway.js";
+import { handlePagerDutyCommand } from "./pagerduty-commands.js";
+
+const ESCALATION_PROMPT =
+  "Review this investigation with fresh eyes: check the evidence behind each conclusion, look for anything " +
+  "that was missed or ruled out too early, and restate the root cause and next steps — correcting them where needed.";
+
+const QUESTION_BLOCK_ID = "question";
+const QUESTION_ACTION_ID = "text";
+
+interface FollowUpMetadata {
+  channelId: string;
+  threadTs: string;
+}
+
+/** Same checks as the text equivalents: follow-ups need `alert_followup` while the alert workflow runs, `mention` once it became a session */
+function requiredPermission(action: ReportAction, threadTs: string): Permission {
+  switch (action) {
+    case "compact":
+    case "end":
+      return "session_commands";
+    case "pd_resolve":
+      return "incident_manage";
+    case "followup":
+    case "escalate":
+      return getActiveWorkflow(threadTs) ? "alert_followup" : "mention";
+    default:
+      return "alert_followup";
+  }
+}
+
+function hasSession(threadTs: string): boolean {
+  return Boolean(getActiveWorkflow(threadTs) || getActiveDiscussion(threadTs));
+}
+
+/** Only the clicking user sees it */
+async function whisper(channelId: string, threadTs: string, userId: string, text: string): Promise<void> {
+  try {
+    await callSlack("chat.postEphemeral", (client) =>
+      client.chat.postEphemeral({ channel: channelId, thread_ts: threadTs, user: userId, text })
+    );
+  } catch (err) {
+    console.error("[ReportActions] Failed to post ephemeral reply:", err);
+  }
+}
+
+function followUpModal(metadata: FollowUpMetadata): ModalView {
+  return {
+    type: "modal",
+    callback_id: REPORT_FOLLOWUP_VIEW,
+    private_metadata: JSON.stringify(metadata),
+    title: { type: "plain_text", text: "Ask a follow-up" },
+    submit: { type: "plain_text", text: "Ask" },
+    close: { type: "plain_text", text: "Cancel" },
+    blocks: [
+      {
+        type: "input",
+        block_id: QUESTION_BLOCK_ID,
+        label: { type: "plain_text", text: "Question" },
+        element: { type: "plain_text_input", action_id: QUESTION_ACTION_ID, multiline: true },
+      },
+    ],
+  };
+}
+
+/** End the thread's session and investigate its alert again (owner only, like `!split`) */
+async function rerunInvestigation(app: App, threadTs: string, userId: string): Promise<string | null> {
+  const member = getThreadCluster(threadTs)?.member;
+  if (!member) return "Can't find the alert this report investigated.";
+  if (member.incident_id && config.pagerdutyApiToken) {
+    const status = await getPagerDutyIncidentStatus(member.incident_id, config.pagerdutyApiToken);
+    if (status === "resolved") return `${member.incident_id} is resolved — nothing to re-investigate.`;
+  }
+
+  const workflow = getActiveWorkflow(threadTs);
+  if (workflow) await cleanupWorkflow(app, workflow);
+  killDiscussSession(threadTs);
+  recordIncidentAction(threadTs, "investigation_rerun", { incidentId: member.incident_id, userId });
+  startAlertWorkflow(app, member.channel_id, threadTs, member.alert_text, undefined, {
+    incidentId: member.incident_id,
+    service: member.service,
+    ruleName: member.rule_name ?? undefined,
+    skill: member.skill ?? undefined,
+    model: member.model ?? undefined,
+    rerun: true,
+  }).catch((err) => console.error(`[ReportActions] Re-run for thread ${threadTs} failed:`, err));
+  return null;
+}
+
+/** Carry out a click; returns a note for the clicking user when nothing was done */
+async function runReportAction(
+  app: App,
+  action: ReportAction,
+  channelId: string,
+  threadTs: string,
+  userId: string,
+  triggerId: string
+): Promise<string | null> {
+  switch (action) {
+    case "pd_ack":
+    case "pd_resolve": {
+      const command = action === "pd_ack" ? "!pd ack" : "!pd resolve";
+      // A rejected change is only the clicker's business; a successful one is posted to the thread
+      const result = await handlePagerDutyCommand(app, channelId, threadTs, userId, command, { postFailures: false });
+      return result.status === "ok" ? null : result.reply;
+    }
+
+    case "followup":
+      if (!hasSession(threadTs)) return "This thread's session has ended — mention me in the thread to start a new one.";
+      await callSlack("views.open", (client) =>
+        client.views.open({ trigger_id: triggerId, view: followUpModal({ channelId, threadTs }) })
+      );
+      return null;
+
+    case "escalate": {
+      const model = config.escalationModel;
+      if (getActiveWorkflow(threadTs)) await handleOwnerFeedback(app, threadTs, ESCALATION_PROMPT, userId, { model });
+      else if (getActiveDiscussion(threadTs)) await handleDiscussReply(app, threadTs, ESCALATION_PROMPT, userId, { model });
+      else return "This thread's session has ended — use *Re-run investigation* instead.";
+      return null;
+    }
+
+    case "rerun":
+      return rerunInvestigation(app, threadTs, userId);
+
+    case "compact":
+      if (!getActiveDiscussion(threadTs)) return "Nothing to compact — this thread has no Claude session.";
+      await handleDiscussCompact(app, threadTs, userId);
+      return null;
+
+    case "end": {
+      const workflow = getActiveWorkflow(threadTs);
+      if (workflow) await cleanupWorkflow(app, workflow);
+      else if (getActiveDiscussion(threadTs)) await handleDiscussExit(app, threadTs);
+      else return "No active session in this thread.";
+      return null;
+    }
+  }
+}
+
+/**
+ * Handle the buttons under investigation reports (see report-controls.ts) and the follow-up modal.
+ * A click needs the same permission as the matching text command; the controls message then shows who clicked what.
+ */
+export function registerReportActions(app: App): void {
+  app.action<BlockButtonAction>(new RegExp(`^${REPORT_ACTION_PREFIX}`), async ({ ack, body, action }) => {
+    await ack();
+    const name = action.action_id.slice(REPORT_ACTION_PREFIX.length) as ReportAction;
+    const channelId = body.channel?.id;
+    const controlsTs = body.message?.ts;
+    const threadTs = action.value;
+    const userId = body.user.id;
+    if (!(name in REPORT_ACTIONS) || !channelId || !controlsTs || !threadTs) return;
+
+    const access = await resolveAccess(app, userId);
+    const perm = requiredPermission(name, threadTs);
+    if (!access.permissions.has(perm)) {
+      console.log(`[ReportActions] ${userId} lacks "${perm}" permission for ${name} on thread ${threadTs} — declining`);
+      await whisper(channelId, threadTs, userId, buildDeclineMessage(perm));
+      return;
+    }
+    if (name === "rerun" && !access.isOwner) {
+      await whisper(channelId, threadTs, userId, "Only the bot owner can re-run an investigation.");
+      return;
+    }
+
+    console.log(`[ReportActions] ${userId} clicked ${name} on thread ${threadTs}`);
+    let note: string | null;
+    try {
+      note = await runReportAction(app, name, channelId, threadTs, userId, body.trigger_id);
+    } catch (err) {
+      console.error(`[ReportActions] ${name} on thread ${threadTs} failed:`, err);
+      note = `:x: ${REPORT_ACTIONS[name]} failed: ${(err as Error).message}`;
+    }
+    if (note) {
+      await whisper(channelId, threadTs, userId, note);
+      return;
+    }
+
+    try {
+      await updateMessage({
+        channel: channelId,
+        ts: controlsTs,
+        text: CONTROLS_TEXT,
+        blocks: withActivity((body.message?.blocks ?? []) as KnownBlock[], userId, name),
+      });
+    } catch (err) {
+      console.error("[ReportActions] Failed to update the controls message:", err);
+    }
+  });
+
+  app.view(REPORT_FOLLOWUP_VIEW, async ({ ack, body, view }) => {
+    const { channelId, threadTs } = JSON.parse(view.private_metadata) as FollowUpMetadata;
+    const userId = body.user.id;
+    const question = view.state.values[QUESTION_BLOCK_ID]?.[QUESTION_ACTION_ID]?.value?.trim() ?? "";
+
+    // The thread may have changed while the modal was open (converted to a session, or ended)
+    const perm = requiredPermission("followup", threadTs);
+    const access = await resolveAccess(app, userId);
+    let error: string | null = null;
+    if (!question) error = "Ask a question.";
+    else if (!access.permissions.has(perm)) error = buildDeclineMessage(perm);
+    else if (!hasSession(threadTs)) error = "This thread's session has ended — mention me in the thread to start a new one.";
+    if (error) {
+      await ack({ response_action: "errors", errors: { [QUESTION_BLOCK_ID]: error } });
+      return;
+    }
+    await ack();
+
+    console.log(`[ReportActions] ${userId} asked a follow-up on thread ${threadTs}`);
+    try {
+      await postMessage({ channel: channelId, thread_ts: threadTs, text: `:speech_balloon: <@${userId}> asked: ${question}` });
+    } catch (err) {
+      console.error("[ReportActions] Failed to post the follow-up question:", err);
+    }
+    if (getActiveWorkflow(threadTs)) await handleOwnerFeedback(app, threadTs, question, userId);
+    else await handleDiscussReply(app, threadTs, question, userId);
+  });
+}
@@ -0,0 +1,184 @@
+import type { App } from "@slack/bolt";
+import { formatZonedTime } from "../services/cron.js";
+import {
+  listJobs,
+  addScheduledJob,
+  setJobPaused,
+  removeScheduledJob,
+  runJobNow,
+  type JobInfo,
+  type NewScheduledJob,
+} from "../services/scheduler.js";
+import { postMessage } from "../services/slack-gateway.js";
+
+const PROMPT_PREVIEW_LENGTH = 150;
+
+const USAGE =
+  "*Schedule commands:*\n" +
+  "• `!schedule list` — jobs with their next and last run\n" +
+  "• `!schedule add <name> <cron> [tz:<Area/City>] [to:<#channel|@user|me|here>] [skill:<skill>] [model:<model>] [catchup:off] <prompt>`\n" +
+  "   cron is 5 fields (`0 9 * * mon-fri`) or a shorthand (`@daily`); with `skill:` the prompt is the skill's arguments\n" +
+  "• `!schedule pause <name>` / `!schedule resume <name>`\n" +
+  "• `!schedule run <name>` — run now, outside the schedule\n" +
+  "• `!schedule remove <name>`";
+
+/** Check whether a (mention-stripped) message is a schedule command */
+export function isScheduleCommand(text: string): boolean {
+  return /^!schedule\b/i.test(text.trim());
+}
+
+/** Split off the first whitespace-separated token, keeping the rest (and its line breaks) as typed */
+function shift(text: string): [string, string] {
+  const match = text.match(/^\s*(\S+)([\s\S]*)$/);
+  return match ? [match[1], match[2]] : ["", ""];
+}
+
+function formatTarget(target: string): string {
+  if (/^[UW]/.test(target)) return `DM <@${target}>`;
+  if (target.startsWith("D")) return "DM";
+  return `<#${target}>`;
+}
+
+function formatJob(job: JobInfo): string {
+  const meta = [
+    `\`${job.cron}\` ${job.timezone}`,
+    job.target ? `to ${formatTarget(job.target)}` : "",
+    job.skill ? `skill ${job.skill}` : "",
+    job.model ? `model ${job.model}` : "",
+    job.builtin || job.catchUp ? "" : "no catch-up",
+    job.paused ? ":double_vertical_bar: paused" : "",
+    job.running ? ":hourglass_flowing_sand: running" : "",
+    !job.paused && job.nextRunAt ? `next ${formatZonedTime(job.nextRunAt, job.timezone)}` : "",
+    job.lastRun
+      ? `last ${job.lastRun.status} ${formatZonedTime(job.lastRun.started_at, job.timezone)}` +
+        (job.lastRun.error ? ` (${job.lastRun.error})` : "")
+      : "",
+  ].filter(Boolean);
+  const description = job.description.replace(/\s+/g, " ");
+  const preview = description.length > PROMPT_PREVIEW_LENGTH ? `${description.slice(0, PROMPT_PREVIEW_LENGTH)}…` : description;
+  return `• \`${job.name}\`${job.builtin ? " (built-in)" : ""} — ${meta.join(" · ")}\n> ${preview}`;
+}
+
+/** Parse `add` arguments; returns a usage error string when they don't make a job */
+function parseAddArgs(text: string, channelId: string, userId: string): NewScheduledJob | string {
+  let [name, rest] = shift(text);
+  let cronToken: string;
+  [cronToken, rest] = shift(rest);
+  const cronFields = [cronToken];
+  if (!cronToken.startsWith("@")) {
+    for (let i = 0; i < 4; i++) {
+      let field: string;
+      [field, rest] = shift(rest);
+      cronFields.push(field);
+    }
+  }
+  if (!name || cronFields.some((f) => !f)) return "Usage: `!schedule add <name> <cron> [options] <prompt>` (see `!schedule help`)";
+
+  const job: NewScheduledJob = { name, cron: cronFields.join(" "), prompt: "", target: channelId, createdBy: userId };
+  for (;;) {
+    const [token, after] = shift(rest);
+    const option = token.match(/^(tz|to|skill|model|catchup):(.+)$/i);
+    if (!option) break;
+    rest = after;
+    const value = option[2];
+    switch (option[1].toLowerCase()) {
+      case "tz":
+        job.timezone = value;
+        break;
+      case "to": {
+        const mention = value.match(/^<[#@]([CGUW][A-Z0-9]+)(?:\|[^>]*)?>$/);
+        if (value === "me") job.target = userId;
+        else if (value === "here") job.target = channelId;
+        else if (mention) job.target = mention[1];
+        else return `Can't post to \`${value}\` — use a #channel, an @user, \`me\` or \`here\`.`;
+        break;
+      }
+      case "skill":
+        job.skill = value;
+        break;
+      case "model":
+        job.model = value;
+        break;
+      case "catchup":
+        job.catchUp = !/^(off|no|false)$/i.test(value);
+        break;
+    }
+  }
+  job.prompt = rest.trim().replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+  return job;
+}
+
+function runScheduleCommand(text: string, channelId: string, userId: string): string {
+  const [, afterCommand] = shift(text);
+  const [sub, rest] = shift(afterCommand);
+  const [name] = shift(rest);
+
+  switch ((sub || "list").toLowerCase()) {
+    case "list": {
+      const jobs = listJobs();
+      if (jobs.length === 0) return "No scheduled jobs. Add one with `!schedule add` (see `!schedule help`).";
+      return `*Scheduled jobs:*\n${jobs.map(formatJob).join("\n")}`;
+    }
+
+    case "add": {
+      const input = parseAddArgs(rest, channelId, userId);
+      if (typeof input === "string") return input;
+      const result = addScheduledJob(input);
+      if (!result.success || !result.data) return `:x: ${result.error}`;
+      return `:white_check_mark: Added job \`${input.name}\`.\n${formatJob(result.data)}`;
+    }
+
+    case "pause":
+    case "resume": {
+      if (!name) return `Usage: \`!schedule ${sub.toLowerCase()} <name>\``;
+      const result = setJobPaused(name, sub.toLowerCase() === "pause");
+      if (!result.success || !result.data) return `:x: ${result.error}`;
+      return `${result.data.paused ? "Paused" : "Resumed"} \`${name}\`.\n${formatJob(result.data)}`;
+    }
+
+    case "run": {
+      if (!name) return "Usage: `!schedule run <name>`";
+      const result = runJobNow(name);
+      return result.success ? `:arrow_forward: Started \`${name}\`.` : `:x: ${result.error}`;
+    }
+
+    case "remove": {
+      if (!name) return "Usage: `!schedule remove <name>`";
+      const result = removeScheduledJob(name);
+      return result.success ? `Removed \`${name}\`.` : `:x: ${result.error}`;
+    }
+
+    default:
+      return USAGE;
+  }
+}
+
+/**
+ * Handle a `!schedule ...` command. Caller must have verified the `manage` permission —
+ * jobs run Claude on a schedule and post wherever they are pointed.
+ */
+export async function handleScheduleCommand(
+  app: App,
+  channelId: string,
+  threadTs: string | undefined,
+  userId: string,
+  text: string
+): Promise<void> {
+  let reply: string;
+  try {
+    reply = runScheduleCommand(text, channelId, userId);
+  } catch (err) {
+    console.error("[ScheduleCmd] Command failed:", err);
+    reply = `:x: Schedule command failed: ${(err as Error).message}`;
+  }
+
+  try {
+    await postMessage({
+      channel: channelId,
+      ...(threadTs ? { thread_ts: threadTs } : {}),
+      text: reply,
+    });
+  } catch (err) {
+    console.error("[ScheduleCmd] Failed to post command reply:", err);
+  }
+}
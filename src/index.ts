@@ -1,3 +1,10 @@
+import { runConfigCheck } from "./check-config.js";
+
+// `--check-config`: print the configuration report and exit without connecting to Slack
+if (process.argv.includes("--check-config")) {
+  process.exit(runConfigCheck());
+}
+
 // Prepend timestamps to all console output
 function timestamp(): string {
   const d = new Date();
@@ -14,19 +21,38 @@ console.warn = (...args: unknown[]) => {
   origWarn(`[${timestamp()}] WARN`, ...args);
 };
 
-import { config } from "./config.js";
+import { config, startupConfigIssues, formatConfigIssue } from "./config.js";
 import { initDatabase, closeDatabase } from "./services/database.js";
 import { startHttpServer, setSlackConnected, setDailySummaryTrigger, setSlackApp, stopHttpServer } from "./server.js";
 import { registerHandlers } from "./handlers/message.js";
-import { registerAlertMonitor, resolveMonitorChannels } from "./handlers/alert-monitor.js";
-import { resolveDelayChannels, registerDelayAlertMonitor, restoreAlertCounters } from "./handlers/delay-alert-monitor.js";
-import { runDailySummary } from "./services/daily-summary.js";
+import { registerMonitor, resolveMonitorChannels } from "./handlers/monitor.js";
+import { registerReportActions } from "./handlers/report-actions.js";
+import { restoreAlertWindows } from "./services/alert-windows.js";
+import { loadMonitorRules } from "./services/monitor-rules.js";
+import { runDailySummary, runWeeklySummary, summaryTimeZone } from "./services/daily-summary.js";
 import { killAllWorkflows, restoreAlertWorkflows } from "./services/alert-workflow.js";
 import { killAllDelayWorkflows, restoreDelayWorkflows } from "./services/delay-alert-workflow.js";
 import { killAllDiscussWorkflows, restoreDiscussions } from "./services/discuss-workflow.js";
 import { detectMcpOverrides } from "./services/mcp-config.js";
+import { onConfigReload, watchConfigFiles } from "./services/config-reload.js";
+import { refreshCliPool } from "./services/cli-pool.js";
+import { startIncidentSync, stopIncidentSync } from "./services/incident-sync.js";
+import { importReportFiles } from "./services/report-archive.js";
+import { registerBuiltinJob, unregisterBuiltinJob, startScheduler, stopScheduler } from "./services/scheduler.js";
+import { localTimeZone } from "./services/cron.js";
 import { App, LogLevel } from "@slack/bolt";
 
+// Refuse to start on invalid config (run with --check-config for the full report)
+for (const issue of startupConfigIssues) {
+  if (issue.level === "warning") console.warn(`[Config] ${formatConfigIssue(issue)}`);
+}
+const configErrors = startupConfigIssues.filter((i) => i.level === "error");
+if (configErrors.length > 0) {
+  for (const issue of configErrors) console.error(`[Config] ${formatConfigIssue(issue)}`);
+  console.error(`[Config] ${configErrors.length} configuration error(s) — not starting`);
+  process.exit(1);
+}
+
 // Init database
 initDatabase(config.databasePath);
 console.log(`Database initialized at ${config.databasePath}`);
@@ -34,6 +60,10 @@ console.log(`Database initialized at ${config.databasePath}`);
 // Detect MCP overrides for alert CLI processes
 detectMcpOverrides();
 
+// Load monitor rules (built-in PagerDuty/Airflow rules + MONITOR_RULES_PATH)
+const monitorRules = loadMonitorRules();
+console.log(`Monitor rules: ${monitorRules.map((r) => r.name).join(", ") || "(none)"}`);
+
 // Create Slack app
 const app = new App({
   token: config.slackBotToken,
@@ -43,106 +73,77 @@ const app = new App({
   logLevel: LogLevel.ERROR,
 });
 
-// Schedule daily restart
+// Daily restart (the service manager starts the bot again)
 function scheduleDailyRestart(): void {
   const hour = config.dailyRestartHour;
-  const now = new Date();
-  const next = new Date(now);
-  next.setHours(hour, 0, 0, 0);
-  if (next.getTime() <= now.getTime()) {
-    next.setDate(next.getDate() + 1);
-  }
-  const ms = next.getTime() - now.getTime();
-  console.log(`Scheduled restart at ${hour}:00 (in ${Math.round(ms / 60000)} minutes)`);
-  setTimeout(() => {
-    console.log(`Daily restart at ${hour}:00 — exiting...`);
-    process.exit(0);
-  }, ms).unref();
+  registerBuiltinJob({
+    name: "daily-restart",
+    cron: `0 ${hour} * * *`,
+    timezone: localTimeZone(),
+    description: `Restart the bot at ${hour}:00 (DAILY_RESTART_HOUR)`,
+    catchUp: false,
+    run: async () => {
+      console.log(`Daily restart at ${hour}:00 — exiting...`);
+      // After the scheduler has recorded the run
+      setImmediate(() => process.exit(0));
+    },
+  });
 }
 
 // Run daily summary
-function triggerDailySummary(): void {
-  runDailySummary({
+async function triggerDailySummary(): Promise<void> {
+  await runDailySummary(app, {
     channels: config.channels.dailySummary,
-    ownerUserId: config.ownerUserId,
     model: config.dailySummaryModel,
-    sendDm: async (userId: string, text: string) => {
-      const MAX_LENGTH = 3900;
-      if (text.length <= MAX_LENGTH) {
-        await app.client.chat.postMessage({ channel: userId, text, unfurl_links: false, unfurl_media: false });
-        return;
-      }
-
-      // Split into chunks at paragraph boundaries, thread replies after first
-      const chunks: string[] = [];
-      let remaining = text;
-      while (remaining.length > 0) {
-        if (remaining.length <= MAX_LENGTH) {
-          chunks.push(remaining);
-          break;
-        }
-        // Find last paragraph break within limit
-        let splitAt = remaining.lastIndexOf("\n\n", MAX_LENGTH);
-        if (splitAt <= 0) splitAt = remaining.lastIndexOf("\n", MAX_LENGTH);
-        if (splitAt <= 0) splitAt = MAX_LENGTH;
-        chunks.push(remaining.slice(0, splitAt));
-        remaining = remaining.slice(splitAt).replace(/^\n+/, "");
-      }
-
-      // First chunk as the main message
-      const first = await app.client.chat.postMessage({
-        channel: userId,
-        text: chunks[0],
-        unfurl_links: false,
-        unfurl_media: false,
-      });
-      const threadTs = first.ts;
-
-      // Remaining chunks as thread replies
-      for (let i = 1; i < chunks.length; i++) {
-        await app.client.chat.postMessage({
-          channel: userId,
-          text: chunks[i],
-          thread_ts: threadTs,
-          unfurl_links: false,
-          unfurl_media: false,
-        });
-      }
-    },
-  }).catch((err) => console.error("[DailySummary] Failed:", err));
+    targets: config.dailySummaryTargets,
+  });
 }
 
-// Schedule daily summary at configured time
+// Schedule daily summary at configured time (caught up on startup if the bot was down at that time)
 function scheduleDailySummary(): void {
   if (config.channels.dailySummary.length === 0) {
+    unregisterBuiltinJob("daily-summary");
     console.log("Daily summary: no channels configured, skipping scheduler");
     return;
   }
 
-  const [hourStr, minStr] = config.dailySummaryTime.split(":");
-  const hour = parseInt(hourStr, 10);
-  const minute = parseInt(minStr, 10);
+  const [hour, minute] = config.dailySummaryTime.split(":").map((n) => parseInt(n, 10));
+  registerBuiltinJob({
+    name: "daily-summary",
+    cron: `${minute} ${hour} * * *`,
+    timezone: summaryTimeZone(),
+    description:
+      `Summary of ${config.channels.dailySummary.map((c) => `#${c.name}`).join(", ")} ` +
+      `to ${config.dailySummaryTargets.join(", ")} (DAILY_SUMMARY_TIME)`,
+    catchUp: true,
+    run: triggerDailySummary,
+  });
+}
 
-  const now = new Date();
-  const next = new Date(now);
-  next.setHours(hour, minute, 0, 0);
-  if (next.getTime() <= now.getTime()) {
-    next.setDate(next.getDate() + 1);
+// Schedule the weekly roll-up of the stored daily summaries (WEEKLY_SUMMARY_DAY unset = off)
+function scheduleWeeklySummary(): void {
+  if (!config.weeklySummaryDay || config.channels.dailySummary.length === 0) {
+    unregisterBuiltinJob("weekly-summary");
+    return;
   }
-  const ms = next.getTime() - now.getTime();
-  console.log(
-    `Daily summary scheduled at ${config.dailySummaryTime} ` +
-      `for channels: ${config.channels.dailySummary.map((c) => c.name).join(", ")} ` +
-      `(in ${Math.round(ms / 60000)} min)`
-  );
-
-  setTimeout(() => {
-    triggerDailySummary();
-  }, ms).unref();
+
+  const [hour, minute] = config.weeklySummaryTime.split(":").map((n) => parseInt(n, 10));
+  const targets = config.weeklySummaryTargets.length > 0 ? config.weeklySummaryTargets : config.dailySummaryTargets;
+  registerBuiltinJob({
+    name: "weekly-summary",
+    cron: `${minute} ${hour} * * ${config.weeklySummaryDay}`,
+    timezone: summaryTimeZone(),
+    description: `Weekly roll-up of the daily summaries to ${targets.join(", ")} (WEEKLY_SUMMARY_DAY)`,
+    catchUp: true,
+    run: () =>
+      runWeeklySummary(app, { channels: config.channels.dailySummary, model: config.weeklySummaryModel, targets }),
+  });
 }
 
 // Register HTTP trigger for manual testing
-setDailySummaryTrigger(triggerDailySummary);
+setDailySummaryTrigger(() => {
+  triggerDailySummary().catch((err) => console.error("[DailySummary] Failed:", err));
+});
 setSlackApp(app);
 
 // Start HTTP server
@@ -160,21 +161,41 @@ startHttpServer(config.port);
 
   // Resolve all channel names to IDs before registering handlers
   await resolveMonitorChannels(app);
-  await resolveDelayChannels(app);
 
   // Restore persisted state before registering handlers
-  restoreAlertCounters();
+  restoreAlertWindows();
   restoreAlertWorkflows(app);
   restoreDelayWorkflows(app);
   restoreDiscussions();
+  importReportFiles();
 
   // Register message handlers
-  registerHandlers(app, botUserId, config.ownerUserId);
-  registerAlertMonitor(app, config.ownerUserId, botUserId);
-  registerDelayAlertMonitor(app, config.ownerUserId, botUserId);
+  registerHandlers(app, botUserId);
+  registerMonitor(app, botUserId);
+  registerReportActions(app);
 
   scheduleDailyRestart();
   scheduleDailySummary();
+  scheduleWeeklySummary();
+  startScheduler(app);
+  startIncidentSync(app);
+
+  // Apply reloaded config (POST /config/reload, !reload, or a .env / rules file change)
+  onConfigReload(async ({ changed }) => {
+    await resolveMonitorChannels(app);
+    if (changed.some((k) => ["requiredMcpServers", "claudeConfigPath", "paymentsRepoPath"].includes(k))) {
+      detectMcpOverrides();
+    }
+    if (changed.includes("dailyRestartHour")) scheduleDailyRestart();
+    if (changed.some((k) => ["dailySummaryTime", "dailySummaryTimezone", "dailySummaryTargets", "channels"].includes(k))) {
+      scheduleDailySummary();
+    }
+    if (changed.some((k) => k.startsWith("weeklySummary") || ["dailySummaryTimezone", "dailySummaryTargets", "channels"].includes(k))) {
+      scheduleWeeklySummary();
+    }
+    if (changed.includes("cliPool")) refreshCliPool();
+  });
+  if (config.configWatch) watchConfigFiles();
 
   // Graceful shutdown
   let shuttingDown = false;
@@ -183,6 +204,8 @@ startHttpServer(config.port);
     shuttingDown = true;
     console.log(`\n${signal} received — shutting down...`);
 
+    stopScheduler();
+    stopIncidentSync();
     killAllWorkflows();
     killAllDelayWorkflows();
     killAllDiscussWorkflows();
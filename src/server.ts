@@ -1,9 +1,29 @@
+import { timingSafeEqual } from "node:crypto";
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
 import type { App } from "@slack/bolt";
 import { config } from "./config.js";
 import { getAllDiscussions, killDiscussSession } from "./services/discuss-workflow.js";
 import { getAllAlertWorkflows, killAlertWorkflow, startAlertWorkflow, isAlertWorkflowActive } from "./services/alert-workflow.js";
 import { getAllDelayWorkflows, killDelayWorkflow, startDelayAlertWorkflow, getActiveDelayWorkflow } from "./services/delay-alert-workflow.js";
+import { getAccessSnapshot } from "./services/access-control.js";
+import { getCliPoolSnapshot } from "./services/cli-pool.js";
+import { reloadConfig } from "./services/config-reload.js";
+import { verifyPagerDutySignature, isStalePagerDutyEvent, handlePagerDutyWebhook } from "./services/pagerduty-webhook.js";
+import {
+  getCliUsageBreakdown,
+  getCliUsageTotals,
+  getReport,
+  getSummaries,
+  getSummary,
+  type ReportFilter,
+  type SummaryFilter,
+  type UsageBucket,
+  type UsageDimension,
+} from "./services/database.js";
+import { searchReportArchive } from "./services/report-archive.js";
+import { writePostmortem, isPostmortemRunning } from "./services/postmortem.js";
+import { listJobs, getJobInfo, addScheduledJob, setJobPaused, removeScheduledJob, runJobNow } from "./services/scheduler.js";
+import { deleteMessage } from "./services/slack-gateway.js";
 
 const startTime = Date.now();
 let slackConnected = false;
@@ -75,7 +95,7 @@ function handleIndex(_req: IncomingMessage, res: ServerResponse): void {
       <span class="sub">(${discuss.length} discuss, ${alert.length} alert, ${delayAlert.length} delay)</span>
     </dd>
   </dl>
-  <p><a href="/sessions">Session details (JSON)</a> · <a href="/api-docs">API docs</a></p>
+  <p><a href="/sessions">Session details (JSON)</a> · <a href="/usage/dashboard">Usage</a> · <a href="/reports">Reports (JSON)</a> · <a href="/summaries">Summaries (JSON)</a> · <a href="/api-docs">API docs</a></p>
 </body>
 </html>`;
   res.writeHead(200, { "Content-Type": "text/html" });
@@ -86,16 +106,20 @@ function handleSessions(_req: IncomingMessage, res: ServerResponse): void {
   const discuss = getAllDiscussions();
   const alert = getAllAlertWorkflows();
   const delayAlert = getAllDelayWorkflows();
+  const pool = getCliPoolSnapshot();
 
   const body = {
     summary: {
       total_cli_processes: discuss.filter(d => d.hasCliChild).length
         + alert.filter(a => a.hasCliChild).length
         + delayAlert.filter(d => d.hasCliChild).length,
+      running_cli_processes: pool.running,
+      queue_depth: pool.queueDepth,
       discuss: discuss.length,
       alert: alert.length,
       delay_alert: delayAlert.length,
     },
+    cli_pool: pool,
     discuss,
     alert,
     delay_alert: delayAlert,
@@ -104,6 +128,209 @@ function handleSessions(_req: IncomingMessage, res: ServerResponse): void {
   res.end(JSON.stringify(body, null, 2));
 }
 
+function handleAccess(_req: IncomingMessage, res: ServerResponse): void {
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(getAccessSnapshot(), null, 2));
+}
+
+const USAGE_ROUTES: Record<string, { dimension: UsageDimension; label: string }> = {
+  "/usage/daily": { dimension: "day", label: "Day" },
+  "/usage/models": { dimension: "model", label: "Model" },
+  "/usage/workflows": { dimension: "workflow_type", label: "Workflow" },
+  "/usage/channels": { dimension: "channel_id", label: "Channel" },
+  "/usage/skills": { dimension: "skill", label: "Skill" },
+};
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+
+function parseUsageDays(url: URL): number {
+  const days = parseInt(url.searchParams.get("days") || "", 10);
+  if (!Number.isFinite(days) || days <= 0) return DEFAULT_USAGE_DAYS;
+  return Math.min(days, MAX_USAGE_DAYS);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderUsageTable(label: string, buckets: UsageBucket[]): string {
+  if (buckets.length === 0) return `<h2>By ${label}</h2><p class="sub">No runs in this period.</p>`;
+  const maxCost = Math.max(...buckets.map((b) => b.cost_usd), 0.0001);
+  const rows = buckets
+    .map((b) => {
+      const width = Math.round((b.cost_usd / maxCost) * 100);
+      return `<tr>
+        <td>${escapeHtml(b.key ?? "(none)")}</td>
+        <td class="num">${b.runs}</td>
+        <td class="num">$${b.cost_usd.toFixed(2)}</td>
+        <td class="num">${b.output_tokens.toLocaleString("en-US")}</td>
+        <td class="bar"><span style="width:${width}%"></span></td>
+      </tr>`;
+    })
+    .join("\n");
+  return `<h2>By ${label}</h2>
+  <table>
+    <tr><th>${label}</th><th>Runs</th><th>Cost</th><th>Output tokens</th><th></th></tr>
+    ${rows}
+  </table>`;
+}
+
+function handleUsageDashboard(url: URL, res: ServerResponse): void {
+  const days = parseUsageDays(url);
+  const totals = getCliUsageTotals(days);
+  const sections = Object.values(USAGE_ROUTES)
+    .map(({ dimension, label }) => renderUsageTable(label, getCliUsageBreakdown(dimension, days)))
+    .join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><title>EnzoBot Usage</title><meta charset="utf-8">
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 860px; margin: 40px auto; padding: 0 20px; color: #333; }
+  h2 { margin-top: 32px; font-size: 1.1em; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 4px 8px; border-bottom: 1px solid #eee; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .bar { width: 30%; }
+  .bar span { display: block; height: 10px; background: #6366f1; border-radius: 2px; }
+  .sub { color: #666; font-size: 0.9em; }
+</style>
+</head>
+<body>
+  <h1>Usage — last ${days} days</h1>
+  <p>
+    <strong>$${totals.cost_usd.toFixed(2)}</strong> across ${totals.runs} CLI runs
+    <span class="sub">(${totals.output_tokens.toLocaleString("en-US")} output tokens)</span>
+  </p>
+  <p class="sub">Period: <a href="?days=1">1d</a> · <a href="?days=7">7d</a> · <a href="?days=30">30d</a> · <a href="?days=90">90d</a> · <a href="/">Back</a></p>
+  ${sections}
+</body>
+</html>`;
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(html);
+}
+
+function handleUsage(req: IncomingMessage, res: ServerResponse): void {
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (url.pathname === "/usage/dashboard") return handleUsageDashboard(url, res);
+
+  const days = parseUsageDays(url);
+
+  if (url.pathname === "/usage") {
+    const body = {
+      days,
+      totals: getCliUsageTotals(days),
+      by_day: getCliUsageBreakdown("day", days),
+      by_model: getCliUsageBreakdown("model", days),
+      by_workflow: getCliUsageBreakdown("workflow_type", days),
+      by_channel: getCliUsageBreakdown("channel_id", days),
+      by_skill: getCliUsageBreakdown("skill", days),
+    };
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body, null, 2));
+    return;
+  }
+
+  const route = USAGE_ROUTES[url.pathname];
+  if (!route) {
+    jsonError(res, 404, "unknown usage route");
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ days, buckets: getCliUsageBreakdown(route.dimension, days) }, null, 2));
+}
+
+const DEFAULT_REPORT_LIMIT = 20;
+const MAX_REPORT_LIMIT = 100;
+
+/** Query parameter → report filter field */
+const REPORT_FILTER_PARAMS: Array<[string, keyof ReportFilter]> = [
+  ["type", "workflowType"],
+  ["kind", "kind"],
+  ["incident", "incidentId"],
+  ["dag", "dagName"],
+  ["service", "service"],
+  ["skill", "skill"],
+  ["status", "status"],
+  ["channel", "channelId"],
+  ["thread", "threadTs"],
+];
+
+function parseReportFilter(url: URL): ReportFilter {
+  const filter: ReportFilter = {};
+  for (const [param, key] of REPORT_FILTER_PARAMS) {
+    const value = url.searchParams.get(param);
+    if (value) (filter as Record<string, unknown>)[key] = value;
+  }
+  const days = parseInt(url.searchParams.get("days") || "", 10);
+  if (Number.isFinite(days) && days > 0) filter.sinceDays = days;
+  const limit = parseInt(url.searchParams.get("limit") || "", 10);
+  filter.limit = Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_REPORT_LIMIT) : DEFAULT_REPORT_LIMIT;
+  const offset = parseInt(url.searchParams.get("offset") || "", 10);
+  filter.offset = Number.isFinite(offset) && offset > 0 ? offset : 0;
+  return filter;
+}
+
+function handleReports(req: IncomingMessage, res: ServerResponse): void {
+  if (req.method !== "GET") { jsonError(res, 405, "GET only"); return; }
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (url.pathname === "/reports") {
+    const query = url.searchParams.get("q")?.trim() || "";
+    const filter = parseReportFilter(url);
+    const reports = searchReportArchive(query, filter);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ query: query || null, limit: filter.limit, offset: filter.offset, reports }, null, 2));
+    return;
+  }
+
+  // /reports/{id} (JSON) or /reports/{id}.md (raw markdown)
+  const m = url.pathname.match(/^\/reports\/(\d+)(\.md)?$/);
+  const report = m ? getReport(Number(m[1])) : undefined;
+  if (!report) { jsonError(res, 404, "report not found"); return; }
+  if (m?.[2]) {
+    res.writeHead(200, { "Content-Type": "text/markdown; charset=utf-8" });
+    res.end(report.body);
+    return;
+  }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(report, null, 2));
+}
+
+function handleSummaries(req: IncomingMessage, res: ServerResponse): void {
+  if (req.method !== "GET") { jsonError(res, 405, "GET only"); return; }
+  const url = new URL(req.url || "/", "http://localhost");
+
+  if (url.pathname === "/summaries") {
+    const filter: SummaryFilter = {};
+    const kind = url.searchParams.get("kind");
+    if (kind === "daily" || kind === "weekly") filter.kind = kind;
+    const channel = url.searchParams.get("channel")?.trim();
+    if (channel) filter.channel = channel;
+    const days = parseInt(url.searchParams.get("days") || "", 10);
+    if (Number.isFinite(days) && days > 0) filter.endedAfter = Date.now() - days * 24 * 60 * 60 * 1000;
+    const limit = parseInt(url.searchParams.get("limit") || "", 10);
+    filter.limit = Number.isFinite(limit) && limit > 0 ? Math.min(limit, MAX_REPORT_LIMIT) : DEFAULT_REPORT_LIMIT;
+    const offset = parseInt(url.searchParams.get("offset") || "", 10);
+    filter.offset = Number.isFinite(offset) && offset > 0 ? offset : 0;
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ limit: filter.limit, offset: filter.offset, summaries: getSummaries(filter) }, null, 2));
+    return;
+  }
+
+  const m = url.pathname.match(/^\/summaries\/(\d+)$/);
+  const summary = m ? getSummary(Number(m[1])) : undefined;
+  if (!summary) { jsonError(res, 404, "summary not found"); return; }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(summary, null, 2));
+}
+
 function handleKillSession(threadTs: string, res: ServerResponse): void {
   const killed = killDiscussSession(threadTs)
     || killAlertWorkflow(threadTs)
@@ -158,26 +385,46 @@ function parseSlackUrl(url: string): { channelId: string; messageTs: string } |
   return { channelId, messageTs };
 }
 
-function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+function readRawBody(req: IncomingMessage): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
     req.on("data", (chunk: Buffer) => chunks.push(chunk));
-    req.on("end", () => {
-      try {
-        resolve(JSON.parse(Buffer.concat(chunks).toString()));
-      } catch {
-        reject(new Error("invalid JSON"));
-      }
-    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
     req.on("error", reject);
   });
 }
 
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const raw = await readRawBody(req);
+  try {
+    return JSON.parse(raw.toString());
+  } catch {
+    throw new Error("invalid JSON");
+  }
+}
+
 function jsonError(res: ServerResponse, status: number, error: string): void {
   res.writeHead(status, { "Content-Type": "application/json" });
   res.end(JSON.stringify({ error }));
 }
 
+function isLoopback(address: string | undefined): boolean {
+  return address === "::1" || /^(?:::ffff:)?127\./.test(address ?? "");
+}
+
+/**
+ * Whether a request that changes scheduled jobs may run: it needs `Authorization: Bearer <HTTP_API_TOKEN>`,
+ * or, while no token is configured, has to come from localhost.
+ */
+function isAuthorized(req: IncomingMessage): boolean {
+  if (!config.httpApiToken) return isLoopback(req.socket.remoteAddress);
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const actual = Buffer.from(match[1].trim());
+  const expected = Buffer.from(config.httpApiToken);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
 async function handleDeleteMessage(req: IncomingMessage, res: ServerResponse): Promise<void> {
   if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
 
@@ -197,19 +444,10 @@ async function handleDeleteMessage(req: IncomingMessage, res: ServerResponse): P
   const { channelId, messageTs } = parsed;
 
   try {
-    const slackRes = await fetch("https://slack.com/api/chat.delete", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${config.slackBotToken}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ channel: channelId, ts: messageTs }),
-    });
-    const data = await slackRes.json() as { ok: boolean; error?: string };
-    if (!data.ok) {
-      jsonError(res, 400, `Slack API error: ${data.error}`); return;
-    }
+    await deleteMessage({ channel: channelId, ts: messageTs });
   } catch (err) {
+    const slackError = (err as { data?: { error?: string } }).data?.error;
+    if (slackError) { jsonError(res, 400, `Slack API error: ${slackError}`); return; }
     jsonError(res, 500, `failed to call Slack API: ${err}`); return;
   }
 
@@ -217,6 +455,55 @@ async function handleDeleteMessage(req: IncomingMessage, res: ServerResponse): P
   res.end(JSON.stringify({ ok: true, channel: channelId, ts: messageTs }));
 }
 
+async function handleConfigReload(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
+
+  try {
+    const result = await reloadConfig("HTTP");
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "reloaded", ...result }));
+  } catch (err) {
+    jsonError(res, 400, `reload rejected, running config unchanged: ${(err as Error).message}`);
+  }
+}
+
+async function handlePagerDutyWebhookRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
+  if (!config.pagerdutyWebhookSecret) { jsonError(res, 503, "PagerDuty webhook not configured"); return; }
+  if (!slackApp) { jsonError(res, 503, "Slack app not configured"); return; }
+
+  // The signature covers the exact bytes sent, so verify before parsing
+  const raw = await readRawBody(req);
+  const signature = req.headers["x-pagerduty-signature"];
+  if (!verifyPagerDutySignature(raw, Array.isArray(signature) ? signature.join(",") : signature, config.pagerdutyWebhookSecret)) {
+    console.warn("[PagerDutyWebhook] Rejected request with missing or invalid signature");
+    jsonError(res, 401, "invalid signature"); return;
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(raw.toString());
+  } catch {
+    jsonError(res, 400, "invalid JSON body"); return;
+  }
+  if (isStalePagerDutyEvent(body)) {
+    console.warn("[PagerDutyWebhook] Rejected event with a stale or missing occurred_at");
+    jsonError(res, 400, "stale event"); return;
+  }
+
+  try {
+    const outcome = await handlePagerDutyWebhook(slackApp, body);
+    if (outcome.status === "ignored") {
+      console.log(`[PagerDutyWebhook] Ignored ${outcome.eventType}${outcome.reason ? `: ${outcome.reason}` : ""}`);
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(outcome));
+  } catch (err) {
+    console.error("[PagerDutyWebhook] Failed to handle event:", err);
+    jsonError(res, 500, `failed to handle event: ${(err as Error).message}`);
+  }
+}
+
 async function handleTriggerAlert(req: IncomingMessage, res: ServerResponse): Promise<void> {
   if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
   if (!slackApp) { jsonError(res, 503, "Slack app not configured"); return; }
@@ -316,11 +603,204 @@ async function handleTriggerDelayAlert(req: IncomingMessage, res: ServerResponse
   res.end(JSON.stringify({ status: "started", channelId, messageTs, dagName }));
 }
 
+async function handlePostmortem(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
+  if (!slackApp) { jsonError(res, 503, "Slack app not configured"); return; }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(req);
+  } catch {
+    jsonError(res, 400, "invalid JSON body"); return;
+  }
+
+  const url = body.url;
+  if (typeof url !== "string" || !url) { jsonError(res, 400, "missing url"); return; }
+
+  const parsed = parseSlackUrl(url);
+  if (!parsed) { jsonError(res, 400, "invalid Slack URL"); return; }
+
+  const { channelId, messageTs } = parsed;
+
+  if (isPostmortemRunning(messageTs)) {
+    jsonError(res, 409, "postmortem already in progress for this thread"); return;
+  }
+
+  // Takes minutes; the result (or why there is none) is posted to the thread
+  void writePostmortem(slackApp, channelId, messageTs);
+  res.writeHead(202, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ status: "started", channelId, threadTs: messageTs }));
+}
+
+async function handleJobs(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url || "/", "http://localhost");
+
+  // Listing jobs is open; adding, removing, running, pausing and resuming them needs the token
+  if (req.method !== "GET" && req.method !== "HEAD" && !isAuthorized(req)) {
+    console.warn(`[HTTP] Rejected unauthenticated ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`);
+    jsonError(res, 401, config.httpApiToken ? "missing or invalid bearer token" : "set HTTP_API_TOKEN to call this from another host");
+    return;
+  }
+
+  if (url.pathname === "/jobs") {
+    if (req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jobs: listJobs() }, null, 2));
+      return;
+    }
+    if (req.method !== "POST") { jsonError(res, 405, "GET or POST only"); return; }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      jsonError(res, 400, "invalid JSON body"); return;
+    }
+    const str = (key: string): string | undefined => (typeof body[key] === "string" ? (body[key] as string) : undefined);
+    const name = str("name");
+    const cron = str("cron");
+    const target = str("target");
+    if (!name || !cron || !target) { jsonError(res, 400, "name, cron and target are required"); return; }
+
+    const result = addScheduledJob({
+      name,
+      cron,
+      target,
+      prompt: str("prompt") ?? "",
+      timezone: str("timezone"),
+      skill: str("skill"),
+      model: str("model"),
+      catchUp: typeof body.catchUp === "boolean" ? body.catchUp : undefined,
+    });
+    if (!result.success) { jsonError(res, 400, result.error ?? "invalid job"); return; }
+    res.writeHead(201, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(result.data, null, 2));
+    return;
+  }
+
+  // /jobs/{name} (GET, DELETE) or /jobs/{name}/{run|pause|resume} (POST)
+  const m = url.pathname.match(/^\/jobs\/([^/]+)(?:\/(run|pause|resume))?$/);
+  if (!m) { jsonError(res, 404, "not found"); return; }
+  const name = decodeURIComponent(m[1]);
+  const action = m[2];
+
+  if (!action) {
+    if (req.method === "GET") {
+      const job = getJobInfo(name);
+      if (!job) { jsonError(res, 404, "job not found"); return; }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(job, null, 2));
+      return;
+    }
+    if (req.method !== "DELETE") { jsonError(res, 405, "GET or DELETE only"); return; }
+    const result = removeScheduledJob(name);
+    if (!result.success) { jsonError(res, getJobInfo(name) ? 400 : 404, result.error ?? "not removed"); return; }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "removed", name }));
+    return;
+  }
+
+  if (req.method !== "POST") { jsonError(res, 405, "POST only"); return; }
+  if (!getJobInfo(name)) { jsonError(res, 404, "job not found"); return; }
+  if (action === "run") {
+    const result = runJobNow(name);
+    if (!result.success) { jsonError(res, 409, result.error ?? "not started"); return; }
+    res.writeHead(202, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "started", name }));
+    return;
+  }
+  const result = setJobPaused(name, action === "pause");
+  if (!result.success) { jsonError(res, 400, result.error ?? "not changed"); return; }
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(result.data, null, 2));
+}
+
+const jobNameParam = { name: "name", in: "path", required: true, schema: { type: "string", example: "weekly-costs" } };
+
+const scheduledJobSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    builtin: { type: "boolean" },
+    cron: { type: "string" },
+    timezone: { type: "string" },
+    description: { type: "string", description: "Prompt (skill arguments for skill jobs), or what a built-in job does" },
+    skill: { type: "string", nullable: true },
+    target: { type: "string", nullable: true },
+    model: { type: "string", nullable: true },
+    catchUp: { type: "boolean" },
+    paused: { type: "boolean" },
+    running: { type: "boolean" },
+    nextRunAt: { type: "integer", nullable: true },
+    lastRun: {
+      type: "object",
+      nullable: true,
+      properties: {
+        trigger: { type: "string", enum: ["schedule", "catch_up", "manual"] },
+        scheduled_for: { type: "integer" },
+        started_at: { type: "integer" },
+        finished_at: { type: "integer", nullable: true },
+        status: { type: "string", enum: ["running", "ok", "error", "skipped"] },
+        error: { type: "string", nullable: true },
+        cost_usd: { type: "number", nullable: true },
+      },
+    },
+  },
+};
+
+const usageDaysParam = {
+  name: "days",
+  in: "query",
+  required: false,
+  description: `Look-back window in days (default ${DEFAULT_USAGE_DAYS}, max ${MAX_USAGE_DAYS})`,
+  schema: { type: "integer", example: 30 },
+};
+
+function usageBreakdownSpec(dimension: string) {
+  return {
+    get: {
+      summary: `CLI usage by ${dimension}`,
+      description: `Runs, cost and tokens from the cost ledger, grouped by ${dimension}.`,
+      parameters: [usageDaysParam],
+      responses: {
+        "200": {
+          description: `Usage grouped by ${dimension}`,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  days: { type: "integer", example: 30 },
+                  buckets: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        key: { type: "string", nullable: true },
+                        runs: { type: "integer" },
+                        cost_usd: { type: "number" },
+                        input_tokens: { type: "integer" },
+                        output_tokens: { type: "integer" },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
 const openApiSpec = {
   openapi: "3.0.3",
   info: {
     title: "EnzoBot API",
-    description: "EnzoBot — Slack bot powered by Claude. Manage health, CLI sessions, and daily summaries.",
+    description:
+      "EnzoBot — Slack bot powered by Claude. Manage health, CLI sessions, and daily summaries. " +
+      "Changing scheduled jobs needs `Authorization: Bearer <HTTP_API_TOKEN>` (or a request from localhost while no token is set).",
     version: "1.0.0",
   },
   paths: {
@@ -360,14 +840,24 @@ const openApiSpec = {
     "/sessions": {
       get: {
         summary: "List all active CLI sessions",
-        description: "Returns all active Claude CLI sessions across discuss, alert, and delay-alert workflows.",
+        description: "Returns all active Claude CLI sessions across discuss, alert, and delay-alert workflows, plus the CLI process pool: running counts, limits, and runs waiting for a slot (in start order).",
         responses: {
           "200": {
             description: "Active sessions",
             content: {
               "application/json": {
                 example: {
-                  summary: { total_cli_processes: 3, discuss: 2, alert: 1, delay_alert: 0 },
+                  summary: { total_cli_processes: 3, running_cli_processes: 2, queue_depth: 1, discuss: 2, alert: 1, delay_alert: 0 },
+                  cli_pool: {
+                    running: 2,
+                    runningByWorkflow: { alert: 1, discuss: 1 },
+                    maxConcurrent: 2,
+                    maxPerWorkflow: {},
+                    queueDepth: 1,
+                    waiting: [
+                      { position: 1, workflowType: "discuss", channelId: "C06ABC123", threadTs: "1740500000.000100", userId: "U01ABC234", waitingMs: 42000 },
+                    ],
+                  },
                   discuss: [
                     { threadTs: "1740500000.000100", channelId: "C06ABC123", cliSessionId: "abc123-def456", isProcessing: true, hasCliChild: true },
                     { threadTs: "1740499000.000200", channelId: "C06ABC123", cliSessionId: "xyz789-abc012", isProcessing: false, hasCliChild: false },
@@ -450,10 +940,196 @@ const openApiSpec = {
         },
       },
     },
+    "/access": {
+      get: {
+        summary: "List access roles and members",
+        description: "Returns the owner, all roles with their permissions, and the users/user groups granted a role. Manage via `@EnzoBot !access` in Slack.",
+        responses: {
+          "200": {
+            description: "Access control snapshot",
+            content: {
+              "application/json": {
+                example: {
+                  owner: "U012OWNER",
+                  roles: [
+                    { name: "admin", permissions: ["dm", "mention", "alert_followup", "session_commands", "gemini", "manage"] },
+                    { name: "oncall", permissions: ["mention", "alert_followup", "session_commands", "gemini"] },
+                  ],
+                  members: [
+                    { subjectId: "S07ONCALL", subjectType: "usergroup", role: "oncall", addedBy: "U012OWNER", createdAt: "2026-03-01 10:00:00" },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/usage": {
+      get: {
+        summary: "CLI usage and cost report",
+        description: "Totals plus breakdowns by day, model, workflow type (alert, delay_alert, discuss, dm, daily_summary, weekly_summary, postmortem, scheduled), channel and skill, read from the cost ledger.",
+        parameters: [usageDaysParam],
+        responses: {
+          "200": {
+            description: "Usage report",
+            content: {
+              "application/json": {
+                example: {
+                  days: 30,
+                  totals: { runs: 42, cost_usd: 61.37, input_tokens: 4200000, output_tokens: 310000 },
+                  by_day: [{ key: "2026-03-01", runs: 5, cost_usd: 7.12, input_tokens: 500000, output_tokens: 41000 }],
+                  by_model: [{ key: "claude-opus-4-6", runs: 9, cost_usd: 48.9, input_tokens: 2900000, output_tokens: 190000 }],
+                  by_workflow: [{ key: "alert", runs: 9, cost_usd: 48.9, input_tokens: 2900000, output_tokens: 190000 }],
+                  by_channel: [{ key: "C07DEF456", runs: 9, cost_usd: 48.9, input_tokens: 2900000, output_tokens: 190000 }],
+                  by_skill: [{ key: "pay-ops-production", runs: 9, cost_usd: 48.9, input_tokens: 2900000, output_tokens: 190000 }],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/usage/daily": usageBreakdownSpec("day"),
+    "/usage/models": usageBreakdownSpec("model"),
+    "/usage/workflows": usageBreakdownSpec("workflow type"),
+    "/usage/channels": usageBreakdownSpec("channel ID"),
+    "/usage/skills": usageBreakdownSpec("skill"),
+    "/usage/dashboard": {
+      get: {
+        summary: "Usage dashboard",
+        description: "HTML page with cost tables for every usage breakdown.",
+        parameters: [usageDaysParam],
+        responses: {
+          "200": { description: "HTML usage dashboard", content: { "text/html": { schema: { type: "string" } } } },
+        },
+      },
+    },
+    "/reports": {
+      get: {
+        summary: "List or search archived reports",
+        description:
+          "Alert and delay investigations, follow-ups and discuss replies, newest first. With `q`, a full-text search " +
+          "(all words, falling back to any word) ranked by relevance, with a highlighted snippet. Bodies are omitted; " +
+          "fetch `/reports/{id}` for the full report.",
+        parameters: [
+          { name: "q", in: "query", required: false, description: "Search words", schema: { type: "string", example: "tax refund timeout" } },
+          { name: "type", in: "query", required: false, schema: { type: "string", enum: ["alert", "delay_alert", "discuss"] } },
+          { name: "kind", in: "query", required: false, schema: { type: "string", enum: ["investigation", "follow_up", "reply", "postmortem"] } },
+          { name: "status", in: "query", required: false, schema: { type: "string", enum: ["ok", "error", "api_error", "timeout"] } },
+          { name: "incident", in: "query", required: false, description: "PagerDuty incident ID", schema: { type: "string" } },
+          { name: "dag", in: "query", required: false, description: "Airflow DAG", schema: { type: "string" } },
+          { name: "service", in: "query", required: false, description: "Alerting service", schema: { type: "string" } },
+          { name: "skill", in: "query", required: false, schema: { type: "string" } },
+          { name: "channel", in: "query", required: false, description: "Slack channel ID", schema: { type: "string" } },
+          { name: "thread", in: "query", required: false, description: "Slack thread ts", schema: { type: "string" } },
+          { name: "days", in: "query", required: false, description: "Only reports from the last N days", schema: { type: "integer" } },
+          { name: "limit", in: "query", required: false, description: `Default ${DEFAULT_REPORT_LIMIT}, max ${MAX_REPORT_LIMIT}`, schema: { type: "integer" } },
+          { name: "offset", in: "query", required: false, schema: { type: "integer" } },
+        ],
+        responses: {
+          "200": {
+            description: "Matching reports",
+            content: {
+              "application/json": {
+                example: {
+                  query: "tax refund",
+                  limit: 20,
+                  offset: 0,
+                  reports: [
+                    {
+                      id: 42,
+                      workflow_type: "alert",
+                      kind: "investigation",
+                      channel_id: "C07DEF456",
+                      thread_ts: "1758190953.123456",
+                      permalink: "https://example.slack.com/archives/C07DEF456/p1758190953123456",
+                      incident_id: "Q1ABCDEF",
+                      dag_name: null,
+                      service: "Payments API",
+                      title: "Tax refund job timing out",
+                      status: "ok",
+                      cost_usd: 1.84,
+                      duration_ms: 312000,
+                      created_at: "2026-09-18 10:22:33",
+                      snippet: "…the **refund** worker hit the **tax** provider timeout…",
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/reports/{id}": {
+      get: {
+        summary: "View an archived report",
+        description: "The report with its metadata and markdown body. Append `.md` to the path for the raw markdown.",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {
+          "200": { description: "Report with body" },
+          "404": { description: "Report not found" },
+        },
+      },
+    },
+    "/summaries": {
+      get: {
+        summary: "List delivered channel summaries",
+        description:
+          "Daily summaries and weekly roll-ups as delivered, one row per channel, newest first. Times are epoch ms; " +
+          "period_start/period_end are the window the summary covers.",
+        parameters: [
+          { name: "kind", in: "query", required: false, schema: { type: "string", enum: ["daily", "weekly"] } },
+          { name: "channel", in: "query", required: false, description: "Channel ID or name", schema: { type: "string", example: "engineering" } },
+          { name: "days", in: "query", required: false, description: "Only summaries whose window ended in the last N days", schema: { type: "integer" } },
+          { name: "limit", in: "query", required: false, description: `Default ${DEFAULT_REPORT_LIMIT}, max ${MAX_REPORT_LIMIT}`, schema: { type: "integer" } },
+          { name: "offset", in: "query", required: false, schema: { type: "integer" } },
+        ],
+        responses: {
+          "200": {
+            description: "Matching summaries",
+            content: {
+              "application/json": {
+                example: {
+                  limit: 20,
+                  offset: 0,
+                  summaries: [
+                    {
+                      id: 12,
+                      kind: "daily",
+                      channel_id: "C07DEF456",
+                      channel_name: "engineering",
+                      period_start: 1792278000000,
+                      period_end: 1792364400000,
+                      model: "sonnet",
+                      text: "*#engineering*\n• 09:14 Release 4.2 approved...",
+                      created_at: 1792364460000,
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/summaries/{id}": {
+      get: {
+        summary: "View a delivered summary",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "integer" } }],
+        responses: {
+          "200": { description: "Summary" },
+          "404": { description: "Summary not found" },
+        },
+      },
+    },
     "/daily-summary": {
       post: {
         summary: "Trigger daily summary",
-        description: "Manually triggers the daily channel summary. The summary is generated asynchronously and sent as a DM.",
+        description:
+          "Manually triggers the daily channel summary. The summary is generated asynchronously and delivered to " +
+          "DAILY_SUMMARY_TARGETS (the owner's DMs by default).",
         responses: {
           "200": {
             description: "Summary started",
@@ -528,6 +1204,92 @@ const openApiSpec = {
         },
       },
     },
+    "/config/reload": {
+      post: {
+        summary: "Reload configuration",
+        description: "Re-reads .env and MONITOR_RULES_PATH, validates them, and swaps the result into the running bot. Monitor channels are re-resolved; running sessions are not touched. Invalid values reject the whole reload. Slack tokens, DATABASE_PATH and PORT only change on restart.",
+        responses: {
+          "200": {
+            description: "Configuration reloaded",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    status: { type: "string", example: "reloaded" },
+                    changed: { type: "array", items: { type: "string" }, example: ["channels", "delayAlertThreshold"] },
+                    restartRequired: { type: "array", items: { type: "string" }, example: [] },
+                    rules: { type: "array", items: { type: "string" }, example: ["pagerduty", "airflow-delay"] },
+                    warnings: { type: "array", items: { type: "string" }, example: [] },
+                  },
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid configuration — nothing was applied",
+            content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } },
+          },
+        },
+      },
+    },
+    "/webhooks/pagerduty": {
+      post: {
+        summary: "PagerDuty V3 webhook",
+        description: "Receiver for a PagerDuty V3 webhook subscription, signed with PAGERDUTY_WEBHOOK_SECRET (X-PagerDuty-Signature: v1=<hex HMAC-SHA256 of the body>); events whose occurred_at is more than 15 minutes old are rejected as replays. incident.triggered posts an alert thread in the channel mapped to the incident's service (PAGERDUTY_WEBHOOK_CHANNELS) and starts the investigation; incidents already tracked are skipped. incident.resolved releases threads tracking the incident. Other events are acknowledged and ignored.",
+        parameters: [
+          {
+            name: "X-PagerDuty-Signature",
+            in: "header",
+            required: true,
+            description: "Comma-separated v1 signatures; any match is accepted",
+            schema: { type: "string", example: "v1=5f0c...e1" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  event: {
+                    type: "object",
+                    properties: {
+                      event_type: { type: "string", example: "incident.triggered" },
+                      occurred_at: { type: "string", format: "date-time", example: "2026-10-18T09:00:00Z" },
+                      data: { type: "object", description: "Incident (id, title, service, urgency, html_url, ...)" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Event handled",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    status: { type: "string", enum: ["started", "duplicate", "resolved", "ignored"] },
+                    eventType: { type: "string", example: "incident.triggered" },
+                    incidentId: { type: "string", example: "Q2K1EXAMPLE" },
+                    channelId: { type: "string", example: "C0ABAK2NKQR" },
+                    messageTs: { type: "string", example: "1709123456.789012" },
+                    reason: { type: "string" },
+                  },
+                },
+              },
+            },
+          },
+          "401": { description: "Missing or invalid signature" },
+          "503": { description: "Webhook secret or Slack app not configured" },
+        },
+      },
+    },
     "/trigger-alert": {
       post: {
         summary: "Trigger alert investigation",
@@ -627,6 +1389,180 @@ const openApiSpec = {
         },
       },
     },
+    "/postmortem": {
+      post: {
+        summary: "Write a postmortem for an alert thread",
+        description:
+          "Starts writing a postmortem for an alert or delay alert thread (active or finished) from its alert, investigation reports, " +
+          "Slack thread, PagerDuty timeline and actions log. The document is uploaded to the thread and saved to the report archive " +
+          "(kind postmortem); progress and errors are posted to the thread.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["url"],
+                properties: {
+                  url: { type: "string", description: "Link to the alert (thread root) message", example: "https://wego.slack.com/archives/C0ABC/p1709123456789012" },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "202": {
+            description: "Postmortem started",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    status: { type: "string", example: "started" },
+                    channelId: { type: "string", example: "C0ABC" },
+                    threadTs: { type: "string", example: "1709123456.789012" },
+                  },
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid request (missing/invalid URL)",
+            content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } },
+          },
+          "409": {
+            description: "A postmortem for this thread is already being written",
+            content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } },
+          },
+          "503": {
+            description: "Slack app not configured",
+            content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } },
+          },
+        },
+      },
+    },
+    "/jobs": {
+      get: {
+        summary: "List scheduled jobs",
+        description:
+          "Stored cron jobs and the built-in ones (daily-summary, weekly-summary, daily-restart) with their next run and last run. " +
+          "Times are epoch milliseconds.",
+        responses: {
+          "200": {
+            description: "Jobs",
+            content: { "application/json": { schema: { type: "object", properties: { jobs: { type: "array", items: scheduledJobSchema } } } } },
+          },
+        },
+      },
+      post: {
+        summary: "Add a scheduled job",
+        security: [{ bearerAuth: [] }],
+        description:
+          "Runs a prompt, or a skill with the prompt as its arguments, on a cron schedule and posts the result to a channel or DM. " +
+          "A run missed while the bot was down is caught up on startup (within SCHEDULER_CATCH_UP_HOURS) unless catchUp is false.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["name", "cron", "target"],
+                properties: {
+                  name: { type: "string", example: "weekly-costs" },
+                  cron: { type: "string", description: "5 fields or @hourly/@daily/@weekly/@monthly/@yearly", example: "0 9 * * mon" },
+                  timezone: { type: "string", description: "IANA timezone (default SCHEDULER_TIMEZONE, else the server's)", example: "Asia/Bangkok" },
+                  prompt: { type: "string", example: "Summarize last week's payment provider incidents" },
+                  skill: { type: "string", description: "Skill to run with the prompt as its arguments", example: "pay-ops-production" },
+                  target: { type: "string", description: "Channel ID, or user ID for a DM", example: "C0ABC" },
+                  model: { type: "string", description: "Default SCHEDULER_MODEL", example: "sonnet" },
+                  catchUp: { type: "boolean", default: true },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "Job added", content: { "application/json": { schema: scheduledJobSchema } } },
+          "400": {
+            description: "Invalid job (name taken, bad cron expression, timezone, skill, target or model)",
+            content: { "application/json": { schema: { type: "object", properties: { error: { type: "string" } } } } },
+          },
+          "401": { description: "Missing or invalid bearer token" },
+        },
+      },
+    },
+    "/jobs/{name}": {
+      get: {
+        summary: "View a scheduled job",
+        parameters: [jobNameParam],
+        responses: {
+          "200": { description: "Job", content: { "application/json": { schema: scheduledJobSchema } } },
+          "404": { description: "Job not found" },
+        },
+      },
+      delete: {
+        summary: "Remove a scheduled job",
+        security: [{ bearerAuth: [] }],
+        description: "Built-in jobs can't be removed; they follow their .env settings.",
+        parameters: [jobNameParam],
+        responses: {
+          "200": { description: "Job removed" },
+          "400": { description: "Built-in job" },
+          "401": { description: "Missing or invalid bearer token" },
+          "404": { description: "Job not found" },
+        },
+      },
+    },
+    "/jobs/{name}/run": {
+      post: {
+        summary: "Run a job now",
+        security: [{ bearerAuth: [] }],
+        description: "Starts the job outside its schedule (paused jobs too). The result is posted to its target as usual.",
+        parameters: [jobNameParam],
+        responses: {
+          "202": { description: "Run started" },
+          "401": { description: "Missing or invalid bearer token" },
+          "404": { description: "Job not found" },
+          "409": { description: "The job is already running" },
+        },
+      },
+    },
+    "/jobs/{name}/pause": {
+      post: {
+        summary: "Pause a scheduled job",
+        security: [{ bearerAuth: [] }],
+        parameters: [jobNameParam],
+        responses: {
+          "200": { description: "Job paused", content: { "application/json": { schema: scheduledJobSchema } } },
+          "400": { description: "Built-in job" },
+          "401": { description: "Missing or invalid bearer token" },
+          "404": { description: "Job not found" },
+        },
+      },
+    },
+    "/jobs/{name}/resume": {
+      post: {
+        summary: "Resume a paused job",
+        security: [{ bearerAuth: [] }],
+        description: "Runs missed while paused are not caught up.",
+        parameters: [jobNameParam],
+        responses: {
+          "200": { description: "Job resumed", content: { "application/json": { schema: scheduledJobSchema } } },
+          "400": { description: "Built-in job" },
+          "401": { description: "Missing or invalid bearer token" },
+          "404": { description: "Job not found" },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "HTTP_API_TOKEN. Required for POST /jobs, DELETE /jobs/{name} and POST /jobs/{name}/{run,pause,resume}; without a configured token they are only accepted from localhost (401 otherwise).",
+      },
+    },
   },
 };
 
@@ -664,15 +1600,23 @@ export function startHttpServer(port: number): void {
     if (req.url === "/api-docs.json") return handleApiDocs(req, res);
     if (req.url === "/health") return handleHealth(req, res);
     if (req.url === "/sessions") return handleSessions(req, res);
+    if (req.url === "/access") return handleAccess(req, res);
+    if (req.url === "/usage" || req.url?.startsWith("/usage/") || req.url?.startsWith("/usage?")) return handleUsage(req, res);
+    if (req.url === "/reports" || req.url?.startsWith("/reports/") || req.url?.startsWith("/reports?")) return handleReports(req, res);
     if (req.url === "/sessions/kill" && req.method === "POST") return handleKillAll(res);
     if (req.url?.startsWith("/sessions/") && req.method === "POST") {
       const threadTs = decodeURIComponent(req.url.slice("/sessions/".length).replace(/\/kill$/, ""));
       return handleKillSession(threadTs, res);
     }
+    if (req.url === "/summaries" || req.url?.startsWith("/summaries/") || req.url?.startsWith("/summaries?")) return handleSummaries(req, res);
     if (req.url === "/daily-summary") return handleDailySummary(req, res);
     if (req.url === "/delete-message") return void handleDeleteMessage(req, res);
+    if (req.url === "/config/reload") return void handleConfigReload(req, res);
+    if (req.url === "/webhooks/pagerduty") return void handlePagerDutyWebhookRequest(req, res);
     if (req.url === "/trigger-alert") return void handleTriggerAlert(req, res);
     if (req.url === "/trigger-delay-alert") return void handleTriggerDelayAlert(req, res);
+    if (req.url === "/postmortem") return void handlePostmortem(req, res);
+    if (req.url === "/jobs" || req.url?.startsWith("/jobs/")) return void handleJobs(req, res);
     if (req.url === "/") return handleIndex(req, res);
     res.writeHead(404);
     res.end("Not found");
@@ -0,0 +1,65 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface RecordedRequest {
+  method: string;
+  /** Path and query string, e.g. "/pd/incidents/Q1?limit=1" */
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: string;
+  /** ms since the stand-in started, to check backoff between attempts */
+  at: number;
+}
+
+export interface Reply {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects are sent as JSON */
+  body?: unknown;
+}
+
+export interface StandIn {
+  /** Base URL, e.g. "http://127.0.0.1:40123" */
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/** Serve an API stand-in on an ephemeral localhost port; `handle` picks the reply for each request */
+export async function startStandIn(handle: (req: RecordedRequest) => Reply | Promise<Reply>): Promise<StandIn> {
+  const requests: RecordedRequest[] = [];
+  const started = Date.now();
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const recorded: RecordedRequest = {
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString(),
+      at: Date.now() - started,
+    };
+    requests.push(recorded);
+
+    const reply = await handle(recorded);
+    const body = typeof reply.body === "string" || reply.body === undefined ? (reply.body ?? "") : JSON.stringify(reply.body);
+    res.writeHead(reply.status ?? 200, {
+      ...(typeof reply.body === "object" ? { "Content-Type": "application/json" } : {}),
+      ...reply.headers,
+    });
+    res.end(body);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,159 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import {
+  getAccessMembers,
+  getAccessRole,
+  getAccessRoles,
+  type AccessRoleRow,
+} from "./database.js";
+
+export type Permission =
+  | "dm"
+  | "mention"
+  | "alert_followup"
+  | "incident_manage"
+  | "session_commands"
+  | "gemini"
+  | "manage";
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "dm",
+  "mention",
+  "alert_followup",
+  "incident_manage",
+  "session_commands",
+  "gemini",
+  "manage",
+];
+
+/** Human-readable labels used in decline messages */
+const PERMISSION_LABELS: Record<Permission, string> = {
+  dm: "DM conversations",
+  mention: "@mention sessions",
+  alert_followup: "alert follow-ups",
+  incident_manage: "incident changes (`!pd resolve`, `escalate`, `reassign`, `snooze`, `urgency`)",
+  session_commands: "session commands (`!exit`, `!compact`)",
+  gemini: "Gemini queries",
+  manage: "access management",
+};
+
+export interface UserAccess {
+  userId: string;
+  isOwner: boolean;
+  /** Roles granted directly or through user groups */
+  roles: string[];
+  permissions: Set<Permission>;
+}
+
+const USERGROUP_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Usergroup ID → { members, fetchedAt }
+const usergroupCache = new Map<string, { members: Set<string>; fetchedAt: number }>();
+
+export function rolePermissions(role: AccessRoleRow): Permission[] {
+  const perms: Permission[] = [];
+  if (role.can_dm) perms.push("dm");
+  if (role.can_mention) perms.push("mention");
+  if (role.can_alert_followup) perms.push("alert_followup");
+  if (role.can_incident_manage) perms.push("incident_manage");
+  if (role.can_session_commands) perms.push("session_commands");
+  if (role.can_gemini) perms.push("gemini");
+  if (role.can_manage) perms.push("manage");
+  return perms;
+}
+
+export function buildRoleRow(name: string, perms: Permission[]): AccessRoleRow {
+  const has = (p: Permission) => (perms.includes(p) ? 1 : 0);
+  return {
+    name,
+    can_dm: has("dm"),
+    can_mention: has("mention"),
+    can_alert_followup: has("alert_followup"),
+    can_incident_manage: has("incident_manage"),
+    can_session_commands: has("session_commands"),
+    can_gemini: has("gemini"),
+    can_manage: has("manage"),
+  };
+}
+
+export function permissionLabel(perm: Permission): string {
+  return PERMISSION_LABELS[perm];
+}
+
+async function getUsergroupMembers(app: App, usergroupId: string): Promise<Set<string>> {
+  const cached = usergroupCache.get(usergroupId);
+  if (cached && Date.now() - cached.fetchedAt < USERGROUP_CACHE_TTL_MS) {
+    return cached.members;
+  }
+
+  try {
+    const res = await app.client.usergroups.users.list({ usergroup: usergroupId });
+    const members = new Set(res.users || []);
+    usergroupCache.set(usergroupId, { members, fetchedAt: Date.now() });
+    return members;
+  } catch (err) {
+    console.error(`[Access] Failed to list members of usergroup ${usergroupId}:`, err);
+    // Serve stale membership rather than locking everyone out on a transient error
+    return cached?.members ?? new Set();
+  }
+}
+
+/** Drop cached usergroup membership (after grants/revokes) */
+export function clearUsergroupCache(): void {
+  usergroupCache.clear();
+}
+
+/** Resolve a user's effective roles and permissions (owner always has everything) */
+export async function resolveAccess(app: App, userId: string): Promise<UserAccess> {
+  if (userId === config.ownerUserId) {
+    return { userId, isOwner: true, roles: ["owner"], permissions: new Set(ALL_PERMISSIONS) };
+  }
+
+  const roles = new Set<string>();
+  for (const member of getAccessMembers()) {
+    if (member.subject_type === "user" && member.subject_id === userId) {
+      roles.add(member.role);
+    } else if (member.subject_type === "usergroup") {
+      const members = await getUsergroupMembers(app, member.subject_id);
+      if (members.has(userId)) roles.add(member.role);
+    }
+  }
+
+  const permissions = new Set<Permission>();
+  for (const name of roles) {
+    const role = getAccessRole(name);
+    if (role) rolePermissions(role).forEach((p) => permissions.add(p));
+  }
+
+  return { userId, isOwner: false, roles: [...roles], permissions };
+}
+
+export async function hasPermission(app: App, userId: string, perm: Permission): Promise<boolean> {
+  if (!userId) return false;
+  const access = await resolveAccess(app, userId);
+  return access.permissions.has(perm);
+}
+
+/** Polite decline text for users lacking a permission */
+export function buildDeclineMessage(perm: Permission): string {
+  return `To save Claude tokens, ${permissionLabel(perm)} are limited to approved users. Ask <@${config.ownerUserId}> for access.`;
+}
+
+/** Snapshot of roles and members for the HTTP API */
+export function getAccessSnapshot(): {
+  owner: string;
+  roles: Array<{ name: string; permissions: Permission[] }>;
+  members: Array<{ subjectId: string; subjectType: string; role: string; addedBy: string | null; createdAt: string }>;
+} {
+  return {
+    owner: config.ownerUserId,
+    roles: getAccessRoles().map((r) => ({ name: r.name, permissions: rolePermissions(r) })),
+    members: getAccessMembers().map((m) => ({
+      subjectId: m.subject_id,
+      subjectType: m.subject_type,
+      role: m.role,
+      addedBy: m.added_by,
+      createdAt: m.created_at,
+    })),
+  };
+}
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config.js";
+import { clearTaskInstances, getDagRunSnapshot, listDagRuns } from "./airflow.js";
+import { startStandIn, type RecordedRequest, type Reply, type StandIn } from "./__fixtures__/http-stand-in.js";
+
+const DAG = "settlement_export";
+const RUN = "scheduled__2026-10-18T06:00:00+00:00";
+const RUNS_PATH = `/api/v1/dags/${DAG}/dagRuns`;
+const INSTANCES_PATH = `${RUNS_PATH}/${encodeURIComponent(RUN)}/taskInstances`;
+
+const LATEST_RUN = {
+  dag_run_id: RUN,
+  state: "running",
+  logical_date: "2026-10-18T06:00:00+00:00",
+  start_date: "2026-10-18T06:00:05+00:00",
+  end_date: null,
+};
+
+const FAILED_TASK = {
+  task_id: "upload_batch",
+  map_index: -1,
+  state: "failed",
+  try_number: 2,
+  start_date: "2026-10-18T06:01:00+00:00",
+  end_date: "2026-10-18T06:03:00+00:00",
+  duration: 120,
+};
+
+function path(req: RecordedRequest): string {
+  return new URL(req.url, "http://stand-in").pathname;
+}
+
+describe("Airflow client", () => {
+  let standIn: StandIn;
+  const before = { airflowApiUrl: "", airflowApiToken: "", airflowUsername: "", airflowPassword: "", airflowHistoryRuns: 0 };
+
+  async function serve(handle: (req: RecordedRequest) => Reply): Promise<void> {
+    standIn = await startStandIn(handle);
+    config.airflowApiUrl = `${standIn.url}/api/v1`;
+  }
+
+  /** A DAG whose latest run has one failed task; `log` answers the log request */
+  function dagWithFailedTask(log: Reply): (req: RecordedRequest) => Reply {
+    return (req) => {
+      if (path(req) === RUNS_PATH) return { body: { dag_runs: [LATEST_RUN], total_entries: 1 } };
+      if (path(req) === INSTANCES_PATH) return { body: { task_instances: [FAILED_TASK], total_entries: 1 } };
+      if (path(req).startsWith(`${INSTANCES_PATH}/upload_batch/logs/`)) return log;
+      return { status: 404, body: { title: "Not Found" } };
+    };
+  }
+
+  beforeEach(() => {
+    Object.assign(before, {
+      airflowApiUrl: config.airflowApiUrl,
+      airflowApiToken: config.airflowApiToken,
+      airflowUsername: config.airflowUsername,
+      airflowPassword: config.airflowPassword,
+      airflowHistoryRuns: config.airflowHistoryRuns,
+    });
+    config.airflowApiToken = "af-test-token";
+    config.airflowHistoryRuns = 0;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    Object.assign(config, before);
+    await standIn?.close();
+    vi.restoreAllMocks();
+  });
+
+  it("sends a bearer token, or basic auth when only a username is set", async () => {
+    await serve(() => ({ body: { dag_runs: [LATEST_RUN] } }));
+
+    await listDagRuns(DAG, 1);
+    config.airflowApiToken = "";
+    config.airflowUsername = "svc-claw";
+    config.airflowPassword = "s3cret";
+    await listDagRuns(DAG, 1);
+
+    expect(standIn.requests.map((req) => req.headers.authorization)).toEqual([
+      "Bearer af-test-token",
+      `Basic ${Buffer.from("svc-claw:s3cret").toString("base64")}`,
+    ]);
+    expect(standIn.requests[0].url).toBe(`${RUNS_PATH}?order_by=-execution_date&limit=1`);
+  });
+
+  it("snapshots the latest run with its failed task and log tail", async () => {
+    await serve(dagWithFailedTask({ body: "line 1\nline 2\nERROR upload rejected\n" }));
+
+    const result = await getDagRunSnapshot(DAG);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.run.runId).toBe(RUN);
+    expect(result.data?.failed).toEqual([
+      expect.objectContaining({ taskId: "upload_batch", state: "failed", tryNumber: 2, durationSec: 120, logTail: "line 1\nline 2\nERROR upload rejected" }),
+    ]);
+    const logRequest = standIn.requests.find((req) => path(req).includes("/logs/"))!;
+    expect(path(logRequest)).toBe(`${INSTANCES_PATH}/upload_batch/logs/2`);
+    expect(logRequest.headers.accept).toBe("text/plain");
+  });
+
+  it("retries a 5xx response and then succeeds", async () => {
+    let calls = 0;
+    await serve(() => (++calls === 1 ? { status: 503, body: "scheduler restarting" } : { body: { dag_runs: [LATEST_RUN] } }));
+
+    const runs = await listDagRuns(DAG, 1);
+
+    expect(runs).toEqual([
+      { runId: RUN, state: "running", logicalDate: "2026-10-18T06:00:00+00:00", startDate: "2026-10-18T06:00:05+00:00", endDate: null },
+    ]);
+    expect(standIn.requests).toHaveLength(2);
+    expect(standIn.requests[1].at - standIn.requests[0].at).toBeGreaterThanOrEqual(900);
+  });
+
+  it("reports the status and a truncated body once retries are exhausted", { timeout: 10_000 }, async () => {
+    await serve(() => ({ status: 500, body: `Internal Server Error ${"x".repeat(500)}` }));
+
+    const result = await getDagRunSnapshot(DAG);
+
+    expect(standIn.requests).toHaveLength(3);
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(`HTTP 500: Internal Server Error ${"x".repeat(278)}`);
+  });
+
+  it("doesn't retry client errors", async () => {
+    await serve(() => ({ status: 404, body: { title: "DAG not found", status: 404 } }));
+
+    const result = await getDagRunSnapshot("no_such_dag", "manual__1");
+
+    expect(standIn.requests).toHaveLength(1);
+    expect(path(standIn.requests[0])).toBe("/api/v1/dags/no_such_dag/dagRuns/manual__1");
+    expect(result).toEqual({ success: false, error: 'HTTP 404: {"title":"DAG not found","status":404}' });
+  });
+
+  it("reports a DAG without runs", async () => {
+    await serve(() => ({ body: { dag_runs: [], total_entries: 0 } }));
+
+    expect(await getDagRunSnapshot(DAG)).toEqual({ success: false, error: `no runs found for DAG ${DAG}` });
+  });
+
+  it("reports a malformed JSON response", async () => {
+    await serve(() => ({ headers: { "Content-Type": "application/json" }, body: "<html>login</html>" }));
+
+    const result = await getDagRunSnapshot(DAG);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/JSON/);
+  });
+
+  it("keeps the snapshot when a log tail is unavailable", async () => {
+    await serve(dagWithFailedTask({ status: 403, body: { title: "Forbidden" } }));
+
+    const result = await getDagRunSnapshot(DAG);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.failed[0]).toMatchObject({ taskId: "upload_batch", logTail: null });
+  });
+
+  it("retries network errors and reports the last one", { timeout: 10_000 }, async () => {
+    await serve(() => ({}));
+    await standIn.close();
+
+    const result = await getDagRunSnapshot(DAG);
+
+    expect(result).toEqual({ success: false, error: "fetch failed" });
+  });
+
+  it("clears task instances and returns what was cleared", async () => {
+    await serve(() => ({
+      body: { task_instances: [{ task_id: "upload_batch", map_index: -1 }, { task_id: "notify", map_index: 2 }] },
+    }));
+
+    const result = await clearTaskInstances(DAG, RUN, ["upload_batch"], { dryRun: true, onlyFailed: true, includeDownstream: true });
+
+    expect(result).toEqual({ success: true, data: ["upload_batch", "notify[2]"] });
+    const [req] = standIn.requests;
+    expect(req.method).toBe("POST");
+    expect(path(req)).toBe(`/api/v1/dags/${DAG}/clearTaskInstances`);
+    expect(JSON.parse(req.body)).toEqual({
+      dry_run: true,
+      dag_run_id: RUN,
+      task_ids: ["upload_batch"],
+      only_failed: true,
+      include_downstream: true,
+      include_upstream: false,
+      reset_dag_runs: true,
+    });
+  });
+
+  it("returns clear errors instead of throwing", async () => {
+    await serve(() => ({ status: 409, body: { title: "DAG run is running" } }));
+
+    const result = await clearTaskInstances(DAG, RUN, ["upload_batch"], { dryRun: false, onlyFailed: false, includeDownstream: false });
+
+    expect(result).toEqual({ success: false, error: 'HTTP 409: {"title":"DAG run is running"}' });
+  });
+});
@@ -0,0 +1,333 @@
+import { config } from "../config.js";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 1000;
+/** Failed/running tasks that get a log tail in the prompt context */
+const MAX_LOG_TAILS = 3;
+/** Keep the injected context well below the prompt budget */
+const LOG_TAIL_MAX_CHARS = 4000;
+
+export type TaskState =
+  | "success" | "running" | "failed" | "upstream_failed" | "skipped" | "up_for_retry"
+  | "up_for_reschedule" | "queued" | "scheduled" | "deferred" | "removed" | "restarting" | "none";
+
+export interface AirflowResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface DagRun {
+  runId: string;
+  state: string;
+  logicalDate: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface TaskInstance {
+  taskId: string;
+  mapIndex: number;
+  state: TaskState;
+  tryNumber: number;
+  startDate: string | null;
+  endDate: string | null;
+  /** Seconds; for running tasks, elapsed so far */
+  durationSec: number | null;
+}
+
+export interface TaskSnapshot extends TaskInstance {
+  /** Median duration over the last successful runs, null without history */
+  medianSec: number | null;
+  logTail: string | null;
+}
+
+export interface DagRunSnapshot {
+  dagId: string;
+  run: DagRun;
+  failed: TaskSnapshot[];
+  running: TaskSnapshot[];
+  /** Finished tasks that took at least twice their median */
+  slow: TaskSnapshot[];
+  historyRuns: number;
+}
+
+export interface ClearOptions {
+  dryRun: boolean;
+  /** Only clear instances in a failed state (a retry) */
+  onlyFailed: boolean;
+  includeDownstream: boolean;
+}
+
+const FAILED_STATES = new Set<TaskState>(["failed", "upstream_failed", "up_for_retry"]);
+const RUNNING_STATES = new Set<TaskState>(["running", "queued", "deferred", "up_for_reschedule", "restarting"]);
+
+export function isAirflowConfigured(): boolean {
+  return Boolean(config.airflowApiUrl);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function authHeader(): string | null {
+  if (config.airflowApiToken) return `Bearer ${config.airflowApiToken}`;
+  if (config.airflowUsername) {
+    return `Basic ${Buffer.from(`${config.airflowUsername}:${config.airflowPassword}`).toString("base64")}`;
+  }
+  return null;
+}
+
+/**
+ * Call the Airflow stable REST API (base URL from AIRFLOW_API_URL, e.g. ".../api/v1", so tests can
+ * point it at a mock). Retries 429/5xx and network errors; throws "HTTP <status>: <body>" otherwise.
+ */
+async function airflowRequest(
+  path: string,
+  options: { method?: "GET" | "POST"; query?: Record<string, string | number>; body?: unknown; text?: boolean } = {}
+): Promise<any> {
+  const url = new URL(path, config.airflowApiUrl.replace(/\/?$/, "/"));
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    url.searchParams.set(key, String(value));
+  }
+  const headers: Record<string, string> = {
+    Accept: options.text ? "text/plain" : "application/json",
+    "Content-Type": "application/json",
+  };
+  const auth = authHeader();
+  if (auth) headers.Authorization = auth;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: options.method ?? "GET",
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (err) {
+      if (attempt >= MAX_RETRIES) throw err;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+      continue;
+    }
+
+    if (res.ok) {
+      const text = await res.text();
+      if (options.text) return text;
+      return text ? JSON.parse(text) : {};
+    }
+    const body = await res.text().catch(() => "");
+    if ((res.status !== 429 && res.status < 500) || attempt >= MAX_RETRIES) {
+      throw new Error(`HTTP ${res.status}: ${body.slice(0, 300)}`);
+    }
+    console.warn(`[Airflow] ${options.method ?? "GET"} ${url.pathname} returned HTTP ${res.status}, retrying`);
+    await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+  }
+}
+
+function seconds(start: string | null, end: string | null): number | null {
+  if (!start) return null;
+  const ms = (end ? Date.parse(end) : Date.now()) - Date.parse(start);
+  return Number.isFinite(ms) ? Math.max(0, Math.round(ms / 1000)) : null;
+}
+
+function parseDagRun(raw: any): DagRun {
+  return {
+    runId: raw.dag_run_id,
+    state: raw.state || "unknown",
+    logicalDate: raw.logical_date || raw.execution_date || null,
+    startDate: raw.start_date || null,
+    endDate: raw.end_date || null,
+  };
+}
+
+function parseTaskInstance(raw: any): TaskInstance {
+  const startDate = raw.start_date || null;
+  const endDate = raw.end_date || null;
+  return {
+    taskId: raw.task_id,
+    mapIndex: typeof raw.map_index === "number" ? raw.map_index : -1,
+    state: (raw.state || "none") as TaskState,
+    tryNumber: typeof raw.try_number === "number" ? raw.try_number : 1,
+    startDate,
+    endDate,
+    durationSec: typeof raw.duration === "number" && endDate ? Math.round(raw.duration) : seconds(startDate, endDate),
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/** Most recent runs first */
+export async function listDagRuns(dagId: string, limit: number, state?: string): Promise<DagRun[]> {
+  const data = await airflowRequest(`dags/${encodeURIComponent(dagId)}/dagRuns`, {
+    query: { order_by: "-execution_date", limit, ...(state ? { state } : {}) },
+  });
+  return (Array.isArray(data.dag_runs) ? data.dag_runs : []).map(parseDagRun);
+}
+
+export async function listTaskInstances(dagId: string, runId: string): Promise<TaskInstance[]> {
+  const data = await airflowRequest(
+    `dags/${encodeURIComponent(dagId)}/dagRuns/${encodeURIComponent(runId)}/taskInstances`,
+    { query: { limit: 1000 } }
+  );
+  return (Array.isArray(data.task_instances) ? data.task_instances : []).map(parseTaskInstance);
+}
+
+/** Last `lines` lines of a task try's log, null if unavailable */
+export async function getTaskLogTail(
+  dagId: string,
+  runId: string,
+  task: TaskInstance,
+  lines: number
+): Promise<string | null> {
+  if (lines <= 0) return null;
+  try {
+    const text: string = await airflowRequest(
+      `dags/${encodeURIComponent(dagId)}/dagRuns/${encodeURIComponent(runId)}/taskInstances/${encodeURIComponent(task.taskId)}/logs/${task.tryNumber}`,
+      { text: true, query: { full_content: "false", ...(task.mapIndex >= 0 ? { map_index: task.mapIndex } : {}) } }
+    );
+    const tail = text.trimEnd().split("\n").slice(-lines).join("\n");
+    return tail.length > LOG_TAIL_MAX_CHARS ? tail.slice(-LOG_TAIL_MAX_CHARS) : tail;
+  } catch (err) {
+    console.warn(`[Airflow] Log tail for ${dagId}/${runId}/${task.taskId} unavailable: ${errorMessage(err)}`);
+    return null;
+  }
+}
+
+/** Median successful duration per task over the last `runs` successful DAG runs (excluding `skipRunId`) */
+async function taskDurationMedians(dagId: string, runs: number, skipRunId: string): Promise<{ medians: Map<string, number>; runs: number }> {
+  const medians = new Map<string, number>();
+  if (runs <= 0) return { medians, runs: 0 };
+
+  const history = (await listDagRuns(dagId, runs + 1, "success")).filter((r) => r.runId !== skipRunId).slice(0, runs);
+  const durations = new Map<string, number[]>();
+  for (const run of history) {
+    for (const ti of await listTaskInstances(dagId, run.runId)) {
+      if (ti.state !== "success" || ti.durationSec === null) continue;
+      const list = durations.get(ti.taskId) ?? [];
+      list.push(ti.durationSec);
+      durations.set(ti.taskId, list);
+    }
+  }
+  for (const [taskId, values] of durations) {
+    const m = median(values);
+    if (m !== null) medians.set(taskId, m);
+  }
+  return { medians, runs: history.length };
+}
+
+/**
+ * State of the latest DAG run: failed and running task instances with durations versus
+ * their historical median, finished tasks that ran unusually long, and log tails.
+ */
+export async function getDagRunSnapshot(dagId: string, runId?: string): Promise<AirflowResult<DagRunSnapshot>> {
+  try {
+    const run = runId
+      ? parseDagRun(await airflowRequest(`dags/${encodeURIComponent(dagId)}/dagRuns/${encodeURIComponent(runId)}`))
+      : (await listDagRuns(dagId, 1))[0];
+    if (!run) return { success: false, error: `no runs found for DAG ${dagId}` };
+
+    const instances = await listTaskInstances(dagId, run.runId);
+    const history = await taskDurationMedians(dagId, config.airflowHistoryRuns, run.runId);
+    const withMedian = (ti: TaskInstance): TaskSnapshot => ({ ...ti, medianSec: history.medians.get(ti.taskId) ?? null, logTail: null });
+
+    const failed = instances.filter((ti) => FAILED_STATES.has(ti.state)).map(withMedian);
+    const running = instances.filter((ti) => RUNNING_STATES.has(ti.state)).map(withMedian);
+    const slow = instances
+      .filter((ti) => ti.state === "success")
+      .map(withMedian)
+      .filter((ti) => ti.durationSec !== null && ti.medianSec !== null && ti.medianSec > 0 && ti.durationSec >= ti.medianSec * 2);
+
+    for (const ti of [...failed, ...running].slice(0, MAX_LOG_TAILS)) {
+      ti.logTail = await getTaskLogTail(dagId, run.runId, ti, config.airflowLogTailLines);
+    }
+
+    return { success: true, data: { dagId, run, failed, running, slow, historyRuns: history.runs } };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
+  }
+}
+
+function formatDuration(sec: number | null): string {
+  if (sec === null) return "?";
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const s = sec % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+}
+
+function formatTask(ti: TaskSnapshot): string {
+  const name = ti.mapIndex >= 0 ? `${ti.taskId}[${ti.mapIndex}]` : ti.taskId;
+  let line = `- ${name}: ${ti.state}, try ${ti.tryNumber}, ${ti.endDate ? "took" : "running for"} ${formatDuration(ti.durationSec)}`;
+  if (ti.medianSec !== null && ti.durationSec !== null) {
+    const ratio = ti.medianSec > 0 ? ti.durationSec / ti.medianSec : null;
+    line += ` (median ${formatDuration(ti.medianSec)}${ratio !== null ? `, ${ratio.toFixed(1)}x` : ""})`;
+  }
+  if (ti.logTail) line += `\n  log tail:\n${ti.logTail.split("\n").map((l) => `    ${l}`).join("\n")}`;
+  return line;
+}
+
+/** Snapshot as a tagged block for the skill prompt */
+export function formatDagRunContext(snapshot: DagRunSnapshot): string {
+  const { run } = snapshot;
+  const lines = [
+    `<airflow_context dag="${snapshot.dagId}">`,
+    `Latest DAG run: ${run.runId}, state ${run.state}, logical date ${run.logicalDate ?? "?"}, ` +
+      `${run.endDate ? "took" : "running for"} ${formatDuration(seconds(run.startDate, run.endDate))}`,
+    `Medians from the last ${snapshot.historyRuns} successful run(s).`,
+  ];
+  const section = (title: string, tasks: TaskSnapshot[]) => {
+    if (tasks.length > 0) lines.push(`${title}:`, ...tasks.map(formatTask));
+  };
+  section("Failed task instances", snapshot.failed);
+  section("Running task instances", snapshot.running);
+  section("Finished at 2x+ their median", snapshot.slow);
+  if (snapshot.failed.length + snapshot.running.length + snapshot.slow.length === 0) {
+    lines.push("No failed, running or unusually slow task instances.");
+  }
+  lines.push("</airflow_context>");
+  return lines.join("\n");
+}
+
+/**
+ * Clear task instances in a DAG run so the scheduler runs them again. With dryRun, returns what
+ * would be cleared without changing anything. Returns "task_id" (or "task_id[map_index]") entries.
+ */
+export async function clearTaskInstances(
+  dagId: string,
+  runId: string,
+  taskIds: string[],
+  options: ClearOptions
+): Promise<AirflowResult<string[]>> {
+  try {
+    const data = await airflowRequest(`dags/${encodeURIComponent(dagId)}/clearTaskInstances`, {
+      method: "POST",
+      body: {
+        dry_run: options.dryRun,
+        dag_run_id: runId,
+        task_ids: taskIds,
+        only_failed: options.onlyFailed,
+        include_downstream: options.includeDownstream,
+        include_upstream: false,
+        reset_dag_runs: true,
+      },
+    });
+    const cleared = (Array.isArray(data.task_instances) ? data.task_instances : []).map((ti: any) =>
+      typeof ti.map_index === "number" && ti.map_index >= 0 ? `${ti.task_id}[${ti.map_index}]` : String(ti.task_id)
+    );
+    return { success: true, data: cleared };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
+  }
+}
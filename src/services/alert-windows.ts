@@ -0,0 +1,118 @@
+import {
+  insertAlertEvent,
+  getAlertEvents,
+  deleteAlertEvents,
+  pruneAlertEvents,
+  getAlertEventStats,
+  type AlertEventRow,
+} from "./database.js";
+import { getMonitorRules, type MonitorRule, type MonitorThreshold, type RuleMatch } from "./monitor-rules.js";
+
+export interface WindowDecision {
+  counterKey: string;
+  triggered: boolean;
+  /** Why it triggered, or the current score when it didn't */
+  detail: string;
+}
+
+/** Rule threshold with the matched task pattern's overrides applied */
+function effectiveThreshold(match: RuleMatch): MonitorThreshold {
+  const threshold = match.rule.threshold!;
+  const tp = match.taskPattern;
+  return {
+    ...threshold,
+    count: tp?.count ?? threshold.count,
+    windowMs: tp?.windowMs ?? threshold.windowMs,
+  };
+}
+
+/** "airflow-delay:tax_dag/process-taxes"; the task pattern is part of the key when it overrides the threshold */
+function counterKey(match: RuleMatch): string {
+  const { rule, values, taskPattern } = match;
+  const key = rule.threshold!.key;
+  const fields = key === "rule" ? [] : Array.isArray(key) ? key : [key];
+  const parts = fields.map((f) => values[f] ?? "unknown");
+  let counter = parts.length > 0 ? `${rule.name}:${parts.join("/")}` : rule.name;
+  if (taskPattern && (taskPattern.count !== undefined || taskPattern.windowMs !== undefined)) {
+    counter += `#${taskPattern.pattern}`;
+  }
+  return counter;
+}
+
+/** How far back events can still matter for this threshold */
+function retentionMs(threshold: MonitorThreshold): number {
+  return Math.max(threshold.windowMs, threshold.rate ? threshold.rate.windowMs * 2 : 0);
+}
+
+function ruleRetentionMs(rule: MonitorRule): number {
+  if (!rule.threshold) return 0;
+  const windows = (rule.taskPatterns ?? []).map((tp) => (typeof tp === "string" ? 0 : tp.windowMs ?? 0));
+  return Math.max(retentionMs(rule.threshold), ...windows);
+}
+
+function score(events: AlertEventRow[], from: number, to: number): number {
+  return events.reduce((sum, e) => (e.created_at > from && e.created_at <= to ? sum + e.weight : sum), 0);
+}
+
+function formatScore(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Record a matched alert and evaluate its sliding window. Triggers when the weighted score within
+ * windowMs reaches count (once the alerts span minSpanMs), or when the rate trigger fires. A trigger
+ * clears the counter's events so the next investigation needs a fresh build-up.
+ */
+export function recordAlert(match: RuleMatch, now = Date.now()): WindowDecision {
+  const threshold = effectiveThreshold(match);
+  const key = counterKey(match);
+
+  insertAlertEvent(key, match.rule.name, match.weight, now);
+  const events = getAlertEvents(key, now - retentionMs(threshold));
+
+  const windowStart = now - threshold.windowMs;
+  const inWindow = events.filter((e) => e.created_at > windowStart);
+  const windowScore = score(events, windowStart, now);
+  const spanMs = inWindow.length > 0 ? now - inWindow[0].created_at : 0;
+
+  let trigger: string | null = null;
+  if (windowScore >= threshold.count && spanMs >= (threshold.minSpanMs ?? 0)) {
+    trigger = `score ${formatScore(windowScore)}/${threshold.count} within ${Math.round(threshold.windowMs / 60000)} min`;
+  }
+
+  const { rate } = threshold;
+  if (!trigger && rate) {
+    const recent = score(events, now - rate.windowMs, now);
+    const baseline = score(events, now - rate.windowMs * 2, now - rate.windowMs);
+    if (baseline > 0 && recent >= (rate.minScore ?? 1) && recent >= baseline * rate.factor) {
+      trigger = `rate ${formatScore(recent)} vs ${formatScore(baseline)} in the previous ${Math.round(rate.windowMs / 60000)} min`;
+    }
+  }
+
+  if (trigger) {
+    deleteAlertEvents(key);
+    return { counterKey: key, triggered: true, detail: trigger };
+  }
+
+  const waiting = windowScore >= threshold.count ? `, waiting for a ${Math.round(threshold.minSpanMs! / 60000)} min span` : "";
+  return {
+    counterKey: key,
+    triggered: false,
+    detail: `score ${formatScore(windowScore)}/${threshold.count} within ${Math.round(threshold.windowMs / 60000)} min${waiting}`,
+  };
+}
+
+/** Drop events no active rule can still count (startup, and after each recorded alert) */
+export function pruneAlertWindows(now = Date.now()): number {
+  const retention = Math.max(0, ...getMonitorRules().map(ruleRetentionMs));
+  return pruneAlertEvents(now - retention);
+}
+
+/** Startup: prune expired events and report what is still being counted */
+export function restoreAlertWindows(): void {
+  const pruned = pruneAlertWindows();
+  const { events, counters } = getAlertEventStats();
+  if (events > 0 || pruned > 0) {
+    console.log(`[Monitor] Restored ${events} alert event(s) across ${counters} counter(s), pruned ${pruned}`);
+  }
+}
@@ -1,27 +1,35 @@
 import type { App } from "@slack/bolt";
-import type { ChildProcess } from "node:child_process";
 import { mkdirSync, writeFileSync } from "node:fs";
 import path from "node:path";
 import { config } from "../config.js";
-import { acknowledgePagerDutyIncident, getPagerDutyIncidentStatus } from "./pagerduty.js";
-import { spawnClaudeCli, safeKill, detectAndLoadSkill, chunkResponse, markdownToSlackMrkdwn, rewriteApiError, type CliRunResult } from "./claude-cli.js";
-import { insertWorkflow, deleteWorkflow, getWorkflowsByType, getAllWorkflows, updateWorkflowType, updateWorkflowCliSession } from "./database.js";
-import { createDiscussFromWorkflow } from "./discuss-workflow.js";
-
-function formatTokens(n: number): string {
-  if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
-  return `${n}`;
-}
-
-function buildUsageFooter(result: CliRunResult): string {
-  const parts: string[] = [];
-  parts.push(`model: ${config.alertModel}`);
-  if (result.inputTokens != null) {
-    const pct = Math.round((result.inputTokens / 200_000) * 100);
-    parts.push(`context: ${formatTokens(result.inputTokens)} (${pct}%)`);
-  }
-  return `\n\n---\n_${parts.join(" | ")}_`;
-}
+import {
+  acknowledgePagerDutyIncident,
+  addPagerDutyIncidentNote,
+  getPagerDutyCredentials,
+  getPagerDutyIncidentStatus,
+} from "./pagerduty.js";
+import { spawnClaudeCli, detectAndLoadSkill, rewriteApiError, type CliRun } from "./claude-cli.js";
+import { insertWorkflow, deleteWorkflow, getWorkflow, getWorkflowsByType, getAllWorkflows, updateWorkflowType, updateWorkflowCliSession } from "./database.js";
+import { createDiscussFromWorkflow, handleDiscussReply } from "./discuss-workflow.js";
+import { enforceBudget, clearBudgetWarnings, type LedgerContext } from "./cost-ledger.js";
+import { createProgressReporter } from "./progress-reporter.js";
+import { archiveReport, REPORTS_DIR } from "./report-archive.js";
+import { findPriorIncidents, formatPriorIncidents, formatPriorIncidentLinks } from "./prior-incidents.js";
+import { recordIncidentAction } from "./incident-actions.js";
+import {
+  findCorrelatedCluster,
+  createIncidentCluster,
+  dissolveIncidentCluster,
+  joinIncidentCluster,
+  isIncidentClustered,
+  formatClusterContext,
+  getThreadCluster,
+  type ClusterAlert,
+  type CorrelatedCluster,
+} from "./incident-clusters.js";
+import { postMessage, uploadFile } from "./slack-gateway.js";
+import { postResponse, usageFooter } from "./response-renderer.js";
+import { postReportControls } from "./report-controls.js";
 
 /** Extract the summary (header + section 1) from the full report markdown. */
 function extractSummary(text: string): { summary: string; fullReport: string } {
@@ -41,10 +49,9 @@ function extractSummary(text: string): { summary: string; fullReport: string } {
 /** Save the full investigation report to data/reports/ and return the file path. */
 function saveFullReport(threadTs: string, text: string): string | undefined {
   try {
-    const reportsDir = path.join("data", "reports");
-    mkdirSync(reportsDir, { recursive: true });
+    mkdirSync(REPORTS_DIR, { recursive: true });
     const ts = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
-    const filePath = path.join(reportsDir, `${ts}-${threadTs}.md`);
+    const filePath = path.join(REPORTS_DIR, `${ts}-${threadTs}.md`);
     writeFileSync(filePath, text, "utf-8");
     console.log(`[AlertWorkflow] Full report saved to ${filePath} (${text.length} chars)`);
     return filePath;
@@ -58,8 +65,31 @@ interface ActiveWorkflow {
   channelId: string;
   threadTs: string;
   incidentId: string | null;
-  cliChild: ChildProcess | null;
+  /** Monitor rule that matched (null for HTTP-triggered workflows) */
+  ruleName: string | null;
+  /** Service the alert is about (from the monitor rule or PagerDuty) */
+  service: string | null;
+  skill: string;
+  model: string;
+  cliRun: CliRun | null;
   feedbackTimer: ReturnType<typeof setTimeout> | null;
+  /** Correlated alerts join this thread's cluster until its first investigation finishes */
+  clusterOpen: boolean;
+}
+
+/** Overrides supplied by the monitor rule that started the workflow */
+export interface AlertWorkflowOptions {
+  /** Pre-extracted incident ID (null = none); omitted → parsed from PagerDuty links */
+  incidentId?: string | null;
+  ruleName?: string;
+  skill?: string;
+  model?: string;
+  /** Service the alert is about, used to correlate it with other alerts */
+  service?: string | null;
+  /** Split out of an incident cluster by the owner: never re-joins one, and investigates even if the incident is acknowledged */
+  split?: boolean;
+  /** Re-run from the report's controls: keeps the thread's cluster, and investigates even though the incident is acknowledged */
+  rerun?: boolean;
 }
 
 const workflows = new Map<string, ActiveWorkflow>();
@@ -100,13 +130,93 @@ function buildSlackLink(channelId: string, messageTs: string): string {
   return `https://${config.slackWorkspaceDomain}/archives/${channelId}/p${tsNoDot}`;
 }
 
-/** Check if an incident is already being handled by an active workflow (any type, including converted discuss sessions) */
-function isIncidentAlreadyTracked(incidentId: string): boolean {
+/** Check if an incident is already being handled by an active workflow (any type, including converted discuss sessions) or an incident cluster */
+export function isIncidentAlreadyTracked(incidentId: string): boolean {
   for (const w of workflows.values()) {
     if (w.incidentId === incidentId) return true;
   }
   const dbRows = getAllWorkflows();
-  return dbRows.some(r => r.incident_id === incidentId);
+  return dbRows.some(r => r.incident_id === incidentId) || isIncidentClustered(incidentId);
+}
+
+/** Message text plus attachment text (PagerDuty posts keep most of the alert in attachments) */
+function alertText(text: string, attachments?: Array<Record<string, unknown>>): string {
+  const parts = [text];
+  for (const att of attachments ?? []) {
+    for (const field of ["title", "text", "fallback"]) {
+      const val = att[field];
+      if (typeof val === "string") parts.push(val);
+    }
+  }
+  return parts.filter(Boolean).join("\n");
+}
+
+/**
+ * Fold an alert into an investigation still running for a correlated one, and cross-link both
+ * threads. Its PagerDuty incident is left alone: no investigation has looked at it yet.
+ */
+async function linkToCluster(alert: ClusterAlert, related: CorrelatedCluster): Promise<void> {
+  const { cluster, members, score } = related;
+  joinIncidentCluster(cluster.id, alert, score);
+  recordIncidentAction(alert.threadTs, "cluster_join", {
+    incidentId: alert.incidentId,
+    detail: `cluster #${cluster.id} (primary ${cluster.primary_thread_ts}, score ${score.toFixed(2)})`,
+  });
+
+  const primaryLink = buildSlackLink(cluster.channel_id, cluster.primary_thread_ts);
+  const memberLink = buildSlackLink(alert.channelId, alert.threadTs);
+  const firstLine = alert.text.split("\n").find((l) => l.trim())?.trim().slice(0, 150) ?? "";
+  try {
+    await postMessage({
+      channel: alert.channelId,
+      thread_ts: alert.threadTs,
+      text:
+        `:link: Correlated with <${primaryLink}|an alert already under investigation> ` +
+        `(cluster #${cluster.id}, ${members.length + 1} alerts, score ${score.toFixed(2)}). ` +
+        "The investigation in that thread will take this alert into account; its PagerDuty incident isn't acknowledged. " +
+        "The owner can reply `!split` here to investigate it separately.",
+      unfurl_links: false,
+    });
+    await postMessage({
+      channel: cluster.channel_id,
+      thread_ts: cluster.primary_thread_ts,
+      text:
+        `:link: Related alert joined this investigation: <${memberLink}|${alert.incidentId ?? "thread"}>` +
+        (firstLine ? ` — ${firstLine}` : "") +
+        ` (score ${score.toFixed(2)})`,
+      unfurl_links: false,
+    });
+  } catch (err) {
+    console.error(`[AlertWorkflow] Failed to post cluster cross-links for thread ${alert.threadTs}:`, err);
+  }
+}
+
+/**
+ * Follow up on cluster members that joined after the first investigation's prompt was built, so
+ * every alert the cluster absorbed is seen by an investigation (fire-and-forget).
+ */
+function followUpLateMembers(app: App, threadTs: string, briefed: Set<string>): void {
+  const late = (getThreadCluster(threadTs)?.members ?? []).filter((m) => !briefed.has(m.thread_ts));
+  if (late.length === 0) return;
+
+  console.log(`[AlertWorkflow] ${late.length} alert(s) joined thread ${threadTs}'s cluster during its investigation, following up`);
+  const text =
+    `${late.length} correlated alert(s) arrived while you were investigating (see the related alerts). ` +
+    "Check whether they share this root cause, and say what changes in your conclusions if they don't.";
+  // The first investigation either became a discuss session or is still an alert workflow
+  const followUp = workflows.has(threadTs) ? handleOwnerFeedback(app, threadTs, text) : handleDiscussReply(app, threadTs, text);
+  followUp.catch((err) => console.error(`[AlertWorkflow] Follow-up on late cluster members failed for thread ${threadTs}:`, err));
+}
+
+/** Post the investigation summary as a PagerDuty incident note (fire-and-forget) */
+function postIncidentNote(incidentId: string, summary: string, slackLink: string): void {
+  const creds = getPagerDutyCredentials();
+  if (!creds || !config.pagerdutyPostNotes) return;
+  addPagerDutyIncidentNote(incidentId, creds, `EnzoBot investigation summary:\n\n${summary}\n\nSlack thread: ${slackLink}`)
+    .then((res) => {
+      if (res.success) console.log(`[AlertWorkflow] Posted summary note to PD incident ${incidentId}`);
+      else console.error(`[AlertWorkflow] Failed to post note to PD incident ${incidentId}: ${res.error}`);
+    });
 }
 
 /** Start the feedback timeout. On expiry, clean up the workflow. */
@@ -127,16 +237,40 @@ function clearFeedbackTimer(workflow: ActiveWorkflow): void {
   }
 }
 
+/**
+ * Forget a workflow that stopped before its investigation started. The cluster it created goes too;
+ * alerts that joined it in the meantime were never investigated, so each gets its own investigation.
+ */
+function abandonStart(app: App, messageTs: string, ownsCluster: boolean): void {
+  workflows.delete(messageTs);
+  deleteWorkflow(messageTs);
+  if (!ownsCluster) return;
+  for (const member of dissolveIncidentCluster(messageTs)) {
+    console.log(`[AlertWorkflow] Thread ${member.thread_ts} left dissolved cluster #${member.cluster_id}, investigating it separately`);
+    startAlertWorkflow(app, member.channel_id, member.thread_ts, member.alert_text, undefined, {
+      incidentId: member.incident_id,
+      service: member.service,
+      ruleName: member.rule_name ?? undefined,
+      skill: member.skill ?? undefined,
+      model: member.model ?? undefined,
+      split: true,
+    }).catch((err) => console.error(`[AlertWorkflow] Investigation for thread ${member.thread_ts} failed:`, err));
+  }
+}
+
 export async function startAlertWorkflow(
   app: App,
   channelId: string,
   messageTs: string,
   text: string,
-  attachments?: Array<Record<string, unknown>>
+  attachments?: Array<Record<string, unknown>>,
+  options?: AlertWorkflowOptions
 ): Promise<void> {
   if (workflows.has(messageTs)) return; // already handling
 
-  const incidentId = extractIncidentId(text, attachments);
+  const incidentId = options?.incidentId !== undefined
+    ? options.incidentId
+    : extractIncidentId(text, attachments);
 
   // Prevent feedback loop: skip if this incident is already tracked
   if (incidentId && isIncidentAlreadyTracked(incidentId)) {
@@ -144,30 +278,63 @@ export async function startAlertWorkflow(
     return;
   }
 
+  // Correlated with an alert already under investigation → one investigation for the cluster
+  const alert: ClusterAlert = {
+    channelId,
+    threadTs: messageTs,
+    text: alertText(text, attachments),
+    incidentId,
+    service: options?.service ?? null,
+    ruleName: options?.ruleName ?? null,
+    skill: options?.skill || config.alertSkill,
+    model: options?.model || config.alertModel,
+  };
+  const related = options?.split || options?.rerun
+    ? null
+    : findCorrelatedCluster(alert, (primaryThreadTs) => workflows.get(primaryThreadTs)?.clusterOpen ?? false);
+  if (related) {
+    console.log(`[AlertWorkflow] Message ${messageTs} correlates with thread ${related.cluster.primary_thread_ts}, not investigating`);
+    await linkToCluster(alert, related);
+    return;
+  }
+
   const slackLink = buildSlackLink(channelId, messageTs);
+  // Created before the first await so alerts arriving during the PD/budget checks can join it
+  const ownsCluster = !options?.rerun;
 
   const workflow: ActiveWorkflow = {
     channelId,
     threadTs: messageTs,
     incidentId,
-    cliChild: null,
+    ruleName: alert.ruleName,
+    service: alert.service,
+    skill: alert.skill,
+    model: alert.model,
+    cliRun: null,
     feedbackTimer: null,
+    clusterOpen: ownsCluster,
   };
   workflows.set(messageTs, workflow);
-  insertWorkflow(messageTs, "alert", channelId, { incidentId: incidentId ?? undefined });
+  insertWorkflow(messageTs, "alert", channelId, {
+    incidentId: incidentId ?? undefined,
+    ruleName: workflow.ruleName ?? undefined,
+    skill: workflow.skill,
+    model: workflow.model,
+  });
+  if (ownsCluster) createIncidentCluster(alert);
 
   console.log(
     `[AlertWorkflow] Started for thread ${messageTs}` +
-      (incidentId ? ` (PD incident: ${incidentId})` : "")
+      (incidentId ? ` (PD incident: ${incidentId})` : "") +
+      (workflow.ruleName ? ` via rule "${workflow.ruleName}"` : "")
   );
 
   // 1. Acknowledge PagerDuty incident (skip if already acked/resolved)
   if (incidentId && config.pagerdutyApiToken && config.pagerdutyFromEmail) {
     const status = await getPagerDutyIncidentStatus(incidentId, config.pagerdutyApiToken);
-    if (status && status !== "triggered") {
+    if (status === "resolved" || (status === "acknowledged" && !options?.split && !options?.rerun)) {
       console.log(`[AlertWorkflow] PD incident ${incidentId} already ${status}, skipping investigation`);
-      workflows.delete(messageTs);
-      deleteWorkflow(messageTs);
+      abandonStart(app, messageTs, ownsCluster);
       return;
     } else {
       const ack = await acknowledgePagerDutyIncident(
@@ -177,6 +344,7 @@ export async function startAlertWorkflow(
       );
       if (ack.success) {
         console.log(`[AlertWorkflow] PD incident ${incidentId} acknowledged`);
+        recordIncidentAction(messageTs, "pd_acknowledge", { incidentId });
       } else {
         console.error(
           `[AlertWorkflow] Failed to ack PD incident ${incidentId}: ${ack.error}`
@@ -186,19 +354,42 @@ export async function startAlertWorkflow(
   }
 
   // 2. Load skill content and spawn Claude CLI to investigate
-  const skillContext = detectAndLoadSkill(config.alertSkill, config.paymentsRepoPath);
+  const skillContext = detectAndLoadSkill(workflow.skill, config.paymentsRepoPath);
   if (!skillContext) {
-    console.error(`[AlertWorkflow] Skill "${config.alertSkill}" not found, aborting workflow`);
-    workflows.delete(messageTs);
-    deleteWorkflow(messageTs);
+    console.error(`[AlertWorkflow] Skill "${workflow.skill}" not found, aborting workflow`);
+    abandonStart(app, messageTs, ownsCluster);
     return;
   }
   skillContext.skillArgs = `on ${slackLink}`;
 
-  // 2b. Post "Investigating..." indicator to thread
+  // Similar past investigations and how they were resolved
+  const prior = findPriorIncidents({ text: alert.text, threadTs: messageTs, incidentId, service: alert.service });
+  skillContext.extraContext = formatPriorIncidents(prior) || undefined;
+
+  // 2b. Refuse to spawn if the alert/channel budget is exhausted
+  const ledger: LedgerContext = { workflowType: "alert", channelId, threadTs: messageTs, skill: workflow.skill };
+  if (!(await enforceBudget(app, ledger, channelId, messageTs))) {
+    abandonStart(app, messageTs, ownsCluster);
+    return;
+  }
+
+  // 2c. Post the prior incidents used and the "Investigating..." indicator to thread
+  if (prior.length > 0) {
+    try {
+      await postMessage({
+        channel: channelId,
+        thread_ts: messageTs,
+        text: formatPriorIncidentLinks(prior),
+        unfurl_links: false,
+      });
+    } catch (err) {
+      console.error(`[AlertWorkflow] Failed to post prior incidents:`, err);
+    }
+  }
+
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: channelId,
       thread_ts: messageTs,
       text: "Investigating...",
@@ -208,13 +399,27 @@ export async function startAlertWorkflow(
     console.error(`[AlertWorkflow] Failed to post thinking indicator:`, err);
   }
 
-  const prompt = `Invoke skill "${config.alertSkill}" with args "on ${slackLink}".`;
-  const { child, done } = spawnClaudeCli(prompt, config.paymentsRepoPath, { skillContext });
-  workflow.cliChild = child;
+  // Alerts that joined the cluster so far; later ones get a follow-up once this run finishes
+  const cluster = getThreadCluster(messageTs);
+  const briefed = new Set(cluster?.members.map((m) => m.thread_ts) ?? [messageTs]);
+  skillContext.extraContext =
+    [formatClusterContext(messageTs), skillContext.extraContext].filter(Boolean).join("\n\n") || undefined;
+
+  const prompt = `Invoke skill "${workflow.skill}" with args "on ${slackLink}".`;
+  const progress = createProgressReporter(channelId, thinkingTs, "Investigating...");
+  const run = spawnClaudeCli(prompt, config.paymentsRepoPath, {
+    model: workflow.model,
+    skillContext,
+    ledger,
+    onProgress: progress.update,
+  });
+  workflow.cliRun = run;
 
   // 3. When CLI finishes, post response and start feedback timer
-  done.then(async (result) => {
-    workflow.cliChild = null;
+  run.done.then(async (result) => {
+    await progress.stop();
+    workflow.cliRun = null;
+    workflow.clusterOpen = false;
     console.log(
       `[AlertWorkflow] CLI finished for thread ${messageTs} (exit: ${result.exitCode})`
     );
@@ -231,68 +436,33 @@ export async function startAlertWorkflow(
     // Extract summary (header + section 1) for Slack, save full report to file
     const { summary } = extractSummary(rawText);
     const reportPath = rewritten ? undefined : saveFullReport(messageTs, rawText);
-    const summaryText = markdownToSlackMrkdwn(summary) + buildUsageFooter(result);
-
+    archiveReport({
+      workflowType: "alert",
+      kind: "investigation",
+      channelId,
+      threadTs: messageTs,
+      incidentId,
+      service: workflow.service,
+      ruleName: workflow.ruleName,
+      skill: workflow.skill,
+      model: workflow.model,
+      text: rawText,
+      result,
+      status: rewritten ? "api_error" : undefined,
+      filePath: reportPath,
+    });
     try {
       // Post summary to Slack
-      const chunks = chunkResponse(summaryText);
-
-      // First chunk: update the "Investigating..." message or post new
-      if (thinkingTs) {
-        try {
-          await app.client.chat.update({
-            channel: channelId,
-            ts: thinkingTs,
-            text: chunks[0],
-          });
-        } catch (updateErr: any) {
-          if (updateErr?.data?.error === "msg_too_long") {
-            console.warn(`[AlertWorkflow] msg_too_long on update, truncating chunk (${chunks[0].length} chars)`);
-            const truncated = chunks[0].slice(0, 3800) + "\n\n_(truncated)_";
-            await app.client.chat.update({
-              channel: channelId,
-              ts: thinkingTs,
-              text: truncated,
-            });
-          } else {
-            throw updateErr;
-          }
-        }
-      } else {
-        await app.client.chat.postMessage({
-          channel: channelId,
-          thread_ts: messageTs,
-          text: chunks[0],
-        });
-      }
-
-      // Remaining chunks as thread replies
-      for (let i = 1; i < chunks.length; i++) {
-        try {
-          await app.client.chat.postMessage({
-            channel: channelId,
-            thread_ts: messageTs,
-            text: chunks[i],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[AlertWorkflow] msg_too_long on chunk ${i}, truncating (${chunks[i].length} chars)`);
-            const truncated = chunks[i].slice(0, 3800) + "\n\n_(truncated)_";
-            await app.client.chat.postMessage({
-              channel: channelId,
-              thread_ts: messageTs,
-              text: truncated,
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
+      const posted = await postResponse(
+        { channel: channelId, threadTs: messageTs, replaceTs: thinkingTs },
+        summary,
+        usageFooter(result, workflow.model)
+      );
 
       // Upload full report as file snippet in thread
       if (reportPath) {
         try {
-          await app.client.filesUploadV2({
+          await uploadFile({
             channel_id: channelId,
             thread_ts: messageTs,
             content: rawText,
@@ -306,11 +476,14 @@ export async function startAlertWorkflow(
         }
       }
 
-      console.log(`[AlertWorkflow] Posted summary (${chunks.length} chunk(s), ${summaryText.length} chars) to thread ${messageTs}`);
+      console.log(`[AlertWorkflow] Posted summary (${posted.messages} message(s), ${summary.length} chars) to thread ${messageTs}`);
+      await postReportControls(channelId, messageTs, incidentId);
     } catch (err) {
       console.error(`[AlertWorkflow] Failed to post response:`, err);
     }
 
+    if (incidentId && !rewritten) postIncidentNote(incidentId, summary, slackLink);
+
     // Convert to discuss session if we got a sessionId (no API error)
     if (result.sessionId && !rewritten && workflows.has(messageTs)) {
       console.log(`[AlertWorkflow] Converting thread ${messageTs} to discuss session (session: ${result.sessionId})`);
@@ -320,20 +493,25 @@ export async function startAlertWorkflow(
       updateWorkflowCliSession(messageTs, result.sessionId);
       clearFeedbackTimer(workflow);
       workflows.delete(messageTs);
+      if (ownsCluster) followUpLateMembers(app, messageTs, briefed);
       return;
     }
 
     // No sessionId or API error — keep as alert with feedback timer
     if (workflows.has(messageTs)) {
       startFeedbackTimer(app, workflow);
+      if (ownsCluster) followUpLateMembers(app, messageTs, briefed);
     }
   });
 }
 
+/** Follow-up investigation; options.model runs just this one on another model (the report's "Escalate to Opus") */
 export async function handleOwnerFeedback(
   app: App,
   threadTs: string,
-  text: string
+  text: string,
+  userId?: string,
+  options: { model?: string } = {}
 ): Promise<void> {
   const workflow = workflows.get(threadTs);
   if (!workflow) return;
@@ -344,24 +522,38 @@ export async function handleOwnerFeedback(
   clearFeedbackTimer(workflow);
 
   // Kill any running CLI before spawning a new one
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
 
   // Load skill and spawn follow-up CLI
   const slackLink = buildSlackLink(workflow.channelId, threadTs);
-  const skillContext = detectAndLoadSkill(config.alertSkill, config.paymentsRepoPath);
+  const skillContext = detectAndLoadSkill(workflow.skill, config.paymentsRepoPath);
   if (!skillContext) {
-    console.error(`[AlertWorkflow] Skill "${config.alertSkill}" not found for follow-up`);
+    console.error(`[AlertWorkflow] Skill "${workflow.skill}" not found for follow-up`);
     return;
   }
   skillContext.skillArgs = `on ${slackLink}`;
+  // Alerts that joined the cluster since the first investigation
+  skillContext.extraContext = formatClusterContext(threadTs) || undefined;
+
+  const ledger: LedgerContext = {
+    workflowType: "alert",
+    userId,
+    channelId: workflow.channelId,
+    threadTs,
+    skill: workflow.skill,
+  };
+  if (!(await enforceBudget(app, ledger, workflow.channelId, threadTs))) {
+    startFeedbackTimer(app, workflow);
+    return;
+  }
 
   // Post "Investigating..." indicator
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: workflow.channelId,
       thread_ts: threadTs,
       text: "Investigating...",
@@ -369,12 +561,20 @@ export async function handleOwnerFeedback(
     thinkingTs = res.ts || undefined;
   } catch {}
 
-  const prompt = `Invoke skill "${config.alertSkill}" with args "on ${slackLink}". Follow-up question from owner: ${text}`;
-  const { child, done } = spawnClaudeCli(prompt, config.paymentsRepoPath, { skillContext });
-  workflow.cliChild = child;
+  const prompt = `Invoke skill "${workflow.skill}" with args "on ${slackLink}". Follow-up question from owner: ${text}`;
+  const model = options.model || workflow.model;
+  const progress = createProgressReporter(workflow.channelId, thinkingTs, "Investigating...");
+  const run = spawnClaudeCli(prompt, config.paymentsRepoPath, {
+    model,
+    skillContext,
+    ledger,
+    onProgress: progress.update,
+  });
+  workflow.cliRun = run;
 
-  done.then(async (result) => {
-    workflow.cliChild = null;
+  run.done.then(async (result) => {
+    await progress.stop();
+    workflow.cliRun = null;
     console.log(
       `[AlertWorkflow] Follow-up CLI finished for thread ${threadTs} (exit: ${result.exitCode})`
     );
@@ -386,62 +586,28 @@ export async function handleOwnerFeedback(
       console.warn(`[AlertWorkflow] API error in follow-up for thread ${threadTs}: ${rawFollowUpText.slice(0, 200)}`);
       rawFollowUpText = rewrittenFollowUp;
     }
-    const responseText = markdownToSlackMrkdwn(rawFollowUpText) + buildUsageFooter(result);
-
+    archiveReport({
+      workflowType: "alert",
+      kind: "follow_up",
+      channelId: workflow.channelId,
+      threadTs,
+      incidentId: workflow.incidentId,
+      service: workflow.service,
+      ruleName: workflow.ruleName,
+      skill: workflow.skill,
+      model,
+      text: rawFollowUpText,
+      result,
+      status: rewrittenFollowUp ? "api_error" : undefined,
+    });
     try {
-      const chunks = chunkResponse(responseText);
-
-      if (thinkingTs) {
-        try {
-          await app.client.chat.update({
-            channel: workflow.channelId,
-            ts: thinkingTs,
-            text: chunks[0],
-          });
-        } catch (updateErr: any) {
-          if (updateErr?.data?.error === "msg_too_long") {
-            console.warn(`[AlertWorkflow] msg_too_long on follow-up update, truncating chunk (${chunks[0].length} chars)`);
-            const truncated = chunks[0].slice(0, 3800) + "\n\n_(truncated)_";
-            await app.client.chat.update({
-              channel: workflow.channelId,
-              ts: thinkingTs,
-              text: truncated,
-            });
-          } else {
-            throw updateErr;
-          }
-        }
-      } else {
-        await app.client.chat.postMessage({
-          channel: workflow.channelId,
-          thread_ts: threadTs,
-          text: chunks[0],
-        });
-      }
-
-      for (let i = 1; i < chunks.length; i++) {
-        try {
-          await app.client.chat.postMessage({
-            channel: workflow.channelId,
-            thread_ts: threadTs,
-            text: chunks[i],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[AlertWorkflow] msg_too_long on follow-up chunk ${i}, truncating (${chunks[i].length} chars)`);
-            const truncated = chunks[i].slice(0, 3800) + "\n\n_(truncated)_";
-            await app.client.chat.postMessage({
-              channel: workflow.channelId,
-              thread_ts: threadTs,
-              text: truncated,
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
+      const posted = await postResponse(
+        { channel: workflow.channelId, threadTs, replaceTs: thinkingTs },
+        rawFollowUpText,
+        usageFooter(result, model)
+      );
 
-      console.log(`[AlertWorkflow] Posted follow-up response (${chunks.length} chunk(s), ${responseText.length} chars) to thread ${threadTs}`);
+      console.log(`[AlertWorkflow] Posted follow-up response (${posted.messages} message(s), ${rawFollowUpText.length} chars) to thread ${threadTs}`);
     } catch (err) {
       console.error(`[AlertWorkflow] Failed to post follow-up response:`, err);
     }
@@ -471,16 +637,22 @@ export async function cleanupWorkflow(
   clearFeedbackTimer(workflow);
 
   // Kill any running CLI
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
 
   workflows.delete(workflow.threadTs);
   deleteWorkflow(workflow.threadTs);
+  clearBudgetWarnings(workflow.threadTs);
   console.log(`[AlertWorkflow] Cleaned up workflow for thread ${workflow.threadTs}`);
 }
 
+/** PagerDuty incident tracked by a thread — an active alert workflow or a discuss session converted from one */
+export function getThreadIncidentId(threadTs: string): string | null {
+  return workflows.get(threadTs)?.incidentId ?? getWorkflow(threadTs)?.incident_id ?? null;
+}
+
 export function isAlertWorkflowActive(messageTs: string): boolean {
   return workflows.has(messageTs);
 }
@@ -493,13 +665,15 @@ export function getAllAlertWorkflows(): Array<{
   threadTs: string;
   channelId: string;
   incidentId: string | null;
+  ruleName: string | null;
   hasCliChild: boolean;
 }> {
   return Array.from(workflows.entries()).map(([threadTs, w]) => ({
     threadTs,
     channelId: w.channelId,
     incidentId: w.incidentId,
-    hasCliChild: w.cliChild !== null,
+    ruleName: w.ruleName,
+    hasCliChild: w.cliRun !== null,
   }));
 }
 
@@ -507,9 +681,9 @@ export function killAlertWorkflow(threadTs: string): boolean {
   const workflow = workflows.get(threadTs);
   if (!workflow) return false;
   clearFeedbackTimer(workflow);
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
   workflows.delete(threadTs);
   deleteWorkflow(threadTs);
@@ -520,9 +694,9 @@ export function killAlertWorkflow(threadTs: string): boolean {
 export function killAllWorkflows(): void {
   for (const [key, workflow] of workflows) {
     clearFeedbackTimer(workflow);
-    if (workflow.cliChild) {
-      safeKill(workflow.cliChild);
-      workflow.cliChild = null;
+    if (workflow.cliRun) {
+      workflow.cliRun.kill();
+      workflow.cliRun = null;
     }
     deleteWorkflow(key);
     workflows.delete(key);
@@ -540,8 +714,13 @@ export function restoreAlertWorkflows(app: App): void {
       channelId: row.channel_id,
       threadTs: row.thread_ts,
       incidentId: row.incident_id,
-      cliChild: null,
+      ruleName: row.rule_name,
+      service: getThreadCluster(row.thread_ts)?.member.service ?? null,
+      skill: row.skill || config.alertSkill,
+      model: row.model || config.alertModel,
+      cliRun: null,
       feedbackTimer: null,
+      clusterOpen: false,
     };
     workflows.set(row.thread_ts, workflow);
     startFeedbackTimer(app, workflow);
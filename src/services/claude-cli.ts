@@ -1,30 +1,16 @@
-import { spawn, type ChildProcess } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
 import { readFileSync, existsSync, globSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { config } from "../config.js";
 import { getMcpConfigPath } from "./mcp-config.js";
+import type { LedgerContext } from "./cost-ledger.js";
+import { runCli, safeKill, type CliRun, type CliRunResult } from "./cli-runner.js";
 
-export interface CliRunResult {
-  exitCode: number | null;
-  costUsd?: number;
-  response?: string;
-  /** The longest assistant text block (typically the detailed report) */
-  fullReport?: string;
-  inputTokens?: number;
-  outputTokens?: number;
-  sessionId?: string;
-}
+export { safeKill, type CliRun, type CliRunResult } from "./cli-runner.js";
 
-export interface DiscussCliResult {
-  exitCode: number | null;
-  costUsd?: number;
-  response?: string;
-  sessionId?: string;
-  inputTokens?: number;
-  outputTokens?: number;
-  numTurns?: number;
-}
+/** Discuss/DM runs share the unified result shape */
+export type DiscussCliResult = CliRunResult;
 
 export interface CompactResult {
   success: boolean;
@@ -32,12 +18,22 @@ export interface CompactResult {
   costUsd?: number;
 }
 
-export interface SpawnResult {
-  child: ChildProcess;
-  done: Promise<CliRunResult>;
+/** Rolling view of what a running CLI is doing, built from stream-json events */
+export interface CliProgress {
+  /** Number of tool calls made so far */
+  steps: number;
+  /** Name of the most recent tool call */
+  currentTool?: string;
+  /** Most recent assistant text block */
+  latestText?: string;
+  /** 1-based position in the CLI process pool queue while waiting to start */
+  queuePosition?: number;
 }
 
-const SLACK_MAX_LENGTH = 3500;
+export type CliProgressListener = (progress: CliProgress) => void;
+
+/** Kept for callers that destructure { child, done } — the full run also exposes .on() */
+export type SpawnResult = CliRun;
 
 /** Detect known API error patterns in CLI responses and rewrite them as friendly messages.
  *  Only matches when the response starts with the error pattern (not buried in normal text). */
@@ -60,104 +56,29 @@ export function rewriteApiError(response: string): string | null {
   return `Something went wrong (API error ${statusCode}). Session has been reset — please try again.`;
 }
 
-/** Split a long response into Slack-safe chunks, breaking at paragraph/line boundaries */
-export function chunkResponse(text: string, maxLength = SLACK_MAX_LENGTH): string[] {
-  if (text.length <= maxLength) return [text];
-
-  const chunks: string[] = [];
-  let remaining = text;
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLength) {
-      chunks.push(remaining);
-      break;
-    }
-    let splitAt = remaining.lastIndexOf("\n\n", maxLength);
-    if (splitAt <= 0) splitAt = remaining.lastIndexOf("\n", maxLength);
-    if (splitAt <= 0) splitAt = maxLength;
-    chunks.push(remaining.slice(0, splitAt));
-    remaining = remaining.slice(splitAt).replace(/^\n+/, "");
-  }
-  return chunks;
-}
-
-/** Convert standard Markdown to Slack mrkdwn format.
- *  Splits on fenced code blocks — only transforms non-code segments. */
-export function markdownToSlackMrkdwn(text: string): string {
-  // Split on fenced code blocks (```...```)
-  const parts = text.split(/(```[\s\S]*?```)/);
-  return parts
-    .map((part, i) => {
-      // Odd indices are code blocks — leave untouched
-      if (i % 2 === 1) return part;
-      return convertSegment(part);
+/** Feed queue, tool_use and text events into a rolling progress view for the listener */
+function attachProgress(run: CliRun, onProgress: CliProgressListener): void {
+  const progress: CliProgress = { steps: 0 };
+  run
+    .on("queued", (event) => {
+      progress.queuePosition = event.position;
+      onProgress({ ...progress });
     })
-    .join("");
-}
-
-function convertSegment(text: string): string {
-  // 1. Images: ![alt](url) → <url|alt>
-  text = text.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, "<$2|$1>");
-
-  // 2. Links: [text](url) → <url|text>
-  text = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, "<$2|$1>");
-
-  // 3. Headings: ^#{1,6} text → *text* (bold, strip any ** inside)
-  text = text.replace(/^#{1,6}\s+(.+)$/gm, (_match, heading: string) => {
-    return `*${heading.replace(/\*\*/g, "")}*`;
-  });
-
-  // 4. Bold: **text** → *text*
-  text = text.replace(/\*\*(.+?)\*\*/g, "*$1*");
-
-  // 5. Strikethrough: ~~text~~ → ~text~
-  text = text.replace(/~~(.+?)~~/g, "~$1~");
-
-  // 6. Tables: consecutive |...| lines → wrapped in ``` code block (separator rows removed)
-  text = text.replace(
-    /(?:^[ \t]*\|.+\|[ \t]*$\n?){2,}/gm,
-    (tableBlock: string) => {
-      const lines = tableBlock
-        .split("\n")
-        .filter((line) => line.trim() !== "")
-        // Remove separator rows like |---|---|
-        .filter((line) => !/^\s*\|[\s:|-]+\|\s*$/.test(line));
-      return "```\n" + lines.join("\n") + "\n```\n";
-    }
-  );
-
-  // 7. Emoji shortcodes: fix common ones Claude generates that Slack doesn't recognize
-  text = text.replace(/:green_circle:/g, ":large_green_circle:");
-  text = text.replace(/:red_circle:/g, ":red_circle:");
-  text = text.replace(/:orange_circle:/g, ":large_orange_circle:");
-  text = text.replace(/:yellow_circle:/g, ":large_yellow_circle:");
-
-  return text;
-}
-
-const STREAM_LOG_TEXT_LIMIT = 200;
-
-function logStreamContent(tag: string, content: unknown[]): void {
-  for (const block of content) {
-    const b = block as Record<string, unknown>;
-    if (b.type === "text" && typeof b.text === "string") {
-      const preview = b.text.length > STREAM_LOG_TEXT_LIMIT
-        ? b.text.slice(0, STREAM_LOG_TEXT_LIMIT) + "..."
-        : b.text;
-      console.log(`[${tag}] text: ${preview}`);
-    } else if (b.type === "tool_use" && typeof b.name === "string") {
-      console.log(`[${tag}] tool_use: ${b.name}`);
-    }
-  }
-}
-
-export function safeKill(child: ChildProcess, signal: NodeJS.Signals = "SIGTERM"): boolean {
-  try {
-    return child.kill(signal);
-  } catch (err) {
-    const code = (err as NodeJS.ErrnoException).code;
-    console.warn(`[ClaudeCLI] kill failed (${code}), process may already be dead (pid: ${child.pid})`);
-    return false;
-  }
+    .on("spawned", () => {
+      if (progress.queuePosition === undefined) return;
+      progress.queuePosition = undefined;
+      onProgress({ ...progress });
+    })
+    .on("tool_use", (event) => {
+      progress.steps++;
+      progress.currentTool = event.name;
+      onProgress({ ...progress });
+    })
+    .on("text", (event) => {
+      if (!event.text.trim()) return;
+      progress.latestText = event.text;
+      onProgress({ ...progress });
+    });
 }
 
 export interface SkillContext {
@@ -165,13 +86,15 @@ export interface SkillContext {
   skillContent: string;
   skillArgs: string;
   skillDir: string;
+  /** Data gathered before the run (e.g. Airflow DAG state), appended after the skill */
+  extraContext?: string;
 }
 
 /**
  * Search project-level then user-level plugin cache for a skill's SKILL.md.
  * Returns { skillDir, skillPath } or null if not found.
  */
-function resolveSkillPath(skillName: string, cwd: string): { skillDir: string; skillPath: string } | null {
+export function resolveSkillPath(skillName: string, cwd: string): { skillDir: string; skillPath: string } | null {
   // 1. Project-level: <cwd>/.claude/skills/<skillName>/SKILL.md
   const projectSkillDir = path.join(cwd, ".claude", "skills", skillName);
   const projectSkillPath = path.join(projectSkillDir, "SKILL.md");
@@ -229,7 +152,7 @@ const SKILL_SYSTEM_PROMPT =
 
 /** Build the effective prompt with full SKILL.md content injected */
 function buildSkillPrompt(skillContext: SkillContext, fallbackPrompt: string, cwd: string): string {
-  const { skillName, skillContent, skillArgs, skillDir } = skillContext;
+  const { skillName, skillContent, skillArgs, skillDir, extraContext } = skillContext;
 
   // Recursively load all referenced files and sub-skills
   const ctx: LoadCtx = {
@@ -249,6 +172,7 @@ function buildSkillPrompt(skillContext: SkillContext, fallbackPrompt: string, cw
   return (
     `Execute skill "${skillName}" with arguments "${skillArgs}".\n\n` +
     `<skill>\n${skillContent}\n</skill>${refsOutput}\n\n` +
+    (extraContext ? `${extraContext}\n\n` : "") +
     `IMPORTANT: Follow every step in the skill workflow exactly in order. ` +
     `Do NOT skip any step. Many steps have infrastructure prerequisites ` +
     `(SSO login, VPN tunnels via sshuttle, browser authorization) that MUST ` +
@@ -467,14 +391,21 @@ function formatReferences(loaded: LoadedReferences): string {
 export function spawnClaudeCli(
   prompt: string,
   cwd: string,
-  options?: { signal?: AbortSignal; skillContext?: SkillContext }
+  options?: {
+    model?: string;
+    signal?: AbortSignal;
+    skillContext?: SkillContext;
+    ledger?: LedgerContext;
+    onProgress?: CliProgressListener;
+  }
 ): SpawnResult {
   // If skill context is provided, inject full SKILL.md content into the prompt
   const effectivePrompt = options?.skillContext
     ? buildSkillPrompt(options.skillContext, prompt, cwd)
     : prompt;
 
-  const args = ["-p", effectivePrompt, "--verbose", "--model", config.alertModel, "--dangerously-skip-permissions", "--output-format", "stream-json"];
+  const model = options?.model || config.alertModel;
+  const args = ["-p", effectivePrompt, "--verbose", "--model", model, "--dangerously-skip-permissions", "--output-format", "stream-json"];
 
   // Append system prompt enforcing strict skill execution
   let systemPrompt: string | undefined;
@@ -502,115 +433,35 @@ export function spawnClaudeCli(
     console.log(`[ClaudeCLI] System prompt: ${systemPrompt.slice(0, 200)}...`);
   }
 
-  const child = spawn(
-    "claude",
+  const run = runCli({
+    tag: "ClaudeCLI",
     args,
-    {
-      cwd,
-      env: process.env,
-      stdio: ["ignore", "pipe", "pipe"],
-      signal: options?.signal,
+    cwd,
+    model,
+    signal: options?.signal,
+    ledger: options?.ledger,
+  });
+  if (options?.onProgress) attachProgress(run, options.onProgress);
+  run.done.then((result) => {
+    if (result.fullReport) {
+      console.log(`[ClaudeCLI] Longest assistant text: ${result.fullReport.length} chars`);
     }
-  );
-
-  const done = new Promise<CliRunResult>((resolve) => {
-    let costUsd: number | undefined;
-    let response: string | undefined;
-    let inputTokens: number | undefined;
-    let outputTokens: number | undefined;
-    let sessionId: string | undefined;
-    let assistantText = "";
-    let longestAssistantText = "";
-    let stdout = "";
-
-    child.stdout?.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString();
-      // Parse newline-delimited JSON for cost info
-      const lines = stdout.split("\n");
-      stdout = lines.pop() || ""; // keep incomplete last line
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const obj = JSON.parse(line);
-          if (obj.type === "assistant") {
-            // Track token usage from assistant messages
-            const usage = obj.message?.usage;
-            if (usage) {
-              const base = typeof usage.input_tokens === "number" ? usage.input_tokens : 0;
-              const cacheCreation = typeof usage.cache_creation_input_tokens === "number" ? usage.cache_creation_input_tokens : 0;
-              const cacheRead = typeof usage.cache_read_input_tokens === "number" ? usage.cache_read_input_tokens : 0;
-              inputTokens = base + cacheCreation + cacheRead;
-              if (typeof usage.output_tokens === "number") outputTokens = usage.output_tokens;
-            }
-            if (Array.isArray(obj.message?.content)) {
-              logStreamContent("ClaudeCLI", obj.message.content);
-              for (const block of obj.message.content) {
-                if (block.type === "text" && typeof block.text === "string") {
-                  assistantText = block.text;
-                  if (block.text.length > longestAssistantText.length) {
-                    longestAssistantText = block.text;
-                  }
-                }
-              }
-            }
-          }
-          if (obj.type === "result") {
-            if (typeof obj.total_cost_usd === "number") costUsd = obj.total_cost_usd;
-            if (typeof obj.session_id === "string") sessionId = obj.session_id;
-            if (typeof obj.result === "string" && obj.result) {
-              response = obj.result;
-            } else if (Array.isArray(obj.result)) {
-              const texts = obj.result
-                .filter((b: any) => b.type === "text" && typeof b.text === "string")
-                .map((b: any) => b.text);
-              if (texts.length > 0) response = texts.join("\n");
-            }
-            if (!response) {
-              console.warn(`[ClaudeCLI] result field empty or unexpected type: ${typeof obj.result}`,
-                JSON.stringify(obj.result)?.slice(0, 200));
-            }
-          }
-        } catch {
-          // not JSON, ignore
-        }
-      }
-    });
-
-    child.stderr?.on("data", (chunk: Buffer) => {
-      const text = chunk.toString().trim();
-      if (text) console.error(`[ClaudeCLI stderr] ${text}`);
-    });
-
-    child.on("error", (err) => {
-      console.error(`[ClaudeCLI] spawn error:`, err.message);
-      const fullReport = longestAssistantText || undefined;
-      resolve({ exitCode: null, costUsd, response, fullReport, inputTokens, outputTokens, sessionId });
-    });
-
-    child.on("close", (code) => {
-      if (!response && assistantText) {
-        console.log(`[ClaudeCLI] Using assistant text fallback (${assistantText.length} chars)`);
-        response = assistantText;
-      }
-      const fullReport = longestAssistantText || undefined;
-      if (fullReport) {
-        console.log(`[ClaudeCLI] Longest assistant text: ${fullReport.length} chars`);
-      }
-      if (costUsd !== undefined) {
-        console.log(`[ClaudeCLI] Done. Cost: $${costUsd.toFixed(4)}`);
-      }
-      resolve({ exitCode: code, costUsd, response, fullReport, inputTokens, outputTokens, sessionId });
-    });
   });
-
-  return { child, done };
+  return run;
 }
 
 export function spawnDiscussCli(
   prompt: string,
   cwd: string,
-  options?: { resumeSessionId?: string; model?: string; signal?: AbortSignal; skillContext?: SkillContext }
-): { child: ChildProcess; done: Promise<DiscussCliResult> } {
+  options?: {
+    resumeSessionId?: string;
+    model?: string;
+    signal?: AbortSignal;
+    skillContext?: SkillContext;
+    ledger?: LedgerContext;
+    onProgress?: CliProgressListener;
+  }
+): SpawnResult {
   // If skill context is provided, inject full SKILL.md content into the prompt
   const effectivePrompt = options?.skillContext
     ? buildSkillPrompt(options.skillContext, prompt, cwd)
@@ -622,10 +473,11 @@ export function spawnDiscussCli(
     args.push("--resume", options.resumeSessionId);
   }
 
+  const model = options?.model || config.alertModel;
   args.push(
     "-p", effectivePrompt,
     "--verbose",
-    "--model", options?.model || config.alertModel,
+    "--model", model,
     "--dangerously-skip-permissions",
     "--output-format", "stream-json"
   );
@@ -648,98 +500,16 @@ export function spawnDiscussCli(
     console.log(`[DiscussCLI] System prompt: ${systemPrompt.slice(0, 200)}...`);
   }
 
-  const child = spawn("claude", args, {
+  const run = runCli({
+    tag: "DiscussCLI",
+    args,
     cwd,
-    env: process.env,
-    stdio: ["ignore", "pipe", "pipe"],
+    model,
     signal: options?.signal,
+    ledger: options?.ledger,
   });
-
-  const done = new Promise<DiscussCliResult>((resolve) => {
-    let costUsd: number | undefined;
-    let response: string | undefined;
-    let sessionId: string | undefined;
-    let inputTokens: number | undefined;
-    let outputTokens: number | undefined;
-    let numTurns: number | undefined;
-    let assistantText = "";
-    let stdout = "";
-
-    child.stdout?.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString();
-      const lines = stdout.split("\n");
-      stdout = lines.pop() || "";
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const obj = JSON.parse(line);
-          if (obj.type === "assistant") {
-            // Track token usage from assistant messages (last one = current context size)
-            // With prompt caching, total context = input_tokens + cache_creation + cache_read
-            const usage = obj.message?.usage;
-            if (usage) {
-              const base = typeof usage.input_tokens === "number" ? usage.input_tokens : 0;
-              const cacheCreation = typeof usage.cache_creation_input_tokens === "number" ? usage.cache_creation_input_tokens : 0;
-              const cacheRead = typeof usage.cache_read_input_tokens === "number" ? usage.cache_read_input_tokens : 0;
-              inputTokens = base + cacheCreation + cacheRead;
-              if (typeof usage.output_tokens === "number") outputTokens = usage.output_tokens;
-            }
-            // Track assistant text as fallback for empty result field
-            if (Array.isArray(obj.message?.content)) {
-              logStreamContent("DiscussCLI", obj.message.content);
-              for (const block of obj.message.content) {
-                if (block.type === "text" && typeof block.text === "string") {
-                  assistantText = block.text;
-                }
-              }
-            }
-          }
-          if (obj.type === "result") {
-            if (typeof obj.total_cost_usd === "number") costUsd = obj.total_cost_usd;
-            if (typeof obj.result === "string" && obj.result) {
-              response = obj.result;
-            } else if (Array.isArray(obj.result)) {
-              const texts = obj.result
-                .filter((b: any) => b.type === "text" && typeof b.text === "string")
-                .map((b: any) => b.text);
-              if (texts.length > 0) response = texts.join("\n");
-            }
-            if (typeof obj.session_id === "string") sessionId = obj.session_id;
-            if (typeof obj.num_turns === "number") numTurns = obj.num_turns;
-            if (!response) {
-              console.warn(`[DiscussCLI] result field empty or unexpected type: ${typeof obj.result}`,
-                JSON.stringify(obj.result)?.slice(0, 200));
-            }
-          }
-        } catch {
-          // not JSON, ignore
-        }
-      }
-    });
-
-    child.stderr?.on("data", (chunk: Buffer) => {
-      const text = chunk.toString().trim();
-      if (text) console.error(`[DiscussCLI stderr] ${text}`);
-    });
-
-    child.on("error", (err) => {
-      console.error(`[DiscussCLI] spawn error:`, err.message);
-      resolve({ exitCode: null, costUsd, response, sessionId, inputTokens, outputTokens, numTurns });
-    });
-
-    child.on("close", (code) => {
-      if (!response && assistantText) {
-        console.log(`[DiscussCLI] Using assistant text fallback (${assistantText.length} chars)`);
-        response = assistantText;
-      }
-      if (costUsd !== undefined) {
-        console.log(`[DiscussCLI] Done. Cost: $${costUsd.toFixed(4)}`);
-      }
-      resolve({ exitCode: code, costUsd, response, sessionId, inputTokens, outputTokens, numTurns });
-    });
-  });
-
-  return { child, done };
+  if (options?.onProgress) attachProgress(run, options.onProgress);
+  return run;
 }
 
 /**
@@ -750,12 +520,13 @@ export function spawnDiscussCli(
 export function compactCliSession(
   sessionId: string,
   cwd: string,
-  options?: { model?: string }
-): { child: ChildProcess; done: Promise<CompactResult> } {
+  options?: { model?: string; ledger?: LedgerContext }
+): { run: CliRun; done: Promise<CompactResult> } {
+  const model = options?.model || config.alertModel;
   const args = [
     "--resume", sessionId,
     "--output-format", "stream-json",
-    "--model", options?.model || config.alertModel,
+    "--model", model,
     "--dangerously-skip-permissions",
   ];
 
@@ -764,69 +535,32 @@ export function compactCliSession(
     args.push("--mcp-config", mcpOverride);
   }
 
-  const child = spawn("claude", args, {
+  const run = runCli({
+    tag: "DiscussCLI compact",
+    args,
     cwd,
-    env: process.env,
-    stdio: ["pipe", "pipe", "pipe"],
+    model,
+    stdin: "/compact\n",
+    ledger: options?.ledger,
   });
 
-  // Send /compact then close stdin — CLI will process compact, then exit on EOF
-  child.stdin?.write("/compact\n");
-  child.stdin?.end();
-
-  const done = new Promise<CompactResult>((resolve) => {
-    let inputTokens: number | undefined;
-    let costUsd: number | undefined;
-    let stdout = "";
-
-    child.stdout?.on("data", (chunk: Buffer) => {
-      stdout += chunk.toString();
-      const lines = stdout.split("\n");
-      stdout = lines.pop() || "";
-      for (const line of lines) {
-        if (!line.trim()) continue;
-        try {
-          const obj = JSON.parse(line);
-          if (obj.type === "assistant") {
-            if (Array.isArray(obj.message?.content)) {
-              logStreamContent("DiscussCLI compact", obj.message.content);
-            }
-            const usage = obj.message?.usage;
-            if (usage) {
-              const base = typeof usage.input_tokens === "number" ? usage.input_tokens : 0;
-              const cacheCreation = typeof usage.cache_creation_input_tokens === "number" ? usage.cache_creation_input_tokens : 0;
-              const cacheRead = typeof usage.cache_read_input_tokens === "number" ? usage.cache_read_input_tokens : 0;
-              inputTokens = base + cacheCreation + cacheRead;
-            }
-          }
-          if (obj.type === "result") {
-            if (typeof obj.total_cost_usd === "number") costUsd = obj.total_cost_usd;
-          }
-        } catch {}
-      }
-    });
-
-    child.stderr?.on("data", (chunk: Buffer) => {
-      const text = chunk.toString().trim();
-      if (text) console.error(`[DiscussCLI compact stderr] ${text}`);
-    });
-
-    child.on("close", (code) => {
-      console.log(`[DiscussCLI] Compact done (exit: ${code})`);
-      resolve({ success: code === 0, inputTokens, costUsd });
-    });
-
-    child.on("error", (err) => {
-      console.error(`[DiscussCLI] compact error:`, err.message);
-      resolve({ success: false });
-    });
+  const done = run.done.then((result): CompactResult => {
+    console.log(`[DiscussCLI] Compact done (exit: ${result.exitCode})`);
+    if (result.exitCode === null) return { success: false };
+    return { success: result.exitCode === 0, inputTokens: result.inputTokens, costUsd: result.costUsd };
   });
 
   // Safety timeout: kill if compact takes too long (2 min)
-  const timeout = setTimeout(() => {
-    safeKill(child);
-  }, 120_000);
-  done.then(() => clearTimeout(timeout));
+  // (armed once the process actually starts, so time spent queued doesn't count)
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  const armTimeout = () => {
+    timeout = setTimeout(() => run.kill(), 120_000);
+  };
+  if (run.child) armTimeout();
+  else run.on("spawned", armTimeout);
+  done.then(() => {
+    if (timeout) clearTimeout(timeout);
+  });
 
-  return { child, done };
+  return { run, done };
 }
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config.js";
+import { getCliPoolSnapshot, requestCliSlot, type CliSlotTicket } from "./cli-pool.js";
+
+describe("CLI pool", () => {
+  let maxBefore: number;
+  const tickets: CliSlotTicket[] = [];
+
+  beforeEach(() => {
+    maxBefore = config.cliPool.maxConcurrent;
+    config.cliPool.maxConcurrent = 1;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    for (const ticket of tickets.splice(0)) {
+      ticket.cancel();
+      ticket.release();
+    }
+    config.cliPool.maxConcurrent = maxBefore;
+    vi.restoreAllMocks();
+  });
+
+  it("hands the slot of a run that fails to start to the next waiting run", () => {
+    const order: string[] = [];
+    let failing = false;
+
+    // Holds the only slot so the next two queue
+    const holder = requestCliSlot({ ledger: { workflowType: "alert" }, start: () => order.push("holder"), onStartFailed: () => {} });
+    tickets.push(holder);
+    tickets.push(
+      requestCliSlot({
+        ledger: { workflowType: "alert" },
+        start: () => {
+          failing = true;
+          throw new Error("spawn EAGAIN");
+        },
+        onStartFailed: (err) => order.push(`failed: ${err.message}`),
+      })
+    );
+    tickets.push(
+      requestCliSlot({ ledger: { workflowType: "discuss" }, start: () => order.push("queued"), onStartFailed: () => {} })
+    );
+    expect(getCliPoolSnapshot().queueDepth).toBe(2);
+
+    holder.release();
+
+    expect(failing).toBe(true);
+    expect(order).toEqual(["holder", "failed: spawn EAGAIN", "queued"]);
+    expect(getCliPoolSnapshot()).toMatchObject({ running: 1, queueDepth: 0 });
+  });
+});
@@ -0,0 +1,187 @@
+import { config } from "../config.js";
+import type { CliWorkflowType, LedgerContext } from "./cost-ledger.js";
+
+/** Lower runs first: alerts, then interactive sessions, then summaries, postmortems and scheduled jobs */
+const WORKFLOW_PRIORITY: Record<CliWorkflowType, number> = {
+  alert: 0,
+  delay_alert: 0,
+  discuss: 1,
+  dm: 1,
+  daily_summary: 2,
+  weekly_summary: 2,
+  postmortem: 2,
+  scheduled: 2,
+};
+
+export interface CliSlotRequest {
+  ledger: LedgerContext;
+  /** Called once a slot is granted; the caller must call release() when the process exits */
+  start: () => void;
+  /** Called instead when start() throws; the slot is already freed */
+  onStartFailed: (err: Error) => void;
+  /** Called with the 1-based queue position whenever it changes while waiting */
+  onQueuePosition?: (position: number) => void;
+}
+
+export interface CliSlotTicket {
+  /** Drop the request if it is still waiting. Returns false once it has started. */
+  cancel: () => boolean;
+  /** Free the slot after the process exits (no-op for cancelled requests) */
+  release: () => void;
+}
+
+interface PoolEntry {
+  request: CliSlotRequest;
+  priority: number;
+  enqueuedAt: number;
+  lastPosition: number;
+  state: "waiting" | "running" | "done";
+}
+
+const waiting: PoolEntry[] = [];
+const runningByType = new Map<CliWorkflowType, number>();
+let runningTotal = 0;
+
+function hasCapacity(workflowType: CliWorkflowType): boolean {
+  if (runningTotal >= config.cliPool.maxConcurrent) return false;
+  const cap = config.cliPool.maxPerWorkflow[workflowType];
+  return cap === undefined || (runningByType.get(workflowType) ?? 0) < cap;
+}
+
+function occupy(workflowType: CliWorkflowType): void {
+  runningTotal++;
+  runningByType.set(workflowType, (runningByType.get(workflowType) ?? 0) + 1);
+}
+
+function vacate(workflowType: CliWorkflowType): void {
+  runningTotal = Math.max(0, runningTotal - 1);
+  runningByType.set(workflowType, Math.max(0, (runningByType.get(workflowType) ?? 0) - 1));
+}
+
+function startEntry(entry: PoolEntry): void {
+  const { workflowType } = entry.request.ledger;
+  occupy(workflowType);
+  entry.state = "running";
+  try {
+    entry.request.start();
+  } catch (err) {
+    console.error(`[CliPool] Failed to start ${workflowType} run:`, err);
+    entry.state = "done";
+    vacate(workflowType);
+    try {
+      entry.request.onStartFailed(err instanceof Error ? err : new Error(String(err)));
+    } catch (listenerErr) {
+      console.error(`[CliPool] Start failure listener failed:`, listenerErr);
+    }
+    // The freed slot goes to the next waiting request
+    drain();
+  }
+}
+
+/** Start every waiting request that fits, in priority order, then refresh queue positions */
+function drain(): void {
+  for (let i = 0; i < waiting.length; ) {
+    const entry = waiting[i];
+    if (hasCapacity(entry.request.ledger.workflowType)) {
+      waiting.splice(i, 1);
+      console.log(
+        `[CliPool] Starting queued ${entry.request.ledger.workflowType} run ` +
+          `after ${Math.round((Date.now() - entry.enqueuedAt) / 1000)}s`
+      );
+      startEntry(entry);
+    } else {
+      i++;
+    }
+  }
+
+  waiting.forEach((entry, index) => {
+    const position = index + 1;
+    if (position === entry.lastPosition) return;
+    entry.lastPosition = position;
+    try {
+      entry.request.onQueuePosition?.(position);
+    } catch (err) {
+      console.error(`[CliPool] Queue position listener failed:`, err);
+    }
+  });
+}
+
+/** Re-check the queue after the caps change (config reload) */
+export function refreshCliPool(): void {
+  drain();
+}
+
+/**
+ * Ask for a CLI process slot. Starts immediately when the global and per-workflow caps allow,
+ * otherwise queues behind higher-priority and older requests.
+ */
+export function requestCliSlot(request: CliSlotRequest): CliSlotTicket {
+  const { workflowType } = request.ledger;
+  const priority = WORKFLOW_PRIORITY[workflowType];
+  const entry: PoolEntry = { request, priority, enqueuedAt: Date.now(), lastPosition: 0, state: "waiting" };
+
+  const ticket: CliSlotTicket = {
+    cancel: () => {
+      if (entry.state !== "waiting") return false;
+      const index = waiting.indexOf(entry);
+      if (index !== -1) waiting.splice(index, 1);
+      entry.state = "done";
+      drain();
+      return true;
+    },
+    release: () => {
+      if (entry.state !== "running") return;
+      entry.state = "done";
+      vacate(workflowType);
+      drain();
+    },
+  };
+
+  if (waiting.length === 0 && hasCapacity(workflowType)) {
+    startEntry(entry);
+    return ticket;
+  }
+
+  const insertAt = waiting.findIndex((e) => e.priority > priority);
+  if (insertAt === -1) waiting.push(entry);
+  else waiting.splice(insertAt, 0, entry);
+
+  console.log(
+    `[CliPool] Queued ${workflowType} run (running: ${runningTotal}/${config.cliPool.maxConcurrent}, waiting: ${waiting.length})`
+  );
+  drain();
+  return ticket;
+}
+
+/** Queue depth and running counts for /sessions */
+export function getCliPoolSnapshot(): {
+  running: number;
+  runningByWorkflow: Record<string, number>;
+  maxConcurrent: number;
+  maxPerWorkflow: Record<string, number>;
+  queueDepth: number;
+  waiting: Array<{
+    position: number;
+    workflowType: CliWorkflowType;
+    channelId: string | null;
+    threadTs: string | null;
+    userId: string | null;
+    waitingMs: number;
+  }>;
+} {
+  return {
+    running: runningTotal,
+    runningByWorkflow: Object.fromEntries(runningByType),
+    maxConcurrent: config.cliPool.maxConcurrent,
+    maxPerWorkflow: config.cliPool.maxPerWorkflow,
+    queueDepth: waiting.length,
+    waiting: waiting.map((e, index) => ({
+      position: index + 1,
+      workflowType: e.request.ledger.workflowType,
+      channelId: e.request.ledger.channelId ?? null,
+      threadTs: e.request.ledger.threadTs ?? null,
+      userId: e.request.ledger.userId ?? null,
+      waitingMs: Date.now() - e.enqueuedAt,
+    })),
+  };
+}
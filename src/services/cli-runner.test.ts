@@ -0,0 +1,133 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCli, type CliEvent, type CliEventType } from "./cli-runner.js";
+import { getCliPoolSnapshot } from "./cli-pool.js";
+
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), "__fixtures__", "cli");
+const EVENT_TYPES: CliEventType[] = ["queued", "spawned", "init", "text", "tool_use", "tool_result", "usage", "result", "error"];
+
+/** Replay a recorded transcript through the stand-in `claude` on PATH; collect every event in order */
+async function replay(transcript: string, exitCode = 0, cwd = FIXTURES) {
+  const run = runCli({
+    tag: "TestCLI",
+    args: [path.join(FIXTURES, transcript), String(exitCode)],
+    cwd,
+    model: "claude-opus-4-6",
+  });
+  const events: CliEvent[] = [];
+  for (const type of EVENT_TYPES) run.on(type, (event) => events.push(event));
+  const result = await run.done;
+  // "spawned" carries the stand-in's pid
+  return { result, events: events.filter((e) => e.type !== "spawned"), spawned: events.some((e) => e.type === "spawned") };
+}
+
+describe("runCli", () => {
+  let pathBefore: string | undefined;
+
+  beforeEach(() => {
+    pathBefore = process.env.PATH;
+    process.env.PATH = `${FIXTURES}${path.delimiter}${process.env.PATH}`;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env.PATH = pathBefore;
+    vi.restoreAllMocks();
+  });
+
+  it("emits init, usage, text, tool_use, tool_result and result in stream order", async () => {
+    const { events, spawned } = await replay("investigation.jsonl");
+
+    expect(spawned).toBe(true);
+    expect(events).toEqual([
+      { type: "init", sessionId: "sess-7f3a", model: "claude-opus-4-6", tools: ["Bash", "Read", "Grep"] },
+      { type: "usage", inputTokens: 22012, outputTokens: 85 },
+      { type: "text", text: "Checking the payment gateway logs." },
+      { type: "tool_use", id: "toolu_01", name: "Bash", input: { command: "kubectl logs deploy/gateway --since=30m" } },
+      { type: "tool_result", toolUseId: "toolu_01", isError: false, content: "ERROR upstream timeout\nERROR upstream timeout" },
+      { type: "usage", inputTokens: 22308, outputTokens: 410 },
+      {
+        type: "text",
+        text: "# Investigation\n\n## 1. Summary\n\nThe acquirer timed out for 12 minutes; retries recovered every payment.",
+      },
+      {
+        type: "result",
+        response: "The acquirer timed out; no action needed.",
+        costUsd: 0.4821,
+        sessionId: "sess-7f3a",
+        numTurns: 3,
+        isError: false,
+      },
+    ]);
+  });
+
+  it("resolves the accumulated CliRunResult", async () => {
+    const { result } = await replay("investigation.jsonl");
+
+    expect(result).toMatchObject({
+      exitCode: 0,
+      costUsd: 0.4821,
+      response: "The acquirer timed out; no action needed.",
+      fullReport: "# Investigation\n\n## 1. Summary\n\nThe acquirer timed out for 12 minutes; retries recovered every payment.",
+      sessionId: "sess-7f3a",
+      inputTokens: 22308,
+      outputTokens: 410,
+      numTurns: 3,
+    });
+    expect(result.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("skips non-JSON lines and falls back to the last assistant text when result is empty", async () => {
+    const { events, result } = await replay("empty-result.jsonl");
+
+    expect(events.map((e) => e.type)).toEqual(["init", "usage", "text", "text", "result"]);
+    expect(result).toMatchObject({
+      exitCode: 0,
+      response: "Short last answer.",
+      fullReport: "A longer first answer that becomes the full report.",
+      sessionId: "sess-empty",
+      inputTokens: 500,
+      outputTokens: 40,
+      numTurns: 2,
+    });
+    expect(result.costUsd).toBeUndefined();
+  });
+
+  it("reports failed tools, error results and the exit code", async () => {
+    const { events, result } = await replay("tool-error.jsonl", 1);
+
+    expect(events).toContainEqual({ type: "tool_result", toolUseId: "toolu_09", isError: true, content: "File does not exist." });
+    expect(events.at(-1)).toEqual({
+      type: "result",
+      response: "API Error: 529 overloaded",
+      costUsd: 0.01,
+      sessionId: "sess-err",
+      numTurns: 1,
+      isError: true,
+    });
+    expect(result).toMatchObject({ exitCode: 1, response: "API Error: 529 overloaded", sessionId: "sess-err", fullReport: undefined });
+  });
+
+  it("settles a pooled run whose start throws, and frees its slot", async () => {
+    const ledger = { workflowType: "alert" as const, threadTs: "1.1" };
+    // A null byte makes spawn() throw synchronously, inside the pool's start
+    const run = runCli({ tag: "TestCLI", args: ["bad\0arg"], cwd: FIXTURES, model: "claude-opus-4-6", ledger });
+    const errors: CliEvent[] = [];
+    run.on("error", (event) => errors.push(event));
+
+    await expect(run.done).resolves.toEqual({ exitCode: null, durationMs: 0 });
+    expect(errors).toHaveLength(1);
+    expect(getCliPoolSnapshot().running).toBe(0);
+  });
+
+  it("emits error and resolves with a null exit code when the CLI can't be spawned", async () => {
+    const { events, result } = await replay("investigation.jsonl", 0, path.join(FIXTURES, "no-such-dir"));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toBe("error");
+    expect(result).toMatchObject({ exitCode: null, response: undefined, sessionId: undefined });
+  });
+});
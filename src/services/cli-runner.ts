@@ -0,0 +1,351 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { recordCliRun, type LedgerContext } from "./cost-ledger.js";
+import { requestCliSlot, type CliSlotTicket } from "./cli-pool.js";
+
+const STREAM_LOG_TEXT_LIMIT = 200;
+
+/** Parsed `--output-format stream-json` events emitted while a CLI runs, plus pool lifecycle events */
+export type CliEvent =
+  | { type: "queued"; position: number }
+  | { type: "spawned"; pid?: number }
+  | { type: "init"; sessionId?: string; model?: string; tools: string[] }
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id?: string; name: string; input?: unknown }
+  | { type: "tool_result"; toolUseId?: string; isError: boolean; content?: string }
+  | { type: "usage"; inputTokens: number; outputTokens?: number }
+  | {
+      type: "result";
+      response?: string;
+      costUsd?: number;
+      sessionId?: string;
+      numTurns?: number;
+      isError: boolean;
+    }
+  | { type: "error"; error: Error };
+
+export type CliEventType = CliEvent["type"];
+export type CliEventOf<T extends CliEventType> = Extract<CliEvent, { type: T }>;
+export type CliEventListener<T extends CliEventType> = (event: CliEventOf<T>) => void;
+
+/** Final outcome of a CLI run — the same shape for alert, discuss, DM and compact runs */
+export interface CliRunResult {
+  exitCode: number | null;
+  costUsd?: number;
+  /** The `result` field, or the last assistant text block when it is empty */
+  response?: string;
+  /** The longest assistant text block (typically the detailed report) */
+  fullReport?: string;
+  sessionId?: string;
+  /** Context size of the last assistant message (input + cache creation + cache read) */
+  inputTokens?: number;
+  outputTokens?: number;
+  numTurns?: number;
+  durationMs: number;
+}
+
+export interface CliRunOptions {
+  /** Log tag, e.g. "ClaudeCLI" or "DiscussCLI" */
+  tag: string;
+  args: string[];
+  cwd: string;
+  /** Model passed in args — recorded in the cost ledger */
+  model: string;
+  signal?: AbortSignal;
+  /** Written to stdin, which is then closed. Without it stdin is ignored. */
+  stdin?: string;
+  /** Billing context. Runs with a ledger go through the process pool; without one they spawn immediately. */
+  ledger?: LedgerContext;
+}
+
+export interface CliRun {
+  /** The spawned process, or null while the run is still queued */
+  readonly child: ChildProcess | null;
+  done: Promise<CliRunResult>;
+  /** Subscribe to events. Listeners attached right after runCli() see every event. */
+  on<T extends CliEventType>(type: T, listener: CliEventListener<T>): CliRun;
+  /** Kill the process, or drop the run from the queue if it hasn't started */
+  kill(signal?: NodeJS.Signals): boolean;
+}
+
+export function safeKill(child: ChildProcess, signal: NodeJS.Signals = "SIGTERM"): boolean {
+  try {
+    return child.kill(signal);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    console.warn(`[ClaudeCLI] kill failed (${code}), process may already be dead (pid: ${child.pid})`);
+    return false;
+  }
+}
+
+function parseResultText(result: unknown): string | undefined {
+  if (typeof result === "string" && result) return result;
+  if (Array.isArray(result)) {
+    const texts = result
+      .filter((b: any) => b?.type === "text" && typeof b.text === "string")
+      .map((b: any) => b.text as string);
+    if (texts.length > 0) return texts.join("\n");
+  }
+  return undefined;
+}
+
+function toolResultText(content: unknown): string | undefined {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((b: any) => b?.type === "text" && typeof b.text === "string")
+      .map((b: any) => b.text as string)
+      .join("\n");
+  }
+  return undefined;
+}
+
+/** Translate one stream-json line into zero or more events */
+function parseStreamLine(obj: any): CliEvent[] {
+  const events: CliEvent[] = [];
+
+  if (obj.type === "system" && obj.subtype === "init") {
+    events.push({
+      type: "init",
+      sessionId: typeof obj.session_id === "string" ? obj.session_id : undefined,
+      model: typeof obj.model === "string" ? obj.model : undefined,
+      tools: Array.isArray(obj.tools) ? obj.tools.filter((t: unknown) => typeof t === "string") : [],
+    });
+  }
+
+  if (obj.type === "assistant") {
+    // With prompt caching, total context = input_tokens + cache_creation + cache_read
+    const usage = obj.message?.usage;
+    if (usage) {
+      const base = typeof usage.input_tokens === "number" ? usage.input_tokens : 0;
+      const cacheCreation = typeof usage.cache_creation_input_tokens === "number" ? usage.cache_creation_input_tokens : 0;
+      const cacheRead = typeof usage.cache_read_input_tokens === "number" ? usage.cache_read_input_tokens : 0;
+      events.push({
+        type: "usage",
+        inputTokens: base + cacheCreation + cacheRead,
+        outputTokens: typeof usage.output_tokens === "number" ? usage.output_tokens : undefined,
+      });
+    }
+    if (Array.isArray(obj.message?.content)) {
+      for (const block of obj.message.content) {
+        if (block?.type === "text" && typeof block.text === "string") {
+          events.push({ type: "text", text: block.text });
+        } else if (block?.type === "tool_use" && typeof block.name === "string") {
+          events.push({ type: "tool_use", id: block.id, name: block.name, input: block.input });
+        }
+      }
+    }
+  }
+
+  if (obj.type === "user" && Array.isArray(obj.message?.content)) {
+    for (const block of obj.message.content) {
+      if (block?.type === "tool_result") {
+        events.push({
+          type: "tool_result",
+          toolUseId: typeof block.tool_use_id === "string" ? block.tool_use_id : undefined,
+          isError: block.is_error === true,
+          content: toolResultText(block.content),
+        });
+      }
+    }
+  }
+
+  if (obj.type === "result") {
+    events.push({
+      type: "result",
+      response: parseResultText(obj.result),
+      costUsd: typeof obj.total_cost_usd === "number" ? obj.total_cost_usd : undefined,
+      sessionId: typeof obj.session_id === "string" ? obj.session_id : undefined,
+      numTurns: typeof obj.num_turns === "number" ? obj.num_turns : undefined,
+      isError: obj.is_error === true,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Spawn `claude` with stream-json output and parse its stdout into typed events.
+ * Accumulates usage, cost, session ID and response text into a single CliRunResult,
+ * records the run in the cost ledger, and resolves `done` exactly once.
+ * Runs with a ledger wait for a slot in the CLI process pool before spawning.
+ */
+export function runCli(options: CliRunOptions): CliRun {
+  const { tag } = options;
+  const listeners = new Map<CliEventType, Array<(event: CliEvent) => void>>();
+
+  const emit = (event: CliEvent): void => {
+    for (const listener of listeners.get(event.type) ?? []) {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error(`[${tag}] ${event.type} listener failed:`, err);
+      }
+    }
+  };
+  // Lifecycle events can fire inside runCli() — defer them so freshly attached listeners see them
+  const emitSoon = (event: CliEvent): void => queueMicrotask(() => emit(event));
+
+  let child: ChildProcess | null = null;
+  let ticket: CliSlotTicket | null = null;
+  let settled = false;
+  let resolveDone!: (result: CliRunResult) => void;
+  const done = new Promise<CliRunResult>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const start = (): void => {
+    const startedAt = Date.now();
+    const proc = spawn("claude", options.args, {
+      cwd: options.cwd,
+      env: process.env,
+      stdio: [options.stdin !== undefined ? "pipe" : "ignore", "pipe", "pipe"],
+      signal: options.signal,
+    });
+    child = proc;
+    emitSoon({ type: "spawned", pid: proc.pid });
+
+    if (options.stdin !== undefined) {
+      proc.stdin?.write(options.stdin);
+      proc.stdin?.end();
+    }
+
+    let costUsd: number | undefined;
+    let response: string | undefined;
+    let sessionId: string | undefined;
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    let numTurns: number | undefined;
+    let assistantText = "";
+    let longestAssistantText = "";
+    let stdout = "";
+
+    const handle = (event: CliEvent): void => {
+      switch (event.type) {
+        case "init":
+          if (event.sessionId) sessionId = event.sessionId;
+          break;
+        case "usage":
+          inputTokens = event.inputTokens;
+          if (event.outputTokens !== undefined) outputTokens = event.outputTokens;
+          break;
+        case "text": {
+          const preview = event.text.length > STREAM_LOG_TEXT_LIMIT
+            ? event.text.slice(0, STREAM_LOG_TEXT_LIMIT) + "..."
+            : event.text;
+          console.log(`[${tag}] text: ${preview}`);
+          assistantText = event.text;
+          if (event.text.length > longestAssistantText.length) longestAssistantText = event.text;
+          break;
+        }
+        case "tool_use":
+          console.log(`[${tag}] tool_use: ${event.name}`);
+          break;
+        case "result":
+          if (event.costUsd !== undefined) costUsd = event.costUsd;
+          if (event.sessionId) sessionId = event.sessionId;
+          if (event.numTurns !== undefined) numTurns = event.numTurns;
+          response = event.response;
+          if (!response) console.warn(`[${tag}] result field empty or unexpected type`);
+          break;
+      }
+      emit(event);
+    };
+
+    const finish = (exitCode: number | null): void => {
+      if (settled) return;
+      settled = true;
+      ticket?.release();
+      if (!response && assistantText) {
+        console.log(`[${tag}] Using assistant text fallback (${assistantText.length} chars)`);
+        response = assistantText;
+      }
+      if (costUsd !== undefined) {
+        console.log(`[${tag}] Done. Cost: $${costUsd.toFixed(4)}`);
+      }
+      const result: CliRunResult = {
+        exitCode,
+        costUsd,
+        response,
+        fullReport: longestAssistantText || undefined,
+        sessionId,
+        inputTokens,
+        outputTokens,
+        numTurns,
+        durationMs: Date.now() - startedAt,
+      };
+      if (options.ledger) recordCliRun(options.ledger, options.model, result, result.durationMs);
+      resolveDone(result);
+    };
+
+    proc.stdout?.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+      const lines = stdout.split("\n");
+      stdout = lines.pop() || ""; // keep incomplete last line
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        let obj: unknown;
+        try {
+          obj = JSON.parse(line);
+        } catch {
+          continue; // not JSON, ignore
+        }
+        for (const event of parseStreamLine(obj)) handle(event);
+      }
+    });
+
+    proc.stderr?.on("data", (chunk: Buffer) => {
+      const text = chunk.toString().trim();
+      if (text) console.error(`[${tag} stderr] ${text}`);
+    });
+
+    proc.on("error", (err) => {
+      console.error(`[${tag}] spawn error:`, err.message);
+      emit({ type: "error", error: err });
+      finish(null);
+    });
+
+    proc.on("close", (code) => finish(code));
+  };
+
+  const run: CliRun = {
+    get child() {
+      return child;
+    },
+    done,
+    on(type, listener) {
+      const list = listeners.get(type) ?? [];
+      list.push(listener as (event: CliEvent) => void);
+      listeners.set(type, list);
+      return run;
+    },
+    kill(signal = "SIGTERM") {
+      if (child) return safeKill(child, signal);
+      if (!ticket?.cancel()) return false;
+      console.log(`[${tag}] Cancelled queued run`);
+      settled = true;
+      resolveDone({ exitCode: null, durationMs: 0 });
+      return true;
+    },
+  };
+
+  if (options.ledger) {
+    ticket = requestCliSlot({
+      ledger: options.ledger,
+      start,
+      // Nothing ran, so there is nothing to bill; settle so the caller isn't left waiting
+      onStartFailed: (error) => {
+        if (child) safeKill(child);
+        if (settled) return;
+        settled = true;
+        emitSoon({ type: "error", error });
+        resolveDone({ exitCode: null, durationMs: 0 });
+      },
+      onQueuePosition: (position) => emitSoon({ type: "queued", position }),
+    });
+    options.signal?.addEventListener("abort", () => run.kill(), { once: true });
+  } else {
+    start();
+  }
+
+  return run;
+}
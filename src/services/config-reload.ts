@@ -0,0 +1,122 @@
+import { watch, type FSWatcher } from "node:fs";
+import path from "node:path";
+import {
+  config,
+  envFilePath,
+  loadConfigCandidate,
+  applyConfig,
+  formatConfigIssue,
+  type ConfigChanges,
+} from "../config.js";
+import { compileMonitorRules, setMonitorRules } from "./monitor-rules.js";
+
+const WATCH_DEBOUNCE_MS = 1000;
+
+export interface ConfigReloadResult extends ConfigChanges {
+  /** Active monitor rule names after the reload */
+  rules: string[];
+  /** Config warnings and post-reload steps that failed (e.g. channel resolution) — the new config stays applied */
+  warnings: string[];
+}
+
+export type ConfigReloadListener = (changes: ConfigChanges) => void | Promise<void>;
+
+const listeners: ConfigReloadListener[] = [];
+let reloadChain: Promise<unknown> = Promise.resolve();
+let watchers: FSWatcher[] = [];
+let watchTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Run after every applied reload, in registration order (re-resolve channels, reschedule timers, ...) */
+export function onConfigReload(listener: ConfigReloadListener): void {
+  listeners.push(listener);
+}
+
+async function doReload(source: string): Promise<ConfigReloadResult> {
+  console.log(`[ConfigReload] Reloading configuration (${source})`);
+
+  // Validate everything before touching the live config
+  let candidate;
+  let rules;
+  try {
+    candidate = loadConfigCandidate();
+    rules = compileMonitorRules(candidate.config);
+  } catch (err) {
+    console.error(`[ConfigReload] Rejected (${source}): ${(err as Error).message}`);
+    throw err;
+  }
+
+  const changes = applyConfig(candidate);
+  setMonitorRules(rules);
+  for (const key of changes.restartRequired) {
+    console.warn(`[ConfigReload] ${key} changed — restart required to apply`);
+  }
+
+  const warnings: string[] = [];
+  for (const issue of candidate.issues) {
+    console.warn(`[ConfigReload] ${formatConfigIssue(issue)}`);
+    warnings.push(formatConfigIssue(issue));
+  }
+  for (const listener of listeners) {
+    try {
+      await listener(changes);
+    } catch (err) {
+      console.error("[ConfigReload] Post-reload step failed:", err);
+      warnings.push((err as Error)?.message || String(err));
+    }
+  }
+  if (watchers.length > 0 && changes.changed.includes("monitorRulesPath")) watchConfigFiles();
+
+  console.log(`[ConfigReload] Applied (${source}): ${changes.changed.join(", ") || "no changes"}`);
+  return { ...changes, rules: rules.map((r) => r.name), warnings };
+}
+
+/**
+ * Re-read .env and MONITOR_RULES_PATH, validate, and swap the result into the live config.
+ * Invalid values reject the whole reload and leave the running config untouched.
+ * Running sessions keep going; they pick up new values the next time they read config.
+ */
+export function reloadConfig(source: string): Promise<ConfigReloadResult> {
+  // Serialize reloads so a file event and an HTTP call can't interleave
+  const result = reloadChain.then(() => doReload(source));
+  reloadChain = result.catch(() => {});
+  return result;
+}
+
+function scheduleWatchReload(file: string): void {
+  if (watchTimer) clearTimeout(watchTimer);
+  watchTimer = setTimeout(() => {
+    watchTimer = null;
+    // Failures are already logged by doReload
+    reloadConfig(`file change: ${path.basename(file)}`).catch(() => {});
+  }, WATCH_DEBOUNCE_MS);
+}
+
+/** Watch .env and the monitor rules file; changes trigger a debounced reload */
+export function watchConfigFiles(): void {
+  for (const watcher of watchers) watcher.close();
+  watchers = [];
+
+  const files = [envFilePath];
+  if (config.monitorRulesPath) files.push(path.resolve(config.monitorRulesPath));
+
+  // Watch the directories: editors and deploy scripts often replace files instead of writing in place
+  const namesByDir = new Map<string, Set<string>>();
+  for (const file of files) {
+    const names = namesByDir.get(path.dirname(file)) ?? new Set<string>();
+    names.add(path.basename(file));
+    namesByDir.set(path.dirname(file), names);
+  }
+
+  for (const [dir, names] of namesByDir) {
+    try {
+      const watcher = watch(dir, (_event, filename) => {
+        if (filename && names.has(filename.toString())) scheduleWatchReload(path.join(dir, filename.toString()));
+      });
+      watcher.on("error", (err) => console.warn(`[ConfigReload] Watcher error for ${dir}:`, err));
+      watchers.push(watcher);
+      console.log(`[ConfigReload] Watching ${[...names].join(", ")} in ${dir}`);
+    } catch (err) {
+      console.warn(`[ConfigReload] Cannot watch ${dir}:`, err);
+    }
+  }
+}
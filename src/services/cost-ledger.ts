@@ -0,0 +1,170 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { localTimeZone, zonedPeriodStart } from "./cron.js";
+import { getCliSpendSince, insertCliRun } from "./database.js";
+import { postMessage } from "./slack-gateway.js";
+
+export type CliWorkflowType = "alert" | "delay_alert" | "discuss" | "dm" | "daily_summary" | "weekly_summary" | "postmortem" | "scheduled";
+
+/** Who/where a CLI run is billed to */
+export interface LedgerContext {
+  workflowType: CliWorkflowType;
+  userId?: string;
+  channelId?: string;
+  threadTs?: string;
+  skill?: string;
+}
+
+export interface LedgerUsage {
+  exitCode: number | null;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  numTurns?: number;
+}
+
+export interface BudgetHit {
+  scope: "user" | "channel" | "workflow";
+  period: "daily" | "monthly";
+  key: string;
+  spentUsd: number;
+  limitUsd: number;
+}
+
+export interface BudgetStatus {
+  exceeded: BudgetHit[];
+  warnings: BudgetHit[];
+}
+
+// threadTs → budget keys already warned about, so each session is warned once
+const warnedThreads = new Map<string, Set<string>>();
+
+/** Persist a finished CLI run to the cost ledger */
+export function recordCliRun(
+  ctx: LedgerContext,
+  model: string,
+  usage: LedgerUsage,
+  durationMs: number
+): void {
+  try {
+    insertCliRun({
+      workflow_type: ctx.workflowType,
+      model,
+      skill: ctx.skill ?? null,
+      user_id: ctx.userId ?? null,
+      channel_id: ctx.channelId ?? null,
+      thread_ts: ctx.threadTs ?? null,
+      cost_usd: usage.costUsd ?? 0,
+      input_tokens: usage.inputTokens ?? null,
+      output_tokens: usage.outputTokens ?? null,
+      num_turns: usage.numTurns ?? null,
+      duration_ms: durationMs,
+      exit_code: usage.exitCode,
+    });
+  } catch (err) {
+    console.error(`[CostLedger] Failed to record ${ctx.workflowType} run:`, err);
+  }
+}
+
+/**
+ * Compare current spend against every budget that applies to this context. Budget days and months
+ * start at midnight in DAILY_SUMMARY_TIMEZONE (else the server's), like the summaries.
+ */
+export function checkBudget(ctx: LedgerContext): BudgetStatus {
+  const { budgets } = config;
+  const status: BudgetStatus = { exceeded: [], warnings: [] };
+  const timeZone = config.dailySummaryTimezone || localTimeZone();
+  const now = Date.now();
+  const periodStart = { daily: zonedPeriodStart(now, timeZone, "day"), monthly: zonedPeriodStart(now, timeZone, "month") };
+
+  const evaluate = (
+    scope: BudgetHit["scope"],
+    column: "user_id" | "channel_id" | "workflow_type",
+    key: string | undefined,
+    daily: number | null | undefined,
+    monthly: number | null | undefined
+  ) => {
+    if (!key) return;
+    const limits: [BudgetHit["period"], number | null | undefined][] = [
+      ["daily", daily],
+      ["monthly", monthly],
+    ];
+    for (const [period, limitUsd] of limits) {
+      if (limitUsd == null) continue;
+      const spentUsd = getCliSpendSince(column, key, periodStart[period]);
+      const hit: BudgetHit = { scope, period, key, spentUsd, limitUsd };
+      if (spentUsd >= limitUsd) {
+        status.exceeded.push(hit);
+      } else if (spentUsd >= limitUsd * budgets.warnRatio) {
+        status.warnings.push(hit);
+      }
+    }
+  };
+
+  evaluate("user", "user_id", ctx.userId, budgets.userDailyUsd, budgets.userMonthlyUsd);
+  evaluate("channel", "channel_id", ctx.channelId, budgets.channelDailyUsd, budgets.channelMonthlyUsd);
+  evaluate(
+    "workflow",
+    "workflow_type",
+    ctx.workflowType,
+    budgets.workflowDailyUsd[ctx.workflowType],
+    budgets.workflowMonthlyUsd[ctx.workflowType]
+  );
+
+  return status;
+}
+
+function describeHit(hit: BudgetHit): string {
+  const subject =
+    hit.scope === "user" ? `<@${hit.key}>` :
+    hit.scope === "channel" ? `<#${hit.key}>` :
+    `\`${hit.key}\` workflows`;
+  return `${hit.period} budget for ${subject}: $${hit.spentUsd.toFixed(2)} / $${hit.limitUsd.toFixed(2)}`;
+}
+
+/**
+ * Check budgets before spawning a CLI. Posts a refusal (returns false) when any budget is
+ * exhausted, or a one-time warning per thread (returns true) when spend is close to a limit.
+ */
+export async function enforceBudget(
+  app: App,
+  ctx: LedgerContext,
+  channelId: string,
+  threadTs?: string
+): Promise<boolean> {
+  const status = checkBudget(ctx);
+
+  let text: string | undefined;
+  if (status.exceeded.length > 0) {
+    console.warn(`[CostLedger] Refusing ${ctx.workflowType} run: ${status.exceeded.map(describeHit).join("; ")}`);
+    text = `:no_entry: Budget exceeded — not starting Claude.\n${status.exceeded.map((h) => `• ${describeHit(h)}`).join("\n")}`;
+  } else if (status.warnings.length > 0) {
+    const warnKey = threadTs || channelId;
+    const warned = warnedThreads.get(warnKey) || new Set<string>();
+    const fresh = status.warnings.filter((h) => !warned.has(`${h.scope}:${h.period}:${h.key}`));
+    if (fresh.length > 0) {
+      fresh.forEach((h) => warned.add(`${h.scope}:${h.period}:${h.key}`));
+      warnedThreads.set(warnKey, warned);
+      text = `:warning: Approaching budget limit.\n${fresh.map((h) => `• ${describeHit(h)}`).join("\n")}`;
+    }
+  }
+
+  if (text) {
+    try {
+      await postMessage({
+        channel: channelId,
+        ...(threadTs ? { thread_ts: threadTs } : {}),
+        text,
+      });
+    } catch (err) {
+      console.error(`[CostLedger] Failed to post budget notice:`, err);
+    }
+  }
+
+  return status.exceeded.length === 0;
+}
+
+/** Forget per-thread warning state when a session ends */
+export function clearBudgetWarnings(threadTs: string): void {
+  warnedThreads.delete(threadTs);
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { zonedPeriodStart } from "./cron.js";
+
+describe("zonedPeriodStart", () => {
+  // 2026-10-18 02:30 in Bangkok (UTC+7), still the 17th in UTC
+  const now = Date.parse("2026-10-17T19:30:00Z");
+
+  it("starts days and months at the zone's midnight, not UTC's", () => {
+    expect(new Date(zonedPeriodStart(now, "Asia/Bangkok", "day")).toISOString()).toBe("2026-10-17T17:00:00.000Z");
+    expect(new Date(zonedPeriodStart(now, "Asia/Bangkok", "month")).toISOString()).toBe("2026-09-30T17:00:00.000Z");
+    expect(new Date(zonedPeriodStart(now, "UTC", "day")).toISOString()).toBe("2026-10-17T00:00:00.000Z");
+  });
+
+  it("follows DST offsets", () => {
+    // New York is on EDT (UTC-4) on 2026-10-18, EST (UTC-5) on 2026-11-02
+    expect(new Date(zonedPeriodStart(Date.parse("2026-10-18T12:00:00Z"), "America/New_York", "day")).toISOString()).toBe(
+      "2026-10-18T04:00:00.000Z"
+    );
+    expect(new Date(zonedPeriodStart(Date.parse("2026-11-02T12:00:00Z"), "America/New_York", "month")).toISOString()).toBe(
+      "2026-11-01T04:00:00.000Z"
+    );
+  });
+
+  it("starts an hour late on a day whose midnight a DST change skips", () => {
+    // Santiago springs forward from 00:00 to 01:00 on 2026-09-06
+    expect(new Date(zonedPeriodStart(Date.parse("2026-09-06T15:00:00Z"), "America/Santiago", "day")).toISOString()).toBe(
+      "2026-09-06T04:00:00.000Z"
+    );
+  });
+});
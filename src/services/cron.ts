@@ -0,0 +1,204 @@
+/**
+ * Five-field cron expressions ("minute hour day-of-month month day-of-week") evaluated in an
+ * IANA timezone with Intl only. Supports "*", lists, ranges, steps, month/weekday names and the
+ * @hourly/@daily/@weekly/@monthly/@yearly shorthands.
+ */
+
+const MINUTE_MS = 60_000;
+/** Give up on expressions that never match (e.g. "0 0 30 2 *") after this many years */
+const SEARCH_YEARS = 5;
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+interface FieldSpec {
+  label: string;
+  min: number;
+  max: number;
+  /** Names for min, min + 1, ... */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { label: "minute", min: 0, max: 59 },
+  { label: "hour", min: 0, max: 23 },
+  { label: "day of month", min: 1, max: 31 },
+  { label: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is Sunday too
+  { label: "day of week", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  weekdays: Set<number>;
+  /** Day-of-month / day-of-week given as "*": when both are restricted, either one matching is enough */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(token.toLowerCase()) ?? -1;
+  const value = named !== -1 ? spec.min + named : /^\d+$/.test(token) ? parseInt(token, 10) : NaN;
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`invalid ${spec.label} "${token}" (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    if (extra !== undefined || !range) throw new Error(`invalid ${spec.label} "${part}"`);
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!/^\d*$/.test(stepText ?? "") || !(step >= 1)) throw new Error(`invalid ${spec.label} step "${part}"`);
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      from = spec.min;
+      to = spec.max;
+    } else {
+      const [start, end, rest] = range.split("-");
+      if (rest !== undefined) throw new Error(`invalid ${spec.label} range "${range}"`);
+      from = parseValue(start, spec);
+      // "5/15" means "5-max/15"
+      to = end !== undefined ? parseValue(end, spec) : stepText !== undefined ? spec.max : from;
+      if (to < from) throw new Error(`invalid ${spec.label} range "${range}"`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse a cron expression. Throws with a readable message when it is invalid. */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`"${trimmed}" needs 5 fields (minute hour day-of-month month day-of-week) or a shorthand like @daily`);
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2].startsWith("*"),
+    anyWeekday: fields[4].startsWith("*"),
+  };
+}
+
+/** Whether Intl knows the IANA timezone (e.g. "Asia/Bangkok") */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The server's own timezone */
+export function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock time in the zone, as epoch ms of the same fields read as UTC (minute precision) */
+function wallClock(ms: number, timeZone: string): number {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const p of formatter.formatToParts(ms)) {
+    if (p.type !== "literal") parts[p.type] = parseInt(p.value, 10);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute);
+}
+
+/** Instant at which the zone's clock shows `wall`, or null when it never does (skipped by a DST change) */
+function wallToInstant(wall: number, timeZone: string): number | null {
+  let instant = wall - (wallClock(wall, timeZone) - wall);
+  instant = wall - (wallClock(instant, timeZone) - instant);
+  return wallClock(instant, timeZone) === wall ? instant : null;
+}
+
+/** Start of the day or month containing `ms` on the zone's clock */
+export function zonedPeriodStart(ms: number, timeZone: string, period: "day" | "month"): number {
+  const wall = new Date(wallClock(ms, timeZone));
+  const start = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), period === "month" ? 1 : wall.getUTCDate());
+  // A DST change can skip midnight; the period then starts an hour later
+  return wallToInstant(start, timeZone) ?? wallToInstant(start + 3_600_000, timeZone) ?? start;
+}
+
+function dayMatches(schedule: CronSchedule, wall: Date): boolean {
+  const day = schedule.days.has(wall.getUTCDate());
+  const weekday = schedule.weekdays.has(wall.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * First time strictly after `after` (epoch ms) matching the schedule in the timezone, or null if
+ * there is none within a few years. Times skipped by a DST change don't run that day.
+ */
+export function nextCronTime(schedule: CronSchedule, after: number, timeZone: string): number | null {
+  // Walk the zone's wall clock (a Date whose UTC fields are local fields), skipping whole units that can't match
+  const wall = new Date(Math.floor(wallClock(after, timeZone) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = wall.getUTCFullYear() + SEARCH_YEARS;
+  while (wall.getUTCFullYear() < limit) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    } else {
+      const instant = wallToInstant(wall.getTime(), timeZone);
+      if (instant !== null && instant > after) return instant;
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    }
+  }
+  return null;
+}
+
+/** "2026-10-19 07:00 Asia/Bangkok" */
+export function formatZonedTime(ms: number, timeZone: string): string {
+  return `${new Date(wallClock(ms, timeZone)).toISOString().slice(0, 16).replace("T", " ")} ${timeZone}`;
+}
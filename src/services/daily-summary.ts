@@ -1,66 +1,182 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { App } from "@slack/bolt";
 import { config } from "../config.js";
 import { spawnDiscussCli } from "./claude-cli.js";
+import { getSummarizedUntil, setSummarizedUntil, insertSummary, getSummaries } from "./database.js";
+import { localTimeZone } from "./cron.js";
+import { fitToTokenBudget } from "./summary-budget.js";
+import { deliverSummary } from "./summary-delivery.js";
 import {
-  createPersonalSlackClient,
+  createBotReader,
+  createPersonalReader,
   fetchChannelMessages,
   formatMessagesForSummary,
+  slackAuthError,
+  type ChannelReader,
 } from "./slack-reader.js";
+import { postMessage } from "./slack-gateway.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+/** Personal token the owner was last told had expired, so a dead token is reported once, not every run */
+let reportedExpiredToken: string | null = null;
+
+/**
+ * Built-in prompt, used when DAILY_SUMMARY_TEMPLATES_DIR has no template for the channel.
+ * Templates use the same placeholders: {{channel}}, {{now}}, {{timezone}}, {{period}} and {{messages}}.
+ */
+const DEFAULT_TEMPLATE = `You are a daily summary assistant. The current date and time is: {{now}} ({{timezone}}).
+
+Summarize the following Slack messages from #{{channel}}, posted {{period}}.
+Include the time of each key event (as shown on the messages). Include key discussions, decisions, action items, and external links shared.
+Thread replies are indented under their parent ("↳"); threads are often where decisions are made, so cover their outcome.
+If any external links (URLs, articles, docs, repos) were shared, include them in a "Resources shared" section or inline.
+
+<messages>
+{{messages}}
+</messages>
+
+Format the summary with clear sections. Use bullet points. Keep it concise but informative.
+Start the summary with a heading: *#{{channel}}*`;
 
 export interface DailySummaryOptions {
   channels: { name: string; id: string }[];
-  ownerUserId: string;
   model?: string;
-  sendDm: (userId: string, text: string) => Promise<void>;
+  /** DAILY_SUMMARY_TARGETS format, e.g. ["dm:owner", "digest:C123"] */
+  targets: string[];
 }
 
-async function summarizeChannel(
-  channel: { name: string; id: string },
-  model: string
-): Promise<string | null> {
-  console.log(`[DailySummary] Fetching messages from #${channel.name} (${channel.id})`);
-
-  const client = createPersonalSlackClient();
-  const messages = await fetchChannelMessages(client, channel.id, 24);
-  console.log(
-    `[DailySummary] #${channel.name}: fetched ${messages.length} messages`
-  );
+interface ChannelSummary {
+  text: string;
+  model: string;
+  /** Covered window (epoch ms) */
+  since: number;
+  until: number;
+  /** "No activity" placeholder, not worth storing */
+  empty?: boolean;
+}
 
-  if (messages.length === 0) {
-    return `*#${channel.name}*\nNo activity in the last 24 hours.`;
-  }
+/** Timezone of DAILY_SUMMARY_TIME and of the times in summaries */
+export function summaryTimeZone(): string {
+  return config.dailySummaryTimezone || localTimeZone();
+}
 
-  const formatted = formatMessagesForSummary(messages);
+/**
+ * Start of the channel's window: where its last summary ended (at most
+ * DAILY_SUMMARY_MAX_LOOKBACK_HOURS ago), or a fixed DAILY_SUMMARY_LOOKBACK_HOURS window
+ */
+function windowStart(channelId: string, now: number): { since: number; sinceLast: boolean } {
+  const last = config.dailySummarySinceLast ? getSummarizedUntil(channelId) : null;
+  if (last === null) return { since: now - config.dailySummaryLookbackHours * HOUR_MS, sinceLast: false };
+  return { since: Math.max(last, now - config.dailySummaryMaxLookbackHours * HOUR_MS), sinceLast: true };
+}
 
-  const now = new Date();
-  const dateTimeStr = now.toLocaleString("en-US", {
-    timeZone: "Asia/Bangkok",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
+function formatDateTime(ms: number, options: Intl.DateTimeFormatOptions): string {
+  return new Date(ms).toLocaleString("en-US", {
+    timeZone: summaryTimeZone(),
     hour: "2-digit",
     minute: "2-digit",
-    hour12: false,
-    timeZoneName: "short",
+    hourCycle: "h23",
+    ...options,
   });
+}
 
-  const prompt = `You are a daily summary assistant. The current date and time is: ${dateTimeStr} (GMT+7).
+/** "Sun, Oct 18" */
+function formatDay(ms: number): string {
+  return new Date(ms).toLocaleDateString("en-US", { timeZone: summaryTimeZone(), weekday: "short", month: "short", day: "numeric" });
+}
 
-Summarize the following Slack messages from #${channel.name} (last 24 hours).
-Include timestamps (HH:MM) for each key event. Include key discussions, decisions, action items, and external links shared.
-If any external links (URLs, articles, docs, repos) were shared, include them in a "Resources shared" section or inline.
+/** Channel template file, else default.md, else the built-in prompt */
+function loadTemplate(channelName: string): string {
+  const dir = config.dailySummaryTemplatesDir;
+  if (dir) {
+    for (const file of [`${channelName}.md`, "default.md"]) {
+      const path = join(dir, file);
+      if (existsSync(path)) return readFileSync(path, "utf-8");
+    }
+  }
+  return DEFAULT_TEMPLATE;
+}
 
-<messages>
-${formatted}
-</messages>
+function renderTemplate(template: string, vars: Record<string, string>): string {
+  // A template without {{messages}} still gets them, after its own text
+  const withMessages = template.includes("{{messages}}") ? template : `${template.trimEnd()}\n\n<messages>\n{{messages}}\n</messages>`;
+  return withMessages.replace(/\{\{(\w+)\}\}/g, (match, key: string) => vars[key] ?? match);
+}
 
-Format the summary with clear sections. Use bullet points. Keep it concise but informative.
-Start the summary with a heading: *#${channel.name}*
+/** Channels in DAILY_SUMMARY_PERSONAL_CHANNELS are read with the personal credentials, the rest as the bot */
+function readerFor(app: App, channel: { name: string; id: string }): ChannelReader {
+  return config.dailySummaryPersonalChannels.includes(channel.name) ? createPersonalReader() : createBotReader(app.client);
+}
+
+/** Tell the owner the personal credentials were rejected, rather than just skipping their channels */
+async function reportExpiredCredentials(code: string, channelNames: string[]): Promise<void> {
+  console.error(`[DailySummary] Personal Slack credentials rejected (${code}) — skipped ${channelNames.map((n) => `#${n}`).join(", ")}`);
+  if (reportedExpiredToken === config.slackXoxcToken) return;
+  reportedExpiredToken = config.slackXoxcToken;
+  try {
+    await postMessage({
+      channel: config.ownerUserId,
+      text:
+        `:warning: Slack rejected the personal credentials (\`SLACK_XOXC_TOKEN\` / \`SLACK_XOXD_TOKEN\`) with \`${code}\`, ` +
+        `so ${channelNames.map((n) => `#${n}`).join(", ")} couldn't be summarized.\n` +
+        "They expire with the browser session they were copied from. Copy fresh ones into `.env`, then `!reload`; " +
+        "the next summary catches up on what was missed. Channels not in `DAILY_SUMMARY_PERSONAL_CHANNELS` are read by the bot and unaffected.",
+    });
+  } catch (err) {
+    console.error("[DailySummary] Failed to DM the owner about the expired credentials:", err);
+  }
+}
+
+async function summarizeChannel(
+  channel: { name: string; id: string },
+  model: string,
+  reader: ChannelReader
+): Promise<ChannelSummary | null> {
+  const now = Date.now();
+  const { since, sinceLast } = windowStart(channel.id, now);
+  const hours = Math.round((now - since) / HOUR_MS);
+  const period = sinceLast
+    ? `since ${formatDateTime(since, { weekday: "short", month: "short", day: "numeric" })} (${hours}h)`
+    : `in the last ${hours} hours`;
+
+  console.log(`[DailySummary] Fetching messages from #${channel.name} (${channel.id}) ${period}`);
+
+  await reader.ensureAccess(channel.id);
+  const fetched = await fetchChannelMessages(reader.client, channel.id, since, config.dailySummaryThreadLookbackHours * HOUR_MS);
+  const replyCount = fetched.reduce((sum, m) => sum + (m.replies?.length ?? 0), 0);
+  console.log(
+    `[DailySummary] #${channel.name}: fetched ${fetched.length} messages and ${replyCount} thread replies`
+  );
+
+  if (fetched.length === 0) {
+    return { text: `*#${channel.name}*\nNo activity ${period}.`, model, since, until: now, empty: true };
+  }
+
+  const { messages, omitted } = await fitToTokenBudget(fetched, channel.id, summaryTimeZone());
+  // Windows longer than a day (weekends, missed runs) need dates on the messages
+  const formatted =
+    (omitted > 0 ? `[${omitted} earlier messages omitted to keep the summary within its size limit]\n` : "") +
+    formatMessagesForSummary(messages, summaryTimeZone(), now - since > 24 * HOUR_MS);
+
+  const prompt = `${renderTemplate(loadTemplate(channel.name), {
+    channel: channel.name,
+    now: formatDateTime(now, { year: "numeric", month: "long", day: "numeric", timeZoneName: "short" }),
+    timezone: summaryTimeZone(),
+    period,
+    messages: formatted,
+  })}
 
 IMPORTANT: Do NOT send any Slack messages. Only return the summary text.`;
 
   console.log(`[DailySummary] Summarizing #${channel.name} with LLM`);
 
-  const { done } = spawnDiscussCli(prompt, config.paymentsRepoPath, { model });
+  const { done } = spawnDiscussCli(prompt, config.paymentsRepoPath, {
+    model,
+    ledger: { workflowType: "daily_summary", channelId: channel.id },
+  });
   const result = await done;
 
   if (result.costUsd !== undefined) {
@@ -71,17 +187,36 @@ IMPORTANT: Do NOT send any Slack messages. Only return the summary text.`;
 
   if (result.response) {
     console.log(`[DailySummary] Summary ready for #${channel.name}`);
-    return result.response;
+    return { text: result.response, model, since, until: now };
   }
 
   console.warn(`[DailySummary] No summary text produced for #${channel.name}`);
   return null;
 }
 
-export async function runDailySummary(
-  options: DailySummaryOptions
-): Promise<void> {
-  const { channels, ownerUserId, model = "sonnet", sendDm } = options;
+/** Store the delivered summaries and move each channel's window past them */
+function recordDelivered(kind: "daily" | "weekly", summaries: { channel: { name: string; id: string }; summary: ChannelSummary }[]): void {
+  for (const { channel, summary } of summaries) {
+    if (kind === "daily") setSummarizedUntil(channel.id, summary.until);
+    if (summary.empty) continue;
+    insertSummary({
+      kind,
+      channel_id: channel.id,
+      channel_name: channel.name,
+      period_start: summary.since,
+      period_end: summary.until,
+      model: summary.model,
+      text: summary.text,
+    });
+  }
+}
+
+/**
+ * Summarize the channels into one message for the DAILY_SUMMARY_TARGETS. A channel's window only
+ * moves forward once its summary was delivered, so a failed channel or delivery is covered by the next run.
+ */
+export async function runDailySummary(app: App, options: DailySummaryOptions): Promise<void> {
+  const { channels, model = "sonnet", targets } = options;
 
   if (channels.length === 0) {
     console.log("[DailySummary] No channels configured, skipping");
@@ -92,26 +227,42 @@ export async function runDailySummary(
     `[DailySummary] Starting for ${channels.length} channel(s): ${channels.map((c) => c.name).join(", ")}`
   );
 
-  const summaries: string[] = [];
+  const summaries: { channel: { name: string; id: string }; summary: ChannelSummary }[] = [];
+  const expired: { code: string; channels: string[] } = { code: "", channels: [] };
 
   for (const channel of channels) {
+    let reader: ChannelReader | undefined;
     try {
-      const summary = await summarizeChannel(channel, model);
+      reader = readerFor(app, channel);
+      const summary = await summarizeChannel(channel, config.dailySummaryModels[channel.name] ?? model, reader);
       if (summary) {
-        summaries.push(summary);
+        summaries.push({ channel, summary });
       }
     } catch (err) {
+      const authError = slackAuthError(err);
+      if (authError && reader?.kind === "personal") {
+        expired.code = authError;
+        expired.channels.push(channel.name);
+        continue;
+      }
       console.error(`[DailySummary] Error summarizing #${channel.name}:`, err);
     }
   }
+  if (expired.channels.length > 0) await reportExpiredCredentials(expired.code, expired.channels);
 
   if (summaries.length > 0) {
+    const models = [...new Set(summaries.map((s) => s.summary.model))];
     const combined =
-      summaries.join("\n\n---\n\n") +
-      `\n\n_Sent using @Claude - model ${model}_`;
-    await sendDm(ownerUserId, combined);
+      summaries.map((s) => s.summary.text).join("\n\n---\n\n") +
+      (expired.channels.length > 0
+        ? `\n\n:warning: Skipped ${expired.channels.map((n) => `#${n}`).join(", ")} — personal Slack credentials rejected (\`${expired.code}\`)`
+        : "") +
+      `\n\n_Sent using @Claude - model ${models.join(", ")}_`;
+    const title = `Daily summary — ${formatDay(Date.now())}`;
+    await deliverSummary(targets, title, combined);
+    recordDelivered("daily", summaries);
     console.log(
-      `[DailySummary] Combined DM sent (${summaries.length} channel(s))`
+      `[DailySummary] Summary delivered (${summaries.length} channel(s))`
     );
   } else {
     console.warn("[DailySummary] No summaries produced for any channel");
@@ -119,3 +270,68 @@ export async function runDailySummary(
 
   console.log("[DailySummary] All channels processed");
 }
+
+/** Roll a channel's daily summaries of the past week up into one; null when it has none or the CLI fails */
+async function rollUpChannel(channel: { name: string; id: string }, model: string): Promise<ChannelSummary | null> {
+  const now = Date.now();
+  const dailies = getSummaries({ kind: "daily", channel: channel.id, endedAfter: now - WEEK_MS, limit: 100 }).reverse();
+  if (dailies.length === 0) {
+    console.log(`[WeeklySummary] #${channel.name}: no daily summaries this week`);
+    return { text: `*#${channel.name}*\nNo daily summaries this week.`, model, since: now - WEEK_MS, until: now, empty: true };
+  }
+
+  const day = { weekday: "short", month: "short", day: "numeric" } as const;
+  const since = dailies[0].period_start;
+  const prompt = `You are writing a weekly roll-up of the Slack channel #${channel.name} from its daily summaries.
+The current date and time is: ${formatDateTime(now, { year: "numeric", month: "long", day: "numeric", timeZoneName: "short" })}.
+
+<daily_summaries>
+${dailies
+  .map((d) => `<summary period="${formatDateTime(d.period_start, day)} – ${formatDateTime(d.period_end, day)}">\n${d.text}\n</summary>`)
+  .join("\n")}
+</daily_summaries>
+
+Write a concise weekly roll-up: the main themes, decisions made, incidents, action items that are still open, and important links.
+Merge related items across days instead of repeating them day by day. Use bullet points.
+Start the roll-up with a heading: *#${channel.name} — week of ${formatDay(since)}*
+
+IMPORTANT: Do NOT send any Slack messages. Only return the roll-up text.`;
+
+  console.log(`[WeeklySummary] Rolling up ${dailies.length} daily summaries of #${channel.name}`);
+  const { done } = spawnDiscussCli(prompt, config.paymentsRepoPath, {
+    model,
+    ledger: { workflowType: "weekly_summary", channelId: channel.id },
+  });
+  const result = await done;
+  if (result.response) return { text: result.response, model, since, until: now };
+
+  console.warn(`[WeeklySummary] No roll-up text produced for #${channel.name} (exit: ${result.exitCode})`);
+  return null;
+}
+
+/** Roll the past week's stored daily summaries up per channel and deliver them as one message */
+export async function runWeeklySummary(app: App, options: DailySummaryOptions): Promise<void> {
+  const { channels, model = "sonnet", targets } = options;
+  const summaries: { channel: { name: string; id: string }; summary: ChannelSummary }[] = [];
+
+  for (const channel of channels) {
+    try {
+      const summary = await rollUpChannel(channel, config.dailySummaryModels[channel.name] ?? model);
+      if (summary) summaries.push({ channel, summary });
+    } catch (err) {
+      console.error(`[WeeklySummary] Error rolling up #${channel.name}:`, err);
+    }
+  }
+  if (summaries.every((s) => s.summary.empty)) {
+    console.warn("[WeeklySummary] Nothing to roll up");
+    return;
+  }
+
+  const models = [...new Set(summaries.map((s) => s.summary.model))];
+  const combined =
+    summaries.map((s) => s.summary.text).join("\n\n---\n\n") + `\n\n_Weekly roll-up using @Claude - model ${models.join(", ")}_`;
+  const title = `Weekly summary — week of ${formatDay(Date.now() - WEEK_MS)}`;
+  await deliverSummary(targets, title, combined);
+  recordDelivered("weekly", summaries);
+  console.log(`[WeeklySummary] Roll-up delivered (${summaries.length} channel(s))`);
+}
@@ -25,11 +25,110 @@ export interface Message {
   created_at: string;
 }
 
-export interface AlertCounterRow {
-  dag_name: string;
-  count: number;
-  first_seen_at: number;
-  window_expires_at: number;
+export interface AlertEventRow {
+  id: number;
+  counter_key: string;
+  rule_name: string;
+  weight: number;
+  created_at: number;
+}
+
+export interface IncidentClusterRow {
+  id: number;
+  /** Thread running the cluster's single investigation */
+  primary_thread_ts: string;
+  channel_id: string;
+  service: string | null;
+  created_at: number;
+  /** Last time an alert joined; clusters stop accepting alerts after ALERT_CLUSTER_WINDOW_MS */
+  last_alert_at: number;
+}
+
+export interface ClusterMemberRow {
+  id: number;
+  cluster_id: number;
+  thread_ts: string;
+  channel_id: string;
+  incident_id: string | null;
+  service: string | null;
+  /** Workflow settings, so a split member can start its own investigation */
+  rule_name: string | null;
+  skill: string | null;
+  model: string | null;
+  alert_text: string;
+  /** Correlation score when the alert joined (null for the primary) */
+  score: number | null;
+  joined_at: number;
+  split_at: number | null;
+}
+
+export interface IncidentActionRow {
+  id: number;
+  thread_ts: string;
+  incident_id: string | null;
+  /** Slack user who took the action (null = the bot itself) */
+  user_id: string | null;
+  /** e.g. "pd_resolve", "airflow_retry", "cluster_split" */
+  action: string;
+  detail: string | null;
+  created_at: number;
+}
+
+export interface ScheduledJobRow {
+  id: number;
+  name: string;
+  cron: string;
+  /** IANA timezone the cron expression is read in */
+  timezone: string;
+  /** Prompt, or the skill's arguments when `skill` is set */
+  prompt: string;
+  skill: string | null;
+  /** Channel ID, or user ID for a DM */
+  target: string;
+  /** null = SCHEDULER_MODEL */
+  model: string | null;
+  /** Run once on startup if a run was missed while the bot was down */
+  catch_up: number;
+  paused: number;
+  created_by: string | null;
+  created_at: number;
+}
+
+export interface ScheduledJobRunRow {
+  id: number;
+  /** Scheduled job name, or a built-in job ("daily-summary", "daily-restart") */
+  job_name: string;
+  trigger: "schedule" | "catch_up" | "manual";
+  /** Cron time the run was for (the start time for manual runs) */
+  scheduled_for: number;
+  started_at: number;
+  finished_at: number | null;
+  status: "running" | "ok" | "error" | "skipped";
+  error: string | null;
+  cost_usd: number | null;
+}
+
+export interface SummaryRow {
+  id: number;
+  kind: "daily" | "weekly";
+  channel_id: string;
+  channel_name: string;
+  /** Covered window, epoch ms */
+  period_start: number;
+  period_end: number;
+  model: string;
+  text: string;
+  created_at: number;
+}
+
+export interface SummaryFilter {
+  kind?: SummaryRow["kind"];
+  /** Channel ID or name */
+  channel?: string;
+  /** Only summaries whose window ended after this (epoch ms) */
+  endedAfter?: number;
+  limit?: number;
+  offset?: number;
 }
 
 export interface ActiveWorkflowRow {
@@ -40,9 +139,107 @@ export interface ActiveWorkflowRow {
   dag_name: string | null;
   cli_session_id: string | null;
   last_seen_ts: string | null;
+  /** Monitor rule that started the workflow, with its skill/model overrides */
+  rule_name: string | null;
+  skill: string | null;
+  model: string | null;
   created_at: string;
 }
 
+export type ReportKind = "investigation" | "follow_up" | "reply" | "postmortem";
+export type ReportStatus = "ok" | "error" | "api_error" | "timeout";
+
+export interface ReportRow {
+  id: number;
+  workflow_type: "alert" | "delay_alert" | "discuss";
+  /** First investigation, owner follow-up, discuss session reply, or postmortem of the thread */
+  kind: ReportKind;
+  channel_id: string | null;
+  thread_ts: string | null;
+  permalink: string | null;
+  incident_id: string | null;
+  dag_name: string | null;
+  /** Service the alert was about (alert workflows with a service extractor or webhook) */
+  service: string | null;
+  rule_name: string | null;
+  skill: string | null;
+  model: string | null;
+  title: string;
+  body: string;
+  status: ReportStatus;
+  exit_code: number | null;
+  cost_usd: number | null;
+  duration_ms: number | null;
+  /** Markdown copy under data/reports/ (alert investigations only) */
+  file_path: string | null;
+  created_at: string;
+}
+
+/** Report without its body; search results add a highlighted snippet and BM25 rank (lower = better) */
+export type ReportListRow = Omit<ReportRow, "body"> & { snippet?: string; rank?: number };
+
+export interface ReportFilter {
+  workflowType?: string;
+  kind?: string;
+  incidentId?: string;
+  dagName?: string;
+  service?: string;
+  skill?: string;
+  status?: string;
+  channelId?: string;
+  threadTs?: string;
+  /** Only reports from the last N days */
+  sinceDays?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AccessRoleRow {
+  name: string;
+  can_dm: number;
+  can_mention: number;
+  can_alert_followup: number;
+  can_incident_manage: number;
+  can_session_commands: number;
+  can_gemini: number;
+  can_manage: number;
+}
+
+export interface AccessMemberRow {
+  subject_id: string;
+  subject_type: "user" | "usergroup";
+  role: string;
+  added_by: string | null;
+  created_at: string;
+}
+
+export interface CliRunRow {
+  id: number;
+  workflow_type: string;
+  model: string;
+  skill: string | null;
+  user_id: string | null;
+  channel_id: string | null;
+  thread_ts: string | null;
+  cost_usd: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  num_turns: number | null;
+  duration_ms: number | null;
+  exit_code: number | null;
+  created_at: string;
+}
+
+export interface UsageBucket {
+  key: string | null;
+  runs: number;
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export type UsageDimension = "day" | "model" | "workflow_type" | "channel_id" | "skill";
+
 function generateSessionId(): string {
   const now = new Date();
   const pad = (n: number) => String(n).padStart(2, "0");
@@ -82,13 +279,17 @@ export function initDatabase(dbPath: string): Database.Database {
       FOREIGN KEY (session_id) REFERENCES sessions(session_id)
     );
 
-    CREATE TABLE IF NOT EXISTS alert_counters (
-      dag_name TEXT PRIMARY KEY,
-      count INTEGER NOT NULL DEFAULT 0,
-      first_seen_at INTEGER NOT NULL,
-      window_expires_at INTEGER NOT NULL
+    -- One row per matched monitor alert; thresholds are evaluated over sliding windows of these
+    CREATE TABLE IF NOT EXISTS alert_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      counter_key TEXT NOT NULL,
+      rule_name TEXT NOT NULL,
+      weight REAL NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL
     );
 
+    CREATE INDEX IF NOT EXISTS idx_alert_events_key ON alert_events(counter_key, created_at);
+
     CREATE TABLE IF NOT EXISTS active_workflows (
       thread_ts TEXT PRIMARY KEY,
       workflow_type TEXT NOT NULL CHECK(workflow_type IN ('alert', 'delay_alert', 'discuss')),
@@ -98,6 +299,198 @@ export function initDatabase(dbPath: string): Database.Database {
       cli_session_id TEXT,
       created_at TEXT DEFAULT (datetime('now'))
     );
+
+    -- Correlated alerts investigated once, in the primary thread
+    CREATE TABLE IF NOT EXISTS incident_clusters (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      primary_thread_ts TEXT NOT NULL,
+      channel_id TEXT NOT NULL,
+      service TEXT,
+      created_at INTEGER NOT NULL,
+      last_alert_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_incident_clusters_last_alert ON incident_clusters(last_alert_at);
+
+    -- Split members keep their row (split_at set) as a record of the original clustering
+    CREATE TABLE IF NOT EXISTS incident_cluster_members (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      cluster_id INTEGER NOT NULL,
+      thread_ts TEXT NOT NULL,
+      channel_id TEXT NOT NULL,
+      incident_id TEXT,
+      service TEXT,
+      rule_name TEXT,
+      skill TEXT,
+      model TEXT,
+      alert_text TEXT NOT NULL,
+      score REAL,
+      joined_at INTEGER NOT NULL,
+      split_at INTEGER,
+      FOREIGN KEY (cluster_id) REFERENCES incident_clusters(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cluster_members_thread ON incident_cluster_members(thread_ts);
+    CREATE INDEX IF NOT EXISTS idx_cluster_members_cluster ON incident_cluster_members(cluster_id);
+
+    -- What was done about an incident from Slack (PD/Airflow commands, acks, cluster changes), for postmortems
+    CREATE TABLE IF NOT EXISTS incident_actions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thread_ts TEXT NOT NULL,
+      incident_id TEXT,
+      user_id TEXT,
+      action TEXT NOT NULL,
+      detail TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_incident_actions_thread ON incident_actions(thread_ts);
+
+    -- Every alert/delay investigation, follow-up, discuss reply and postmortem, searchable through reports_fts
+    CREATE TABLE IF NOT EXISTS reports (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workflow_type TEXT NOT NULL CHECK(workflow_type IN ('alert', 'delay_alert', 'discuss')),
+      kind TEXT NOT NULL CHECK(kind IN ('investigation', 'follow_up', 'reply', 'postmortem')),
+      channel_id TEXT,
+      thread_ts TEXT,
+      permalink TEXT,
+      incident_id TEXT,
+      dag_name TEXT,
+      service TEXT,
+      rule_name TEXT,
+      skill TEXT,
+      model TEXT,
+      title TEXT NOT NULL,
+      body TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('ok', 'error', 'api_error', 'timeout')),
+      exit_code INTEGER,
+      cost_usd REAL,
+      duration_ms INTEGER,
+      file_path TEXT UNIQUE,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reports_created_at ON reports(created_at);
+    CREATE INDEX IF NOT EXISTS idx_reports_thread ON reports(thread_ts);
+
+    -- External-content FTS index over reports, kept in sync by triggers
+    CREATE VIRTUAL TABLE IF NOT EXISTS reports_fts USING fts5(
+      title, body, content='reports', content_rowid='id', tokenize='porter unicode61'
+    );
+
+    CREATE TRIGGER IF NOT EXISTS reports_ai AFTER INSERT ON reports BEGIN
+      INSERT INTO reports_fts(rowid, title, body) VALUES (new.id, new.title, new.body);
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS reports_ad AFTER DELETE ON reports BEGIN
+      INSERT INTO reports_fts(reports_fts, rowid, title, body) VALUES ('delete', old.id, old.title, old.body);
+    END;
+
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      cron TEXT NOT NULL,
+      timezone TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      skill TEXT,
+      target TEXT NOT NULL,
+      model TEXT,
+      catch_up INTEGER NOT NULL DEFAULT 1,
+      paused INTEGER NOT NULL DEFAULT 0,
+      created_by TEXT,
+      created_at INTEGER NOT NULL
+    );
+
+    -- Runs of scheduled and built-in jobs; catch-up after downtime starts from the last scheduled_for
+    CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_name TEXT NOT NULL,
+      trigger TEXT NOT NULL CHECK(trigger IN ('schedule', 'catch_up', 'manual')),
+      scheduled_for INTEGER NOT NULL,
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      status TEXT NOT NULL CHECK(status IN ('running', 'ok', 'error', 'skipped')),
+      error TEXT,
+      cost_usd REAL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, scheduled_for);
+
+    -- Daily summary coverage per channel: the next summary starts where the last successful one ended
+    CREATE TABLE IF NOT EXISTS summary_state (
+      channel_id TEXT PRIMARY KEY,
+      summarized_until INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    -- Delivered channel summaries, read back by the weekly roll-up and GET /summaries
+    CREATE TABLE IF NOT EXISTS summaries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kind TEXT NOT NULL CHECK(kind IN ('daily', 'weekly')),
+      channel_id TEXT NOT NULL,
+      channel_name TEXT NOT NULL,
+      period_start INTEGER NOT NULL,
+      period_end INTEGER NOT NULL,
+      model TEXT NOT NULL,
+      text TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_summaries_kind_end ON summaries(kind, period_end);
+
+    -- Pinned "daily digest" parent per channel for digest:<channel> delivery
+    CREATE TABLE IF NOT EXISTS summary_digests (
+      channel_id TEXT PRIMARY KEY,
+      parent_ts TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS access_roles (
+      name TEXT PRIMARY KEY,
+      can_dm INTEGER NOT NULL DEFAULT 0,
+      can_mention INTEGER NOT NULL DEFAULT 0,
+      can_alert_followup INTEGER NOT NULL DEFAULT 0,
+      can_incident_manage INTEGER NOT NULL DEFAULT 0,
+      can_session_commands INTEGER NOT NULL DEFAULT 0,
+      can_gemini INTEGER NOT NULL DEFAULT 0,
+      can_manage INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS access_members (
+      subject_id TEXT PRIMARY KEY,
+      subject_type TEXT NOT NULL CHECK(subject_type IN ('user', 'usergroup')),
+      role TEXT NOT NULL,
+      added_by TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      FOREIGN KEY (role) REFERENCES access_roles(name)
+    );
+
+    CREATE TABLE IF NOT EXISTS cli_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      workflow_type TEXT NOT NULL,
+      model TEXT NOT NULL,
+      skill TEXT,
+      user_id TEXT,
+      channel_id TEXT,
+      thread_ts TEXT,
+      cost_usd REAL NOT NULL DEFAULT 0,
+      input_tokens INTEGER,
+      output_tokens INTEGER,
+      num_turns INTEGER,
+      duration_ms INTEGER,
+      exit_code INTEGER,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cli_runs_created_at ON cli_runs(created_at);
+
+    -- Built-in roles (only inserted once, editable at runtime via !access role)
+    INSERT OR IGNORE INTO access_roles
+      (name, can_dm, can_mention, can_alert_followup, can_incident_manage, can_session_commands, can_gemini, can_manage)
+    VALUES
+      ('admin', 1, 1, 1, 1, 1, 1, 1),
+      ('oncall', 0, 1, 1, 1, 1, 1, 0),
+      ('member', 0, 1, 0, 0, 0, 1, 0);
   `);
 
   // Migrations: add columns that may not exist yet
@@ -106,6 +499,15 @@ export function initDatabase(dbPath: string): Database.Database {
   if (!colNames.has("last_seen_ts")) {
     db.exec("ALTER TABLE active_workflows ADD COLUMN last_seen_ts TEXT");
   }
+  for (const col of ["rule_name", "skill", "model"]) {
+    if (!colNames.has(col)) {
+      db.exec(`ALTER TABLE active_workflows ADD COLUMN ${col} TEXT`);
+    }
+  }
+
+  // Fixed-window counters from before sliding windows. Their keys can't be mapped onto counter keys
+  // (those may combine several fields and the task pattern) and their windows last minutes, so counting restarts.
+  db.exec("DROP TABLE IF EXISTS alert_counters");
 
   return db;
 }
@@ -180,35 +582,123 @@ export function getTotalSessionCount(): number {
   return row.count;
 }
 
-// --- Alert Counters ---
+// --- Alert Events ---
 
-export function upsertAlertCounter(
-  dagName: string,
-  count: number,
-  firstSeenAt: number,
-  windowExpiresAt: number
-): void {
+export function insertAlertEvent(counterKey: string, ruleName: string, weight: number, createdAt: number): void {
   getDb()
+    .prepare("INSERT INTO alert_events (counter_key, rule_name, weight, created_at) VALUES (?, ?, ?, ?)")
+    .run(counterKey, ruleName, weight, createdAt);
+}
+
+/** Events for one counter since `since` (ms epoch), oldest first */
+export function getAlertEvents(counterKey: string, since: number): AlertEventRow[] {
+  return getDb()
+    .prepare("SELECT * FROM alert_events WHERE counter_key = ? AND created_at > ? ORDER BY created_at")
+    .all(counterKey, since) as AlertEventRow[];
+}
+
+export function deleteAlertEvents(counterKey: string): void {
+  getDb().prepare("DELETE FROM alert_events WHERE counter_key = ?").run(counterKey);
+}
+
+/** Delete events older than `before` (ms epoch); returns the number removed */
+export function pruneAlertEvents(before: number): number {
+  return getDb().prepare("DELETE FROM alert_events WHERE created_at <= ?").run(before).changes;
+}
+
+/** Number of events and distinct counters still stored */
+export function getAlertEventStats(): { events: number; counters: number } {
+  return getDb()
+    .prepare("SELECT COUNT(*) AS events, COUNT(DISTINCT counter_key) AS counters FROM alert_events")
+    .get() as { events: number; counters: number };
+}
+
+// --- Incident Clusters ---
+
+/** Create a cluster around its primary alert thread; returns the cluster ID */
+export function insertIncidentCluster(primaryThreadTs: string, channelId: string, service: string | null, now: number): number {
+  const result = getDb()
     .prepare(
-      `INSERT INTO alert_counters (dag_name, count, first_seen_at, window_expires_at)
-       VALUES (?, ?, ?, ?)
-       ON CONFLICT(dag_name) DO UPDATE SET count = ?, first_seen_at = ?, window_expires_at = ?`
+      "INSERT INTO incident_clusters (primary_thread_ts, channel_id, service, created_at, last_alert_at) VALUES (?, ?, ?, ?, ?)"
     )
-    .run(dagName, count, firstSeenAt, windowExpiresAt, count, firstSeenAt, windowExpiresAt);
+    .run(primaryThreadTs, channelId, service, now, now);
+  return Number(result.lastInsertRowid);
+}
+
+export function getIncidentCluster(id: number): IncidentClusterRow | undefined {
+  return getDb().prepare("SELECT * FROM incident_clusters WHERE id = ?").get(id) as IncidentClusterRow | undefined;
+}
+
+/** Clusters that received an alert after `since` (ms epoch), newest first */
+export function getRecentIncidentClusters(since: number): IncidentClusterRow[] {
+  return getDb()
+    .prepare("SELECT * FROM incident_clusters WHERE last_alert_at > ? ORDER BY last_alert_at DESC")
+    .all(since) as IncidentClusterRow[];
+}
+
+export function touchIncidentCluster(id: number, now: number): void {
+  getDb().prepare("UPDATE incident_clusters SET last_alert_at = ? WHERE id = ?").run(now, id);
+}
+
+export function insertClusterMember(member: Omit<ClusterMemberRow, "id" | "split_at">): void {
+  getDb()
+    .prepare(
+      `INSERT INTO incident_cluster_members
+        (cluster_id, thread_ts, channel_id, incident_id, service, rule_name, skill, model, alert_text, score, joined_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      member.cluster_id,
+      member.thread_ts,
+      member.channel_id,
+      member.incident_id,
+      member.service,
+      member.rule_name,
+      member.skill,
+      member.model,
+      member.alert_text,
+      member.score,
+      member.joined_at
+    );
+}
+
+/** Members still in the cluster (not split off), primary first */
+export function getClusterMembers(clusterId: number): ClusterMemberRow[] {
+  return getDb()
+    .prepare("SELECT * FROM incident_cluster_members WHERE cluster_id = ? AND split_at IS NULL ORDER BY joined_at, id")
+    .all(clusterId) as ClusterMemberRow[];
+}
+
+/** The cluster membership a thread currently has, if any */
+export function getClusterMemberByThread(threadTs: string): ClusterMemberRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM incident_cluster_members WHERE thread_ts = ? AND split_at IS NULL ORDER BY id DESC LIMIT 1")
+    .get(threadTs) as ClusterMemberRow | undefined;
 }
 
-export function getAlertCounter(dagName: string): AlertCounterRow | undefined {
+export function getClusterMemberByIncident(incidentId: string): ClusterMemberRow | undefined {
   return getDb()
-    .prepare("SELECT * FROM alert_counters WHERE dag_name = ?")
-    .get(dagName) as AlertCounterRow | undefined;
+    .prepare("SELECT * FROM incident_cluster_members WHERE incident_id = ? AND split_at IS NULL ORDER BY id DESC LIMIT 1")
+    .get(incidentId) as ClusterMemberRow | undefined;
 }
 
-export function deleteAlertCounter(dagName: string): void {
-  getDb().prepare("DELETE FROM alert_counters WHERE dag_name = ?").run(dagName);
+export function markClusterMemberSplit(id: number, now: number): void {
+  getDb().prepare("UPDATE incident_cluster_members SET split_at = ? WHERE id = ?").run(now, id);
+}
+
+// --- Incident Actions ---
+
+export function insertIncidentAction(action: Omit<IncidentActionRow, "id">): void {
+  getDb()
+    .prepare("INSERT INTO incident_actions (thread_ts, incident_id, user_id, action, detail, created_at) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(action.thread_ts, action.incident_id, action.user_id, action.action, action.detail, action.created_at);
 }
 
-export function getAllAlertCounters(): AlertCounterRow[] {
-  return getDb().prepare("SELECT * FROM alert_counters").all() as AlertCounterRow[];
+/** Actions recorded in a thread, oldest first */
+export function getThreadIncidentActions(threadTs: string): IncidentActionRow[] {
+  return getDb()
+    .prepare("SELECT * FROM incident_actions WHERE thread_ts = ? ORDER BY created_at, id")
+    .all(threadTs) as IncidentActionRow[];
 }
 
 // --- Active Workflows ---
@@ -217,12 +707,20 @@ export function insertWorkflow(
   threadTs: string,
   workflowType: ActiveWorkflowRow["workflow_type"],
   channelId: string,
-  opts?: { incidentId?: string; dagName?: string; cliSessionId?: string }
+  opts?: {
+    incidentId?: string;
+    dagName?: string;
+    cliSessionId?: string;
+    ruleName?: string;
+    skill?: string;
+    model?: string;
+  }
 ): void {
   getDb()
     .prepare(
-      `INSERT OR REPLACE INTO active_workflows (thread_ts, workflow_type, channel_id, incident_id, dag_name, cli_session_id)
-       VALUES (?, ?, ?, ?, ?, ?)`
+      `INSERT OR REPLACE INTO active_workflows
+         (thread_ts, workflow_type, channel_id, incident_id, dag_name, cli_session_id, rule_name, skill, model)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
     )
     .run(
       threadTs,
@@ -230,7 +728,10 @@ export function insertWorkflow(
       channelId,
       opts?.incidentId ?? null,
       opts?.dagName ?? null,
-      opts?.cliSessionId ?? null
+      opts?.cliSessionId ?? null,
+      opts?.ruleName ?? null,
+      opts?.skill ?? null,
+      opts?.model ?? null
     );
 }
 
@@ -249,6 +750,19 @@ export function getAllWorkflows(): ActiveWorkflowRow[] {
     .all() as ActiveWorkflowRow[];
 }
 
+export function getWorkflow(threadTs: string): ActiveWorkflowRow | undefined {
+  return getDb()
+    .prepare("SELECT * FROM active_workflows WHERE thread_ts = ?")
+    .get(threadTs) as ActiveWorkflowRow | undefined;
+}
+
+/** Stop tracking a workflow's PagerDuty incident (e.g. once it is resolved) */
+export function clearWorkflowIncident(threadTs: string): void {
+  getDb()
+    .prepare("UPDATE active_workflows SET incident_id = NULL WHERE thread_ts = ?")
+    .run(threadTs);
+}
+
 export function updateWorkflowCliSession(threadTs: string, cliSessionId: string): void {
   getDb()
     .prepare("UPDATE active_workflows SET cli_session_id = ? WHERE thread_ts = ?")
@@ -273,6 +787,370 @@ export function getWorkflowsByType(
     .all(workflowType) as ActiveWorkflowRow[];
 }
 
+// --- Reports ---
+
+const REPORT_LIST_COLUMNS = `r.id, r.workflow_type, r.kind, r.channel_id, r.thread_ts, r.permalink, r.incident_id, r.dag_name,
+  r.service, r.rule_name, r.skill, r.model, r.title, r.status, r.exit_code, r.cost_usd, r.duration_ms, r.file_path, r.created_at`;
+
+/** WHERE conditions (on alias r) and their parameters for a report filter */
+function reportFilterSql(filter: ReportFilter): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const columns: Array<[keyof ReportFilter, string]> = [
+    ["workflowType", "workflow_type"],
+    ["kind", "kind"],
+    ["incidentId", "incident_id"],
+    ["dagName", "dag_name"],
+    ["service", "service"],
+    ["skill", "skill"],
+    ["status", "status"],
+    ["channelId", "channel_id"],
+    ["threadTs", "thread_ts"],
+  ];
+  for (const [key, column] of columns) {
+    if (filter[key] === undefined) continue;
+    conditions.push(`r.${column} = ?`);
+    params.push(filter[key]);
+  }
+  if (filter.sinceDays !== undefined) {
+    conditions.push("r.created_at >= datetime('now', ?)");
+    params.push(`-${filter.sinceDays} days`);
+  }
+  return { conditions, params };
+}
+
+export function insertReport(report: Omit<ReportRow, "id" | "created_at"> & { created_at?: string }): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO reports
+        (workflow_type, kind, channel_id, thread_ts, permalink, incident_id, dag_name, service, rule_name, skill, model,
+         title, body, status, exit_code, cost_usd, duration_ms, file_path, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))`
+    )
+    .run(
+      report.workflow_type,
+      report.kind,
+      report.channel_id,
+      report.thread_ts,
+      report.permalink,
+      report.incident_id,
+      report.dag_name,
+      report.service,
+      report.rule_name,
+      report.skill,
+      report.model,
+      report.title,
+      report.body,
+      report.status,
+      report.exit_code,
+      report.cost_usd,
+      report.duration_ms,
+      report.file_path,
+      report.created_at ?? null
+    );
+  return Number(result.lastInsertRowid);
+}
+
+export function getReport(id: number): ReportRow | undefined {
+  return getDb().prepare("SELECT * FROM reports WHERE id = ?").get(id) as ReportRow | undefined;
+}
+
+/** Every report posted in a thread, oldest first */
+export function getThreadReports(threadTs: string): ReportRow[] {
+  return getDb().prepare("SELECT * FROM reports WHERE thread_ts = ? ORDER BY id").all(threadTs) as ReportRow[];
+}
+
+export function hasReportFile(filePath: string): boolean {
+  return getDb().prepare("SELECT 1 FROM reports WHERE file_path = ?").get(filePath) !== undefined;
+}
+
+/** Reports matching a filter, newest first */
+export function listReports(filter: ReportFilter): ReportListRow[] {
+  const { conditions, params } = reportFilterSql(filter);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return getDb()
+    .prepare(`SELECT ${REPORT_LIST_COLUMNS} FROM reports r ${where} ORDER BY r.created_at DESC, r.id DESC LIMIT ? OFFSET ?`)
+    .all(...params, filter.limit ?? 20, filter.offset ?? 0) as ReportListRow[];
+}
+
+/** Full-text search (FTS5 query syntax), best BM25 match first; title matches weigh more than body matches */
+export function searchReports(ftsQuery: string, filter: ReportFilter): ReportListRow[] {
+  const { conditions, params } = reportFilterSql(filter);
+  const where = ["reports_fts MATCH ?", ...conditions].join(" AND ");
+  return getDb()
+    .prepare(
+      `SELECT ${REPORT_LIST_COLUMNS},
+         snippet(reports_fts, 1, '**', '**', '…', 24) AS snippet,
+         bm25(reports_fts, 5.0, 1.0) AS rank
+       FROM reports_fts JOIN reports r ON r.id = reports_fts.rowid
+       WHERE ${where}
+       ORDER BY rank LIMIT ? OFFSET ?`
+    )
+    .all(ftsQuery, ...params, filter.limit ?? 20, filter.offset ?? 0) as ReportListRow[];
+}
+
+// --- Scheduled Jobs ---
+
+export function insertScheduledJob(job: Omit<ScheduledJobRow, "id">): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO scheduled_jobs (name, cron, timezone, prompt, skill, target, model, catch_up, paused, created_by, created_at)
+       VALUES (@name, @cron, @timezone, @prompt, @skill, @target, @model, @catch_up, @paused, @created_by, @created_at)`
+    )
+    .run(job);
+  return Number(result.lastInsertRowid);
+}
+
+export function getScheduledJobs(): ScheduledJobRow[] {
+  return getDb().prepare("SELECT * FROM scheduled_jobs ORDER BY name").all() as ScheduledJobRow[];
+}
+
+export function getScheduledJob(name: string): ScheduledJobRow | undefined {
+  return getDb().prepare("SELECT * FROM scheduled_jobs WHERE name = ?").get(name) as ScheduledJobRow | undefined;
+}
+
+export function setScheduledJobPaused(name: string, paused: boolean): boolean {
+  return getDb().prepare("UPDATE scheduled_jobs SET paused = ? WHERE name = ?").run(paused ? 1 : 0, name).changes > 0;
+}
+
+export function deleteScheduledJob(name: string): boolean {
+  return getDb().prepare("DELETE FROM scheduled_jobs WHERE name = ?").run(name).changes > 0;
+}
+
+export function insertScheduledJobRun(run: Pick<ScheduledJobRunRow, "job_name" | "trigger" | "scheduled_for" | "started_at">): number {
+  const result = getDb()
+    .prepare("INSERT INTO scheduled_job_runs (job_name, trigger, scheduled_for, started_at, status) VALUES (?, ?, ?, ?, 'running')")
+    .run(run.job_name, run.trigger, run.scheduled_for, run.started_at);
+  return Number(result.lastInsertRowid);
+}
+
+export function finishScheduledJobRun(
+  id: number,
+  status: Exclude<ScheduledJobRunRow["status"], "running">,
+  error: string | null,
+  costUsd: number | null
+): void {
+  getDb()
+    .prepare("UPDATE scheduled_job_runs SET status = ?, error = ?, cost_usd = ?, finished_at = ? WHERE id = ?")
+    .run(status, error, costUsd, Date.now(), id);
+}
+
+/** Runs left "running" by a crash or restart */
+export function failInterruptedJobRuns(): number {
+  return getDb()
+    .prepare("UPDATE scheduled_job_runs SET status = 'error', error = 'interrupted by a restart', finished_at = ? WHERE status = 'running'")
+    .run(Date.now()).changes;
+}
+
+/** Latest cron time a job ran for (manual runs don't count), or null if it never ran */
+export function getLastScheduledRunTime(jobName: string): number | null {
+  const row = getDb()
+    .prepare("SELECT MAX(scheduled_for) as at FROM scheduled_job_runs WHERE job_name = ? AND trigger != 'manual'")
+    .get(jobName) as { at: number | null };
+  return row.at;
+}
+
+/** Most recent run of every job */
+export function getLatestJobRuns(): ScheduledJobRunRow[] {
+  return getDb()
+    .prepare("SELECT * FROM scheduled_job_runs WHERE id IN (SELECT MAX(id) FROM scheduled_job_runs GROUP BY job_name)")
+    .all() as ScheduledJobRunRow[];
+}
+
+// --- Summaries ---
+
+/** End (epoch ms) of the last successful daily summary of a channel, or null if it was never summarized */
+export function getSummarizedUntil(channelId: string): number | null {
+  const row = getDb().prepare("SELECT summarized_until FROM summary_state WHERE channel_id = ?").get(channelId) as
+    | { summarized_until: number }
+    | undefined;
+  return row?.summarized_until ?? null;
+}
+
+export function setSummarizedUntil(channelId: string, until: number): void {
+  getDb()
+    .prepare(
+      `INSERT INTO summary_state (channel_id, summarized_until, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(channel_id) DO UPDATE SET summarized_until = excluded.summarized_until, updated_at = excluded.updated_at`
+    )
+    .run(channelId, until, Date.now());
+}
+
+export function insertSummary(summary: Omit<SummaryRow, "id" | "created_at">): number {
+  const result = getDb()
+    .prepare(
+      `INSERT INTO summaries (kind, channel_id, channel_name, period_start, period_end, model, text, created_at)
+       VALUES (@kind, @channel_id, @channel_name, @period_start, @period_end, @model, @text, @created_at)`
+    )
+    .run({ ...summary, created_at: Date.now() });
+  return Number(result.lastInsertRowid);
+}
+
+/** Summaries newest first */
+export function getSummaries(filter: SummaryFilter = {}): SummaryRow[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (filter.kind) {
+    conditions.push("kind = ?");
+    params.push(filter.kind);
+  }
+  if (filter.channel) {
+    conditions.push("(channel_id = ? OR channel_name = ?)");
+    params.push(filter.channel, filter.channel.replace(/^#/, ""));
+  }
+  if (filter.endedAfter !== undefined) {
+    conditions.push("period_end > ?");
+    params.push(filter.endedAfter);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  return getDb()
+    .prepare(`SELECT * FROM summaries ${where} ORDER BY period_end DESC, id DESC LIMIT ? OFFSET ?`)
+    .all(...params, filter.limit ?? 50, filter.offset ?? 0) as SummaryRow[];
+}
+
+export function getSummary(id: number): SummaryRow | undefined {
+  return getDb().prepare("SELECT * FROM summaries WHERE id = ?").get(id) as SummaryRow | undefined;
+}
+
+export function getDigestParent(channelId: string): string | null {
+  const row = getDb().prepare("SELECT parent_ts FROM summary_digests WHERE channel_id = ?").get(channelId) as
+    | { parent_ts: string }
+    | undefined;
+  return row?.parent_ts ?? null;
+}
+
+export function setDigestParent(channelId: string, parentTs: string): void {
+  getDb()
+    .prepare(
+      `INSERT INTO summary_digests (channel_id, parent_ts, created_at) VALUES (?, ?, ?)
+       ON CONFLICT(channel_id) DO UPDATE SET parent_ts = excluded.parent_ts, created_at = excluded.created_at`
+    )
+    .run(channelId, parentTs, Date.now());
+}
+
+export function deleteDigestParent(channelId: string): void {
+  getDb().prepare("DELETE FROM summary_digests WHERE channel_id = ?").run(channelId);
+}
+
+// --- Access Control ---
+
+export function getAccessRoles(): AccessRoleRow[] {
+  return getDb().prepare("SELECT * FROM access_roles ORDER BY name").all() as AccessRoleRow[];
+}
+
+export function getAccessRole(name: string): AccessRoleRow | undefined {
+  return getDb().prepare("SELECT * FROM access_roles WHERE name = ?").get(name) as AccessRoleRow | undefined;
+}
+
+export function upsertAccessRole(role: AccessRoleRow): void {
+  getDb()
+    .prepare(
+      `INSERT INTO access_roles
+         (name, can_dm, can_mention, can_alert_followup, can_incident_manage, can_session_commands, can_gemini, can_manage)
+       VALUES (@name, @can_dm, @can_mention, @can_alert_followup, @can_incident_manage, @can_session_commands, @can_gemini, @can_manage)
+       ON CONFLICT(name) DO UPDATE SET
+         can_dm = @can_dm, can_mention = @can_mention, can_alert_followup = @can_alert_followup,
+         can_incident_manage = @can_incident_manage, can_session_commands = @can_session_commands,
+         can_gemini = @can_gemini, can_manage = @can_manage`
+    )
+    .run(role);
+}
+
+export function deleteAccessRole(name: string): boolean {
+  const inUse = getDb().prepare("SELECT COUNT(*) as count FROM access_members WHERE role = ?").get(name) as { count: number };
+  if (inUse.count > 0) return false;
+  return getDb().prepare("DELETE FROM access_roles WHERE name = ?").run(name).changes > 0;
+}
+
+export function getAccessMembers(): AccessMemberRow[] {
+  return getDb().prepare("SELECT * FROM access_members ORDER BY subject_type, subject_id").all() as AccessMemberRow[];
+}
+
+export function upsertAccessMember(
+  subjectId: string,
+  subjectType: AccessMemberRow["subject_type"],
+  role: string,
+  addedBy: string | null
+): void {
+  getDb()
+    .prepare(
+      `INSERT INTO access_members (subject_id, subject_type, role, added_by)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(subject_id) DO UPDATE SET role = ?, added_by = ?`
+    )
+    .run(subjectId, subjectType, role, addedBy, role, addedBy);
+}
+
+export function deleteAccessMember(subjectId: string): boolean {
+  return getDb().prepare("DELETE FROM access_members WHERE subject_id = ?").run(subjectId).changes > 0;
+}
+
+// --- CLI Cost Ledger ---
+
+export function insertCliRun(run: Omit<CliRunRow, "id" | "created_at">): void {
+  getDb()
+    .prepare(
+      `INSERT INTO cli_runs
+         (workflow_type, model, skill, user_id, channel_id, thread_ts, cost_usd,
+          input_tokens, output_tokens, num_turns, duration_ms, exit_code)
+       VALUES
+         (@workflow_type, @model, @skill, @user_id, @channel_id, @thread_ts, @cost_usd,
+          @input_tokens, @output_tokens, @num_turns, @duration_ms, @exit_code)`
+    )
+    .run(run);
+}
+
+/** Total spend since a SQLite datetime modifier (e.g. "start of day") for one ledger column value */
+/** Ledger spend since `since` (ms epoch) for one user, channel or workflow type */
+export function getCliSpendSince(column: "user_id" | "channel_id" | "workflow_type", value: string, since: number): number {
+  // created_at is stored as SQLite's UTC "YYYY-MM-DD HH:MM:SS"
+  const sinceText = new Date(since).toISOString().slice(0, 19).replace("T", " ");
+  const row = getDb()
+    .prepare(`SELECT COALESCE(SUM(cost_usd), 0) as total FROM cli_runs WHERE ${column} = ? AND created_at >= ?`)
+    .get(value, sinceText) as { total: number };
+  return row.total;
+}
+
+const USAGE_DIMENSION_SQL: Record<UsageDimension, string> = {
+  day: "date(created_at)",
+  model: "model",
+  workflow_type: "workflow_type",
+  channel_id: "channel_id",
+  skill: "skill",
+};
+
+/** Aggregate ledger spend over the last `sinceDays` days, grouped by one dimension */
+export function getCliUsageBreakdown(dimension: UsageDimension, sinceDays: number): UsageBucket[] {
+  const keyExpr = USAGE_DIMENSION_SQL[dimension];
+  const orderBy = dimension === "day" ? "key ASC" : "cost_usd DESC";
+  return getDb()
+    .prepare(
+      `SELECT ${keyExpr} as key,
+              COUNT(*) as runs,
+              COALESCE(SUM(cost_usd), 0) as cost_usd,
+              COALESCE(SUM(input_tokens), 0) as input_tokens,
+              COALESCE(SUM(output_tokens), 0) as output_tokens
+       FROM cli_runs
+       WHERE created_at >= datetime('now', ?)
+       GROUP BY key
+       ORDER BY ${orderBy}`
+    )
+    .all(`-${sinceDays} days`) as UsageBucket[];
+}
+
+export function getCliUsageTotals(sinceDays: number): Omit<UsageBucket, "key"> {
+  return getDb()
+    .prepare(
+      `SELECT COUNT(*) as runs,
+              COALESCE(SUM(cost_usd), 0) as cost_usd,
+              COALESCE(SUM(input_tokens), 0) as input_tokens,
+              COALESCE(SUM(output_tokens), 0) as output_tokens
+       FROM cli_runs
+       WHERE created_at >= datetime('now', ?)`
+    )
+    .get(`-${sinceDays} days`) as Omit<UsageBucket, "key">;
+}
+
 export function closeDatabase(): void {
   if (db) {
     db.close();
@@ -1,33 +1,37 @@
 import type { App } from "@slack/bolt";
-import type { ChildProcess } from "node:child_process";
 import { config } from "../config.js";
-import { spawnClaudeCli, safeKill, detectAndLoadSkill, chunkResponse, markdownToSlackMrkdwn, rewriteApiError, type CliRunResult } from "./claude-cli.js";
+import { spawnClaudeCli, detectAndLoadSkill, rewriteApiError, type CliRun } from "./claude-cli.js";
 import { insertWorkflow, deleteWorkflow, getWorkflowsByType, updateWorkflowType, updateWorkflowCliSession } from "./database.js";
 import { createDiscussFromWorkflow } from "./discuss-workflow.js";
-
-function formatTokens(n: number): string {
-  if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
-  return `${n}`;
-}
-
-function buildUsageFooter(result: CliRunResult): string {
-  const parts: string[] = [];
-  parts.push(`model: ${config.alertModel}`);
-  if (result.inputTokens != null) {
-    const pct = Math.round((result.inputTokens / 200_000) * 100);
-    parts.push(`context: ${formatTokens(result.inputTokens)} (${pct}%)`);
-  }
-  return `\n\n---\n_${parts.join(" | ")}_`;
-}
+import { enforceBudget, clearBudgetWarnings, type LedgerContext } from "./cost-ledger.js";
+import { createProgressReporter } from "./progress-reporter.js";
+import { isAirflowConfigured, getDagRunSnapshot, formatDagRunContext } from "./airflow.js";
+import { archiveReport } from "./report-archive.js";
+import { findPriorIncidents, formatPriorIncidents, formatPriorIncidentLinks } from "./prior-incidents.js";
+import { postMessage } from "./slack-gateway.js";
+import { postResponse, usageFooter } from "./response-renderer.js";
 
 interface DelayAlertWorkflow {
   channelId: string;
   threadTs: string;
   dagName: string;
-  cliChild: ChildProcess | null;
+  /** Monitor rule that matched (null for HTTP-triggered workflows) */
+  ruleName: string | null;
+  skill: string;
+  model: string;
+  /** DAG run the Airflow context was taken from; follow-ups and !airflow commands target it */
+  airflowRunId: string | null;
+  cliRun: CliRun | null;
   feedbackTimer: ReturnType<typeof setTimeout> | null;
 }
 
+/** Overrides supplied by the monitor rule that started the workflow */
+export interface DelayAlertWorkflowOptions {
+  ruleName?: string;
+  skill?: string;
+  model?: string;
+}
+
 const workflows = new Map<string, DelayAlertWorkflow>();
 
 /** Build a Slack message permalink */
@@ -54,12 +58,30 @@ function clearFeedbackTimer(workflow: DelayAlertWorkflow): void {
   }
 }
 
+/** DAG run state from Airflow for the skill prompt; undefined when Airflow isn't configured or unreachable */
+async function loadAirflowContext(workflow: DelayAlertWorkflow): Promise<string | undefined> {
+  if (!isAirflowConfigured()) return undefined;
+  const snapshot = await getDagRunSnapshot(workflow.dagName, workflow.airflowRunId ?? undefined);
+  if (!snapshot.success || !snapshot.data) {
+    console.warn(`[DelayAlertWorkflow] No Airflow context for Dag: ${workflow.dagName}: ${snapshot.error}`);
+    return undefined;
+  }
+  workflow.airflowRunId = snapshot.data.run.runId;
+  const { failed, running } = snapshot.data;
+  console.log(
+    `[DelayAlertWorkflow] Airflow context for Dag: ${workflow.dagName} run ${workflow.airflowRunId} ` +
+      `(${failed.length} failed, ${running.length} running)`
+  );
+  return formatDagRunContext(snapshot.data);
+}
+
 export async function startDelayAlertWorkflow(
   app: App,
   channelId: string,
   messageTs: string,
   text: string,
-  dagName: string
+  dagName: string,
+  options?: DelayAlertWorkflowOptions
 ): Promise<void> {
   if (workflows.has(messageTs)) return;
 
@@ -69,30 +91,62 @@ export async function startDelayAlertWorkflow(
     channelId,
     threadTs: messageTs,
     dagName,
-    cliChild: null,
+    ruleName: options?.ruleName ?? null,
+    skill: options?.skill || config.delayAlertSkill,
+    model: options?.model || config.alertModel,
+    airflowRunId: null,
+    cliRun: null,
     feedbackTimer: null,
   };
   workflows.set(messageTs, workflow);
-  insertWorkflow(messageTs, "delay_alert", channelId, { dagName });
+  insertWorkflow(messageTs, "delay_alert", channelId, {
+    dagName,
+    ruleName: workflow.ruleName ?? undefined,
+    skill: workflow.skill,
+    model: workflow.model,
+  });
 
   console.log(
-    `[DelayAlertWorkflow] Started for Dag: ${dagName}, thread ${messageTs}`
+    `[DelayAlertWorkflow] Started for Dag: ${dagName}, thread ${messageTs}` +
+      (workflow.ruleName ? ` via rule "${workflow.ruleName}"` : "")
   );
 
   // Load skill content and spawn Claude CLI to investigate
-  const skillContext = detectAndLoadSkill(config.delayAlertSkill, config.paymentsRepoPath);
+  const skillContext = detectAndLoadSkill(workflow.skill, config.paymentsRepoPath);
   if (!skillContext) {
-    console.error(`[DelayAlertWorkflow] Skill "${config.delayAlertSkill}" not found, aborting workflow`);
+    console.error(`[DelayAlertWorkflow] Skill "${workflow.skill}" not found, aborting workflow`);
     workflows.delete(messageTs);
     deleteWorkflow(messageTs);
     return;
   }
   skillContext.skillArgs = slackLink;
 
-  // Post "Investigating..." indicator to thread
+  // Refuse to spawn if the delay-alert/channel budget is exhausted
+  const ledger: LedgerContext = { workflowType: "delay_alert", channelId, threadTs: messageTs, skill: workflow.skill };
+  if (!(await enforceBudget(app, ledger, channelId, messageTs))) {
+    workflows.delete(messageTs);
+    deleteWorkflow(messageTs);
+    return;
+  }
+
+  // Post the prior incidents used and the "Investigating..." indicator to thread
+  const prior = findPriorIncidents({ text, threadTs: messageTs, dagName });
+  if (prior.length > 0) {
+    try {
+      await postMessage({
+        channel: channelId,
+        thread_ts: messageTs,
+        text: formatPriorIncidentLinks(prior),
+        unfurl_links: false,
+      });
+    } catch (err) {
+      console.error(`[DelayAlertWorkflow] Failed to post prior incidents:`, err);
+    }
+  }
+
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: channelId,
       thread_ts: messageTs,
       text: "Investigating...",
@@ -102,13 +156,25 @@ export async function startDelayAlertWorkflow(
     console.error(`[DelayAlertWorkflow] Failed to post thinking indicator:`, err);
   }
 
-  const prompt = `Invoke skill "${config.delayAlertSkill}" with args "${slackLink}".`;
-  const { child, done } = spawnClaudeCli(prompt, config.paymentsRepoPath, { skillContext });
-  workflow.cliChild = child;
+  const airflowContext = await loadAirflowContext(workflow);
+  skillContext.extraContext = [airflowContext, formatPriorIncidents(prior)].filter(Boolean).join("\n\n") || undefined;
+  // Killed (e.g. !exit) while Airflow was being queried
+  if (workflows.get(messageTs) !== workflow) return;
+
+  const prompt = `Invoke skill "${workflow.skill}" with args "${slackLink}".`;
+  const progress = createProgressReporter(channelId, thinkingTs, "Investigating...");
+  const run = spawnClaudeCli(prompt, config.paymentsRepoPath, {
+    model: workflow.model,
+    skillContext,
+    ledger,
+    onProgress: progress.update,
+  });
+  workflow.cliRun = run;
 
   // When CLI finishes, post response and start feedback timer
-  done.then(async (result) => {
-    workflow.cliChild = null;
+  run.done.then(async (result) => {
+    await progress.stop();
+    workflow.cliRun = null;
     console.log(
       `[DelayAlertWorkflow] CLI finished for Dag: ${dagName}, thread ${messageTs} (exit: ${result.exitCode})`
     );
@@ -120,73 +186,27 @@ export async function startDelayAlertWorkflow(
       console.warn(`[DelayAlertWorkflow] API error in thread ${messageTs}: ${rawText.slice(0, 200)}`);
       rawText = rewritten;
     }
-    const responseText = markdownToSlackMrkdwn(rawText) + buildUsageFooter(result);
-
+    archiveReport({
+      workflowType: "delay_alert",
+      kind: "investigation",
+      channelId,
+      threadTs: messageTs,
+      dagName,
+      ruleName: workflow.ruleName,
+      skill: workflow.skill,
+      model: workflow.model,
+      text: rawText,
+      result,
+      status: rewritten ? "api_error" : undefined,
+    });
     try {
-      const chunks = chunkResponse(responseText);
-
-      if (thinkingTs) {
-        try {
-          await app.client.chat.update({
-            channel: channelId,
-            ts: thinkingTs,
-            text: chunks[0],
-          });
-        } catch (updateErr: any) {
-          if (updateErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on update, truncating (${chunks[0].length} chars)`);
-            await app.client.chat.update({
-              channel: channelId,
-              ts: thinkingTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw updateErr;
-          }
-        }
-      } else {
-        try {
-          await app.client.chat.postMessage({
-            channel: channelId,
-            thread_ts: messageTs,
-            text: chunks[0],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on post, truncating (${chunks[0].length} chars)`);
-            await app.client.chat.postMessage({
-              channel: channelId,
-              thread_ts: messageTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
-
-      for (let i = 1; i < chunks.length; i++) {
-        try {
-          await app.client.chat.postMessage({
-            channel: channelId,
-            thread_ts: messageTs,
-            text: chunks[i],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on chunk ${i}, truncating (${chunks[i].length} chars)`);
-            await app.client.chat.postMessage({
-              channel: channelId,
-              thread_ts: messageTs,
-              text: chunks[i].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
-
-      console.log(`[DelayAlertWorkflow] Posted response (${chunks.length} chunk(s)) to thread ${messageTs}`);
+      const posted = await postResponse(
+        { channel: channelId, threadTs: messageTs, replaceTs: thinkingTs },
+        rawText,
+        usageFooter(result, workflow.model)
+      );
+
+      console.log(`[DelayAlertWorkflow] Posted response (${posted.messages} message(s)) to thread ${messageTs}`);
     } catch (err) {
       console.error(`[DelayAlertWorkflow] Failed to post response:`, err);
     }
@@ -212,7 +232,8 @@ export async function startDelayAlertWorkflow(
 export async function handleDelayOwnerFeedback(
   app: App,
   threadTs: string,
-  text: string
+  text: string,
+  userId?: string
 ): Promise<void> {
   const workflow = workflows.get(threadTs);
   if (!workflow) return;
@@ -222,24 +243,36 @@ export async function handleDelayOwnerFeedback(
   clearFeedbackTimer(workflow);
 
   // Kill any running CLI before spawning a new one
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
 
   // Load skill and spawn follow-up CLI
   const slackLink = buildSlackLink(workflow.channelId, threadTs);
-  const skillContext = detectAndLoadSkill(config.delayAlertSkill, config.paymentsRepoPath);
+  const skillContext = detectAndLoadSkill(workflow.skill, config.paymentsRepoPath);
   if (!skillContext) {
-    console.error(`[DelayAlertWorkflow] Skill "${config.delayAlertSkill}" not found for follow-up`);
+    console.error(`[DelayAlertWorkflow] Skill "${workflow.skill}" not found for follow-up`);
     return;
   }
   skillContext.skillArgs = slackLink;
 
+  const ledger: LedgerContext = {
+    workflowType: "delay_alert",
+    userId,
+    channelId: workflow.channelId,
+    threadTs,
+    skill: workflow.skill,
+  };
+  if (!(await enforceBudget(app, ledger, workflow.channelId, threadTs))) {
+    startFeedbackTimer(app, workflow);
+    return;
+  }
+
   // Post "Investigating..." indicator
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: workflow.channelId,
       thread_ts: threadTs,
       text: "Investigating...",
@@ -247,12 +280,22 @@ export async function handleDelayOwnerFeedback(
     thinkingTs = res.ts || undefined;
   } catch {}
 
-  const prompt = `Invoke skill "${config.delayAlertSkill}" with args "${slackLink}". Follow-up question from owner: ${text}`;
-  const { child, done } = spawnClaudeCli(prompt, config.paymentsRepoPath, { skillContext });
-  workflow.cliChild = child;
+  skillContext.extraContext = await loadAirflowContext(workflow);
+  if (workflows.get(threadTs) !== workflow) return;
 
-  done.then(async (result) => {
-    workflow.cliChild = null;
+  const prompt = `Invoke skill "${workflow.skill}" with args "${slackLink}". Follow-up question from owner: ${text}`;
+  const progress = createProgressReporter(workflow.channelId, thinkingTs, "Investigating...");
+  const run = spawnClaudeCli(prompt, config.paymentsRepoPath, {
+    model: workflow.model,
+    skillContext,
+    ledger,
+    onProgress: progress.update,
+  });
+  workflow.cliRun = run;
+
+  run.done.then(async (result) => {
+    await progress.stop();
+    workflow.cliRun = null;
     console.log(
       `[DelayAlertWorkflow] Follow-up CLI finished for thread ${threadTs} (exit: ${result.exitCode})`
     );
@@ -264,73 +307,27 @@ export async function handleDelayOwnerFeedback(
       console.warn(`[DelayAlertWorkflow] API error in follow-up for thread ${threadTs}: ${rawFollowUpText.slice(0, 200)}`);
       rawFollowUpText = rewrittenFollowUp;
     }
-    const responseText = markdownToSlackMrkdwn(rawFollowUpText) + buildUsageFooter(result);
-
+    archiveReport({
+      workflowType: "delay_alert",
+      kind: "follow_up",
+      channelId: workflow.channelId,
+      threadTs,
+      dagName: workflow.dagName,
+      ruleName: workflow.ruleName,
+      skill: workflow.skill,
+      model: workflow.model,
+      text: rawFollowUpText,
+      result,
+      status: rewrittenFollowUp ? "api_error" : undefined,
+    });
     try {
-      const chunks = chunkResponse(responseText);
-
-      if (thinkingTs) {
-        try {
-          await app.client.chat.update({
-            channel: workflow.channelId,
-            ts: thinkingTs,
-            text: chunks[0],
-          });
-        } catch (updateErr: any) {
-          if (updateErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on follow-up update, truncating (${chunks[0].length} chars)`);
-            await app.client.chat.update({
-              channel: workflow.channelId,
-              ts: thinkingTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw updateErr;
-          }
-        }
-      } else {
-        try {
-          await app.client.chat.postMessage({
-            channel: workflow.channelId,
-            thread_ts: threadTs,
-            text: chunks[0],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on follow-up post, truncating (${chunks[0].length} chars)`);
-            await app.client.chat.postMessage({
-              channel: workflow.channelId,
-              thread_ts: threadTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
-
-      for (let i = 1; i < chunks.length; i++) {
-        try {
-          await app.client.chat.postMessage({
-            channel: workflow.channelId,
-            thread_ts: threadTs,
-            text: chunks[i],
-          });
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[DelayAlertWorkflow] msg_too_long on follow-up chunk ${i}, truncating (${chunks[i].length} chars)`);
-            await app.client.chat.postMessage({
-              channel: workflow.channelId,
-              thread_ts: threadTs,
-              text: chunks[i].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw postErr;
-          }
-        }
-      }
-
-      console.log(`[DelayAlertWorkflow] Posted follow-up response (${chunks.length} chunk(s)) to thread ${threadTs}`);
+      const posted = await postResponse(
+        { channel: workflow.channelId, threadTs, replaceTs: thinkingTs },
+        rawFollowUpText,
+        usageFooter(result, workflow.model)
+      );
+
+      console.log(`[DelayAlertWorkflow] Posted follow-up response (${posted.messages} message(s)) to thread ${threadTs}`);
     } catch (err) {
       console.error(`[DelayAlertWorkflow] Failed to post follow-up response:`, err);
     }
@@ -359,14 +356,14 @@ export async function cleanupDelayWorkflow(
 ): Promise<void> {
   clearFeedbackTimer(workflow);
 
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
 
   // Post completion message to thread
   try {
-    await app.client.chat.postMessage({
+    await postMessage({
       channel: workflow.channelId,
       thread_ts: workflow.threadTs,
       text: "Investigation complete.",
@@ -377,6 +374,7 @@ export async function cleanupDelayWorkflow(
 
   workflows.delete(workflow.threadTs);
   deleteWorkflow(workflow.threadTs);
+  clearBudgetWarnings(workflow.threadTs);
   console.log(
     `[DelayAlertWorkflow] Cleaned up workflow for Dag: ${workflow.dagName}, thread ${workflow.threadTs}`
   );
@@ -392,13 +390,15 @@ export function getAllDelayWorkflows(): Array<{
   threadTs: string;
   channelId: string;
   dagName: string;
+  ruleName: string | null;
   hasCliChild: boolean;
 }> {
   return Array.from(workflows.entries()).map(([threadTs, w]) => ({
     threadTs,
     channelId: w.channelId,
     dagName: w.dagName,
-    hasCliChild: w.cliChild !== null,
+    ruleName: w.ruleName,
+    hasCliChild: w.cliRun !== null,
   }));
 }
 
@@ -406,9 +406,9 @@ export function killDelayWorkflow(threadTs: string): boolean {
   const workflow = workflows.get(threadTs);
   if (!workflow) return false;
   clearFeedbackTimer(workflow);
-  if (workflow.cliChild) {
-    safeKill(workflow.cliChild);
-    workflow.cliChild = null;
+  if (workflow.cliRun) {
+    workflow.cliRun.kill();
+    workflow.cliRun = null;
   }
   workflows.delete(threadTs);
   deleteWorkflow(threadTs);
@@ -426,9 +426,9 @@ export function isWorkflowActiveForDag(dagName: string): boolean {
 export function killAllDelayWorkflows(): void {
   for (const [key, workflow] of workflows) {
     clearFeedbackTimer(workflow);
-    if (workflow.cliChild) {
-      safeKill(workflow.cliChild);
-      workflow.cliChild = null;
+    if (workflow.cliRun) {
+      workflow.cliRun.kill();
+      workflow.cliRun = null;
     }
     deleteWorkflow(key);
     workflows.delete(key);
@@ -446,7 +446,11 @@ export function restoreDelayWorkflows(app: App): void {
       channelId: row.channel_id,
       threadTs: row.thread_ts,
       dagName: row.dag_name || "unknown",
-      cliChild: null,
+      ruleName: row.rule_name,
+      skill: row.skill || config.delayAlertSkill,
+      model: row.model || config.alertModel,
+      airflowRunId: null,
+      cliRun: null,
       feedbackTimer: null,
     };
     workflows.set(row.thread_ts, workflow);
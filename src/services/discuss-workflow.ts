@@ -1,18 +1,21 @@
 import type { App } from "@slack/bolt";
-import type { ChildProcess } from "node:child_process";
 import { config } from "../config.js";
 import {
   spawnDiscussCli,
   compactCliSession,
-  safeKill,
-  chunkResponse,
-  markdownToSlackMrkdwn,
   rewriteApiError,
   detectAndLoadSkill,
+  type CliRun,
   type DiscussCliResult,
   type SkillContext,
 } from "./claude-cli.js";
-import { insertWorkflow, updateWorkflowCliSession, updateWorkflowLastSeenTs, deleteWorkflow, getWorkflowsByType } from "./database.js";
+import { insertWorkflow, updateWorkflowCliSession, updateWorkflowLastSeenTs, deleteWorkflow, getWorkflowsByType, getWorkflow } from "./database.js";
+import { enforceBudget, clearBudgetWarnings, type LedgerContext } from "./cost-ledger.js";
+import { createProgressReporter, type ProgressReporter } from "./progress-reporter.js";
+import { archiveReport } from "./report-archive.js";
+import { formatClusterContext } from "./incident-clusters.js";
+import { postMessage, updateMessage } from "./slack-gateway.js";
+import { formatTokens, markdownToSlackMrkdwn, postResponse, usageFooter } from "./response-renderer.js";
 
 const CONTEXT_WARN_TOKENS = 150_000;
 const CONTEXT_MAX_TOKENS = 200_000;
@@ -21,86 +24,52 @@ export interface ActiveDiscussion {
   channelId: string;
   threadTs: string;
   cliSessionId: string | null;
-  cliChild: ChildProcess | null;
+  cliRun: CliRun | null;
   isProcessing: boolean;
   lastSeenTs: string | null;
 }
 
 const discussions = new Map<string, ActiveDiscussion>();
 
-function formatTokens(n: number): string {
-  if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
-  return `${n}`;
-}
-
-function buildUsageFooter(result: DiscussCliResult): string {
-  const parts: string[] = [];
-
-  parts.push(`model: ${config.discussModel}`);
-
-  if (result.inputTokens != null) {
-    const pct = Math.round((result.inputTokens / CONTEXT_MAX_TOKENS) * 100);
-    parts.push(`context: ${formatTokens(result.inputTokens)} (${pct}%)`);
-  }
-
-  if (parts.length === 0) return "";
-
-  let footer = `\n\n---\n_${parts.join(" | ")}_`;
-
+function buildUsageFooter(result: DiscussCliResult, model: string): string[] {
+  const parts = usageFooter(result, model);
   if (result.inputTokens != null && result.inputTokens >= CONTEXT_WARN_TOKENS) {
-    footer += `\n_context getting full — use \`!compact\` to reset_`;
+    parts.push("context getting full — use `!compact` to reset");
   }
-
-  return footer;
+  return parts;
 }
 
 function stripMention(text: string): string {
   return text.replace(/<@[A-Z0-9]+>/g, "").trim();
 }
 
-function formatElapsed(ms: number): string {
-  const totalSec = Math.floor(ms / 1000);
-  const min = Math.floor(totalSec / 60);
-  const sec = totalSec % 60;
-  if (min === 0) return `${sec}s`;
-  return `${min}m ${sec}s`;
-}
-
 async function runDiscussCliWithHeartbeat(
-  app: App,
   discussion: ActiveDiscussion,
   threadTs: string,
   thinkingTs: string | undefined,
-  child: ChildProcess,
-  done: Promise<DiscussCliResult>
+  run: CliRun,
+  progress: ProgressReporter,
+  model: string,
+  skill?: string
 ): Promise<void> {
-  const startTime = Date.now();
-
-  // Heartbeat: update "Thinking..." with elapsed time
-  const heartbeatInterval = thinkingTs
-    ? setInterval(async () => {
-        const elapsed = formatElapsed(Date.now() - startTime);
-        try {
-          await app.client.chat.update({
-            channel: discussion.channelId,
-            ts: thinkingTs,
-            text: `Thinking... (${elapsed})`,
-          });
-        } catch {}
-      }, config.discussHeartbeatIntervalMs)
-    : null;
-
-  // Timeout: kill CLI if it runs too long
+  // Timeout: kill CLI if it runs too long (armed once it leaves the pool queue)
   let timedOut = false;
-  const timeoutTimer = setTimeout(() => {
-    timedOut = true;
-    safeKill(child);
-  }, config.discussCliTimeoutMs);
+  let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  const armTimeout = () => {
+    timeoutTimer = setTimeout(() => {
+      timedOut = true;
+      run.kill();
+    }, config.discussCliTimeoutMs);
+  };
+  if (run.child) armTimeout();
+  else run.on("spawned", armTimeout);
 
   try {
-    const result = await done;
+    const result = await run.done;
+    // Stop live progress before the final edit so a late progress update can't overwrite it
+    await progress.stop();
 
-    discussion.cliChild = null;
+    discussion.cliRun = null;
     discussion.isProcessing = false;
 
     // Check for API errors first, before persisting the (potentially corrupted) session ID
@@ -118,6 +87,7 @@ async function runDiscussCliWithHeartbeat(
     }
 
     let fullText: string;
+    let footer: string[] = [];
     if (timedOut) {
       const mins = Math.round(config.discussCliTimeoutMs / 60000);
       fullText = `CLI session timed out after ${mins} minutes. Use \`!exit\` and try again.`;
@@ -128,97 +98,46 @@ async function runDiscussCliWithHeartbeat(
       fullText = `CLI exited with error (code: ${result.exitCode}). Use \`!exit\` and try again.`;
       console.log(`[Discuss] CLI error for thread ${threadTs} (exit: ${result.exitCode})`);
     } else {
-      const response = rawResponse || "No response from Claude CLI.";
-      fullText = markdownToSlackMrkdwn(response) + buildUsageFooter(result);
+      fullText = rawResponse || "No response from Claude CLI.";
+      footer = buildUsageFooter(result, model);
     }
     console.log(
       `[Discuss] CLI done for thread ${threadTs} ` +
         `(exit: ${result.exitCode}, session: ${discussion.cliSessionId || "none"})`
     );
 
-    try {
-      const chunks = chunkResponse(fullText);
-
-      // First chunk: update the "Thinking..." message or post new
-      if (thinkingTs) {
-        try {
-          await app.client.chat.update({
-            channel: discussion.channelId,
-            ts: thinkingTs,
-            text: chunks[0],
-          });
-        } catch (updateErr: any) {
-          if (updateErr?.data?.error === "msg_too_long") {
-            console.warn(`[Discuss] msg_too_long on update, truncating (${chunks[0].length} chars)`);
-            await app.client.chat.update({
-              channel: discussion.channelId,
-              ts: thinkingTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-          } else {
-            throw updateErr;
-          }
-        }
-        discussion.lastSeenTs = thinkingTs;
-      } else {
-        try {
-          const posted = await app.client.chat.postMessage({
-            channel: discussion.channelId,
-            thread_ts: threadTs,
-            text: chunks[0],
-          });
-          if (posted.ts) discussion.lastSeenTs = posted.ts;
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[Discuss] msg_too_long on post, truncating (${chunks[0].length} chars)`);
-            const posted = await app.client.chat.postMessage({
-              channel: discussion.channelId,
-              thread_ts: threadTs,
-              text: chunks[0].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-            if (posted.ts) discussion.lastSeenTs = posted.ts;
-          } else {
-            throw postErr;
-          }
-        }
-      }
+    // Sessions converted from alert/delay workflows keep their incident and DAG
+    const row = getWorkflow(threadTs);
+    archiveReport({
+      workflowType: "discuss",
+      kind: "reply",
+      channelId: discussion.channelId,
+      threadTs,
+      incidentId: row?.incident_id,
+      dagName: row?.dag_name,
+      skill,
+      model,
+      text: fullText,
+      result,
+      status: timedOut ? "timeout" : friendlyError ? "api_error" : undefined,
+    });
 
-      // Remaining chunks as thread replies
-      for (let i = 1; i < chunks.length; i++) {
-        try {
-          const reply = await app.client.chat.postMessage({
-            channel: discussion.channelId,
-            thread_ts: threadTs,
-            text: chunks[i],
-          });
-          if (reply.ts) discussion.lastSeenTs = reply.ts;
-        } catch (postErr: any) {
-          if (postErr?.data?.error === "msg_too_long") {
-            console.warn(`[Discuss] msg_too_long on chunk ${i}, truncating (${chunks[i].length} chars)`);
-            const reply = await app.client.chat.postMessage({
-              channel: discussion.channelId,
-              thread_ts: threadTs,
-              text: chunks[i].slice(0, 3800) + "\n\n_(truncated)_",
-            });
-            if (reply.ts) discussion.lastSeenTs = reply.ts;
-          } else {
-            throw postErr;
-          }
-        }
-      }
+    try {
+      const posted = await postResponse({ channel: discussion.channelId, threadTs, replaceTs: thinkingTs }, fullText, footer);
+      if (posted.lastTs) discussion.lastSeenTs = posted.lastTs;
     } catch (err) {
       console.error(`[Discuss] Failed to post response:`, err);
       // Last resort: post a short fallback so the user knows something went wrong
       try {
-        const fallbackText = fullText.slice(0, 3500) + "\n\n_(response truncated due to posting error)_";
+        const fallbackText = markdownToSlackMrkdwn(fullText).slice(0, 3500) + "\n\n_(response truncated due to posting error)_";
         if (thinkingTs) {
-          await app.client.chat.update({
+          await updateMessage({
             channel: discussion.channelId,
             ts: thinkingTs,
             text: fallbackText,
           });
         } else {
-          await app.client.chat.postMessage({
+          await postMessage({
             channel: discussion.channelId,
             thread_ts: threadTs,
             text: fallbackText,
@@ -229,8 +148,8 @@ async function runDiscussCliWithHeartbeat(
       }
     }
   } finally {
-    clearTimeout(timeoutTimer);
-    if (heartbeatInterval) clearInterval(heartbeatInterval);
+    if (timeoutTimer) clearTimeout(timeoutTimer);
+    await progress.stop();
 
     // Persist lastSeenTs to DB so it survives restarts
     if (discussion.lastSeenTs) {
@@ -250,7 +169,7 @@ export function createDiscussFromWorkflow(
     channelId,
     threadTs,
     cliSessionId,
-    cliChild: null,
+    cliRun: null,
     isProcessing: false,
     lastSeenTs,
   };
@@ -263,18 +182,28 @@ export async function startDiscussSession(
   channelId: string,
   messageTs: string,
   text: string,
-  predetectedSkill?: SkillContext
+  predetectedSkill?: SkillContext,
+  userId?: string
 ): Promise<void> {
   if (discussions.has(messageTs)) return;
 
   const cleanText = stripMention(text);
   if (!cleanText) return;
 
+  const ledger: LedgerContext = {
+    workflowType: "discuss",
+    userId,
+    channelId,
+    threadTs: messageTs,
+    skill: predetectedSkill?.skillName,
+  };
+  if (!(await enforceBudget(app, ledger, channelId, messageTs))) return;
+
   const discussion: ActiveDiscussion = {
     channelId,
     threadTs: messageTs,
     cliSessionId: null,
-    cliChild: null,
+    cliRun: null,
     isProcessing: true,
     lastSeenTs: null,
   };
@@ -285,7 +214,7 @@ export async function startDiscussSession(
 
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: channelId,
       thread_ts: messageTs,
       text: "Thinking...",
@@ -298,20 +227,26 @@ export async function startDiscussSession(
   // Only use skills explicitly detected from the user's message (not from thread context).
   // Callers pre-detect skills on the user's actual text before calling us.
   const skillContext = predetectedSkill;
-  const { child, done } = spawnDiscussCli(cleanText, config.paymentsRepoPath, {
+  const progress = createProgressReporter(channelId, thinkingTs, "Thinking...");
+  const run = spawnDiscussCli(cleanText, config.paymentsRepoPath, {
     model: config.discussModel,
     skillContext,
+    ledger,
+    onProgress: progress.update,
   });
-  discussion.cliChild = child;
+  discussion.cliRun = run;
 
-  // Fire-and-forget: heartbeat + timeout + response handling
-  runDiscussCliWithHeartbeat(app, discussion, messageTs, thinkingTs, child, done);
+  // Fire-and-forget: live progress + timeout + response handling
+  runDiscussCliWithHeartbeat(discussion, messageTs, thinkingTs, run, progress, config.discussModel, ledger.skill);
 }
 
+/** Reply in a session; options.model runs just this turn on another model (the report's "Escalate to Opus") */
 export async function handleDiscussReply(
   app: App,
   threadTs: string,
-  text: string
+  text: string,
+  userId?: string,
+  options: { model?: string } = {}
 ): Promise<void> {
   const discussion = discussions.get(threadTs);
   if (!discussion) return;
@@ -321,7 +256,7 @@ export async function handleDiscussReply(
 
   if (discussion.isProcessing) {
     try {
-      await app.client.chat.postMessage({
+      await postMessage({
         channel: discussion.channelId,
         thread_ts: threadTs,
         text: "Still thinking on your previous message... hang tight.",
@@ -330,6 +265,9 @@ export async function handleDiscussReply(
     return;
   }
 
+  const ledger: LedgerContext = { workflowType: "discuss", userId, channelId: discussion.channelId, threadTs };
+  if (!(await enforceBudget(app, ledger, discussion.channelId, threadTs))) return;
+
   discussion.isProcessing = true;
 
   // If session was reset (e.g. API error), start fresh with just the user's prompt.
@@ -342,11 +280,13 @@ export async function handleDiscussReply(
   // Skip skill detection for fresh sessions after reset to avoid re-executing thread skills.
   const skillContext = isResume ? (detectAndLoadSkill(cleanText, config.paymentsRepoPath) ?? undefined) : undefined;
 
+  ledger.skill = skillContext?.skillName;
+
   console.log(`[Discuss] ${isResume ? "Follow-up" : "Fresh session (after reset)"} in thread ${threadTs}`);
 
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: discussion.channelId,
       thread_ts: threadTs,
       text: "Thinking...",
@@ -354,27 +294,36 @@ export async function handleDiscussReply(
     thinkingTs = res.ts || undefined;
   } catch {}
 
-  const { child, done } = spawnDiscussCli(cleanText, config.paymentsRepoPath, {
-    model: config.discussModel,
+  // A converted investigation keeps seeing the alerts its incident cluster absorbed
+  const clusterContext = formatClusterContext(threadTs);
+  const prompt = clusterContext ? `${clusterContext}\n\n${cleanText}` : cleanText;
+
+  const model = options.model || config.discussModel;
+  const progress = createProgressReporter(discussion.channelId, thinkingTs, "Thinking...");
+  const run = spawnDiscussCli(prompt, config.paymentsRepoPath, {
+    model,
     resumeSessionId: discussion.cliSessionId || undefined,
     skillContext,
+    ledger,
+    onProgress: progress.update,
   });
-  discussion.cliChild = child;
+  discussion.cliRun = run;
 
-  // Fire-and-forget: heartbeat + timeout + response handling
-  runDiscussCliWithHeartbeat(app, discussion, threadTs, thinkingTs, child, done);
+  // Fire-and-forget: live progress + timeout + response handling
+  runDiscussCliWithHeartbeat(discussion, threadTs, thinkingTs, run, progress, model, ledger.skill);
 }
 
 export async function handleDiscussCompact(
   app: App,
-  threadTs: string
+  threadTs: string,
+  userId?: string
 ): Promise<void> {
   const discussion = discussions.get(threadTs);
   if (!discussion) return;
 
   if (discussion.isProcessing) {
     try {
-      await app.client.chat.postMessage({
+      await postMessage({
         channel: discussion.channelId,
         thread_ts: threadTs,
         text: "Can't compact while still processing. Wait for the current response.",
@@ -385,7 +334,7 @@ export async function handleDiscussCompact(
 
   if (!discussion.cliSessionId) {
     try {
-      await app.client.chat.postMessage({
+      await postMessage({
         channel: discussion.channelId,
         thread_ts: threadTs,
         text: "No active session to compact.",
@@ -400,7 +349,7 @@ export async function handleDiscussCompact(
 
   let thinkingTs: string | undefined;
   try {
-    const res = await app.client.chat.postMessage({
+    const res = await postMessage({
       channel: discussion.channelId,
       thread_ts: threadTs,
       text: "Compacting...",
@@ -410,15 +359,18 @@ export async function handleDiscussCompact(
 
   // Real /compact — pipes the command to the CLI's interactive stdin.
   // Compacts the session in-place (same session ID, smaller context).
-  const { child, done } = compactCliSession(
+  const { run, done } = compactCliSession(
     discussion.cliSessionId,
     config.paymentsRepoPath,
-    { model: config.discussModel }
+    {
+      model: config.discussModel,
+      ledger: { workflowType: "discuss", userId, channelId: discussion.channelId, threadTs, skill: "compact" },
+    }
   );
-  discussion.cliChild = child;
+  discussion.cliRun = run;
 
   const result = await done;
-  discussion.cliChild = null;
+  discussion.cliRun = null;
   discussion.isProcessing = false;
 
   let message: string;
@@ -438,13 +390,13 @@ export async function handleDiscussCompact(
 
   try {
     if (thinkingTs) {
-      await app.client.chat.update({
+      await updateMessage({
         channel: discussion.channelId,
         ts: thinkingTs,
         text: message,
       });
     } else {
-      await app.client.chat.postMessage({
+      await postMessage({
         channel: discussion.channelId,
         thread_ts: threadTs,
         text: message,
@@ -461,18 +413,19 @@ export async function handleDiscussExit(
   if (!discussion) return;
 
   // Kill any running CLI
-  if (discussion.cliChild) {
-    safeKill(discussion.cliChild);
-    discussion.cliChild = null;
+  if (discussion.cliRun) {
+    discussion.cliRun.kill();
+    discussion.cliRun = null;
   }
 
   discussions.delete(threadTs);
   deleteWorkflow(threadTs);
+  clearBudgetWarnings(threadTs);
 
   console.log(`[Discuss] Session ended for thread ${threadTs}`);
 
   try {
-    await app.client.chat.postMessage({
+    await postMessage({
       channel: discussion.channelId,
       thread_ts: threadTs,
       text: "Session ended. Start a new conversation with a top-level message.",
@@ -499,7 +452,7 @@ export function getAllDiscussions(): Array<{
     channelId: d.channelId,
     cliSessionId: d.cliSessionId,
     isProcessing: d.isProcessing,
-    hasCliChild: d.cliChild !== null,
+    hasCliChild: d.cliRun !== null,
     lastSeenTs: d.lastSeenTs,
   }));
 }
@@ -507,9 +460,9 @@ export function getAllDiscussions(): Array<{
 export function killDiscussSession(threadTs: string): boolean {
   const discussion = discussions.get(threadTs);
   if (!discussion) return false;
-  if (discussion.cliChild) {
-    safeKill(discussion.cliChild);
-    discussion.cliChild = null;
+  if (discussion.cliRun) {
+    discussion.cliRun.kill();
+    discussion.cliRun = null;
   }
   discussions.delete(threadTs);
   deleteWorkflow(threadTs);
@@ -520,9 +473,9 @@ export function killDiscussSession(threadTs: string): boolean {
 export function killAllDiscussWorkflows(): void {
   let killed = 0;
   for (const [key, discussion] of discussions) {
-    if (discussion.cliChild) {
-      safeKill(discussion.cliChild);
-      discussion.cliChild = null;
+    if (discussion.cliRun) {
+      discussion.cliRun.kill();
+      discussion.cliRun = null;
       killed++;
     }
     // Don't delete from DB — sessions should survive restarts so follow-ups
@@ -542,7 +495,7 @@ export function restoreDiscussions(): void {
       channelId: row.channel_id,
       threadTs: row.thread_ts,
       cliSessionId: row.cli_session_id,
-      cliChild: null,
+      cliRun: null,
       isProcessing: false,
       lastSeenTs: row.last_seen_ts,
     };
@@ -0,0 +1,35 @@
+import { insertIncidentAction, type IncidentActionRow } from "./database.js";
+
+export interface IncidentActionInput {
+  incidentId?: string | null;
+  /** Omitted for actions the bot takes on its own */
+  userId?: string | null;
+  detail?: string | null;
+}
+
+/** Log an action taken in an alert thread. Never throws — the action itself already happened. */
+export function recordIncidentAction(threadTs: string, action: string, input: IncidentActionInput = {}): void {
+  try {
+    insertIncidentAction({
+      thread_ts: threadTs,
+      incident_id: input.incidentId ?? null,
+      user_id: input.userId ?? null,
+      action,
+      detail: input.detail ?? null,
+      created_at: Date.now(),
+    });
+  } catch (err) {
+    console.error(`[IncidentActions] Failed to record ${action} for thread ${threadTs}:`, err);
+  }
+}
+
+/** "2026-10-02 09:14 UTC <@U123> pd_resolve: fixed by rollback" lines, oldest first; `names` replaces the mentions */
+export function formatIncidentActions(actions: IncidentActionRow[], names?: Map<string, string>): string {
+  return actions
+    .map((a) => {
+      const when = new Date(a.created_at).toISOString().slice(0, 16).replace("T", " ");
+      const who = a.user_id ? names?.get(a.user_id) ?? `<@${a.user_id}>` : "bot";
+      return `- ${when} UTC ${who} ${a.action}${a.detail ? `: ${a.detail}` : ""}`;
+    })
+    .join("\n");
+}
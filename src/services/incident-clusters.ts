@@ -0,0 +1,209 @@
+import { config } from "../config.js";
+import {
+  insertIncidentCluster,
+  getIncidentCluster,
+  getRecentIncidentClusters,
+  touchIncidentCluster,
+  insertClusterMember,
+  getClusterMembers,
+  getClusterMemberByThread,
+  getClusterMemberByIncident,
+  markClusterMemberSplit,
+  getWorkflow,
+  type IncidentClusterRow,
+  type ClusterMemberRow,
+} from "./database.js";
+
+/** Enough of an alert to compare against later ones without storing whole payloads */
+const ALERT_TEXT_MAX_LENGTH = 4000;
+
+/** Words every alert shares; they would make unrelated alerts look similar */
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "from", "this", "that", "are", "was", "has", "have", "not",
+  "alert", "alerts", "incident", "triggered", "service", "urgency", "high", "low", "priority", "details",
+]);
+
+/** An alert about to start an investigation, as the correlation layer sees it */
+export interface ClusterAlert {
+  channelId: string;
+  threadTs: string;
+  /** Message text plus attachment text */
+  text: string;
+  incidentId: string | null;
+  service: string | null;
+  ruleName: string | null;
+  skill: string;
+  model: string;
+}
+
+export interface CorrelatedCluster {
+  cluster: IncidentClusterRow;
+  members: ClusterMemberRow[];
+  score: number;
+}
+
+export interface ThreadCluster {
+  cluster: IncidentClusterRow;
+  /** This thread's membership */
+  member: ClusterMemberRow;
+  /** Everyone still in the cluster, primary first */
+  members: ClusterMemberRow[];
+  isPrimary: boolean;
+}
+
+/** Build a Slack message permalink */
+export function clusterMemberLink(channelId: string, threadTs: string): string {
+  return `https://${config.slackWorkspaceDomain}/archives/${channelId}/p${threadTs.replace(".", "")}`;
+}
+
+/** Lowercased words without links, IDs and numbers (which differ between otherwise identical alerts) */
+export function alertTokens(text: string): Set<string> {
+  const cleaned = text
+    .toLowerCase()
+    .replace(/<[^|>]*\|([^>]*)>/g, " $1 ")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/https?:\/\/\S+/g, " ");
+  return new Set(
+    cleaned.split(/[^a-z0-9]+/).filter((t) => t.length >= 3 && !/\d/.test(t) && !STOPWORDS.has(t))
+  );
+}
+
+/** Jaccard similarity of the alerts' word sets (0-1) */
+export function textSimilarity(a: string, b: string): number {
+  const left = alertTokens(a);
+  const right = alertTokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared++;
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * How related two alerts are (0-1). A shared service counts for half and text similarity for the
+ * other half; a different service caps the score at 0.5. Without a service on both sides the
+ * score is the text similarity alone.
+ */
+export function correlationScore(
+  a: { service: string | null; text: string },
+  b: { service: string | null; text: string }
+): number {
+  const similarity = textSimilarity(a.text, b.text);
+  if (!a.service || !b.service) return similarity;
+  return a.service.toLowerCase() === b.service.toLowerCase() ? 0.5 + similarity / 2 : similarity / 2;
+}
+
+/**
+ * The open cluster this alert belongs to, if any: one that received an alert within
+ * ALERT_CLUSTER_WINDOW_MS, whose primary's first investigation hasn't finished (`isOpen`), and
+ * with a member scoring at least ALERT_CLUSTER_THRESHOLD. The best-scoring cluster wins.
+ */
+export function findCorrelatedCluster(
+  alert: ClusterAlert,
+  isOpen: (primaryThreadTs: string) => boolean,
+  now = Date.now()
+): CorrelatedCluster | null {
+  if (config.alertClusterWindowMs <= 0) return null;
+
+  let best: CorrelatedCluster | null = null;
+  for (const cluster of getRecentIncidentClusters(now - config.alertClusterWindowMs)) {
+    if (cluster.primary_thread_ts === alert.threadTs) continue;
+    // A finished investigation can't take a new alert into account
+    if (!isOpen(cluster.primary_thread_ts)) continue;
+
+    const members = getClusterMembers(cluster.id);
+    const score = Math.max(0, ...members.map((m) => correlationScore(alert, { service: m.service, text: m.alert_text })));
+    if (score >= config.alertClusterThreshold && score > (best?.score ?? 0)) {
+      best = { cluster, members, score };
+    }
+  }
+  return best;
+}
+
+function memberFields(alert: ClusterAlert): Omit<ClusterMemberRow, "id" | "cluster_id" | "score" | "joined_at" | "split_at"> {
+  return {
+    thread_ts: alert.threadTs,
+    channel_id: alert.channelId,
+    incident_id: alert.incidentId,
+    service: alert.service,
+    rule_name: alert.ruleName,
+    skill: alert.skill,
+    model: alert.model,
+    alert_text: alert.text.slice(0, ALERT_TEXT_MAX_LENGTH),
+  };
+}
+
+/** Record a new investigation as the primary of its own cluster; returns the cluster ID */
+export function createIncidentCluster(alert: ClusterAlert, now = Date.now()): number {
+  const clusterId = insertIncidentCluster(alert.threadTs, alert.channelId, alert.service, now);
+  insertClusterMember({ ...memberFields(alert), cluster_id: clusterId, score: null, joined_at: now });
+  return clusterId;
+}
+
+/** Add an alert to a cluster instead of investigating it; keeps the cluster open for another window */
+export function joinIncidentCluster(clusterId: number, alert: ClusterAlert, score: number, now = Date.now()): void {
+  insertClusterMember({ ...memberFields(alert), cluster_id: clusterId, score, joined_at: now });
+  touchIncidentCluster(clusterId, now);
+  console.log(`[IncidentClusters] Thread ${alert.threadTs} joined cluster #${clusterId} (score ${score.toFixed(2)})`);
+}
+
+/** The cluster a thread is part of (as primary or member), or null */
+export function getThreadCluster(threadTs: string): ThreadCluster | null {
+  const member = getClusterMemberByThread(threadTs);
+  const cluster = member ? getIncidentCluster(member.cluster_id) : undefined;
+  if (!member || !cluster) return null;
+  return {
+    cluster,
+    member,
+    members: getClusterMembers(cluster.id),
+    isPrimary: cluster.primary_thread_ts === threadTs,
+  };
+}
+
+/** Take a member out of its cluster; the row stays as a record of the original grouping */
+export function detachClusterMember(member: ClusterMemberRow, now = Date.now()): void {
+  markClusterMemberSplit(member.id, now);
+  console.log(`[IncidentClusters] Thread ${member.thread_ts} split from cluster #${member.cluster_id}`);
+}
+
+/**
+ * Dissolve the cluster a primary thread created when its investigation never started (PagerDuty
+ * already handled, no skill, budget refused). Returns the alerts that joined it meanwhile.
+ */
+export function dissolveIncidentCluster(primaryThreadTs: string, now = Date.now()): ClusterMemberRow[] {
+  const thread = getThreadCluster(primaryThreadTs);
+  if (!thread?.isPrimary) return [];
+  for (const member of thread.members) markClusterMemberSplit(member.id, now);
+  console.log(`[IncidentClusters] Cluster #${thread.cluster.id} dissolved, its investigation didn't start`);
+  return thread.members.filter((m) => m.thread_ts !== primaryThreadTs);
+}
+
+/** Whether an incident is covered by a member of a cluster that is still being investigated */
+export function isIncidentClustered(incidentId: string): boolean {
+  const member = getClusterMemberByIncident(incidentId);
+  const cluster = member ? getIncidentCluster(member.cluster_id) : undefined;
+  return Boolean(cluster && getWorkflow(cluster.primary_thread_ts));
+}
+
+/** Prompt block listing the alerts folded into a primary thread's investigation ("" when there are none) */
+export function formatClusterContext(primaryThreadTs: string): string {
+  const thread = getThreadCluster(primaryThreadTs);
+  if (!thread?.isPrimary) return "";
+  const related = thread.members.filter((m) => m.thread_ts !== primaryThreadTs);
+  if (related.length === 0) return "";
+
+  const lines = [
+    `<related_alerts cluster="${thread.cluster.id}">`,
+    "These alerts were correlated with the one under investigation and are not investigated separately:",
+    ...related.map((m) => {
+      const meta = [
+        m.incident_id ? `PD incident ${m.incident_id}` : "",
+        m.service ? `service ${m.service}` : "",
+        m.score !== null ? `score ${m.score.toFixed(2)}` : "",
+      ].filter(Boolean);
+      const summary = m.alert_text.replace(/\s+/g, " ").slice(0, 300);
+      return `- ${clusterMemberLink(m.channel_id, m.thread_ts)} (${meta.join(", ")}): ${summary}`;
+    }),
+    "</related_alerts>",
+  ];
+  return lines.join("\n");
+}
@@ -0,0 +1,113 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { getAllWorkflows, clearWorkflowIncident, type ActiveWorkflowRow } from "./database.js";
+import { getActiveWorkflow, cleanupWorkflow } from "./alert-workflow.js";
+import { getPagerDutyIncident } from "./pagerduty.js";
+import { postMessage } from "./slack-gateway.js";
+
+/** How often to re-check whether syncing was enabled by a config reload */
+const SYNC_DISABLED_RECHECK_MS = 60_000;
+
+let syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Incident ID → workflow rows (alert workflows and converted discuss sessions) tracking it */
+function trackedIncidents(): Map<string, ActiveWorkflowRow[]> {
+  const byIncident = new Map<string, ActiveWorkflowRow[]>();
+  for (const row of getAllWorkflows()) {
+    if (!row.incident_id) continue;
+    const rows = byIncident.get(row.incident_id) ?? [];
+    rows.push(row);
+    byIncident.set(row.incident_id, rows);
+  }
+  return byIncident;
+}
+
+export interface IncidentResolvedOptions {
+  /** Who resolved it, as reported by PagerDuty */
+  resolvedBy?: string | null;
+  htmlUrl?: string | null;
+  /** Post a note in each tracking thread */
+  announce: boolean;
+}
+
+/**
+ * Stop tracking a resolved incident. Alert workflows are cleaned up (killing any running
+ * investigation); discuss sessions converted from them keep going but drop the incident link.
+ * Returns the number of threads that were tracking it.
+ */
+export async function handleIncidentResolved(
+  app: App,
+  incidentId: string,
+  options: IncidentResolvedOptions
+): Promise<number> {
+  const rows = trackedIncidents().get(incidentId) ?? [];
+  const label = options.htmlUrl ? `<${options.htmlUrl}|${incidentId}>` : incidentId;
+
+  for (const row of rows) {
+    const workflow = getActiveWorkflow(row.thread_ts);
+    if (workflow) {
+      await cleanupWorkflow(app, workflow);
+    } else {
+      clearWorkflowIncident(row.thread_ts);
+    }
+
+    if (!options.announce) continue;
+    try {
+      await postMessage({
+        channel: row.channel_id,
+        thread_ts: row.thread_ts,
+        text:
+          `:white_check_mark: PagerDuty incident ${label} was resolved` +
+          (options.resolvedBy ? ` by ${options.resolvedBy}` : "") +
+          (workflow ? " — investigation stopped." : " — no longer tracking it here."),
+      });
+    } catch (err) {
+      console.error(`[IncidentSync] Failed to post resolution to thread ${row.thread_ts}:`, err);
+    }
+  }
+
+  if (rows.length > 0) {
+    console.log(`[IncidentSync] Incident ${incidentId} resolved — released ${rows.length} thread(s)`);
+  }
+  return rows.length;
+}
+
+/** Check every tracked incident once and release the ones resolved in PagerDuty */
+async function syncOnce(app: App): Promise<void> {
+  if (!config.pagerdutyApiToken) return;
+  for (const incidentId of trackedIncidents().keys()) {
+    const incident = await getPagerDutyIncident(incidentId, config.pagerdutyApiToken);
+    if (incident?.status !== "resolved") continue;
+    console.log(
+      `[IncidentSync] ${incidentId} resolved in PagerDuty` +
+        (incident.lastStatusChangeBy ? ` by ${incident.lastStatusChangeBy}` : "")
+    );
+    await handleIncidentResolved(app, incidentId, {
+      resolvedBy: incident.lastStatusChangeBy,
+      htmlUrl: incident.htmlUrl,
+      announce: true,
+    });
+  }
+}
+
+/** Poll tracked incidents every PAGERDUTY_SYNC_INTERVAL_MS (re-read each round, so reloads apply) */
+export function startIncidentSync(app: App): void {
+  const tick = async (): Promise<void> => {
+    if (config.pagerdutySyncIntervalMs > 0) {
+      try {
+        await syncOnce(app);
+      } catch (err) {
+        console.error("[IncidentSync] Sync failed:", err);
+      }
+    }
+    syncTimer = setTimeout(tick, config.pagerdutySyncIntervalMs || SYNC_DISABLED_RECHECK_MS);
+    syncTimer.unref();
+  };
+  syncTimer = setTimeout(tick, config.pagerdutySyncIntervalMs || SYNC_DISABLED_RECHECK_MS);
+  syncTimer.unref();
+}
+
+export function stopIncidentSync(): void {
+  if (syncTimer) clearTimeout(syncTimer);
+  syncTimer = null;
+}
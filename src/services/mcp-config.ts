@@ -4,46 +4,77 @@ import { config } from "../config.js";
 
 let mcpConfigPath: string | null = null;
 
+export interface McpServerStatus {
+  name: string;
+  /** "disabled" servers are configured but switched off for the project — they get force-enabled */
+  status: "enabled" | "disabled" | "missing";
+}
+
+export interface McpInspection {
+  /** Why detection was skipped (no Claude config, no project entry, ...) */
+  skipped?: string;
+  servers: McpServerStatus[];
+  /** Server configs to pass via --mcp-config */
+  overrides: Record<string, any>;
+}
+
 /**
- * Read ~/.claude.json, find project config for paymentsRepoPath,
- * check if any required MCP servers are disabled.
- * If so, extract their config and write a temp override JSON file.
- * Returns the path to the override file, or null if none needed.
+ * Read ~/.claude.json and find the project config for paymentsRepoPath.
+ * Reports each required MCP server without writing anything.
  */
-export function detectMcpOverrides(): string | null {
+export function inspectMcpServers(): McpInspection {
   const claudeConfigPath = config.claudeConfigPath;
   if (!existsSync(claudeConfigPath)) {
-    console.log("[MCP] Claude config not found, skipping MCP detection");
-    return null;
+    return { skipped: "Claude config not found", servers: [], overrides: {} };
   }
 
   let claudeConfig: any;
   try {
     claudeConfig = JSON.parse(readFileSync(claudeConfigPath, "utf-8"));
   } catch (err) {
-    console.warn("[MCP] Failed to parse Claude config:", err);
-    return null;
+    return { skipped: `Failed to parse Claude config: ${(err as Error).message}`, servers: [], overrides: {} };
   }
 
   const projectConfig = claudeConfig.projects?.[config.paymentsRepoPath];
   if (!projectConfig) {
-    console.log(`[MCP] No project config found for ${config.paymentsRepoPath}`);
-    return null;
+    return { skipped: `No project config found for ${config.paymentsRepoPath}`, servers: [], overrides: {} };
   }
 
   const mcpServers = projectConfig.mcpServers || {};
   const disabled = new Set(projectConfig.disabledMcpServers || []);
+  const servers: McpServerStatus[] = [];
   const overrides: Record<string, any> = {};
 
   for (const name of config.requiredMcpServers) {
     if (!mcpServers[name]) {
+      servers.push({ name, status: "missing" });
+    } else {
+      servers.push({ name, status: disabled.has(name) ? "disabled" : "enabled" });
+      overrides[name] = mcpServers[name];
+    }
+  }
+  return { servers, overrides };
+}
+
+/**
+ * Check if any required MCP servers are disabled for the project.
+ * If so, extract their config and write a temp override JSON file.
+ * Returns the path to the override file, or null if none needed.
+ */
+export function detectMcpOverrides(): string | null {
+  const { skipped, servers, overrides } = inspectMcpServers();
+  if (skipped) {
+    console.log(`[MCP] ${skipped}, skipping MCP detection`);
+    return null;
+  }
+
+  for (const { name, status } of servers) {
+    if (status === "missing") {
       console.warn(`[MCP] Required server "${name}" not configured in project`);
-    } else if (disabled.has(name)) {
+    } else if (status === "disabled") {
       console.log(`[MCP] Required server "${name}" is disabled — force-enabling via --mcp-config`);
-      overrides[name] = mcpServers[name];
     } else {
       console.log(`[MCP] Required server "${name}" — including in --mcp-config for subprocess access`);
-      overrides[name] = mcpServers[name];
     }
   }
 
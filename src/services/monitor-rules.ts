@@ -0,0 +1,359 @@
+import { readFileSync } from "node:fs";
+import { config, type Config } from "../config.js";
+
+/** Which investigation lifecycle a rule starts */
+export type MonitorAction = "alert" | "delay_alert";
+
+export type MonitorField = "incidentId" | "dag" | "task" | "service";
+
+/** A regex tested against one message field */
+export interface MonitorCondition {
+  /** "text", "bot_name", "username", "attachments.<field>" or "attachments.*" (any string field) */
+  field: string;
+  /** Case-insensitive regular expression */
+  pattern: string;
+}
+
+/** Pull a value out of a message: the first capture group of the first field that matches */
+export interface MonitorExtractor {
+  fields: string[];
+  pattern: string;
+  /** Rule does not match when this value can't be extracted */
+  required?: boolean;
+}
+
+/** Task name filter with its own threshold; unset fields fall back to the rule's threshold */
+export interface TaskPattern {
+  /** Case-insensitive substring of the extracted task name */
+  pattern: string;
+  count?: number;
+  windowMs?: number;
+  /** Multiplies the weight of every alert for matching tasks (default 1) */
+  weight?: number;
+}
+
+/** A condition that, when it matches, sets the weight of an alert (e.g. "critical" = 3) */
+export interface SeverityLevel extends MonitorCondition {
+  weight: number;
+}
+
+export interface MonitorThreshold {
+  /** Weighted score needed within the sliding window */
+  count: number;
+  windowMs: number;
+  /** Extracted field(s) forming the counter key; "rule" = one counter for the whole rule */
+  key: MonitorField | MonitorField[] | "rule";
+  /** The score trigger waits until the window's alerts span at least this long (ignores short bursts) */
+  minSpanMs?: number;
+  /** Also trigger when the last windowMs scores `factor` times the window before it (needs a non-zero baseline) */
+  rate?: {
+    windowMs: number;
+    factor: number;
+    /** Minimum score in the recent window (default 1) */
+    minScore?: number;
+  };
+}
+
+export interface MonitorRule {
+  name: string;
+  enabled?: boolean;
+  /** Channel names to watch (resolved to IDs at startup) */
+  channels: string[];
+  /** Message subtypes the rule accepts ("*" = any). Default: only plain messages without a subtype. */
+  subtypes?: string[];
+  match: {
+    all?: MonitorCondition[];
+    any?: MonitorCondition[];
+    /** Skip the message when any of these match (e.g. "Resolved" notifications) */
+    none?: MonitorCondition[];
+  };
+  extract?: Partial<Record<MonitorField, MonitorExtractor>>;
+  /** Extracted task name must contain one of these (case-insensitive); the longest matching pattern applies */
+  taskPatterns?: Array<string | TaskPattern>;
+  /** Alert weights; the first matching level wins (default weight 1) */
+  severity?: SeverityLevel[];
+  /** Only start a workflow once the weighted alerts for the same key cross the threshold */
+  threshold?: MonitorThreshold;
+  action: MonitorAction;
+  skill: string;
+  model?: string;
+}
+
+export interface RuleMatch {
+  rule: MonitorRule;
+  values: Partial<Record<MonitorField, string>>;
+  /** Task pattern the extracted task matched, if the rule filters by task */
+  taskPattern?: TaskPattern;
+  /** Severity weight × task pattern weight */
+  weight: number;
+}
+
+const MONITOR_FIELDS: MonitorField[] = ["incidentId", "dag", "task", "service"];
+const PAGERDUTY_LINK_FIELDS = ["text", "attachments.title_link", "attachments.fallback", "attachments.text", "attachments.pretext"];
+
+let rules: MonitorRule[] = [];
+const regexCache = new Map<string, RegExp>();
+
+function toRegex(pattern: string): RegExp {
+  let re = regexCache.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern, "i");
+    regexCache.set(pattern, re);
+  }
+  return re;
+}
+
+/** The PagerDuty and Airflow delay detectors, expressed as rules over the env configuration */
+export function buildDefaultRules(cfg: Config = config): MonitorRule[] {
+  return [
+    {
+      name: "pagerduty",
+      channels: cfg.channels.monitor.enabled,
+      match: {
+        any: [
+          { field: "bot_name", pattern: "pagerduty" },
+          { field: "username", pattern: "pagerduty" },
+          { field: "text", pattern: "pagerduty\\.com/incidents/" },
+          { field: "attachments.title_link", pattern: "pagerduty\\.com" },
+          { field: "attachments.fallback", pattern: "pagerduty\\.com" },
+          { field: "attachments.text", pattern: "pagerduty\\.com" },
+          { field: "attachments.pretext", pattern: "pagerduty\\.com" },
+        ],
+        // Status notifications, not new alerts
+        none: [{ field: "text", pattern: "^\\s*(Acknowledged|Resolved)\\b" }],
+      },
+      extract: {
+        incidentId: { fields: PAGERDUTY_LINK_FIELDS, pattern: "pagerduty\\.com/incidents/([A-Z0-9]+)" },
+        // "*Service:* <url|Payments API>" or "Service: Payments API" — used to correlate related incidents
+        service: { fields: ["text", "attachments.text", "attachments.fallback"], pattern: "Service:\\*?\\s*(?:<[^|>]*\\|)?([^>\\n*·]+)" },
+      },
+      action: "alert",
+      skill: cfg.alertSkill,
+      model: cfg.alertModel,
+    },
+    {
+      name: "airflow-delay",
+      // No task patterns configured = delay monitoring off
+      enabled: cfg.delayAlertTaskPatterns.length > 0,
+      channels: cfg.channels.monitorDelay.enabled,
+      subtypes: ["*"],
+      match: {
+        all: [
+          { field: "text", pattern: "\\*Task\\*:" },
+          { field: "text", pattern: "\\*Dag\\*:" },
+          { field: "text", pattern: "\\*Execution Time\\*:" },
+        ],
+      },
+      extract: {
+        task: { fields: ["text"], pattern: "\\*Task\\*:\\s*(.+)", required: true },
+        dag: { fields: ["text"], pattern: "\\*Dag\\*:\\s*(.+)", required: true },
+      },
+      taskPatterns: cfg.delayAlertTaskPatterns,
+      threshold: {
+        count: cfg.delayAlertThreshold,
+        windowMs: cfg.delayAlertWindowMs,
+        key: ["dag", "task"],
+        ...(cfg.delayAlertMinSpanMs > 0 ? { minSpanMs: cfg.delayAlertMinSpanMs } : {}),
+        ...(cfg.delayAlertRateFactor > 0
+          ? { rate: { windowMs: cfg.delayAlertRateWindowMs, factor: cfg.delayAlertRateFactor } }
+          : {}),
+      },
+      action: "delay_alert",
+      skill: cfg.delayAlertSkill,
+      model: cfg.alertModel,
+    },
+  ];
+}
+
+/** Throw a descriptive error if a rule is malformed */
+function validateRule(rule: MonitorRule): void {
+  const where = `monitor rule "${rule.name ?? "(unnamed)"}"`;
+  if (!rule.name || typeof rule.name !== "string") throw new Error(`Invalid ${where}: "name" is required`);
+  if (!Array.isArray(rule.channels)) throw new Error(`Invalid ${where}: "channels" must be an array of channel names`);
+  if (rule.action !== "alert" && rule.action !== "delay_alert") {
+    throw new Error(`Invalid ${where}: "action" must be "alert" or "delay_alert"`);
+  }
+  if (!rule.skill || typeof rule.skill !== "string") throw new Error(`Invalid ${where}: "skill" is required`);
+
+  const conditions = [...(rule.match?.all ?? []), ...(rule.match?.any ?? []), ...(rule.match?.none ?? [])];
+  if ((rule.match?.all?.length ?? 0) + (rule.match?.any?.length ?? 0) === 0) {
+    throw new Error(`Invalid ${where}: "match" needs at least one "all" or "any" condition`);
+  }
+
+  for (const level of rule.severity ?? []) {
+    if (!level.field || typeof level.pattern !== "string" || !(level.weight > 0)) {
+      throw new Error(`Invalid ${where}: severity levels need "field", "pattern" and a weight > 0`);
+    }
+    conditions.push(level);
+  }
+
+  const patterns = conditions.map((c) => c.pattern);
+  for (const [field, extractor] of Object.entries(rule.extract ?? {})) {
+    if (!MONITOR_FIELDS.includes(field as MonitorField)) {
+      throw new Error(`Invalid ${where}: unknown extractor "${field}" (expected ${MONITOR_FIELDS.join(", ")})`);
+    }
+    if (!Array.isArray(extractor.fields) || extractor.fields.length === 0) {
+      throw new Error(`Invalid ${where}: extractor "${field}" needs "fields"`);
+    }
+    patterns.push(extractor.pattern);
+  }
+  for (const pattern of patterns) {
+    try {
+      toRegex(pattern);
+    } catch (err) {
+      throw new Error(`Invalid ${where}: bad pattern ${JSON.stringify(pattern)} (${(err as Error).message})`);
+    }
+  }
+
+  for (const entry of rule.taskPatterns ?? []) {
+    const tp = typeof entry === "string" ? { pattern: entry } : entry;
+    if (!tp.pattern || typeof tp.pattern !== "string") throw new Error(`Invalid ${where}: task patterns need a "pattern"`);
+    if ((tp.count !== undefined || tp.windowMs !== undefined) && !rule.threshold) {
+      throw new Error(`Invalid ${where}: task pattern "${tp.pattern}" overrides a threshold the rule doesn't have`);
+    }
+    if ((tp.count !== undefined && !(tp.count > 0)) || (tp.windowMs !== undefined && !(tp.windowMs > 0)) || (tp.weight !== undefined && !(tp.weight > 0))) {
+      throw new Error(`Invalid ${where}: task pattern "${tp.pattern}" needs count, windowMs and weight > 0`);
+    }
+  }
+
+  if (rule.threshold) {
+    const { count, windowMs, key, minSpanMs, rate } = rule.threshold;
+    if (!(count > 0) || !(windowMs > 0)) {
+      throw new Error(`Invalid ${where}: threshold needs count > 0 and windowMs > 0`);
+    }
+    for (const field of key === "rule" ? [] : Array.isArray(key) ? key : [key]) {
+      if (!rule.extract?.[field]) throw new Error(`Invalid ${where}: threshold key "${field}" has no extractor`);
+    }
+    if (minSpanMs !== undefined && !(minSpanMs >= 0 && minSpanMs < windowMs)) {
+      throw new Error(`Invalid ${where}: threshold minSpanMs must be >= 0 and shorter than windowMs`);
+    }
+    if (rate && (!(rate.windowMs > 0) || !(rate.factor > 1) || (rate.minScore !== undefined && !(rate.minScore > 0)))) {
+      throw new Error(`Invalid ${where}: threshold rate needs windowMs > 0, factor > 1 and minScore > 0`);
+    }
+  }
+}
+
+/**
+ * Build and validate rules without activating them: built-in defaults, then MONITOR_RULES_PATH
+ * (JSON array or { "rules": [...] }). A file rule with a built-in's name is merged over it
+ * (e.g. { "name": "pagerduty", "enabled": false }). Throws on an unreadable file or invalid rule.
+ */
+export function compileMonitorRules(cfg: Config = config): MonitorRule[] {
+  const loaded = buildDefaultRules(cfg);
+
+  if (cfg.monitorRulesPath) {
+    const parsed = JSON.parse(readFileSync(cfg.monitorRulesPath, "utf-8"));
+    const fileRules = (Array.isArray(parsed) ? parsed : parsed?.rules) as MonitorRule[] | undefined;
+    if (!Array.isArray(fileRules)) {
+      throw new Error(`Invalid MONITOR_RULES_PATH file ${cfg.monitorRulesPath}: expected an array or { "rules": [...] }`);
+    }
+    for (const fileRule of fileRules) {
+      const index = loaded.findIndex((r) => r.name === fileRule.name);
+      if (index === -1) loaded.push(fileRule);
+      else loaded[index] = { ...loaded[index], ...fileRule };
+    }
+    console.log(`[MonitorRules] Loaded ${fileRules.length} rule(s) from ${cfg.monitorRulesPath}`);
+  }
+
+  for (const rule of loaded) validateRule(rule);
+  for (const rule of loaded) {
+    if (rule.enabled === false) console.log(`[MonitorRules] Rule "${rule.name}" disabled`);
+  }
+  return loaded.filter((r) => r.enabled !== false);
+}
+
+/** Replace the active rule set (channel IDs must be re-resolved afterwards) */
+export function setMonitorRules(next: MonitorRule[]): void {
+  rules = next;
+}
+
+/** Compile rules from the live config and activate them */
+export function loadMonitorRules(): MonitorRule[] {
+  setMonitorRules(compileMonitorRules());
+  return rules;
+}
+
+export function getMonitorRules(): MonitorRule[] {
+  return rules;
+}
+
+/** All string values of a message field ("attachments.*" fields yield one value per attachment) */
+function fieldValues(msg: Record<string, unknown>, field: string): string[] {
+  if (field === "text") return typeof msg.text === "string" ? [msg.text] : [];
+  if (field === "username") return typeof msg.username === "string" ? [msg.username] : [];
+  if (field === "bot_name") {
+    const name = (msg.bot_profile as Record<string, unknown> | undefined)?.name;
+    return typeof name === "string" ? [name] : [];
+  }
+  if (field.startsWith("attachments.")) {
+    const key = field.slice("attachments.".length);
+    const attachments = (msg.attachments as Array<Record<string, unknown>> | undefined) ?? [];
+    const values: string[] = [];
+    for (const att of attachments) {
+      const candidates = key === "*" ? Object.values(att) : [att[key]];
+      for (const value of candidates) {
+        if (typeof value === "string") values.push(value);
+      }
+    }
+    return values;
+  }
+  return [];
+}
+
+function conditionMatches(msg: Record<string, unknown>, condition: MonitorCondition): boolean {
+  const re = toRegex(condition.pattern);
+  return fieldValues(msg, condition.field).some((value) => re.test(value));
+}
+
+function extractValue(msg: Record<string, unknown>, extractor: MonitorExtractor): string | null {
+  const re = toRegex(extractor.pattern);
+  for (const field of extractor.fields) {
+    for (const value of fieldValues(msg, field)) {
+      const m = value.match(re);
+      if (m) return (m[1] ?? m[0]).trim();
+    }
+  }
+  return null;
+}
+
+/** Evaluate one rule against a top-level message. Returns the extracted values on a match. */
+export function matchRule(rule: MonitorRule, msg: Record<string, unknown>): RuleMatch | null {
+  const subtype = msg.subtype as string | undefined;
+  if (subtype && !(rule.subtypes ?? []).some((s) => s === "*" || s === subtype)) return null;
+
+  const { all = [], any = [], none = [] } = rule.match;
+  if (!all.every((c) => conditionMatches(msg, c))) return null;
+  if (any.length > 0 && !any.some((c) => conditionMatches(msg, c))) return null;
+  if (none.some((c) => conditionMatches(msg, c))) {
+    const text = typeof msg.text === "string" ? msg.text : "";
+    console.log(`[MonitorRules] Rule "${rule.name}" excluded message: ${text.slice(0, 80)}`);
+    return null;
+  }
+
+  const values: RuleMatch["values"] = {};
+  for (const field of MONITOR_FIELDS) {
+    const extractor = rule.extract?.[field];
+    if (!extractor) continue;
+    const value = extractValue(msg, extractor);
+    if (value) values[field] = value;
+    else if (extractor.required) return null;
+  }
+
+  let taskPattern: TaskPattern | undefined;
+  if (rule.taskPatterns && rule.taskPatterns.length > 0) {
+    const task = values.task?.toLowerCase();
+    if (!task) return null;
+    // Longest match wins, so "process-taxes-eu" can override a generic "process-taxes"
+    for (const entry of rule.taskPatterns) {
+      const tp = typeof entry === "string" ? { pattern: entry } : entry;
+      if (task.includes(tp.pattern.toLowerCase()) && tp.pattern.length > (taskPattern?.pattern.length ?? -1)) {
+        taskPattern = tp;
+      }
+    }
+    if (!taskPattern) return null;
+  }
+
+  const severity = rule.severity?.find((level) => conditionMatches(msg, level));
+  const weight = (severity?.weight ?? 1) * (taskPattern?.weight ?? 1);
+  return { rule, values, taskPattern, weight };
+}
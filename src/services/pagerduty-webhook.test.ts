@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { isStalePagerDutyEvent, signPagerDutyPayload, verifyPagerDutySignature } from "./pagerduty-webhook.js";
+
+// Only the signature and timestamp checks are under test; keep the workflows (and the CLI) out
+vi.mock("./alert-workflow.js", () => ({}));
+vi.mock("./incident-sync.js", () => ({}));
+
+const SECRET = "whsec-current";
+const OLD_SECRET = "whsec-previous";
+const NOW = Date.parse("2026-10-18T09:30:00Z");
+
+function payload(occurredAt?: unknown): Record<string, unknown> {
+  return {
+    event: {
+      id: "01EVENT",
+      event_type: "incident.triggered",
+      ...(occurredAt !== undefined ? { occurred_at: occurredAt } : {}),
+      data: { id: "Q1ABC", type: "incident", title: "Payments API error rate above 5%" },
+    },
+  };
+}
+
+const BODY = JSON.stringify(payload("2026-10-18T09:29:58.123Z"));
+
+describe("verifyPagerDutySignature", () => {
+  it("accepts the v1 HMAC-SHA256 of the exact body", () => {
+    const header = signPagerDutyPayload(BODY, SECRET);
+
+    expect(header).toMatch(/^v1=[0-9a-f]{64}$/);
+    expect(verifyPagerDutySignature(BODY, header, SECRET)).toBe(true);
+    expect(verifyPagerDutySignature(Buffer.from(BODY), header, SECRET)).toBe(true);
+  });
+
+  it("rejects a changed body, another secret, or a malformed header", () => {
+    const header = signPagerDutyPayload(BODY, SECRET);
+
+    expect(verifyPagerDutySignature(BODY.replace("Q1ABC", "Q1XYZ"), header, SECRET)).toBe(false);
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, "whsec-other"), SECRET)).toBe(false);
+    expect(verifyPagerDutySignature(BODY, header.replace("v1=", "v0="), SECRET)).toBe(false);
+    expect(verifyPagerDutySignature(BODY, header.slice(0, -2), SECRET)).toBe(false);
+    expect(verifyPagerDutySignature(BODY, "", SECRET)).toBe(false);
+    expect(verifyPagerDutySignature(BODY, undefined, SECRET)).toBe(false);
+  });
+
+  it("rejects everything when no secret is configured", () => {
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, ""), "")).toBe(false);
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, ""), " , ")).toBe(false);
+  });
+
+  it("accepts any of the signatures PagerDuty sends while it rotates the subscription secret", () => {
+    const header = `${signPagerDutyPayload(BODY, "whsec-pd-next")}, ${signPagerDutyPayload(BODY, SECRET)}`;
+
+    expect(verifyPagerDutySignature(BODY, header, SECRET)).toBe(true);
+    expect(verifyPagerDutySignature(BODY, header, "whsec-other")).toBe(false);
+  });
+
+  it("accepts the new and the old secret while ours is rotated", () => {
+    const secrets = `${SECRET}, ${OLD_SECRET}`;
+
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, SECRET), secrets)).toBe(true);
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, OLD_SECRET), secrets)).toBe(true);
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, "whsec-retired"), secrets)).toBe(false);
+    // Once rotated, the old secret stops working
+    expect(verifyPagerDutySignature(BODY, signPagerDutyPayload(BODY, OLD_SECRET), SECRET)).toBe(false);
+  });
+});
+
+describe("isStalePagerDutyEvent", () => {
+  it("accepts events from the last 15 minutes", () => {
+    expect(isStalePagerDutyEvent(JSON.parse(BODY), NOW)).toBe(false);
+    expect(isStalePagerDutyEvent(payload("2026-10-18T09:15:00Z"), NOW)).toBe(false);
+  });
+
+  it("rejects replays of older events", () => {
+    expect(isStalePagerDutyEvent(payload("2026-10-18T09:14:59Z"), NOW)).toBe(true);
+    expect(isStalePagerDutyEvent(payload("2026-10-17T09:30:00Z"), NOW)).toBe(true);
+  });
+
+  it("tolerates a minute of clock skew, no more", () => {
+    expect(isStalePagerDutyEvent(payload("2026-10-18T09:31:00Z"), NOW)).toBe(false);
+    expect(isStalePagerDutyEvent(payload("2026-10-18T09:31:01Z"), NOW)).toBe(true);
+  });
+
+  it("treats a missing or unparseable occurred_at as stale", () => {
+    expect(isStalePagerDutyEvent(payload(), NOW)).toBe(true);
+    expect(isStalePagerDutyEvent(payload("yesterday"), NOW)).toBe(true);
+    expect(isStalePagerDutyEvent(payload(1760779800), NOW)).toBe(true);
+    expect(isStalePagerDutyEvent({}, NOW)).toBe(true);
+  });
+});
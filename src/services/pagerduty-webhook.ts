@@ -0,0 +1,172 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { startAlertWorkflow, isIncidentAlreadyTracked } from "./alert-workflow.js";
+import { handleIncidentResolved } from "./incident-sync.js";
+import { getMonitorRules } from "./monitor-rules.js";
+import { getPagerDutyIncidentDetails } from "./pagerduty.js";
+import { postMessage } from "./slack-gateway.js";
+
+/** Keep the thread root readable; the skill can still fetch the incident itself */
+const DETAILS_MAX_LENGTH = 2500;
+/** Older events are rejected as replays; covers PagerDuty's own delivery retries */
+const EVENT_MAX_AGE_MS = 15 * 60_000;
+/** Tolerated clock skew for events dated in the future */
+const EVENT_MAX_SKEW_MS = 60_000;
+
+export interface WebhookOutcome {
+  status: "started" | "duplicate" | "resolved" | "ignored";
+  eventType: string;
+  incidentId?: string;
+  channelId?: string;
+  messageTs?: string;
+  reason?: string;
+}
+
+/** Incident payload of a V3 webhook event (only the fields we use) */
+interface WebhookIncident {
+  id: string;
+  number?: number;
+  title?: string;
+  html_url?: string;
+  urgency?: string;
+  service?: { id?: string; summary?: string };
+  priority?: { summary?: string } | null;
+  body?: { details?: unknown };
+}
+
+/** Incidents between the duplicate check and the workflow insert (PagerDuty retries deliveries) */
+const pendingIncidents = new Set<string>();
+
+/** The v1 signature PagerDuty sends for a raw request body */
+export function signPagerDutyPayload(rawBody: Buffer | string, secret: string): string {
+  return `v1=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+}
+
+/**
+ * Check the X-PagerDuty-Signature header. PagerDuty lists several comma-separated signatures while
+ * it rotates a subscription's secret, and `secrets` may list several comma-separated secrets while
+ * ours is rotated; any signature matching any secret is accepted.
+ */
+export function verifyPagerDutySignature(rawBody: Buffer | string, header: string | undefined, secrets: string): boolean {
+  if (!header) return false;
+  const candidates = header.split(",").map((candidate) => Buffer.from(candidate.trim()));
+  return secrets
+    .split(",")
+    .map((secret) => secret.trim())
+    .filter(Boolean)
+    .some((secret) => {
+      const expected = Buffer.from(signPagerDutyPayload(rawBody, secret));
+      return candidates.some((actual) => actual.length === expected.length && timingSafeEqual(actual, expected));
+    });
+}
+
+/**
+ * Reject replays of a signed payload: the event's occurred_at must be within EVENT_MAX_AGE_MS
+ * of now (and not more than a minute ahead). Events without a usable timestamp are stale.
+ */
+export function isStalePagerDutyEvent(payload: Record<string, unknown>, now = Date.now()): boolean {
+  const occurredAt = (payload.event as { occurred_at?: unknown } | undefined)?.occurred_at;
+  const time = typeof occurredAt === "string" ? Date.parse(occurredAt) : NaN;
+  if (Number.isNaN(time)) return true;
+  return now - time > EVENT_MAX_AGE_MS || time - now > EVENT_MAX_SKEW_MS;
+}
+
+/** Service ID first, then service name, then the "*" fallback */
+function channelForService(service: WebhookIncident["service"]): string | null {
+  const channels = config.pagerdutyWebhookChannels;
+  return (service?.id && channels[service.id]) || (service?.summary && channels[service.summary]) || channels["*"] || null;
+}
+
+function formatDetails(details: Record<string, unknown>): string {
+  const lines = Object.entries(details).map(
+    ([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`
+  );
+  const text = lines.join("\n");
+  return text.length > DETAILS_MAX_LENGTH ? `${text.slice(0, DETAILS_MAX_LENGTH)}\n…` : text;
+}
+
+/** Thread root for a webhook incident; keeps the incident link so the skill finds it like a PagerDuty post */
+function formatIncidentMessage(incident: WebhookIncident, details: Record<string, unknown> | null): string {
+  const title = `${incident.number ? `[#${incident.number}] ` : ""}${incident.title || incident.id}`;
+  const meta = [
+    incident.service?.summary ? `*Service:* ${incident.service.summary}` : "",
+    incident.urgency ? `*Urgency:* ${incident.urgency}` : "",
+    incident.priority?.summary ? `*Priority:* ${incident.priority.summary}` : "",
+  ].filter(Boolean);
+
+  let text = `:rotating_light: *${incident.html_url ? `<${incident.html_url}|${title}>` : title}*`;
+  if (meta.length > 0) text += `\n${meta.join(" · ")}`;
+  if (details && Object.keys(details).length > 0) text += `\n*Details:*\n\`\`\`${formatDetails(details)}\`\`\``;
+  return text;
+}
+
+async function startFromWebhook(app: App, incident: WebhookIncident, eventType: string): Promise<WebhookOutcome> {
+  if (isIncidentAlreadyTracked(incident.id) || pendingIncidents.has(incident.id)) {
+    return { status: "duplicate", eventType, incidentId: incident.id };
+  }
+  const channelId = channelForService(incident.service);
+  if (!channelId) {
+    const service = incident.service?.summary || incident.service?.id || "unknown";
+    return { status: "ignored", eventType, incidentId: incident.id, reason: `no channel mapped for service ${service}` };
+  }
+
+  pendingIncidents.add(incident.id);
+  try {
+    const inline = incident.body?.details;
+    const details = inline && typeof inline === "object"
+      ? (inline as Record<string, unknown>)
+      : config.pagerdutyApiToken
+        ? await getPagerDutyIncidentDetails(incident.id, config.pagerdutyApiToken)
+        : null;
+    const text = formatIncidentMessage(incident, details);
+
+    const res = await postMessage({ channel: channelId, text, unfurl_links: false });
+    const messageTs = res.ts;
+    if (!messageTs) throw new Error("chat.postMessage returned no ts");
+
+    // Same skill/model overrides as the Slack-scraping "pagerduty" rule
+    const rule = getMonitorRules().find((r) => r.name === "pagerduty");
+    startAlertWorkflow(app, channelId, messageTs, text, undefined, {
+      incidentId: incident.id,
+      service: incident.service?.summary ?? null,
+      skill: rule?.skill,
+      model: rule?.model,
+    }).catch((err) => console.error(`[PagerDutyWebhook] Alert workflow for ${incident.id} failed:`, err));
+
+    console.log(`[PagerDutyWebhook] Started alert thread ${messageTs} in ${channelId} for incident ${incident.id}`);
+    return { status: "started", eventType, incidentId: incident.id, channelId, messageTs };
+  } finally {
+    pendingIncidents.delete(incident.id);
+  }
+}
+
+/**
+ * Handle a verified V3 webhook payload: incident.triggered starts an alert thread in the
+ * service's channel, incident.resolved releases threads tracking the incident.
+ */
+export async function handlePagerDutyWebhook(app: App, payload: Record<string, unknown>): Promise<WebhookOutcome> {
+  const event = payload.event as { event_type?: string; agent?: { summary?: string } | null; data?: unknown } | undefined;
+  const eventType = event?.event_type || "unknown";
+  const incident = event?.data as WebhookIncident | undefined;
+
+  if (!incident?.id || (incident as { type?: string }).type !== "incident") {
+    return { status: "ignored", eventType, reason: "not an incident event" };
+  }
+  console.log(`[PagerDutyWebhook] ${eventType} for incident ${incident.id}`);
+
+  if (eventType === "incident.triggered") return startFromWebhook(app, incident, eventType);
+
+  if (eventType === "incident.resolved") {
+    const released = await handleIncidentResolved(app, incident.id, {
+      resolvedBy: event?.agent?.summary ?? null,
+      htmlUrl: incident.html_url ?? null,
+      announce: true,
+    });
+    return released > 0
+      ? { status: "resolved", eventType, incidentId: incident.id }
+      : { status: "ignored", eventType, incidentId: incident.id, reason: "incident not tracked" };
+  }
+
+  return { status: "ignored", eventType, incidentId: incident.id, reason: "event type not handled" };
+}
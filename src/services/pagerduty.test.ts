@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { config } from "../config.js";
+import {
+  acknowledgePagerDutyIncident,
+  findPagerDutyUserByEmail,
+  getPagerDutyIncident,
+  listPagerDutyLogEntries,
+  resolvePagerDutyIncident,
+} from "./pagerduty.js";
+import { startStandIn, type RecordedRequest, type Reply, type StandIn } from "./__fixtures__/http-stand-in.js";
+
+const TOKEN = "pd-test-token";
+const CREDS = { apiToken: TOKEN, fromEmail: "oncall@example.com" };
+
+const INCIDENT = {
+  id: "Q1ABC",
+  incident_number: 4211,
+  title: "Payments API error rate above 5%",
+  status: "triggered",
+  urgency: "high",
+  html_url: "https://example.pagerduty.com/incidents/Q1ABC",
+  service: { summary: "Payments API" },
+  assignments: [{ assignee: { summary: "Ada Lovelace" } }],
+  last_status_change_by: null,
+  last_status_change_at: "2026-10-18T09:00:00Z",
+};
+
+function logEntry(n: number) {
+  return {
+    id: `LE${n}`,
+    type: "annotate_log_entry",
+    // Out of order across pages; the client sorts by created_at
+    created_at: `2026-10-18T09:${String(59 - (n % 60)).padStart(2, "0")}:00Z`,
+    summary: `entry ${n}`,
+    agent: { summary: "Ada Lovelace" },
+  };
+}
+
+/** Replies in order for successive requests; the last one repeats */
+function replies(...sequence: Reply[]): () => Reply {
+  let next = 0;
+  return () => sequence[Math.min(next++, sequence.length - 1)];
+}
+
+function query(req: RecordedRequest): URLSearchParams {
+  return new URL(req.url, "http://stand-in").searchParams;
+}
+
+describe("PagerDuty client", () => {
+  let standIn: StandIn;
+  let apiUrlBefore: string;
+
+  async function serve(handle: (req: RecordedRequest) => Reply): Promise<void> {
+    standIn = await startStandIn(handle);
+    // Mounted under a path prefix to check request paths are relative to PAGERDUTY_API_URL
+    config.pagerdutyApiUrl = `${standIn.url}/pd`;
+  }
+
+  beforeEach(() => {
+    apiUrlBefore = config.pagerdutyApiUrl;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    config.pagerdutyApiUrl = apiUrlBefore;
+    await standIn?.close();
+    vi.restoreAllMocks();
+  });
+
+  it("sends the API token and version header and parses the incident", async () => {
+    await serve(() => ({ body: { incident: INCIDENT } }));
+
+    const incident = await getPagerDutyIncident("Q1ABC", TOKEN);
+
+    expect(incident).toEqual({
+      id: "Q1ABC",
+      number: 4211,
+      title: "Payments API error rate above 5%",
+      status: "triggered",
+      urgency: "high",
+      htmlUrl: "https://example.pagerduty.com/incidents/Q1ABC",
+      serviceName: "Payments API",
+      assignees: ["Ada Lovelace"],
+      lastStatusChangeBy: null,
+      lastStatusChangeAt: "2026-10-18T09:00:00Z",
+    });
+    expect(standIn.requests).toHaveLength(1);
+    const [req] = standIn.requests;
+    expect(req.method).toBe("GET");
+    expect(req.url).toBe("/pd/incidents/Q1ABC");
+    expect(req.headers.authorization).toBe(`Token token=${TOKEN}`);
+    expect(req.headers.accept).toBe("application/vnd.pagerduty+json;version=2");
+    expect(req.headers.from).toBeUndefined();
+  });
+
+  it("sends writes with the From header and the change as an incident reference", async () => {
+    await serve(() => ({ body: { incident: { ...INCIDENT, status: "resolved" } } }));
+
+    const result = await resolvePagerDutyIncident("Q1ABC", CREDS, "Rolled back the deploy");
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe("resolved");
+    const [req] = standIn.requests;
+    expect(req.method).toBe("PUT");
+    expect(req.headers.from).toBe("oncall@example.com");
+    expect(JSON.parse(req.body)).toEqual({
+      incident: { type: "incident_reference", status: "resolved", resolution: "Rolled back the deploy" },
+    });
+  });
+
+  it("waits for Retry-After on 429 and then succeeds", async () => {
+    await serve(replies({ status: 429, headers: { "Retry-After": "2" }, body: { error: "rate limited" } }, { body: { incident: INCIDENT } }));
+
+    const incident = await getPagerDutyIncident("Q1ABC", TOKEN);
+
+    expect(incident?.id).toBe("Q1ABC");
+    expect(standIn.requests).toHaveLength(2);
+    // Retry-After (2s), not the 1s base backoff
+    expect(standIn.requests[1].at - standIn.requests[0].at).toBeGreaterThanOrEqual(1900);
+  });
+
+  it("retries 5xx responses with backoff", async () => {
+    await serve(replies({ status: 503, body: "unavailable" }, { body: {} }));
+
+    const result = await acknowledgePagerDutyIncident("Q1ABC", TOKEN, "oncall@example.com");
+
+    expect(result).toEqual({ success: true, error: undefined });
+    expect(standIn.requests).toHaveLength(2);
+    expect(standIn.requests[1].at - standIn.requests[0].at).toBeGreaterThanOrEqual(900);
+  });
+
+  it("gives up after three retries with the last status and body", { timeout: 15_000 }, async () => {
+    await serve(() => ({ status: 502, body: "bad gateway" }));
+
+    const result = await acknowledgePagerDutyIncident("Q1ABC", TOKEN, "oncall@example.com");
+
+    expect(result).toEqual({ success: false, error: "HTTP 502: bad gateway" });
+    expect(standIn.requests).toHaveLength(4);
+    const gaps = standIn.requests.slice(1).map((req, i) => req.at - standIn.requests[i].at);
+    // 1s, 2s, 4s
+    expect(gaps[0]).toBeGreaterThanOrEqual(900);
+    expect(gaps[1]).toBeGreaterThanOrEqual(1900);
+    expect(gaps[2]).toBeGreaterThanOrEqual(3900);
+  });
+
+  it("doesn't retry other client errors", async () => {
+    await serve(() => ({ status: 404, body: { error: { message: "Not Found" } } }));
+
+    const incident = await getPagerDutyIncident("QMISSING", TOKEN);
+
+    expect(incident).toBeNull();
+    expect(standIn.requests).toHaveLength(1);
+  });
+
+  it("follows offset pagination while more is true and sorts log entries", async () => {
+    await serve((req) => {
+      const offset = Number(query(req).get("offset"));
+      const count = offset < 200 ? 100 : 30;
+      const log_entries = Array.from({ length: count }, (_, i) => logEntry(offset + i));
+      return { body: { log_entries, offset, limit: 100, more: offset < 200 } };
+    });
+
+    const result = await listPagerDutyLogEntries("Q1ABC", TOKEN, 1000);
+
+    expect(standIn.requests.map((req) => [query(req).get("offset"), query(req).get("limit")])).toEqual([
+      ["0", "100"],
+      ["100", "100"],
+      ["200", "100"],
+    ]);
+    expect(standIn.requests.every((req) => req.url.startsWith("/pd/incidents/Q1ABC/log_entries?"))).toBe(true);
+    expect(query(standIn.requests[0]).get("is_overview")).toBe("true");
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(230);
+    expect(result.data?.[0]).toMatchObject({ type: "annotate", agent: "Ada Lovelace" });
+    const times = result.data!.map((e) => e.createdAt);
+    expect(times).toEqual([...times].sort());
+  });
+
+  it("stops paging at maxItems", async () => {
+    await serve((req) => {
+      const offset = Number(query(req).get("offset"));
+      return { body: { log_entries: Array.from({ length: 100 }, (_, i) => logEntry(offset + i)), more: true } };
+    });
+
+    const result = await listPagerDutyLogEntries("Q1ABC", TOKEN, 150);
+
+    expect(standIn.requests).toHaveLength(2);
+    expect(result.data).toHaveLength(150);
+  });
+
+  it("matches users by exact email across pages", async () => {
+    await serve((req) => {
+      const offset = Number(query(req).get("offset"));
+      const users =
+        offset === 0
+          ? [{ id: "PU1", email: "ada.lovelace@example.com" }]
+          : [{ id: "PU2", email: "Ada@Example.com" }];
+      return { body: { users, more: offset === 0 } };
+    });
+
+    const result = await findPagerDutyUserByEmail("ada@example.com", TOKEN);
+
+    expect(result).toEqual({ success: true, data: "PU2" });
+    expect(query(standIn.requests[0]).get("query")).toBe("ada@example.com");
+  });
+});
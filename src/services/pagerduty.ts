@@ -1,81 +1,333 @@
+import { config } from "../config.js";
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const PAGE_LIMIT = 100;
+/** PagerDuty rejects incident notes longer than this */
+const NOTE_MAX_LENGTH = 25000;
+
 export type IncidentStatus = "triggered" | "acknowledged" | "resolved";
+export type IncidentUrgency = "high" | "low";
+
+export interface PagerDutyCredentials {
+  apiToken: string;
+  /** Required by PagerDuty for every write */
+  fromEmail: string;
+}
 
-export interface AckResult {
+export interface PagerDutyResult<T = undefined> {
   success: boolean;
+  data?: T;
   error?: string;
 }
 
-export async function getPagerDutyIncidentStatus(
-  incidentId: string,
-  apiToken: string
-): Promise<IncidentStatus | null> {
-  try {
-    const res = await fetch(
-      `https://api.pagerduty.com/incidents/${incidentId}`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Token token=${apiToken}`,
-          "Content-Type": "application/json",
-          Accept: "application/vnd.pagerduty+json;version=2",
-        },
-      }
-    );
-
-    if (!res.ok) {
-      const body = await res.text().catch(() => "");
-      console.error(`[PagerDuty] Failed to get incident ${incidentId} status: HTTP ${res.status}: ${body}`);
-      return null;
+export type AckResult = PagerDutyResult;
+
+export interface PagerDutyIncident {
+  id: string;
+  number: number | null;
+  title: string;
+  status: IncidentStatus;
+  urgency: IncidentUrgency | null;
+  htmlUrl: string | null;
+  serviceName: string | null;
+  assignees: string[];
+  /** Who made the last status change (e.g. the user who resolved it) */
+  lastStatusChangeBy: string | null;
+  lastStatusChangeAt: string | null;
+}
+
+export interface PagerDutyLogEntry {
+  id: string;
+  type: string;
+  createdAt: string;
+  summary: string;
+  agent: string | null;
+}
+
+interface RequestOptions {
+  method?: "GET" | "PUT" | "POST";
+  query?: Record<string, string | number>;
+  body?: unknown;
+  /** Sets the From header (required for writes) */
+  fromEmail?: string;
+}
+
+/** Credentials from config, or null when the PagerDuty API isn't configured */
+export function getPagerDutyCredentials(): PagerDutyCredentials | null {
+  if (!config.pagerdutyApiToken || !config.pagerdutyFromEmail) return null;
+  return { apiToken: config.pagerdutyApiToken, fromEmail: config.pagerdutyFromEmail };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Call the PagerDuty REST API (base URL from PAGERDUTY_API_URL, so tests can point it at a stand-in).
+ * Retries 429/5xx responses and network errors with exponential backoff, honouring Retry-After.
+ * Throws with "HTTP <status>: <body>" once retries are exhausted or on other non-2xx responses.
+ */
+async function pdRequest<T>(path: string, apiToken: string, options: RequestOptions = {}): Promise<T> {
+  const url = new URL(path, config.pagerdutyApiUrl.replace(/\/?$/, "/"));
+  for (const [key, value] of Object.entries(options.query ?? {})) {
+    url.searchParams.set(key, String(value));
+  }
+
+  const headers: Record<string, string> = {
+    Authorization: `Token token=${apiToken}`,
+    "Content-Type": "application/json",
+    Accept: "application/vnd.pagerduty+json;version=2",
+  };
+  if (options.fromEmail) headers.From = options.fromEmail;
+
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: options.method ?? "GET",
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+    } catch (err) {
+      if (attempt >= MAX_RETRIES) throw err;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      console.warn(`[PagerDuty] ${options.method ?? "GET"} ${url.pathname} failed (${(err as Error).message}), retrying in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (res.ok) {
+      const text = await res.text();
+      return (text ? JSON.parse(text) : {}) as T;
     }
 
-    const data = (await res.json()) as { incident?: { status?: string } };
-    const status = data.incident?.status;
-    if (status === "triggered" || status === "acknowledged" || status === "resolved") {
-      return status;
+    const body = await res.text().catch(() => "");
+    if (!isRetryable(res.status) || attempt >= MAX_RETRIES) {
+      throw new Error(`HTTP ${res.status}: ${body}`);
     }
+    const retryAfter = Number(res.headers.get("retry-after"));
+    const delay = Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_DELAY_MS * 2 ** attempt;
+    console.warn(`[PagerDuty] ${options.method ?? "GET"} ${url.pathname} returned HTTP ${res.status}, retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+/** Fetch every page of a classic-paginated list endpoint (offset/limit/more), up to maxItems */
+async function pdList<T>(
+  path: string,
+  key: string,
+  apiToken: string,
+  query: Record<string, string | number> = {},
+  maxItems = 1000
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let offset = 0; items.length < maxItems; offset += PAGE_LIMIT) {
+    const page = await pdRequest<Record<string, unknown>>(path, apiToken, {
+      query: { ...query, offset, limit: PAGE_LIMIT },
+    });
+    const batch = Array.isArray(page[key]) ? (page[key] as T[]) : [];
+    items.push(...batch);
+    if (page.more !== true || batch.length === 0) break;
+  }
+  return items.slice(0, maxItems);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function parseIncident(raw: any): PagerDutyIncident | null {
+  const status = raw?.status;
+  if (status !== "triggered" && status !== "acknowledged" && status !== "resolved") {
     console.error(`[PagerDuty] Unexpected incident status: ${status}`);
     return null;
+  }
+  return {
+    id: raw.id,
+    number: typeof raw.incident_number === "number" ? raw.incident_number : null,
+    title: raw.title || raw.summary || raw.id,
+    status,
+    urgency: raw.urgency === "high" || raw.urgency === "low" ? raw.urgency : null,
+    htmlUrl: raw.html_url || null,
+    serviceName: raw.service?.summary || null,
+    assignees: Array.isArray(raw.assignments)
+      ? raw.assignments.map((a: any) => a?.assignee?.summary).filter(Boolean)
+      : [],
+    lastStatusChangeBy: raw.last_status_change_by?.summary || null,
+    lastStatusChangeAt: raw.last_status_change_at || null,
+  };
+}
+
+export async function getPagerDutyIncident(
+  incidentId: string,
+  apiToken: string
+): Promise<PagerDutyIncident | null> {
+  try {
+    const data = await pdRequest<{ incident?: unknown }>(`incidents/${incidentId}`, apiToken);
+    return parseIncident(data.incident);
   } catch (err) {
-    console.error(`[PagerDuty] Error fetching incident ${incidentId}:`, err instanceof Error ? err.message : err);
+    console.error(`[PagerDuty] Error fetching incident ${incidentId}:`, errorMessage(err));
     return null;
   }
 }
 
+export async function getPagerDutyIncidentStatus(
+  incidentId: string,
+  apiToken: string
+): Promise<IncidentStatus | null> {
+  const incident = await getPagerDutyIncident(incidentId, apiToken);
+  return incident?.status ?? null;
+}
+
+/** PUT changes onto an incident and return the updated incident */
+async function updateIncident(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  changes: Record<string, unknown>
+): Promise<PagerDutyResult<PagerDutyIncident>> {
+  try {
+    const data = await pdRequest<{ incident?: unknown }>(`incidents/${incidentId}`, creds.apiToken, {
+      method: "PUT",
+      fromEmail: creds.fromEmail,
+      body: { incident: { type: "incident_reference", ...changes } },
+    });
+    return { success: true, data: parseIncident(data.incident) ?? undefined };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
+  }
+}
+
 export async function acknowledgePagerDutyIncident(
   incidentId: string,
   apiToken: string,
   fromEmail: string
 ): Promise<AckResult> {
+  const result = await updateIncident(incidentId, { apiToken, fromEmail }, { status: "acknowledged" });
+  return { success: result.success, error: result.error };
+}
+
+export function resolvePagerDutyIncident(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  resolution?: string
+): Promise<PagerDutyResult<PagerDutyIncident>> {
+  return updateIncident(incidentId, creds, { status: "resolved", ...(resolution ? { resolution } : {}) });
+}
+
+/** Escalate to a specific level of the incident's escalation policy */
+export function escalatePagerDutyIncident(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  level: number
+): Promise<PagerDutyResult<PagerDutyIncident>> {
+  return updateIncident(incidentId, creds, { escalation_level: level });
+}
+
+/** Replace the incident's assignees with the given PagerDuty user IDs */
+export function reassignPagerDutyIncident(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  userIds: string[]
+): Promise<PagerDutyResult<PagerDutyIncident>> {
+  return updateIncident(incidentId, creds, {
+    assignments: userIds.map((id) => ({ assignee: { id, type: "user_reference" } })),
+  });
+}
+
+export function setPagerDutyIncidentUrgency(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  urgency: IncidentUrgency
+): Promise<PagerDutyResult<PagerDutyIncident>> {
+  return updateIncident(incidentId, creds, { urgency });
+}
+
+/** Snooze an acknowledged incident; it re-triggers after durationSec */
+export async function snoozePagerDutyIncident(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  durationSec: number
+): Promise<PagerDutyResult<PagerDutyIncident>> {
   try {
-    const res = await fetch(
-      `https://api.pagerduty.com/incidents/${incidentId}`,
-      {
-        method: "PUT",
-        headers: {
-          Authorization: `Token token=${apiToken}`,
-          From: fromEmail,
-          "Content-Type": "application/json",
-          Accept: "application/vnd.pagerduty+json;version=2",
-        },
-        body: JSON.stringify({
-          incident: {
-            type: "incident_reference",
-            status: "acknowledged",
-          },
-        }),
-      }
-    );
-
-    if (!res.ok) {
-      const body = await res.text().catch(() => "");
-      return { success: false, error: `HTTP ${res.status}: ${body}` };
-    }
+    const data = await pdRequest<{ incident?: unknown }>(`incidents/${incidentId}/snooze`, creds.apiToken, {
+      method: "POST",
+      fromEmail: creds.fromEmail,
+      body: { duration: Math.round(durationSec) },
+    });
+    return { success: true, data: parseIncident(data.incident) ?? undefined };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
+  }
+}
 
+export async function addPagerDutyIncidentNote(
+  incidentId: string,
+  creds: PagerDutyCredentials,
+  content: string
+): Promise<PagerDutyResult> {
+  const note = content.length > NOTE_MAX_LENGTH ? content.slice(0, NOTE_MAX_LENGTH - 20) + "\n\n(truncated)" : content;
+  try {
+    await pdRequest(`incidents/${incidentId}/notes`, creds.apiToken, {
+      method: "POST",
+      fromEmail: creds.fromEmail,
+      body: { note: { content: note } },
+    });
     return { success: true };
   } catch (err) {
-    return {
-      success: false,
-      error: err instanceof Error ? err.message : String(err),
-    };
+    return { success: false, error: errorMessage(err) };
+  }
+}
+
+/** Custom details of the incident's first alert (the event payload's custom_details), null if none */
+export async function getPagerDutyIncidentDetails(
+  incidentId: string,
+  apiToken: string
+): Promise<Record<string, unknown> | null> {
+  try {
+    const data = await pdRequest<{ alerts?: any[] }>(`incidents/${incidentId}/alerts`, apiToken, { query: { limit: 1 } });
+    const body = data.alerts?.[0]?.body;
+    const details = body?.details ?? body?.cef_details?.details;
+    return details && typeof details === "object" ? details : null;
+  } catch (err) {
+    console.error(`[PagerDuty] Error fetching alert details for ${incidentId}:`, errorMessage(err));
+    return null;
+  }
+}
+
+/** Incident timeline, oldest first */
+export async function listPagerDutyLogEntries(
+  incidentId: string,
+  apiToken: string,
+  maxItems = 200
+): Promise<PagerDutyResult<PagerDutyLogEntry[]>> {
+  try {
+    const raw = await pdList<any>(`incidents/${incidentId}/log_entries`, "log_entries", apiToken, { is_overview: "true" }, maxItems);
+    const entries = raw.map((e) => ({
+      id: e.id,
+      type: String(e.type || "").replace(/_log_entry$/, ""),
+      createdAt: e.created_at,
+      summary: e.summary || "",
+      agent: e.agent?.summary || null,
+    }));
+    entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return { success: true, data: entries };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
+  }
+}
+
+/** Look up a PagerDuty user ID by (exact, case-insensitive) email */
+export async function findPagerDutyUserByEmail(email: string, apiToken: string): Promise<PagerDutyResult<string>> {
+  try {
+    const users = await pdList<{ id: string; email?: string }>("users", "users", apiToken, { query: email });
+    const user = users.find((u) => u.email?.toLowerCase() === email.toLowerCase());
+    return user ? { success: true, data: user.id } : { success: false, error: `no PagerDuty user with email ${email}` };
+  } catch (err) {
+    return { success: false, error: errorMessage(err) };
   }
 }
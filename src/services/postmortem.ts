@@ -0,0 +1,266 @@
+import type { App } from "@slack/bolt";
+import { config } from "../config.js";
+import { spawnDiscussCli, rewriteApiError } from "./claude-cli.js";
+import { getWorkflow, getThreadReports, getThreadIncidentActions, type ReportRow } from "./database.js";
+import { enforceBudget, type LedgerContext } from "./cost-ledger.js";
+import { createProgressReporter } from "./progress-reporter.js";
+import { archiveReport, reportTitle } from "./report-archive.js";
+import { getThreadCluster } from "./incident-clusters.js";
+import { formatIncidentActions } from "./incident-actions.js";
+import { listPagerDutyLogEntries } from "./pagerduty.js";
+import { fetchThreadReplies, resolveUserNames } from "./slack-reader.js";
+import { postMessage, updateMessage, uploadFile } from "./slack-gateway.js";
+
+/** Keep the prompt bounded on long incidents; the investigation report matters most */
+const INVESTIGATION_MAX_LENGTH = 12000;
+const FOLLOW_UP_MAX_LENGTH = 3000;
+const THREAD_MESSAGE_MAX_LENGTH = 1500;
+const ALERT_MAX_LENGTH = 4000;
+
+const PLACEHOLDER = "Writing the postmortem...";
+
+/** Threads with a postmortem being written, so a double `!postmortem` doesn't pay twice */
+const inProgress = new Set<string>();
+
+interface PostmortemSources {
+  workflowType: ReportRow["workflow_type"];
+  incidentId: string | null;
+  dagName: string | null;
+  service: string | null;
+  alert: string;
+  reports: ReportRow[];
+  thread: string;
+  pdTimeline: string;
+  actions: string;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}… [truncated]` : text;
+}
+
+function utcTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function buildSlackLink(channelId: string, messageTs: string): string {
+  return `https://${config.slackWorkspaceDomain}/archives/${channelId}/p${messageTs.replace(".", "")}`;
+}
+
+/**
+ * Thread messages as "[2026-10-02 09:14] name: text", with user mentions resolved to names.
+ * Also returns the names, including those of `extraUserIds` (e.g. users in the actions log).
+ */
+async function formatThread(
+  app: App,
+  channelId: string,
+  threadTs: string,
+  extraUserIds: string[]
+): Promise<{ root: string; thread: string; names: Map<string, string> }> {
+  const replies = await fetchThreadReplies(app.client, channelId, threadTs);
+  const userIds = new Set<string>(extraUserIds);
+  for (const m of replies) {
+    if (m.user) userIds.add(m.user);
+    for (const match of m.text.matchAll(/<@([UW][A-Z0-9]+)>/g)) userIds.add(match[1]);
+  }
+  const names = await resolveUserNames(app.client, [...userIds]);
+
+  const lines = replies.map((m) => {
+    const who = m.botId ? "[bot]" : names.get(m.user ?? "") ?? m.user ?? "unknown";
+    const text = m.text.replace(/<@([UW][A-Z0-9]+)>/g, (_, id: string) => `@${names.get(id) ?? id}`);
+    return `[${utcTime(parseFloat(m.ts) * 1000)}] ${who}: ${truncate(text, THREAD_MESSAGE_MAX_LENGTH)}`;
+  });
+  return { root: replies.find((m) => m.ts === threadTs)?.text ?? "", thread: lines.join("\n"), names };
+}
+
+async function gatherSources(app: App, channelId: string, threadTs: string): Promise<PostmortemSources | null> {
+  const workflow = getWorkflow(threadTs);
+  const reports = getThreadReports(threadTs).filter((r) => r.kind !== "postmortem");
+  const investigated = reports.some((r) => r.kind === "investigation") || (workflow && workflow.workflow_type !== "discuss");
+  if (!investigated) return null;
+
+  const cluster = getThreadCluster(threadTs);
+  const incidentId = workflow?.incident_id ?? reports.find((r) => r.incident_id)?.incident_id ?? null;
+  const actions = getThreadIncidentActions(threadTs);
+  const actors = actions.map((a) => a.user_id).filter((id): id is string => id !== null);
+  const { root, thread, names } = await formatThread(app, channelId, threadTs, actors);
+
+  let pdTimeline = "";
+  if (incidentId && config.pagerdutyApiToken) {
+    const entries = await listPagerDutyLogEntries(incidentId, config.pagerdutyApiToken);
+    if (entries.success && entries.data) {
+      pdTimeline = entries.data
+        .map((e) => `- ${utcTime(Date.parse(e.createdAt))} UTC ${e.summary}${e.agent ? ` (${e.agent})` : ""}`)
+        .join("\n");
+    } else {
+      console.warn(`[Postmortem] Couldn't fetch the PD timeline of ${incidentId}: ${entries.error}`);
+    }
+  }
+
+  return {
+    workflowType: reports[0]?.workflow_type ?? workflow!.workflow_type,
+    incidentId,
+    dagName: workflow?.dag_name ?? reports.find((r) => r.dag_name)?.dag_name ?? null,
+    service: cluster?.member.service ?? reports.find((r) => r.service)?.service ?? null,
+    // The cluster copy includes attachment text, which PagerDuty alerts put most of their content in
+    alert: truncate(cluster?.member.alert_text || root, ALERT_MAX_LENGTH),
+    reports,
+    thread,
+    pdTimeline,
+    actions: formatIncidentActions(actions, names),
+  };
+}
+
+function buildPrompt(sources: PostmortemSources, slackLink: string): string {
+  const investigation = sources.reports.filter((r) => r.kind === "investigation").pop();
+  const later = sources.reports.filter((r) => r.kind !== "investigation" && r.status === "ok");
+  const subject = [
+    sources.incidentId ? `PagerDuty incident ${sources.incidentId}` : "",
+    sources.dagName ? `Airflow DAG ${sources.dagName}` : "",
+    sources.service ? `service ${sources.service}` : "",
+  ].filter(Boolean).join(", ");
+
+  const sections = [
+    `<alert>\n${sources.alert}\n</alert>`,
+    investigation
+      ? `<investigation_report created_at="${investigation.created_at} UTC">\n${truncate(investigation.body, INVESTIGATION_MAX_LENGTH)}\n</investigation_report>`
+      : "",
+    ...later.map((r) => `<${r.kind} created_at="${r.created_at} UTC">\n${truncate(r.body, FOLLOW_UP_MAX_LENGTH)}\n</${r.kind}>`),
+    `<slack_thread>\n${sources.thread || "(no messages)"}\n</slack_thread>`,
+    sources.pdTimeline ? `<pagerduty_timeline>\n${sources.pdTimeline}\n</pagerduty_timeline>` : "",
+    sources.actions ? `<actions_taken>\n${sources.actions}\n</actions_taken>` : "",
+  ].filter(Boolean);
+
+  return `You are writing a blameless post-incident review (postmortem) for ${subject || "an incident"}.
+Slack thread: ${slackLink}
+
+Use only the material below: the original alert, the bot's investigation report and follow-ups, the full Slack thread,
+the PagerDuty timeline and the actions taken from Slack. All times are UTC.
+
+${sections.join("\n\n")}
+
+Write the postmortem in Markdown with exactly these sections:
+# Postmortem: <short title>
+## Summary — two or three sentences
+## Timeline — one bullet per event, "YYYY-MM-DD HH:MM UTC — event", merged from all sources, oldest first
+## Impact — what was affected, for how long, and how badly (say "Unknown" where the material doesn't tell)
+## Root cause — the cause as established in the thread; if it was never confirmed, say so and give the leading hypothesis
+## Resolution — what stopped the impact
+## Action items — a checklist ("- [ ] ...") of concrete follow-ups, with an owner when the thread names one
+
+Don't invent facts, numbers or owners that aren't in the material.
+
+IMPORTANT: Do NOT send any Slack messages. Only return the postmortem document.`;
+}
+
+async function post(channelId: string, threadTs: string, text: string): Promise<void> {
+  try {
+    await postMessage({ channel: channelId, thread_ts: threadTs, text, unfurl_links: false });
+  } catch (err) {
+    console.error(`[Postmortem] Failed to post to thread ${threadTs}:`, err);
+  }
+}
+
+/** Whether a postmortem is being written for this thread */
+export function isPostmortemRunning(threadTs: string): boolean {
+  return inProgress.has(threadTs);
+}
+
+async function runPostmortem(app: App, channelId: string, threadTs: string, requestedBy?: string): Promise<void> {
+  const sources = await gatherSources(app, channelId, threadTs);
+  if (!sources) {
+    await post(channelId, threadTs, "This thread has no investigation to write a postmortem about.");
+    return;
+  }
+
+  const ledger: LedgerContext = { workflowType: "postmortem", userId: requestedBy, channelId, threadTs };
+  if (!(await enforceBudget(app, ledger, channelId, threadTs))) return;
+
+  let placeholderTs: string | undefined;
+  try {
+    const res = await postMessage({ channel: channelId, thread_ts: threadTs, text: PLACEHOLDER });
+    placeholderTs = res.ts || undefined;
+  } catch (err) {
+    console.error(`[Postmortem] Failed to post progress message:`, err);
+  }
+
+  console.log(`[Postmortem] Writing postmortem for thread ${threadTs}` + (requestedBy ? ` (requested by ${requestedBy})` : ""));
+  const progress = createProgressReporter(channelId, placeholderTs, PLACEHOLDER);
+  const { done } = spawnDiscussCli(buildPrompt(sources, buildSlackLink(channelId, threadTs)), config.paymentsRepoPath, {
+    model: config.postmortemModel,
+    ledger,
+    onProgress: progress.update,
+  });
+  const result = await done;
+  await progress.stop();
+
+  const text = result.response || result.fullReport || "";
+  const apiError = text ? rewriteApiError(text) : null;
+  const failed = result.exitCode !== 0 || !text || apiError !== null;
+  const reportId = archiveReport({
+    workflowType: sources.workflowType,
+    kind: "postmortem",
+    channelId,
+    threadTs,
+    incidentId: sources.incidentId,
+    dagName: sources.dagName,
+    service: sources.service,
+    model: config.postmortemModel,
+    text: text || `Postmortem failed (exit code ${result.exitCode}).`,
+    result,
+    status: apiError ? "api_error" : failed ? "error" : undefined,
+  });
+
+  let outcome: string;
+  if (failed) {
+    console.error(`[Postmortem] CLI failed for thread ${threadTs} (exit: ${result.exitCode})`);
+    outcome = `:x: Couldn't write the postmortem: ${apiError ?? `CLI exited with code ${result.exitCode}`}`;
+  } else {
+    const title = reportTitle(text);
+    const archived = reportId !== null ? ` Saved to the report archive as #${reportId}.` : "";
+    try {
+      await uploadFile({
+        channel_id: channelId,
+        thread_ts: threadTs,
+        filename: `postmortem-${sources.incidentId ?? sources.dagName ?? threadTs}.md`,
+        title,
+        content: text,
+      });
+      outcome = `:page_facing_up: Postmortem ready: *${title}*.${archived}`;
+    } catch (err) {
+      console.error(`[Postmortem] Failed to upload postmortem for thread ${threadTs}:`, err);
+      outcome = `:warning: The postmortem was written but the upload failed: ${(err as Error).message}.${archived}`;
+    }
+    console.log(`[Postmortem] Done for thread ${threadTs}` + (result.costUsd !== undefined ? ` ($${result.costUsd.toFixed(4)})` : ""));
+  }
+
+  if (placeholderTs) {
+    try {
+      await updateMessage({ channel: channelId, ts: placeholderTs, text: outcome });
+      return;
+    } catch (err) {
+      console.error(`[Postmortem] Failed to update progress message:`, err);
+    }
+  }
+  await post(channelId, threadTs, outcome);
+}
+
+/**
+ * Write a postmortem for an alert or delay alert thread (active, or finished and archived) from its
+ * alert, reports, Slack thread, PagerDuty timeline and actions log. The document is uploaded to the
+ * thread as a Markdown file and archived as a "postmortem" report. Progress and errors go to the thread.
+ */
+export async function writePostmortem(app: App, channelId: string, threadTs: string, requestedBy?: string): Promise<void> {
+  if (inProgress.has(threadTs)) {
+    await post(channelId, threadTs, ":hourglass_flowing_sand: A postmortem for this thread is already being written.");
+    return;
+  }
+  inProgress.add(threadTs);
+  try {
+    await runPostmortem(app, channelId, threadTs, requestedBy);
+  } catch (err) {
+    console.error(`[Postmortem] Failed for thread ${threadTs}:`, err);
+    await post(channelId, threadTs, `:x: Postmortem failed: ${(err as Error).message}`);
+  } finally {
+    inProgress.delete(threadTs);
+  }
+}
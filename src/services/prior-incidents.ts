@@ -0,0 +1,153 @@
+import { config } from "../config.js";
+import { alertTokens } from "./incident-clusters.js";
+import { searchReports, listReports, getThreadReports, type ReportFilter, type ReportListRow } from "./database.js";
+
+/** FTS candidates re-ranked with the metadata boosts */
+const CANDIDATE_COUNT = 20;
+/** Distinct alert words in the OR query; BM25 weighs rare ones up by itself */
+const QUERY_TERMS = 24;
+/** Text-only matches below this share of the best text score are noise */
+const MIN_TEXT_SCORE = 0.2;
+const RESOLUTION_MAX_LENGTH = 700;
+const FOLLOW_UP_MAX_LENGTH = 400;
+
+/** Headings under which investigation reports state what to do or what was wrong */
+const RESOLUTION_HEADING = /^#{1,6}\s*(?:\d+[.)]\s*)?(?:resolution|recommended action|root cause|fix|remediation|mitigation|next steps)/i;
+
+/** Boosts on top of the normalized BM25 score (0-1) */
+const BOOSTS = { incident: 0.6, dag: 0.5, service: 0.3 };
+
+/** What a new investigation is about */
+export interface PriorIncidentQuery {
+  text: string;
+  /** Thread of the new investigation (its own reports are never "prior") */
+  threadTs: string;
+  incidentId?: string | null;
+  dagName?: string | null;
+  service?: string | null;
+}
+
+export interface PriorIncident {
+  report: ReportListRow;
+  score: number;
+  /** "same DAG", "similar text"... */
+  reasons: string[];
+  resolution: string;
+  /** Last follow-up or discuss reply in that thread, when the conversation went on */
+  laterInThread: string | null;
+}
+
+function truncate(text: string, max: number): string {
+  const compact = text.replace(/\n{3,}/g, "\n\n").trim();
+  return compact.length > max ? `${compact.slice(0, max)}…` : compact;
+}
+
+/** The report's resolution / recommended action section, else its opening */
+function extractResolution(body: string): string {
+  const lines = body.split("\n");
+  const start = lines.findIndex((l) => RESOLUTION_HEADING.test(l.trim()));
+  if (start === -1) return truncate(lines.filter((l) => !/^#{1,6}\s/.test(l.trim())).join("\n"), RESOLUTION_MAX_LENGTH);
+  const end = lines.findIndex((l, i) => i > start && /^#{1,6}\s/.test(l.trim()));
+  return truncate(lines.slice(start + 1, end === -1 ? undefined : end).join("\n"), RESOLUTION_MAX_LENGTH);
+}
+
+function laterInThread(threadTs: string | null): { resolution: string; later: string | null } {
+  const reports = threadTs ? getThreadReports(threadTs) : [];
+  const investigation = reports.find((r) => r.kind === "investigation");
+  const later = reports.filter((r) => r.kind !== "investigation" && r.status === "ok").pop();
+  return {
+    resolution: investigation ? extractResolution(investigation.body) : "",
+    later: later ? truncate(later.body, FOLLOW_UP_MAX_LENGTH) : null,
+  };
+}
+
+/**
+ * Past investigations most similar to a new alert: BM25 over the report archive's FTS index
+ * using the alert's words, plus reports for the same incident, DAG or service, re-ranked with
+ * metadata boosts. Successful investigations from the last PRIOR_INCIDENTS_MAX_AGE_DAYS only.
+ */
+export function findPriorIncidents(query: PriorIncidentQuery, k = config.priorIncidentsCount): PriorIncident[] {
+  if (k <= 0) return [];
+  const base: ReportFilter = { kind: "investigation", status: "ok", sinceDays: config.priorIncidentsMaxAgeDays };
+
+  const candidates = new Map<number, ReportListRow>();
+  const terms = [...alertTokens(query.text)].slice(0, QUERY_TERMS);
+  if (terms.length > 0) {
+    const ftsQuery = terms.map((t) => `"${t}"`).join(" OR ");
+    for (const row of searchReports(ftsQuery, { ...base, limit: CANDIDATE_COUNT })) candidates.set(row.id, row);
+  }
+  const related: ReportFilter[] = [];
+  if (query.incidentId) related.push({ incidentId: query.incidentId });
+  if (query.dagName) related.push({ dagName: query.dagName });
+  if (query.service) related.push({ service: query.service });
+  for (const filter of related) {
+    for (const row of listReports({ ...base, ...filter, limit: k })) {
+      if (!candidates.has(row.id)) candidates.set(row.id, row);
+    }
+  }
+
+  // bm25() is negative, lower = better; normalize to 0-1 against the best candidate
+  const best = Math.max(0, ...[...candidates.values()].map((r) => -(r.rank ?? 0)));
+  const scored = [...candidates.values()]
+    .filter((r) => r.thread_ts !== query.threadTs)
+    .map((report) => {
+      const text = best > 0 ? -(report.rank ?? 0) / best : 0;
+      const reasons: string[] = [];
+      let score = text;
+      if (query.incidentId && report.incident_id === query.incidentId) {
+        score += BOOSTS.incident;
+        reasons.push("same incident");
+      }
+      if (query.dagName && report.dag_name === query.dagName) {
+        score += BOOSTS.dag;
+        reasons.push("same DAG");
+      }
+      if (query.service && report.service?.toLowerCase() === query.service.toLowerCase()) {
+        score += BOOSTS.service;
+        reasons.push("same service");
+      }
+      if (text >= MIN_TEXT_SCORE) reasons.push("similar alert text");
+      return { report, score, reasons };
+    })
+    .filter((c) => c.reasons.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+
+  return scored.map(({ report, score, reasons }) => {
+    const thread = laterInThread(report.thread_ts);
+    return { report, score, reasons, resolution: thread.resolution, laterInThread: thread.later };
+  });
+}
+
+/** Prompt block with the prior incidents and their resolutions ("" when there are none) */
+export function formatPriorIncidents(prior: PriorIncident[]): string {
+  if (prior.length === 0) return "";
+  const lines = [
+    "<prior_incidents>",
+    "Past investigations that look similar to this alert, most relevant first. Check whether the same cause " +
+      "and fix apply, but verify against current data before relying on them.",
+  ];
+  prior.forEach(({ report, reasons, resolution, laterInThread }, i) => {
+    const meta = [
+      report.created_at.slice(0, 10),
+      report.incident_id ? `PD incident ${report.incident_id}` : "",
+      report.dag_name ? `DAG ${report.dag_name}` : "",
+      report.service ? `service ${report.service}` : "",
+      report.permalink ?? `report #${report.id}`,
+    ].filter(Boolean);
+    lines.push("", `[${i + 1}] ${report.title} (${meta.join(", ")}; ${reasons.join(", ")})`);
+    if (resolution) lines.push(`Resolution / recommended action:\n${resolution}`);
+    if (laterInThread) lines.push(`Later in that thread:\n${laterInThread}`);
+  });
+  lines.push("</prior_incidents>");
+  return lines.join("\n");
+}
+
+/** Thread note listing the prior incidents given to the investigation */
+export function formatPriorIncidentLinks(prior: PriorIncident[]): string {
+  const items = prior.map(({ report, reasons }) => {
+    const label = report.permalink ? `<${report.permalink}|${report.title}>` : `${report.title} (report #${report.id})`;
+    return `• ${label} — ${report.created_at.slice(0, 10)}, ${reasons.join(", ")}`;
+  });
+  return `:card_index_dividers: Prior incidents given to this investigation:\n${items.join("\n")}`;
+}
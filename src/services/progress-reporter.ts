@@ -0,0 +1,111 @@
+import { config } from "../config.js";
+import type { CliProgress } from "./claude-cli.js";
+import { updateMessage } from "./slack-gateway.js";
+
+const PREVIEW_TEXT_LIMIT = 300;
+
+export interface ProgressReporter {
+  /** Feed the latest CLI progress; the placeholder is edited at most once per update interval */
+  update: (progress: CliProgress) => void;
+  /** Stop editing and wait for any in-flight edit, so the caller's final update isn't overwritten */
+  stop: () => Promise<void>;
+}
+
+function formatElapsed(ms: number): string {
+  const totalSec = Math.floor(ms / 1000);
+  const min = Math.floor(totalSec / 60);
+  const sec = totalSec % 60;
+  if (min === 0) return `${sec}s`;
+  return `${min}m ${sec}s`;
+}
+
+function previewText(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > PREVIEW_TEXT_LIMIT ? "…" + flat.slice(-PREVIEW_TEXT_LIMIT) : flat;
+}
+
+function renderProgress(label: string, elapsedMs: number, progress: CliProgress | null): string {
+  if (progress?.queuePosition !== undefined) {
+    return `${label} — queued, position ${progress.queuePosition} (waiting ${formatElapsed(elapsedMs)})`;
+  }
+
+  let text = `${label} (${formatElapsed(elapsedMs)})`;
+  if (!progress) return text;
+
+  if (progress.currentTool) {
+    text += `\n> :hammer_and_wrench: step ${progress.steps} · \`${progress.currentTool}\``;
+  }
+  if (progress.latestText) {
+    text += `\n> _${previewText(progress.latestText)}_`;
+  }
+  return text;
+}
+
+/**
+ * Keep a "Thinking..."/"Investigating..." placeholder updated with elapsed time, the current tool,
+ * step count and the latest assistant text. Edits are throttled to config.progressUpdateIntervalMs;
+ * with no new progress the elapsed time still refreshes every config.discussHeartbeatIntervalMs.
+ */
+export function createProgressReporter(
+  channelId: string,
+  ts: string | undefined,
+  label: string
+): ProgressReporter {
+  const startTime = Date.now();
+  let latest: CliProgress | null = null;
+  let lastEditAt = 0;
+  let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let stopped = false;
+
+  const edit = (): void => {
+    pendingTimer = null;
+    if (stopped || !ts) return;
+    if (inFlight) {
+      // Previous edit still running — retry once it settles
+      schedule();
+      return;
+    }
+    lastEditAt = Date.now();
+    inFlight = updateMessage(
+      {
+        channel: channelId,
+        ts,
+        text: renderProgress(label, Date.now() - startTime, latest),
+      },
+      { coalesce: true }
+    )
+      .then(() => {})
+      .catch((err) => {
+        console.warn(`[Progress] Failed to update placeholder ${ts}:`, err?.data?.error || err);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+  };
+
+  const schedule = (): void => {
+    if (stopped || pendingTimer) return;
+    const wait = Math.max(0, lastEditAt + config.progressUpdateIntervalMs - Date.now());
+    pendingTimer = setTimeout(edit, wait);
+  };
+
+  const heartbeat = ts
+    ? setInterval(() => {
+        if (Date.now() - lastEditAt >= config.discussHeartbeatIntervalMs) schedule();
+      }, config.discussHeartbeatIntervalMs)
+    : null;
+
+  return {
+    update: (progress) => {
+      latest = progress;
+      schedule();
+    },
+    stop: async () => {
+      stopped = true;
+      if (pendingTimer) clearTimeout(pendingTimer);
+      if (heartbeat) clearInterval(heartbeat);
+      if (inFlight) await inFlight;
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { config } from "../config.js";
+import type { CliRunResult } from "./cli-runner.js";
+import {
+  insertReport,
+  hasReportFile,
+  listReports,
+  searchReports,
+  type ReportFilter,
+  type ReportKind,
+  type ReportListRow,
+  type ReportStatus,
+} from "./database.js";
+
+/** Where alert investigations keep their markdown copy (see saveFullReport) */
+export const REPORTS_DIR = path.join("data", "reports");
+
+const TITLE_MAX_LENGTH = 120;
+
+/** "2026-09-18T10-22-33-1758190953.123456.md" → UTC time + thread ts */
+const REPORT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d+\.\d+)\.md$/;
+
+export interface ReportInput {
+  workflowType: "alert" | "delay_alert" | "discuss";
+  kind: ReportKind;
+  channelId: string;
+  threadTs: string;
+  incidentId?: string | null;
+  dagName?: string | null;
+  service?: string | null;
+  ruleName?: string | null;
+  skill?: string | null;
+  model: string;
+  /** Raw markdown as produced by the CLI */
+  text: string;
+  result: CliRunResult;
+  /** Overrides the status derived from the exit code (API errors, timeouts) */
+  status?: ReportStatus;
+  filePath?: string;
+}
+
+/** Build a Slack message permalink */
+function buildSlackLink(channelId: string, messageTs: string): string {
+  const tsNoDot = messageTs.replace(".", "");
+  return `https://${config.slackWorkspaceDomain}/archives/${channelId}/p${tsNoDot}`;
+}
+
+/** First markdown heading, else the first non-empty line, without markdown decoration */
+export function reportTitle(text: string): string {
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  const heading = lines.find((l) => /^#{1,6}\s/.test(l));
+  const title = (heading ?? lines[0] ?? "Untitled report").replace(/^#{1,6}\s+/, "").replace(/[*_`]/g, "").trim();
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title;
+}
+
+/** Store a report in the archive. Never throws — a failed insert must not break the workflow posting it. */
+export function archiveReport(input: ReportInput): number | null {
+  try {
+    const id = insertReport({
+      workflow_type: input.workflowType,
+      kind: input.kind,
+      channel_id: input.channelId,
+      thread_ts: input.threadTs,
+      permalink: buildSlackLink(input.channelId, input.threadTs),
+      incident_id: input.incidentId ?? null,
+      dag_name: input.dagName ?? null,
+      service: input.service ?? null,
+      rule_name: input.ruleName ?? null,
+      skill: input.skill ?? null,
+      model: input.model,
+      title: reportTitle(input.text),
+      body: input.text,
+      status: input.status ?? (input.result.exitCode === 0 ? "ok" : "error"),
+      exit_code: input.result.exitCode,
+      cost_usd: input.result.costUsd ?? null,
+      duration_ms: input.result.durationMs,
+      file_path: input.filePath ?? null,
+    });
+    console.log(`[ReportArchive] Archived ${input.workflowType} ${input.kind} for thread ${input.threadTs} as report #${id}`);
+    return id;
+  } catch (err) {
+    console.error(`[ReportArchive] Failed to archive report for thread ${input.threadTs}:`, err);
+    return null;
+  }
+}
+
+/** Turn free text into an FTS5 query of quoted terms ("" when there are none) */
+function toFtsQuery(text: string, operator: "AND" | "OR"): string {
+  const terms = text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return terms.map((t) => `"${t}"`).join(` ${operator} `);
+}
+
+/**
+ * Search the archive with plain words (no FTS syntax needed). All words must match;
+ * when nothing does, falls back to reports matching any of them.
+ */
+export function searchReportArchive(query: string, filter: ReportFilter = {}): ReportListRow[] {
+  const all = toFtsQuery(query, "AND");
+  if (!all) return listReports(filter);
+  const results = searchReports(all, filter);
+  if (results.length > 0 || !all.includes(" AND ")) return results;
+  return searchReports(toFtsQuery(query, "OR"), filter);
+}
+
+/**
+ * Index markdown reports written to data/reports/ before the archive existed (or while it
+ * failed). Their channel is unknown, so they have no permalink. Returns how many were added.
+ */
+export function importReportFiles(dir = REPORTS_DIR): number {
+  if (!existsSync(dir)) return 0;
+  let imported = 0;
+  for (const name of readdirSync(dir)) {
+    const m = name.match(REPORT_FILE_PATTERN);
+    const filePath = path.join(dir, name);
+    if (!m || hasReportFile(filePath)) continue;
+    try {
+      const body = readFileSync(filePath, "utf-8");
+      insertReport({
+        workflow_type: "alert",
+        kind: "investigation",
+        channel_id: null,
+        thread_ts: m[5],
+        permalink: null,
+        incident_id: body.match(/pagerduty\.com\/incidents\/([A-Z0-9]+)/i)?.[1] ?? null,
+        dag_name: null,
+        service: null,
+        rule_name: null,
+        skill: null,
+        model: null,
+        title: reportTitle(body),
+        body,
+        status: "ok",
+        exit_code: null,
+        cost_usd: null,
+        duration_ms: null,
+        file_path: filePath,
+        created_at: `${m[1]} ${m[2]}:${m[3]}:${m[4]}`,
+      });
+      imported++;
+    } catch (err) {
+      console.error(`[ReportArchive] Failed to import ${filePath}:`, err);
+    }
+  }
+  if (imported > 0) console.log(`[ReportArchive] Imported ${imported} report file(s) from ${dir}`);
+  return imported;
+}
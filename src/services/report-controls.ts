@@ -0,0 +1,100 @@
+import type { Button, ConfirmationDialog, ContextBlock, KnownBlock } from "@slack/web-api";
+import { config } from "../config.js";
+import { postMessage } from "./slack-gateway.js";
+
+export type ReportAction = "pd_ack" | "pd_resolve" | "followup" | "escalate" | "rerun" | "compact" | "end";
+
+/** Button labels, also used for the "who clicked what" line */
+export const REPORT_ACTIONS: Record<ReportAction, string> = {
+  pd_ack: "Acknowledge",
+  pd_resolve: "Resolve",
+  followup: "Ask follow-up",
+  escalate: "Escalate to Opus",
+  rerun: "Re-run investigation",
+  compact: "Compact",
+  end: "End session",
+};
+
+/** Every button's action_id is this prefix plus its ReportAction; the value is the alert thread's ts */
+export const REPORT_ACTION_PREFIX = "report_";
+/** callback_id of the "Ask follow-up" modal */
+export const REPORT_FOLLOWUP_VIEW = "report_followup_view";
+
+/** Notification text of the controls message (and what it keeps when edited) */
+export const CONTROLS_TEXT = "Investigation actions";
+
+const ACTIVITY_BLOCK_ID = "report_activity";
+/** A context block holds at most 10 elements; older clicks drop off */
+const MAX_ACTIVITY_ENTRIES = 10;
+
+function confirmation(title: string, text: string, confirm: string): ConfirmationDialog {
+  return {
+    title: { type: "plain_text", text: title },
+    text: { type: "mrkdwn", text },
+    confirm: { type: "plain_text", text: confirm },
+    deny: { type: "plain_text", text: "Cancel" },
+  };
+}
+
+function button(action: ReportAction, threadTs: string, extra: Partial<Button> = {}): Button {
+  return {
+    type: "button",
+    action_id: `${REPORT_ACTION_PREFIX}${action}`,
+    text: { type: "plain_text", text: REPORT_ACTIONS[action] },
+    value: threadTs,
+    ...extra,
+  };
+}
+
+/** Buttons under an investigation report; the PagerDuty ones only when the thread tracks an incident */
+export function buildReportControls(threadTs: string, incidentId: string | null): KnownBlock[] {
+  const buttons: Button[] = [];
+  if (incidentId && config.pagerdutyApiToken) {
+    buttons.push(
+      button("pd_ack", threadTs),
+      button("pd_resolve", threadTs, {
+        style: "primary",
+        confirm: confirmation("Resolve incident?", `Resolve ${incidentId} in PagerDuty and stop the investigation.`, "Resolve"),
+      })
+    );
+  }
+  buttons.push(
+    button("followup", threadTs),
+    button("escalate", threadTs),
+    button("rerun", threadTs, {
+      confirm: confirmation("Re-run investigation?", "End this thread's session and investigate the alert again from scratch.", "Re-run"),
+    }),
+    button("compact", threadTs),
+    button("end", threadTs, {
+      style: "danger",
+      confirm: confirmation("End session?", "Stop the investigation and forget this thread's Claude session.", "End session"),
+    })
+  );
+  return [{ type: "actions", elements: buttons }];
+}
+
+/** Post the controls in the alert thread. Never throws — the report itself is already posted. */
+export async function postReportControls(channelId: string, threadTs: string, incidentId: string | null): Promise<void> {
+  try {
+    await postMessage({
+      channel: channelId,
+      thread_ts: threadTs,
+      text: CONTROLS_TEXT,
+      blocks: buildReportControls(threadTs, incidentId),
+    });
+  } catch (err) {
+    console.error(`[ReportControls] Failed to post controls to thread ${threadTs}:`, err);
+  }
+}
+
+/** The controls message's blocks with "<@user> clicked X" added under the buttons */
+export function withActivity(blocks: KnownBlock[], userId: string, action: ReportAction, now = Date.now()): KnownBlock[] {
+  const seconds = Math.floor(now / 1000);
+  const entry = `<@${userId}> clicked *${REPORT_ACTIONS[action]}* <!date^${seconds}^{time}|${new Date(now).toISOString()}>`;
+  const activity = blocks.find((b) => b.block_id === ACTIVITY_BLOCK_ID) as ContextBlock | undefined;
+  const elements: ContextBlock["elements"] = [...(activity?.elements ?? []), { type: "mrkdwn", text: entry }];
+  return [
+    ...blocks.filter((b) => b.block_id !== ACTIVITY_BLOCK_ID),
+    { type: "context", block_id: ACTIVITY_BLOCK_ID, elements: elements.slice(-MAX_ACTIVITY_ENTRIES) },
+  ];
+}
@@ -0,0 +1,227 @@
+import type { KnownBlock } from "@slack/web-api";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { postMessage, updateMessage } from "./slack-gateway.js";
+import { postResponse, renderResponse } from "./response-renderer.js";
+
+vi.mock("./slack-gateway.js", () => ({
+  postMessage: vi.fn(),
+  updateMessage: vi.fn(),
+}));
+
+const post = vi.mocked(postMessage);
+const update = vi.mocked(updateMessage);
+
+const REPORT = `# Investigation: **payments-api** 5xx spike
+
+## 1. Summary
+
+The acquirer timed out for 12 minutes; retries recovered every payment.
+
+### Evidence
+
+- Gateway logs show \`upstream timeout\`
+  - 412 errors between 09:02 and 09:14
+* See [the dashboard](https://grafana.example.com/d/payments)
+
+| Service | Errors | Status |
+|---------|-------:|:------:|
+| payments-api | 412 | :green_circle: |
+| **ledger** | 0 | ok |
+
+\`\`\`
+ERROR upstream timeout acquirer=adyen
+ERROR upstream timeout acquirer=adyen
+\`\`\`
+
+---
+
+~~Rollback~~ not needed.`;
+
+/** `count` one-block headings */
+function headings(count: number): string {
+  return Array.from({ length: count }, (_, i) => `### Step ${i + 1}`).join("\n");
+}
+
+/** `count` paragraphs of `length` characters, each its own section */
+function paragraphs(count: number, length: number): string {
+  return Array.from({ length: count }, (_, i) => `${String(i).padStart(2, "0")}: ${"x".repeat(length - 4)}`).join("\n\n");
+}
+
+function sectionLength(block: KnownBlock): number {
+  return block.type === "section" ? (block.text?.text.length ?? 0) : 0;
+}
+
+/** A Slack call's arguments with the blocks (snapshotted elsewhere) reduced to their count */
+function summarize(args: object): object {
+  const { blocks, ...rest } = args as { blocks?: unknown[] };
+  return { ...rest, blocks: blocks?.length ?? null };
+}
+
+/** A Slack API error as the web client throws it */
+function slackError(code: string): Error {
+  return Object.assign(new Error(`An API error occurred: ${code}`), { data: { ok: false, error: code } });
+}
+
+describe("renderResponse", () => {
+  it("renders a full report", () => {
+    expect(renderResponse(REPORT, ["model: opus", "context: 22.3K (11%)"])).toMatchSnapshot();
+  });
+
+  it("turns h1/h2 into header blocks and smaller headings into bold lines", () => {
+    const long = "A".repeat(200);
+    expect(renderResponse(`# Top **level**\n## [Linked](https://example.com) \`code\`\n### Third\n###### Sixth\n# ${long}`)).toMatchSnapshot();
+  });
+
+  it("renders tables as table blocks, and oversized ones as code", () => {
+    const wide = ["|" + Array.from({ length: 21 }, (_, i) => ` c${i} `).join("|") + "|", "|" + " 1 |".repeat(21)].join("\n");
+    const [table] = renderResponse("| a | b |\n|---|---|\n| 1 |\n| 2 | 3 | 4 |");
+    const [code] = renderResponse(wide);
+
+    expect(table).toMatchSnapshot();
+    expect(code.blocks.map((b) => b.type)).toEqual(["rich_text"]);
+  });
+
+  it("keeps code fences verbatim, untouched by mrkdwn conversion", () => {
+    expect(renderResponse("Before\n```ts\nconst a = **b**; // [x](y)\n  indented\n```\nAfter\n```\n\n```")).toMatchSnapshot();
+  });
+
+  it("turns list markers into bullets, keeping nesting", () => {
+    expect(renderResponse("- one\n  - nested **bold**\n    + deeper\n* two\n1. numbered stays")).toMatchSnapshot();
+  });
+
+  it("renders horizontal rules as dividers", () => {
+    expect(renderResponse("above\n\n---\n***\n___\n\nbelow")).toMatchSnapshot();
+  });
+
+  it("puts the footer in a context block at the end of the last message only", () => {
+    const messages = renderResponse(headings(60), ["model: sonnet", "context: 1.2K (1%)"]);
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].blocks.some((b) => b.type === "context")).toBe(false);
+    expect(messages[1].blocks.at(-1)).toMatchSnapshot();
+    expect(messages[1].text.endsWith("_model: sonnet | context: 1.2K (1%)_")).toBe(true);
+  });
+
+  it("packs at most 50 blocks per message, counting the footer", () => {
+    const messages = renderResponse(headings(120), ["model: sonnet"]);
+
+    expect(messages.map((m) => m.blocks.length)).toEqual([49, 49, 23]);
+    expect(messages.flatMap((m) => m.blocks).filter((b) => b.type === "section")).toHaveLength(120);
+    expect(messages[2].blocks.at(-1)?.type).toBe("context");
+  });
+
+  it("starts a new message before the text passes 12,000 characters", () => {
+    const messages = renderResponse(paragraphs(10, 2900), ["model: sonnet"]);
+
+    expect(messages.map((m) => m.blocks.map(sectionLength))).toEqual([
+      [2900, 2900, 2900, 2900],
+      [2900, 2900, 2900, 2900],
+      [2900, 2900, 0],
+    ]);
+    for (const message of messages) expect(message.text.length).toBeLessThanOrEqual(12_000);
+  });
+
+  it("splits sections longer than Slack's 3,000 character limit", () => {
+    const [paragraphBreaks] = renderResponse(`${"a".repeat(2000)}\n\n${"b".repeat(2000)}`);
+    const [oneLine] = renderResponse("c".repeat(7000));
+
+    // At a paragraph break when there is one, else hard at the limit
+    expect(paragraphBreaks.blocks.map(sectionLength)).toEqual([2000, 2000]);
+    expect(oneLine.blocks.map(sectionLength)).toEqual([3000, 3000, 1000]);
+  });
+
+  it("renders a notice for an empty response instead of nothing", () => {
+    for (const markdown of ["", "  \n\n ", "```\n\n```"]) {
+      expect(renderResponse(markdown, ["model: sonnet"])).toEqual([
+        {
+          text: "_(The response was empty.)_\n\n_model: sonnet_",
+          blocks: [
+            { type: "section", text: { type: "mrkdwn", text: "_(The response was empty.)_" } },
+            { type: "context", elements: [{ type: "mrkdwn", text: "model: sonnet" }] },
+          ],
+        },
+      ]);
+    }
+  });
+
+  it("holds at most one table per message", () => {
+    const messages = renderResponse("| a | b |\n| 1 | 2 |\n\nbetween\n\n| c | d |\n| 3 | 4 |");
+
+    expect(messages.map((m) => m.blocks.map((b) => b.type))).toEqual([["table", "section"], ["table"]]);
+  });
+});
+
+describe("postResponse", () => {
+  let nextTs = 0;
+
+  beforeEach(() => {
+    nextTs = 0;
+    post.mockImplementation(async () => ({ ok: true, ts: `200.${++nextTs}` }));
+    update.mockResolvedValue({ ok: true });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("replaces the placeholder with the first message and threads the rest", async () => {
+    const posted = await postResponse(
+      { channel: "C1", threadTs: "100.1", replaceTs: "100.2", unfurl: false },
+      headings(60),
+      ["model: sonnet"]
+    );
+
+    expect(posted).toEqual({ lastTs: "200.1", messages: 2 });
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update.mock.calls[0][0]).toMatchObject({ channel: "C1", ts: "100.2" });
+    expect(post.mock.calls[0][0]).toMatchObject({ channel: "C1", thread_ts: "100.1", unfurl_links: false, unfurl_media: false });
+  });
+
+  it("starts a thread from the first message when there is none", async () => {
+    await postResponse({ channel: "C1" }, headings(60));
+
+    expect(post.mock.calls.map(([args]) => (args as { thread_ts?: string }).thread_ts)).toEqual([undefined, "200.1"]);
+  });
+
+  it("falls back to plain text when Slack rejects the blocks", async () => {
+    update.mockRejectedValueOnce(slackError("invalid_blocks"));
+    post.mockRejectedValueOnce(slackError("msg_blocks_too_long"));
+    const markdown = `${REPORT}\n\n${headings(45)}`;
+
+    const posted = await postResponse({ channel: "C1", threadTs: "100.1", replaceTs: "100.2" }, markdown, ["model: opus"]);
+
+    // Message 1: rejected edit, then its text replaces the placeholder; message 2: rejected post, then as text
+    expect(update.mock.calls.map(([args]) => summarize(args))).toMatchSnapshot();
+    expect(post.mock.calls.map(([args]) => summarize(args))).toMatchSnapshot();
+    expect(posted).toEqual({ lastTs: "200.1", messages: 2 });
+  });
+
+  it("chunks a rejected message's text at 3,500 characters", async () => {
+    update.mockRejectedValueOnce(slackError("msg_too_long"));
+
+    const posted = await postResponse({ channel: "C1", threadTs: "100.1", replaceTs: "100.2" }, paragraphs(4, 2900));
+
+    expect(update).toHaveBeenCalledTimes(2);
+    const texts = [update.mock.calls[1][0], ...post.mock.calls.map(([args]) => args)].map((args) => (args as { text?: string }).text);
+    // The 4 × 2,900 characters (and the breaks between them) no longer fit one 3,500 character message
+    expect(texts.map((t) => t?.length)).toEqual([2900, 2900, 2900, 2900]);
+    expect(post.mock.calls.every(([args]) => !("blocks" in args))).toBe(true);
+    expect(posted.messages).toBe(4);
+  });
+
+  it("replaces the placeholder even when the response is empty", async () => {
+    const posted = await postResponse({ channel: "C1", threadTs: "100.1", replaceTs: "100.2" }, "");
+
+    expect(posted).toEqual({ lastTs: "100.2", messages: 1 });
+    expect(update.mock.calls[0][0]).toMatchObject({ ts: "100.2", text: "_(The response was empty.)_" });
+  });
+
+  it("rethrows errors a plain-text retry can't fix", async () => {
+    post.mockRejectedValueOnce(slackError("channel_not_found"));
+
+    await expect(postResponse({ channel: "C404" }, "hello")).rejects.toThrow("channel_not_found");
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,349 @@
+import type { KnownBlock } from "@slack/web-api";
+import type { CliRunResult } from "./cli-runner.js";
+import { postMessage, updateMessage } from "./slack-gateway.js";
+
+/** Plain-text messages (and fallbacks) are split at this many characters */
+const SLACK_MAX_LENGTH = 3500;
+/** Slack limits */
+const SECTION_MAX_LENGTH = 3000;
+const HEADER_MAX_LENGTH = 150;
+const MESSAGE_MAX_BLOCKS = 50;
+const TABLE_MAX_ROWS = 100;
+const TABLE_MAX_COLUMNS = 20;
+/** Well under the point where Slack answers msg_blocks_too_long */
+const MESSAGE_MAX_CHARS = 12_000;
+const CONTEXT_WINDOW_TOKENS = 200_000;
+
+/** Posted when a response renders to nothing, so the placeholder it replaces doesn't stay */
+const EMPTY_RESPONSE_TEXT = "_(The response was empty.)_";
+
+/** Block errors that a plain-text retry gets around */
+const BLOCKS_REJECTED_ERRORS = new Set(["msg_too_long", "msg_blocks_too_long", "invalid_blocks", "invalid_blocks_format"]);
+
+export interface RenderedMessage {
+  /** The same content as mrkdwn: notification text, and what is posted if Slack rejects the blocks */
+  text: string;
+  blocks: KnownBlock[];
+}
+
+export interface ResponseTarget {
+  channel: string;
+  /** Thread to reply in; without one, messages after the first go in the first one's thread */
+  threadTs?: string;
+  /** Placeholder ("Thinking...") that the first message replaces */
+  replaceTs?: string;
+  /** Link previews (default on) */
+  unfurl?: boolean;
+}
+
+export interface PostedResponse {
+  /** Last message posted or edited */
+  lastTs?: string;
+  messages: number;
+}
+
+/** A block with its mrkdwn equivalent (also its size for the per-message budget) */
+interface RenderedBlock {
+  block: KnownBlock;
+  text: string;
+}
+
+/** Split a long response into Slack-safe chunks, breaking at paragraph/line boundaries */
+export function chunkResponse(text: string, maxLength = SLACK_MAX_LENGTH): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const chunks: string[] = [];
+  let remaining = text;
+  while (remaining.length > 0) {
+    if (remaining.length <= maxLength) {
+      chunks.push(remaining);
+      break;
+    }
+    let splitAt = remaining.lastIndexOf("\n\n", maxLength);
+    if (splitAt <= 0) splitAt = remaining.lastIndexOf("\n", maxLength);
+    if (splitAt <= 0) splitAt = maxLength;
+    chunks.push(remaining.slice(0, splitAt));
+    remaining = remaining.slice(splitAt).replace(/^\n+/, "");
+  }
+  return chunks;
+}
+
+/** Convert standard Markdown to Slack mrkdwn format.
+ *  Splits on fenced code blocks — only transforms non-code segments. */
+export function markdownToSlackMrkdwn(text: string): string {
+  // Split on fenced code blocks (```...```)
+  const parts = text.split(/(```[\s\S]*?```)/);
+  return parts
+    .map((part, i) => {
+      // Odd indices are code blocks — leave untouched
+      if (i % 2 === 1) return part;
+      return convertSegment(part);
+    })
+    .join("");
+}
+
+function convertSegment(text: string): string {
+  // 1. Images: ![alt](url) → <url|alt>
+  text = text.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, "<$2|$1>");
+
+  // 2. Links: [text](url) → <url|text>
+  text = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, "<$2|$1>");
+
+  // 3. Headings: ^#{1,6} text → *text* (bold, strip any ** inside)
+  text = text.replace(/^#{1,6}\s+(.+)$/gm, (_match, heading: string) => {
+    return `*${heading.replace(/\*\*/g, "")}*`;
+  });
+
+  // 4. Bold: **text** → *text*
+  text = text.replace(/\*\*(.+?)\*\*/g, "*$1*");
+
+  // 5. Strikethrough: ~~text~~ → ~text~
+  text = text.replace(/~~(.+?)~~/g, "~$1~");
+
+  // 6. Tables: consecutive |...| lines → wrapped in ``` code block (separator rows removed)
+  text = text.replace(
+    /(?:^[ \t]*\|.+\|[ \t]*$\n?){2,}/gm,
+    (tableBlock: string) => {
+      const lines = tableBlock
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        // Remove separator rows like |---|---|
+        .filter((line) => !isTableSeparator(line));
+      return "```\n" + lines.join("\n") + "\n```\n";
+    }
+  );
+
+  // 7. Emoji shortcodes
+  return fixEmoji(text);
+}
+
+/** Fix common emoji shortcodes Claude generates that Slack doesn't recognize */
+function fixEmoji(text: string): string {
+  return text
+    .replace(/:green_circle:/g, ":large_green_circle:")
+    .replace(/:orange_circle:/g, ":large_orange_circle:")
+    .replace(/:yellow_circle:/g, ":large_yellow_circle:");
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1000) return `${(n / 1000).toFixed(1)}K`;
+  return `${n}`;
+}
+
+/** Model and context usage of a CLI run, for the footer of its response */
+export function usageFooter(result: CliRunResult, model: string): string[] {
+  const parts = [`model: ${model}`];
+  if (result.inputTokens != null) {
+    const pct = Math.round((result.inputTokens / CONTEXT_WINDOW_TOKENS) * 100);
+    parts.push(`context: ${formatTokens(result.inputTokens)} (${pct}%)`);
+  }
+  return parts;
+}
+
+const TABLE_LINE = /^[ \t]*\|.+\|[ \t]*$/;
+
+function isTableSeparator(line: string): boolean {
+  return /^\s*\|[\s:|-]+\|\s*$/.test(line);
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map((cell) => cell.trim());
+}
+
+/** Markdown inline markup as plain text, for header and table cells (which render no formatting) */
+function stripInline(text: string): string {
+  return fixEmoji(text)
+    .replace(/!?\[([^\]]*)\]\(([^)]+)\)/g, "$1")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .trim();
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function renderText(markdown: string): RenderedBlock[] {
+  // Slack has no list syntax; bullets become "•" (keeping the indentation of nested items)
+  const text = markdownToSlackMrkdwn(markdown.replace(/^([ \t]*)[-*+][ \t]+/gm, "$1• "));
+  return chunkResponse(text, SECTION_MAX_LENGTH).map((chunk) => ({
+    block: { type: "section", text: { type: "mrkdwn", text: chunk } },
+    text: chunk,
+  }));
+}
+
+function renderHeading(level: number, heading: string): RenderedBlock {
+  const plain = stripInline(heading);
+  // Only top-level headings get the large header block; smaller ones stay bold lines
+  if (level > 2) {
+    const bold = `*${plain}*`;
+    return { block: { type: "section", text: { type: "mrkdwn", text: truncate(bold, SECTION_MAX_LENGTH) } }, text: bold };
+  }
+  return {
+    block: { type: "header", text: { type: "plain_text", text: truncate(plain, HEADER_MAX_LENGTH), emoji: true } },
+    text: `*${plain}*`,
+  };
+}
+
+function renderCode(code: string): RenderedBlock[] {
+  if (!code.trim()) return [];
+  return chunkResponse(code, SECTION_MAX_LENGTH).map((chunk) => ({
+    block: { type: "rich_text", elements: [{ type: "rich_text_preformatted", elements: [{ type: "text", text: chunk }] }] },
+    text: "```\n" + chunk + "\n```",
+  }));
+}
+
+function renderTable(lines: string[]): RenderedBlock[] {
+  const kept = lines.filter((line) => !isTableSeparator(line));
+  const rows = kept.map(tableCells);
+  const columns = Math.max(...rows.map((row) => row.length));
+  // Beyond the table block's limits it stays a code block, as before
+  if (rows.length > TABLE_MAX_ROWS || columns > TABLE_MAX_COLUMNS) return renderCode(kept.join("\n"));
+  return [
+    {
+      block: {
+        type: "table",
+        rows: rows.map((row) =>
+          Array.from({ length: columns }, (_, i) => ({ type: "raw_text" as const, text: stripInline(row[i] ?? "") || " " }))
+        ),
+        column_settings: Array.from({ length: columns }, () => ({ is_wrapped: true })),
+      },
+      text: "```\n" + kept.join("\n") + "\n```",
+    },
+  ];
+}
+
+/** Claude markdown → blocks: headers, sections, rich_text code blocks, tables and dividers */
+function renderBlocks(markdown: string): RenderedBlock[] {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const blocks: RenderedBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = (): void => {
+    const text = paragraph.join("\n").replace(/^\n+|\s+$/g, "");
+    paragraph = [];
+    if (text) blocks.push(...renderText(text));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !/^\s*```\s*$/.test(lines[i])) code.push(lines[i]);
+      blocks.push(...renderCode(code.join("\n")));
+      continue;
+    }
+
+    if (TABLE_LINE.test(line) && TABLE_LINE.test(lines[i + 1] ?? "")) {
+      flush();
+      const table: string[] = [];
+      while (i < lines.length && TABLE_LINE.test(lines[i])) table.push(lines[i++]);
+      i--;
+      blocks.push(...renderTable(table));
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flush();
+      blocks.push(renderHeading(heading[1].length, heading[2]));
+      continue;
+    }
+
+    if (/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+      flush();
+      blocks.push({ block: { type: "divider" }, text: "---" });
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+/**
+ * Render a Claude markdown response as Block Kit messages. Each message stays within Slack's block
+ * count and size limits (and holds at most one table); the footer parts go in a context block at the
+ * end of the last one. An empty response still renders one message, saying so.
+ */
+export function renderResponse(markdown: string, footer: string[] = []): RenderedMessage[] {
+  const footerBlock: RenderedBlock | null =
+    footer.length > 0
+      ? {
+          block: { type: "context", elements: footer.slice(0, 10).map((part) => ({ type: "mrkdwn" as const, text: part })) },
+          text: `_${footer.join(" | ")}_`,
+        }
+      : null;
+  const reserve = footerBlock ? footerBlock.text.length : 0;
+
+  const items = renderBlocks(markdown);
+  if (items.length === 0) {
+    items.push({ block: { type: "section", text: { type: "mrkdwn", text: EMPTY_RESPONSE_TEXT } }, text: EMPTY_RESPONSE_TEXT });
+  }
+
+  const messages: RenderedBlock[][] = [[]];
+  let size = 0;
+  for (const item of items) {
+    const current = messages[messages.length - 1];
+    const full =
+      current.length >= MESSAGE_MAX_BLOCKS - 1 ||
+      size + item.text.length + reserve > MESSAGE_MAX_CHARS ||
+      (item.block.type === "table" && current.some((b) => b.block.type === "table"));
+    if (full && current.length > 0) {
+      messages.push([]);
+      size = 0;
+    }
+    messages[messages.length - 1].push(item);
+    size += item.text.length;
+  }
+  if (footerBlock) messages[messages.length - 1].push(footerBlock);
+
+  return messages
+    .filter((blocks) => blocks.length > 0)
+    .map((blocks) => ({ text: blocks.map((b) => b.text).join("\n\n"), blocks: blocks.map((b) => b.block) }));
+}
+
+/**
+ * Post a rendered response: the first message replaces the placeholder (or is posted), the rest
+ * follow in the thread. A message whose blocks Slack rejects is posted as plain-text chunks instead.
+ */
+export async function postResponse(target: ResponseTarget, markdown: string, footer: string[] = []): Promise<PostedResponse> {
+  const unfurl = target.unfurl === false ? { unfurl_links: false, unfurl_media: false } : {};
+  let threadTs = target.threadTs;
+  let lastTs: string | undefined;
+  let count = 0;
+
+  const send = async (content: { text: string; blocks?: KnownBlock[] }, replaceTs?: string): Promise<void> => {
+    if (replaceTs) {
+      await updateMessage({ channel: target.channel, ts: replaceTs, ...content });
+      lastTs = replaceTs;
+    } else {
+      const res = await postMessage({ channel: target.channel, ...(threadTs ? { thread_ts: threadTs } : {}), ...content, ...unfurl });
+      lastTs = res.ts;
+    }
+    count++;
+    // Without a thread, the first message starts one for the rest
+    threadTs ??= lastTs;
+  };
+
+  const messages = renderResponse(markdown, footer);
+  for (const [i, message] of messages.entries()) {
+    const replaceTs = i === 0 ? target.replaceTs : undefined;
+    try {
+      await send(message, replaceTs);
+    } catch (err) {
+      const code = (err as { data?: { error?: string } }).data?.error;
+      if (!code || !BLOCKS_REJECTED_ERRORS.has(code)) throw err;
+      console.warn(`[Renderer] Slack rejected the blocks of message ${i + 1}/${messages.length} (${code}), posting it as text`);
+      const [first, ...rest] = chunkResponse(message.text);
+      await send({ text: first }, replaceTs);
+      for (const chunk of rest) await send({ text: chunk });
+    }
+  }
+  return { lastTs, messages: count };
+}
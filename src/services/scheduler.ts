@@ -0,0 +1,388 @@
+import type { App } from "@slack/bolt";
+import { config, isValidModel } from "../config.js";
+import {
+  spawnClaudeCli,
+  spawnDiscussCli,
+  detectAndLoadSkill,
+  resolveSkillPath,
+  rewriteApiError,
+  type CliRun,
+} from "./claude-cli.js";
+import { enforceBudget, type LedgerContext } from "./cost-ledger.js";
+import { parseCron, nextCronTime, isValidTimeZone, localTimeZone } from "./cron.js";
+import {
+  insertScheduledJob,
+  getScheduledJobs,
+  getScheduledJob,
+  setScheduledJobPaused,
+  deleteScheduledJob,
+  insertScheduledJobRun,
+  finishScheduledJobRun,
+  failInterruptedJobRuns,
+  getLastScheduledRunTime,
+  getLatestJobRuns,
+  type ScheduledJobRow,
+  type ScheduledJobRunRow,
+} from "./database.js";
+import { postMessage } from "./slack-gateway.js";
+import { postResponse } from "./response-renderer.js";
+
+/** How often due jobs are checked (cron has minute resolution) */
+const TICK_MS = 15_000;
+const JOB_NAME = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+const TARGET = /^[CGDUW][A-Z0-9]+$/;
+
+/** A job defined in code from .env settings (daily summary, daily restart) rather than stored */
+export interface BuiltinJob {
+  name: string;
+  cron: string;
+  timezone: string;
+  /** Shown in job listings */
+  description: string;
+  catchUp: boolean;
+  /** Throws on failure */
+  run: () => Promise<void>;
+}
+
+export interface NewScheduledJob {
+  name: string;
+  cron: string;
+  /** Default: SCHEDULER_TIMEZONE, else the server's */
+  timezone?: string;
+  /** Prompt, or the skill's arguments when `skill` is set */
+  prompt: string;
+  skill?: string;
+  /** Channel ID, or user ID for a DM */
+  target: string;
+  model?: string;
+  catchUp?: boolean;
+  createdBy?: string;
+}
+
+/** A job as listed by `!schedule list` and GET /jobs */
+export interface JobInfo {
+  name: string;
+  builtin: boolean;
+  cron: string;
+  timezone: string;
+  description: string;
+  skill: string | null;
+  target: string | null;
+  model: string | null;
+  catchUp: boolean;
+  paused: boolean;
+  running: boolean;
+  nextRunAt: number | null;
+  lastRun: ScheduledJobRunRow | null;
+}
+
+export interface SchedulerResult<T = void> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface Job {
+  name: string;
+  cron: string;
+  timezone: string;
+  catchUp: boolean;
+  paused: boolean;
+  builtin?: BuiltinJob;
+  row?: ScheduledJobRow;
+}
+
+interface JobOutcome {
+  status: "ok" | "error" | "skipped";
+  error?: string;
+  costUsd?: number;
+}
+
+interface PendingRun {
+  at: number;
+  trigger: ScheduledJobRunRow["trigger"];
+}
+
+const builtinJobs = new Map<string, BuiltinJob>();
+/** Job name → next run (null = the expression never matches again); paused jobs have no entry */
+const pending = new Map<string, PendingRun | null>();
+const running = new Set<string>();
+
+let slackApp: App | undefined;
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+
+function toJob(source: BuiltinJob | ScheduledJobRow): Job {
+  if ("run" in source) {
+    return { name: source.name, cron: source.cron, timezone: source.timezone, catchUp: source.catchUp, paused: false, builtin: source };
+  }
+  return {
+    name: source.name,
+    cron: source.cron,
+    timezone: source.timezone,
+    catchUp: source.catch_up === 1,
+    paused: source.paused === 1,
+    row: source,
+  };
+}
+
+function findJob(name: string): Job | undefined {
+  const builtin = builtinJobs.get(name);
+  if (builtin) return toJob(builtin);
+  const row = getScheduledJob(name);
+  return row ? toJob(row) : undefined;
+}
+
+function allJobs(): Job[] {
+  return [...[...builtinJobs.values()].map(toJob), ...getScheduledJobs().map(toJob)];
+}
+
+/**
+ * Compute a job's next run. With `catchUp`, a run missed while the bot was down (within
+ * SCHEDULER_CATCH_UP_HOURS) is due immediately — once, however many were missed.
+ */
+function arm(job: Job, catchUp = false): void {
+  if (job.paused) {
+    pending.delete(job.name);
+    return;
+  }
+  const schedule = parseCron(job.cron);
+  const now = Date.now();
+
+  const last = getLastScheduledRunTime(job.name) ?? job.row?.created_at;
+  if (catchUp && job.catchUp && config.schedulerCatchUpHours > 0 && last !== undefined) {
+    let missed: number | null = null;
+    const from = Math.max(last, now - config.schedulerCatchUpHours * 3_600_000);
+    for (let t = nextCronTime(schedule, from, job.timezone); t !== null && t <= now; t = nextCronTime(schedule, t, job.timezone)) {
+      missed = t;
+    }
+    if (missed !== null) {
+      console.log(`[Scheduler] ${job.name} missed its run at ${new Date(missed).toISOString()} — catching up`);
+      pending.set(job.name, { at: missed, trigger: "catch_up" });
+      return;
+    }
+  }
+
+  const next = nextCronTime(schedule, now, job.timezone);
+  pending.set(job.name, next === null ? null : { at: next, trigger: "schedule" });
+}
+
+/** Run a stored job's prompt or skill and post the result to its target */
+async function runPromptJob(app: App, job: ScheduledJobRow): Promise<JobOutcome> {
+  const model = job.model || config.schedulerModel;
+  const ledger: LedgerContext = {
+    workflowType: "scheduled",
+    userId: job.created_by ?? undefined,
+    channelId: job.target,
+    skill: job.skill ?? undefined,
+  };
+  if (!(await enforceBudget(app, ledger, job.target))) return { status: "skipped", error: "budget exceeded" };
+
+  let run: CliRun;
+  if (job.skill) {
+    const skillContext = detectAndLoadSkill(`one:${job.skill}`, config.paymentsRepoPath);
+    if (!skillContext) return { status: "error", error: `skill "${job.skill}" not found` };
+    skillContext.skillArgs = job.prompt;
+    // spawnClaudeCli also hard-blocks Slack write tools for skills
+    run = spawnClaudeCli(`Invoke skill "${job.skill}" with args "${job.prompt}".`, config.paymentsRepoPath, { model, skillContext, ledger });
+  } else {
+    const prompt = `${job.prompt}\n\nIMPORTANT: Do NOT send any Slack messages. Only return the result text.`;
+    run = spawnDiscussCli(prompt, config.paymentsRepoPath, { model, ledger });
+  }
+  const result = await run.done;
+
+  const text = result.response || result.fullReport || "";
+  const apiError = text ? rewriteApiError(text) : null;
+  if (result.exitCode !== 0 || !text || apiError) {
+    const error = apiError ?? `CLI exited with code ${result.exitCode}`;
+    await postMessage({ channel: job.target, text: `:x: Scheduled job \`${job.name}\` failed: ${error}`, unfurl_links: false, unfurl_media: false });
+    return { status: "error", error, costUsd: result.costUsd };
+  }
+
+  await postResponse({ channel: job.target, unfurl: false }, text, [`Scheduled job \`${job.name}\``, `model ${model}`]);
+  return { status: "ok", costUsd: result.costUsd };
+}
+
+/** Run a job and record the run. Never throws. */
+async function execute(job: Job, trigger: PendingRun["trigger"], scheduledFor: number): Promise<void> {
+  let runId: number | undefined;
+  // Only the call that marked the job running may clear the mark; a skipped run must leave it
+  let acquired = false;
+  try {
+    runId = insertScheduledJobRun({ job_name: job.name, trigger, scheduled_for: scheduledFor, started_at: Date.now() });
+    if (running.has(job.name)) {
+      console.warn(`[Scheduler] ${job.name} is still running — skipping this run`);
+      finishScheduledJobRun(runId, "skipped", "previous run still in progress", null);
+      return;
+    }
+    if (!slackApp) throw new Error("scheduler not started");
+
+    running.add(job.name);
+    acquired = true;
+    console.log(`[Scheduler] Running ${job.name} (${trigger})`);
+    let outcome: JobOutcome = { status: "ok" };
+    if (job.builtin) {
+      await job.builtin.run();
+    } else if (job.row) {
+      outcome = await runPromptJob(slackApp, job.row);
+    }
+    finishScheduledJobRun(runId, outcome.status, outcome.error ?? null, outcome.costUsd ?? null);
+    console.log(
+      `[Scheduler] ${job.name} finished: ${outcome.status}` +
+        (outcome.error ? ` (${outcome.error})` : "") +
+        (outcome.costUsd !== undefined ? ` ($${outcome.costUsd.toFixed(4)})` : "")
+    );
+  } catch (err) {
+    console.error(`[Scheduler] ${job.name} failed:`, err);
+    try {
+      if (runId !== undefined) finishScheduledJobRun(runId, "error", (err as Error).message, null);
+    } catch (dbErr) {
+      console.error(`[Scheduler] Failed to record the ${job.name} run:`, dbErr);
+    }
+  } finally {
+    if (acquired) running.delete(job.name);
+  }
+}
+
+function tick(): void {
+  const now = Date.now();
+  for (const [name, next] of pending) {
+    if (!next || next.at > now) continue;
+    const job = findJob(name);
+    if (!job) {
+      pending.delete(name);
+      continue;
+    }
+    arm(job);
+    void execute(job, next.trigger, next.at);
+  }
+}
+
+/** Add or replace a built-in job (re-registered when its .env settings change) */
+export function registerBuiltinJob(job: BuiltinJob): void {
+  parseCron(job.cron);
+  builtinJobs.set(job.name, job);
+  if (slackApp) arm(toJob(job));
+  const next = pending.get(job.name);
+  console.log(`[Scheduler] Built-in job ${job.name}: "${job.cron}" ${job.timezone}` + (next ? ` (next ${new Date(next.at).toISOString()})` : ""));
+}
+
+export function unregisterBuiltinJob(name: string): void {
+  builtinJobs.delete(name);
+  pending.delete(name);
+}
+
+/** Arm all jobs (catching up runs missed while the bot was down) and start checking for due ones */
+export function startScheduler(app: App): void {
+  slackApp = app;
+  const interrupted = failInterruptedJobRuns();
+  if (interrupted > 0) console.warn(`[Scheduler] ${interrupted} job run(s) were interrupted by the last shutdown`);
+
+  for (const job of allJobs()) {
+    try {
+      arm(job, true);
+    } catch (err) {
+      console.error(`[Scheduler] Can't schedule ${job.name}:`, err);
+    }
+  }
+  tickTimer = setInterval(tick, TICK_MS);
+  tickTimer.unref();
+  console.log(`[Scheduler] Started with ${pending.size} active job(s)`);
+  tick();
+}
+
+export function stopScheduler(): void {
+  if (tickTimer) clearInterval(tickTimer);
+  tickTimer = null;
+}
+
+/** Built-in jobs first, then stored jobs by name */
+export function listJobs(): JobInfo[] {
+  const lastRuns = new Map(getLatestJobRuns().map((r) => [r.job_name, r]));
+  return allJobs().map((job) => ({
+    name: job.name,
+    builtin: job.builtin !== undefined,
+    cron: job.cron,
+    timezone: job.timezone,
+    description: job.builtin?.description ?? job.row!.prompt,
+    skill: job.row?.skill ?? null,
+    target: job.row?.target ?? null,
+    model: job.row ? job.row.model || config.schedulerModel : null,
+    catchUp: job.catchUp,
+    paused: job.paused,
+    running: running.has(job.name),
+    nextRunAt: pending.get(job.name)?.at ?? null,
+    lastRun: lastRuns.get(job.name) ?? null,
+  }));
+}
+
+export function getJobInfo(name: string): JobInfo | undefined {
+  return listJobs().find((j) => j.name === name);
+}
+
+/** Validate and store a new job, then schedule it */
+export function addScheduledJob(input: NewScheduledJob): SchedulerResult<JobInfo> {
+  const timezone = input.timezone || config.schedulerTimezone || localTimeZone();
+  const skill = input.skill?.replace(/^one:/, "") || null;
+  if (!JOB_NAME.test(input.name)) {
+    return { success: false, error: "job names are 1-40 letters, digits, - or _" };
+  }
+  if (builtinJobs.has(input.name) || getScheduledJob(input.name)) {
+    return { success: false, error: `a job named "${input.name}" already exists` };
+  }
+  try {
+    parseCron(input.cron);
+  } catch (err) {
+    return { success: false, error: `invalid cron expression: ${(err as Error).message}` };
+  }
+  if (!isValidTimeZone(timezone)) return { success: false, error: `unknown timezone "${timezone}"` };
+  if (!input.prompt.trim() && !skill) return { success: false, error: "a prompt or a skill is required" };
+  if (skill && (!/^[a-z][a-z0-9-]*$/i.test(skill) || !resolveSkillPath(skill, config.paymentsRepoPath))) {
+    return { success: false, error: `skill "${skill}" not found` };
+  }
+  if (!TARGET.test(input.target)) return { success: false, error: `"${input.target}" is not a channel or user ID` };
+  if (input.model && !isValidModel(input.model)) return { success: false, error: `"${input.model}" is not a model alias or ID` };
+
+  const row: Omit<ScheduledJobRow, "id"> = {
+    name: input.name,
+    cron: input.cron.trim(),
+    timezone,
+    prompt: input.prompt.trim(),
+    skill,
+    target: input.target,
+    model: input.model || null,
+    catch_up: input.catchUp === false ? 0 : 1,
+    paused: 0,
+    created_by: input.createdBy ?? null,
+    created_at: Date.now(),
+  };
+  insertScheduledJob(row);
+  arm(toJob({ ...row, id: 0 }));
+  console.log(`[Scheduler] Added job ${row.name}: "${row.cron}" ${timezone} → ${row.target}` + (row.created_by ? ` (by ${row.created_by})` : ""));
+  return { success: true, data: getJobInfo(row.name) };
+}
+
+/** Pause or resume a stored job (built-in jobs follow their .env settings) */
+export function setJobPaused(name: string, paused: boolean): SchedulerResult<JobInfo> {
+  if (builtinJobs.has(name)) return { success: false, error: `"${name}" is a built-in job, configured in .env` };
+  if (!setScheduledJobPaused(name, paused)) return { success: false, error: `no job named "${name}"` };
+  arm(findJob(name)!);
+  console.log(`[Scheduler] ${paused ? "Paused" : "Resumed"} job ${name}`);
+  return { success: true, data: getJobInfo(name) };
+}
+
+export function removeScheduledJob(name: string): SchedulerResult {
+  if (builtinJobs.has(name)) return { success: false, error: `"${name}" is a built-in job, configured in .env` };
+  if (!deleteScheduledJob(name)) return { success: false, error: `no job named "${name}"` };
+  pending.delete(name);
+  console.log(`[Scheduler] Removed job ${name}`);
+  return { success: true };
+}
+
+/** Start a job now, outside its schedule (also paused jobs). Runs in the background. */
+export function runJobNow(name: string): SchedulerResult {
+  const job = findJob(name);
+  if (!job) return { success: false, error: `no job named "${name}"` };
+  if (running.has(name)) return { success: false, error: `"${name}" is already running` };
+  void execute(job, "manual", Date.now());
+  return { success: true };
+}
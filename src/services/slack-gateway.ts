@@ -0,0 +1,199 @@
+import {
+  WebClient,
+  ErrorCode,
+  LogLevel,
+  type ChatDeleteArguments,
+  type ChatDeleteResponse,
+  type ChatPostMessageArguments,
+  type ChatPostMessageResponse,
+  type ChatUpdateArguments,
+  type ChatUpdateResponse,
+  type FilesUploadV2Arguments,
+  type WebAPIRateLimitedError,
+} from "@slack/web-api";
+import { config } from "../config.js";
+
+/**
+ * Slack's published per-method rate tiers (calls per minute, per workspace). A method missing here
+ * is treated as Tier 3. chat.postMessage is special: roughly one message per second per channel.
+ */
+const METHOD_TIERS: Record<string, 1 | 2 | 3 | 4> = {
+  "chat.update": 3,
+  "chat.delete": 3,
+  "pins.add": 2,
+  "canvases.edit": 3,
+  "files.uploadV2": 2,
+};
+
+const TIER_PER_MINUTE = { 1: 1, 2: 20, 3: 50, 4: 100 } as const;
+/** chat.postMessage, per channel */
+const POSTS_PER_MINUTE = 60;
+/** Calls allowed back to back before the per-minute rate applies */
+const BURST = 3;
+/** A call answered with 429 is retried after Retry-After this many times before giving up */
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+interface Limiter {
+  /** Resolves when the caller may make its call; waiters are served in arrival order */
+  acquire: () => Promise<void>;
+  /** Hold every call until Slack's Retry-After has passed */
+  pause: (ms: number) => void;
+}
+
+interface PendingUpdate {
+  args: ChatUpdateArguments;
+  result: Promise<ChatUpdateResponse>;
+}
+
+const limiters = new Map<string, Limiter>();
+/** Tail of each channel's send queue; a channel's posts, edits and deletes run one at a time, in order */
+const lanes = new Map<string, Promise<void>>();
+/** Coalescable edits still waiting in their lane, by channel:ts */
+const pendingUpdates = new Map<string, PendingUpdate>();
+
+let client: WebClient | null = null;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Our own client that rejects 429s (instead of retrying them inside the client), so Retry-After is handled per method here */
+function gatewayClient(): WebClient {
+  client ??= new WebClient(config.slackBotToken, { rejectRateLimitedCalls: true, logLevel: LogLevel.ERROR });
+  return client;
+}
+
+/** Token bucket refilled at perMinute, holding at most BURST calls */
+function createLimiter(perMinute: number): Limiter {
+  const intervalMs = 60_000 / perMinute;
+  let tokens = BURST;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let queue: Promise<void> = Promise.resolve();
+
+  const take = async (): Promise<void> => {
+    for (;;) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        await sleep(pausedUntil - now);
+        continue;
+      }
+      tokens = Math.min(BURST, tokens + (now - refilledAt) / intervalMs);
+      refilledAt = now;
+      if (tokens >= 1) {
+        tokens--;
+        return;
+      }
+      await sleep((1 - tokens) * intervalMs);
+    }
+  };
+
+  return {
+    acquire: () => {
+      const turn = queue.then(take);
+      queue = turn;
+      return turn;
+    },
+    pause: (ms) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+      tokens = 0;
+    },
+  };
+}
+
+function limiterFor(key: string, perMinute: number): Limiter {
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = createLimiter(perMinute);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/** Seconds Slack asked us to wait, or null when the error isn't a rate limit */
+function retryAfterSec(err: unknown): number | null {
+  if ((err as { code?: string }).code !== ErrorCode.RateLimitedError) return null;
+  return (err as WebAPIRateLimitedError).retryAfter;
+}
+
+async function callLimited<T>(method: string, limiter: Limiter, call: (client: WebClient) => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire();
+    try {
+      return await call(gatewayClient());
+    } catch (err) {
+      const retryAfter = retryAfterSec(err);
+      if (retryAfter === null || attempt >= MAX_RATE_LIMIT_RETRIES) throw err;
+      console.warn(`[SlackGateway] ${method} rate-limited, retrying in ${retryAfter}s (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`);
+      limiter.pause(retryAfter * 1000);
+    }
+  }
+}
+
+/** Run a task after everything already queued for the channel, whether that succeeded or not */
+function inLane<T>(channel: string, task: () => Promise<T>): Promise<T> {
+  const result = (lanes.get(channel) ?? Promise.resolve()).then(task);
+  const tail = result.then(
+    () => {},
+    () => {}
+  );
+  lanes.set(channel, tail);
+  void tail.then(() => {
+    if (lanes.get(channel) === tail) lanes.delete(channel);
+  });
+  return result;
+}
+
+/**
+ * Call any Slack Web API method under its tier's rate limit, retrying after Retry-After on 429.
+ * Prefer postMessage/updateMessage/deleteMessage/uploadFile for anything that lands in a channel,
+ * so it keeps its place in the channel's send queue.
+ */
+export function callSlack<T>(method: string, call: (client: WebClient) => Promise<T>): Promise<T> {
+  return callLimited(method, limiterFor(method, TIER_PER_MINUTE[METHOD_TIERS[method] ?? 3]), call);
+}
+
+/** chat.postMessage, queued behind the channel's earlier sends */
+export function postMessage(args: ChatPostMessageArguments): Promise<ChatPostMessageResponse> {
+  return inLane(args.channel, () =>
+    callLimited("chat.postMessage", limiterFor(`chat.postMessage:${args.channel}`, POSTS_PER_MINUTE), (c) => c.chat.postMessage(args))
+  );
+}
+
+/**
+ * chat.update, queued behind the channel's earlier sends. With coalesce (live progress, heartbeats),
+ * an edit of a message that already has a coalescable edit waiting replaces that edit's text instead
+ * of queueing another call — both callers get the one result. Final edits are never coalesced, and
+ * nothing is merged into them.
+ */
+export function updateMessage(args: ChatUpdateArguments, options: { coalesce?: boolean } = {}): Promise<ChatUpdateResponse> {
+  const key = `${args.channel}:${args.ts}`;
+  const send = (a: ChatUpdateArguments) => callSlack("chat.update", (c) => c.chat.update(a));
+
+  if (!options.coalesce) return inLane(args.channel, () => send(args));
+
+  const pending = pendingUpdates.get(key);
+  if (pending) {
+    pending.args = args;
+    return pending.result;
+  }
+  const entry = { args } as PendingUpdate;
+  entry.result = inLane(args.channel, () => {
+    // Picked up: later edits queue behind this one instead of changing what it sends
+    if (pendingUpdates.get(key) === entry) pendingUpdates.delete(key);
+    return send(entry.args);
+  });
+  pendingUpdates.set(key, entry);
+  return entry.result;
+}
+
+/** chat.delete, queued behind the channel's earlier sends */
+export function deleteMessage(args: ChatDeleteArguments): Promise<ChatDeleteResponse> {
+  return inLane(args.channel, () => callSlack("chat.delete", (c) => c.chat.delete(args)));
+}
+
+/** files.uploadV2 into a channel (or thread), queued behind the channel's earlier sends */
+export function uploadFile(args: FilesUploadV2Arguments): Promise<unknown> {
+  const channel = "channel_id" in args && args.channel_id ? args.channel_id : "";
+  return inLane(channel, () => callSlack("files.uploadV2", (c) => c.filesUploadV2(args)));
+}
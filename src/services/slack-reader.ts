@@ -1,14 +1,39 @@
 import { WebClient } from "@slack/web-api";
 import { config } from "../config.js";
+import type { SlackFile } from "./slack-files.js";
 
 // Cache user names across calls within the same process
 const userNameCache = new Map<string, string>();
 
+/** Channels the bot is known to be in, so membership is checked once per process */
+const botMemberships = new Set<string>();
+
+/** Slack API errors meaning a token was rejected */
+const AUTH_ERRORS = new Set(["invalid_auth", "not_authed", "token_expired", "token_revoked", "account_inactive"]);
+
 export interface SlackMessage {
   ts: string;
   userId: string;
   userName: string;
   text: string;
+  /** Thread replies posted in the window, oldest first */
+  replies?: SlackMessage[];
+  /** Earlier replies left out of `replies` to fit a token budget */
+  omittedReplies?: number;
+  /** Stands in for the replies of a thread too long to include */
+  threadSummary?: string;
+  /** Thread parent posted before the window, included for its replies in the window */
+  beforeWindow?: boolean;
+}
+
+/** A thread message as returned by conversations.replies */
+export interface ThreadReply {
+  ts: string;
+  user?: string;
+  botId?: string;
+  subtype?: string;
+  text: string;
+  files?: SlackFile[];
 }
 
 export function createPersonalSlackClient(): WebClient {
@@ -22,39 +47,118 @@ export function createPersonalSlackClient(): WebClient {
   });
 }
 
+/** Reads channel history as one Slack identity */
+export interface ChannelReader {
+  kind: "bot" | "personal";
+  client: WebClient;
+  /** Make sure the reader can see the channel; throws with the reason when it can't */
+  ensureAccess(channelId: string): Promise<void>;
+}
+
+/**
+ * Reader with the bot token. Joins public channels it isn't in (needs the channels:join scope);
+ * private channels need an invite.
+ */
+export function createBotReader(client: WebClient): ChannelReader {
+  return {
+    kind: "bot",
+    client,
+    async ensureAccess(channelId: string): Promise<void> {
+      if (botMemberships.has(channelId)) return;
+      const info = await client.conversations.info({ channel: channelId });
+      if (!info.channel?.is_member) {
+        if (info.channel?.is_private) {
+          throw new Error(`the bot isn't in private channel ${channelId} — invite it, or read the channel with personal credentials`);
+        }
+        await client.conversations.join({ channel: channelId });
+        console.log(`[SlackReader] Joined ${channelId} to read it`);
+      }
+      botMemberships.add(channelId);
+    },
+  };
+}
+
+/** Reader with the personal xoxc/xoxd credentials, which sees what that user sees (opt-in, e.g. for private channels) */
+export function createPersonalReader(): ChannelReader {
+  return {
+    kind: "personal",
+    client: createPersonalSlackClient(),
+    async ensureAccess(): Promise<void> {},
+  };
+}
+
+/** The Slack error code when `err` means the token was rejected (expired, revoked...), else null */
+export function slackAuthError(err: unknown): string | null {
+  const code = (err as { data?: { error?: string } }).data?.error;
+  return code && AUTH_ERRORS.has(code) ? code : null;
+}
+
+/**
+ * Messages worth summarizing: user posts and file shares, not joins, bot messages and the like.
+ * A reply also sent to the channel is kept in its thread and skipped in the channel history.
+ */
+function isSummarizable(msg: { subtype?: string; ts?: string; text?: string }, inThread = false): boolean {
+  const subtype = !msg.subtype || msg.subtype === "file_share" || (inThread && msg.subtype === "thread_broadcast");
+  return subtype && !!msg.ts && !!msg.text;
+}
+
+/**
+ * Channel messages posted at or after `sinceMs` (epoch ms), oldest first, with the thread replies
+ * posted in that window nested under their parent. Threads started up to `threadLookbackMs` before
+ * the window are included (parent marked `beforeWindow`) when they have replies in it.
+ */
 export async function fetchChannelMessages(
   client: WebClient,
   channelId: string,
-  sinceHours = 24
+  sinceMs: number,
+  threadLookbackMs = 0
 ): Promise<SlackMessage[]> {
-  const oldest = String(Date.now() / 1000 - sinceHours * 3600);
+  const since = sinceMs / 1000;
   const messages: SlackMessage[] = [];
   let cursor: string | undefined;
 
   do {
     const resp = await client.conversations.history({
       channel: channelId,
-      oldest,
+      oldest: String(since - threadLookbackMs / 1000),
       limit: 200,
       cursor,
     });
     for (const msg of resp.messages || []) {
-      if (msg.subtype && msg.subtype !== "file_share") continue;
-      if (!msg.ts || !msg.text) continue;
+      if (!isSummarizable(msg)) continue;
+      const beforeWindow = parseFloat(msg.ts!) < since;
+      const repliesInWindow = (msg.reply_count ?? 0) > 0 && parseFloat(msg.latest_reply ?? "0") >= since;
+      if (beforeWindow && !repliesInWindow) continue;
       messages.push({
-        ts: msg.ts,
+        ts: msg.ts!,
         userId: msg.user || "unknown",
         userName: "",
-        text: msg.text,
+        text: msg.text!,
+        ...(repliesInWindow ? { replies: [] } : {}),
+        ...(beforeWindow ? { beforeWindow } : {}),
       });
     }
     cursor = resp.response_metadata?.next_cursor || undefined;
   } while (cursor);
 
-  // Resolve user names (sender names + @mentions in text)
-  const senderIds = new Set(messages.map((m) => m.userId));
+  for (const parent of messages) {
+    if (!parent.replies) continue;
+    try {
+      const replies = await fetchThreadReplies(client, channelId, parent.ts, String(since));
+      parent.replies = replies
+        .filter((r) => r.ts !== parent.ts && parseFloat(r.ts) >= since && isSummarizable(r, true))
+        .map((r) => ({ ts: r.ts, userId: r.user || "unknown", userName: "", text: r.text }));
+    } catch (err) {
+      // The parent alone still tells something; one failed thread shouldn't lose the channel
+      console.warn(`[SlackReader] Couldn't fetch replies of ${channelId}/${parent.ts}:`, err);
+    }
+  }
+
+  // Resolve user names (sender names + @mentions in text), replies included
+  const all = messages.flatMap((m) => [m, ...(m.replies ?? [])]);
+  const senderIds = new Set(all.map((m) => m.userId));
   const mentionIds = new Set<string>();
-  for (const msg of messages) {
+  for (const msg of all) {
     for (const match of msg.text.matchAll(/<@(U[A-Z0-9]+)>/g)) {
       mentionIds.add(match[1]);
     }
@@ -62,7 +166,7 @@ export async function fetchChannelMessages(
   const allUserIds = [...new Set([...senderIds, ...mentionIds])];
   const names = await resolveUserNames(client, allUserIds);
 
-  for (const msg of messages) {
+  for (const msg of all) {
     msg.userName = names.get(msg.userId) || msg.userId;
     // Replace <@U...> mentions in text with display names
     msg.text = msg.text.replace(/<@(U[A-Z0-9]+)>/g, (_, id: string) => {
@@ -76,7 +180,43 @@ export async function fetchChannelMessages(
   return messages;
 }
 
-async function resolveUserNames(
+/** Messages of a thread, root first (only those after `oldest` when given), following pagination */
+export async function fetchThreadReplies(
+  client: WebClient,
+  channelId: string,
+  threadTs: string,
+  oldest?: string
+): Promise<ThreadReply[]> {
+  const replies: ThreadReply[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const resp = await client.conversations.replies({
+      channel: channelId,
+      ts: threadTs,
+      oldest,
+      limit: 200,
+      cursor,
+    });
+    for (const msg of resp.messages || []) {
+      if (!msg.ts) continue;
+      replies.push({
+        ts: msg.ts,
+        user: msg.user,
+        botId: msg.bot_id,
+        subtype: (msg as { subtype?: string }).subtype,
+        text: msg.text || "",
+        files: (msg as { files?: SlackFile[] }).files,
+      });
+    }
+    cursor = resp.response_metadata?.next_cursor || undefined;
+  } while (cursor);
+
+  return replies;
+}
+
+/** Display names for Slack user IDs (cached; unknown users keep their ID) */
+export async function resolveUserNames(
   client: WebClient,
   userIds: string[]
 ): Promise<Map<string, string>> {
@@ -107,15 +247,46 @@ async function resolveUserNames(
   return result;
 }
 
-export function formatMessagesForSummary(messages: SlackMessage[]): string {
-  return messages
-    .map((m) => {
-      const date = new Date(parseFloat(m.ts) * 1000);
-      // Convert UTC to GMT+7
-      const gmt7 = new Date(date.getTime() + 7 * 60 * 60 * 1000);
-      const hh = String(gmt7.getUTCHours()).padStart(2, "0");
-      const mm = String(gmt7.getUTCMinutes()).padStart(2, "0");
-      return `[${hh}:${mm}] ${m.userName}: ${m.text}`;
-    })
-    .join("\n");
+/**
+ * Messages as "[HH:MM] name: text" in the timezone, or "[Sat Oct 17 HH:MM] ..." with `withDate`
+ * (for windows longer than a day). Thread replies are indented under their parent.
+ */
+export function formatMessagesForSummary(
+  messages: SlackMessage[],
+  timeZone: string,
+  withDate = false
+): string {
+  const formatter = (dated: boolean) =>
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      hour: "2-digit",
+      minute: "2-digit",
+      ...(dated ? { weekday: "short", month: "short", day: "numeric" } : {}),
+    });
+  const timeOnly = formatter(withDate);
+  const dated = formatter(true);
+  const stamp = (ts: string, withDay: boolean): string => {
+    const parts = Object.fromEntries(
+      (withDay ? dated : timeOnly).formatToParts(parseFloat(ts) * 1000).map((p) => [p.type, p.value])
+    );
+    const time = `${parts.hour}:${parts.minute}`;
+    return withDay ? `${parts.weekday} ${parts.month} ${parts.day} ${time}` : time;
+  };
+
+  const lines: string[] = [];
+  for (const m of messages) {
+    // A parent from before the window always shows its date, so it isn't read as today's
+    const earlier = m.beforeWindow ? " (earlier thread)" : "";
+    lines.push(`[${stamp(m.ts, withDate || !!m.beforeWindow)}]${earlier} ${m.userName}: ${m.text}`);
+    if (m.threadSummary) {
+      lines.push(`  ↳ [summary of the thread's replies] ${m.threadSummary.replace(/\n/g, "\n    ")}`);
+      continue;
+    }
+    if (m.omittedReplies) lines.push(`  ↳ … ${m.omittedReplies} earlier replies omitted …`);
+    for (const r of m.replies ?? []) {
+      lines.push(`  ↳ [${stamp(r.ts, withDate)}] ${r.userName}: ${r.text}`);
+    }
+  }
+  return lines.join("\n");
 }
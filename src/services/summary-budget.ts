@@ -0,0 +1,108 @@
+import { config } from "../config.js";
+import { spawnDiscussCli } from "./claude-cli.js";
+import { formatMessagesForSummary, type SlackMessage } from "./slack-reader.js";
+
+/** Rough estimate that holds well enough for English chat and code */
+const CHARS_PER_TOKEN = 4;
+/** Timestamp, name and indentation around each message */
+const LINE_OVERHEAD_TOKENS = 8;
+/** Single messages (pasted logs, stack traces) are cut to this many characters */
+const MESSAGE_MAX_LENGTH = 4000;
+
+export interface BudgetedMessages {
+  messages: SlackMessage[];
+  /** Oldest top-level messages (with their threads) dropped to fit the budget */
+  omitted: number;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + LINE_OVERHEAD_TOKENS;
+}
+
+function threadTokens(message: SlackMessage): number {
+  if (message.threadSummary) return estimateTokens(message.threadSummary);
+  return (message.replies ?? []).reduce((sum, r) => sum + estimateTokens(r.text), 0);
+}
+
+function messageTokens(message: SlackMessage): number {
+  return estimateTokens(message.text) + threadTokens(message);
+}
+
+function truncateText(text: string): string {
+  return text.length > MESSAGE_MAX_LENGTH ? `${text.slice(0, MESSAGE_MAX_LENGTH)}… [truncated]` : text;
+}
+
+/** Keep the latest replies that fit; decisions and outcomes tend to come at the end of a thread */
+function truncateThread(message: SlackMessage, maxTokens: number): void {
+  const replies = message.replies ?? [];
+  let kept = 0;
+  let used = 0;
+  while (kept < replies.length) {
+    const cost = estimateTokens(replies[replies.length - 1 - kept].text);
+    if (used + cost > maxTokens) break;
+    used += cost;
+    kept++;
+  }
+  message.omittedReplies = (message.omittedReplies ?? 0) + replies.length - kept;
+  message.replies = replies.slice(replies.length - kept);
+}
+
+/** Condense a thread with a cheaper model; null when that fails (the caller truncates instead) */
+async function summarizeThread(message: SlackMessage, channelId: string, timeZone: string): Promise<string | null> {
+  // Even the pre-summary has to fit the model's context
+  const thread: SlackMessage = { ...message, beforeWindow: false };
+  truncateThread(thread, config.dailySummaryMaxInputTokens);
+  const prompt = `Summarize this Slack thread in a few bullet points: what was discussed, decisions, action items with owners, open questions, and any links shared.
+Keep the times (HH:MM) of key events. Be concise.
+
+<thread>
+${formatMessagesForSummary([thread], timeZone, true)}
+</thread>
+
+IMPORTANT: Do NOT send any Slack messages. Only return the summary text.`;
+
+  const { done } = spawnDiscussCli(prompt, config.paymentsRepoPath, {
+    model: config.dailySummaryThreadSummaryModel,
+    ledger: { workflowType: "daily_summary", channelId, threadTs: message.ts },
+  });
+  const result = await done;
+  if (result.exitCode === 0 && result.response) return result.response.trim();
+  console.warn(`[SummaryBudget] Couldn't pre-summarize thread ${message.ts} (exit: ${result.exitCode}), truncating it`);
+  return null;
+}
+
+/**
+ * Fit a channel's messages into DAILY_SUMMARY_MAX_INPUT_TOKENS. Long messages are cut, threads over
+ * DAILY_SUMMARY_THREAD_MAX_TOKENS are pre-summarized (with DAILY_SUMMARY_THREAD_SUMMARY_MODEL) or
+ * truncated to their latest replies, and if the channel is still too big its oldest messages are dropped.
+ * Mutates and returns the messages.
+ */
+export async function fitToTokenBudget(messages: SlackMessage[], channelId: string, timeZone: string): Promise<BudgetedMessages> {
+  for (const m of messages) {
+    m.text = truncateText(m.text);
+    for (const r of m.replies ?? []) r.text = truncateText(r.text);
+  }
+
+  const threadMax = config.dailySummaryThreadMaxTokens;
+  for (const m of messages) {
+    if (threadTokens(m) <= threadMax) continue;
+    const summary = config.dailySummaryThreadSummaryModel ? await summarizeThread(m, channelId, timeZone) : null;
+    if (summary) {
+      m.threadSummary = truncateText(summary);
+      m.replies = [];
+    } else {
+      truncateThread(m, threadMax);
+    }
+  }
+
+  let total = messages.reduce((sum, m) => sum + messageTokens(m), 0);
+  let omitted = 0;
+  while (total > config.dailySummaryMaxInputTokens && messages.length > 1) {
+    total -= messageTokens(messages.shift()!);
+    omitted++;
+  }
+  if (omitted > 0) {
+    console.log(`[SummaryBudget] Dropped the ${omitted} oldest message(s) of ${channelId} to fit ${config.dailySummaryMaxInputTokens} tokens`);
+  }
+  return { messages, omitted };
+}
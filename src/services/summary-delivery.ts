@@ -0,0 +1,129 @@
+import { config } from "../config.js";
+import { getDigestParent, setDigestParent, deleteDigestParent } from "./database.js";
+import { callSlack, postMessage } from "./slack-gateway.js";
+import { chunkResponse } from "./response-renderer.js";
+
+const DIGEST_PARENT_TEXT = ":newspaper: *Daily digest* — channel summaries are posted in this thread.";
+
+/** Errors meaning the stored digest parent is gone (deleted, or the channel was recreated) */
+const MISSING_THREAD_ERRORS = new Set(["thread_not_found", "message_not_found", "invalid_thread_ts"]);
+
+/**
+ * Post text in Slack-sized chunks: the first to the channel (or thread), the rest as replies to it.
+ * Returns the first message's ts.
+ */
+async function postChunked(channel: string, text: string, threadTs?: string): Promise<string | undefined> {
+  const [first, ...rest] = chunkResponse(text);
+  const res = await postMessage({
+    channel,
+    text: first,
+    ...(threadTs ? { thread_ts: threadTs } : {}),
+    unfurl_links: false,
+    unfurl_media: false,
+  });
+  for (const chunk of rest) {
+    await postMessage({
+      channel,
+      text: chunk,
+      thread_ts: threadTs ?? res.ts,
+      unfurl_links: false,
+      unfurl_media: false,
+    });
+  }
+  return res.ts;
+}
+
+/** The channel's pinned digest parent, posted (and pinned) on first use */
+async function digestParent(channelId: string): Promise<string> {
+  const existing = getDigestParent(channelId);
+  if (existing) return existing;
+
+  const { ts } = await postMessage({ channel: channelId, text: DIGEST_PARENT_TEXT });
+  if (!ts) throw new Error(`couldn't post the digest parent in ${channelId}`);
+  try {
+    await callSlack("pins.add", (client) => client.pins.add({ channel: channelId, timestamp: ts }));
+  } catch (err) {
+    // Still usable as a thread; pinning needs the pins:write scope
+    console.warn(`[SummaryDelivery] Couldn't pin the digest parent in ${channelId}:`, err);
+  }
+  setDigestParent(channelId, ts);
+  console.log(`[SummaryDelivery] Started a digest thread in ${channelId} (${ts})`);
+  return ts;
+}
+
+async function postToDigest(channelId: string, text: string): Promise<void> {
+  const parentTs = await digestParent(channelId);
+  try {
+    await postChunked(channelId, text, parentTs);
+  } catch (err) {
+    const code = (err as { data?: { error?: string } }).data?.error;
+    if (!code || !MISSING_THREAD_ERRORS.has(code)) throw err;
+    console.warn(`[SummaryDelivery] Digest parent ${parentTs} in ${channelId} is gone (${code}), starting a new one`);
+    deleteDigestParent(channelId);
+    await postChunked(channelId, text, await digestParent(channelId));
+  }
+}
+
+/** Slack mrkdwn (as the summaries are written) to the Markdown canvases use */
+function mrkdwnToMarkdown(text: string): string {
+  return text
+    .replace(/<(https?:[^|>]+)\|([^>]+)>/g, "[$2]($1)")
+    .replace(/<(https?:[^>]+)>/g, "$1")
+    .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,:;!?])/gm, "$1**$2**")
+    .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,:;!?])/gm, "$1~~$2~~");
+}
+
+/** Newest summary first, under its own heading */
+async function prependToCanvas(canvasId: string, title: string, text: string): Promise<void> {
+  await callSlack("canvases.edit", (client) =>
+    client.canvases.edit({
+      canvas_id: canvasId,
+      changes: [
+        {
+          operation: "insert_at_start",
+          document_content: { type: "markdown", markdown: `## ${title}\n\n${mrkdwnToMarkdown(text)}\n\n---\n` },
+        },
+      ],
+    })
+  );
+}
+
+async function deliverTo(target: string, title: string, text: string): Promise<void> {
+  const split = target.indexOf(":");
+  const kind = target.slice(0, split);
+  const id = target.slice(split + 1);
+  switch (kind) {
+    case "dm":
+      await postChunked(id === "owner" ? config.ownerUserId : id, text);
+      return;
+    case "channel":
+      await postChunked(id, text);
+      return;
+    case "digest":
+      await postToDigest(id, `*${title}*\n\n${text}`);
+      return;
+    case "canvas":
+      await prependToCanvas(id, title, text);
+      return;
+    default:
+      throw new Error(`unknown summary target "${target}"`);
+  }
+}
+
+/**
+ * Deliver a summary to each target (DAILY_SUMMARY_TARGETS format). A failing target doesn't stop
+ * the others; throws only when no target got the summary.
+ */
+export async function deliverSummary(targets: string[], title: string, text: string): Promise<void> {
+  let delivered = 0;
+  for (const target of targets) {
+    try {
+      await deliverTo(target, title, text);
+      delivered++;
+    } catch (err) {
+      console.error(`[SummaryDelivery] Failed to deliver "${title}" to ${target}:`, err);
+    }
+  }
+  if (delivered === 0) throw new Error(`"${title}" couldn't be delivered to any of ${targets.join(", ")}`);
+  console.log(`[SummaryDelivery] Delivered "${title}" to ${delivered}/${targets.length} target(s)`);
+}
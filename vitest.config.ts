@@ -0,0 +1,15 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    // config.ts validates the environment on import; tests never talk to Slack
+    env: {
+      SLACK_BOT_TOKEN: "xoxb-test",
+      SLACK_APP_TOKEN: "xapp-test",
+      SLACK_SIGNING_SECRET: "test-signing-secret",
+      OWNER_USER_ID: "UOWNER",
+      PAYMENTS_REPO_PATH: "/tmp",
+    },
+  },
+});